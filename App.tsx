@@ -2,10 +2,13 @@ import React, {useEffect} from 'react';
 import {
   NavigationContainer,
   NavigationProp,
+  createNavigationContainerRef,
   useNavigation,
 } from '@react-navigation/native';
 import {createNativeStackNavigator} from '@react-navigation/native-stack';
 import axios from 'axios';
+import {authService} from './src/api/services/authService';
+import authSession from './src/api/authSession';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import {SafeAreaProvider} from 'react-native-safe-area-context';
 
@@ -23,7 +26,15 @@ import MyPage from './src/components/MyPage';
 import BusSchedulePage from './src/pages/BusSchedulePage';
 import EventPage from './src/pages/EventPage';
 import RewardDrawPage from './src/pages/RewardDrawPage';
+import DevSettingsPage from './src/pages/DevSettingsPage';
+import MyTripsPage from './src/pages/MyTripsPage';
+import TripDetailPage from './src/pages/TripDetailPage';
+import ArrivalAlertSettingsPage from './src/pages/ArrivalAlertSettingsPage';
 import { GlobalWebSocketProvider } from './src/providers/globalWebSocketProvider'; // 수정된 경로
+import { registerUserDataCleanup } from './src/services/userDataCleanup';
+import notificationService from './src/services/notificationService';
+import notifeePresenter from './src/services/notifeePresenter';
+import { DEV_SETTINGS_ENABLED } from './src/config/environment';
 
 // 네비게이션 타입 정의
 export type RootStackParamList = {
@@ -39,6 +50,10 @@ export type RootStackParamList = {
   BusSchedule: undefined; // Added BusSchedule to the type definition
   Event: undefined; // 이벤트 페이지
   RewardDraw: {eventId: string}; // 랜덤 뽑기 페이지
+  DevSettings: undefined; // 숨겨진 개발자 설정 페이지
+  MyTrips: undefined; // 내 이동 기록
+  TripDetail: {tripId: string}; // 이동 기록 상세
+  ArrivalAlertSettings: undefined; // 즐겨찾기 정류장 도착 알림 설정
   Admin: undefined;
   AdminBusStation: undefined;
   AdminBusStationCreate: undefined;
@@ -50,6 +65,9 @@ export type RootStackParamList = {
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+// 컴포넌트 밖(세션 만료 등)에서 화면 이동을 하기 위한 네비게이션 ref
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
 // Axios 인터셉터 설정
 axios.interceptors.request.use(
   async config => {
@@ -69,12 +87,29 @@ axios.interceptors.request.use(
 );
 
 const App = () => {
+  // 로그아웃, 회원탈퇴, 세션 만료 시 이전 사용자 데이터 삭제
+  useEffect(() => registerUserDataCleanup(), []);
+
+  // 백그라운드 알림을 시스템 알림으로 띄우도록 연결
+  useEffect(() => {
+    notificationService.setPresenter(notifeePresenter);
+    return () => notificationService.setPresenter(null);
+  }, []);
+
+  // 세션 만료 시 어느 화면에 있든 로그인 화면으로 이동
+  useEffect(() => {
+    return authSession.onSessionExpired(() => {
+      if (!navigationRef.isReady()) return;
+      Alert.alert('로그인 만료', '로그인이 만료되었습니다. 다시 로그인해주세요.');
+      navigationRef.reset({index: 0, routes: [{name: 'Login'}]});
+    });
+  }, []);
 
   return (
       <SafeAreaProvider>
           <ToastProvider>
             <GlobalWebSocketProvider>
-          <NavigationContainer>
+          <NavigationContainer ref={navigationRef}>
           <Stack.Navigator
             initialRouteName="Login"
             screenOptions={{
@@ -104,6 +139,33 @@ const App = () => {
                 headerShown: false,
               }}
             />
+            {DEV_SETTINGS_ENABLED && (
+              <Stack.Screen name="DevSettings" component={DevSettingsPage} />
+            )}
+            <Stack.Screen
+              name="MyTrips"
+              component={MyTripsPage}
+              options={{
+                title: '내 이동 기록',
+                headerShown: true,
+              }}
+            />
+            <Stack.Screen
+              name="TripDetail"
+              component={TripDetailPage}
+              options={{
+                title: '이동 상세',
+                headerShown: true,
+              }}
+            />
+            <Stack.Screen
+              name="ArrivalAlertSettings"
+              component={ArrivalAlertSettingsPage}
+              options={{
+                title: '도착 알림',
+                headerShown: true,
+              }}
+            />
             <Stack.Screen
               name="BusRoute"
               component={BusRoutePage}
@@ -147,10 +209,8 @@ export const withAdmin = (WrappedComponent: React.ComponentType) => {
     useEffect(() => {
       const checkAdminAuth = async () => {
         try {
-          const response = await axios.get(
-            'http://localhost:8088/api/auth/user',
-          );
-          if (response.data?.role !== 'ADMIN') {
+          const userInfo = await authService.getUserInfo();
+          if (userInfo?.role !== 'ADMIN') {
             Alert.alert('권한 없음', '관리자 권한이 필요합니다.');
             navigation.goBack();
           }
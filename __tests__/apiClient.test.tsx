@@ -0,0 +1,54 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it, jest} from '@jest/globals';
+import {unwrapEnvelope} from '../src/api/apiClient';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const station = {id: 's1', name: '정문'};
+
+describe('unwrapEnvelope', () => {
+  it('봉투를 벗겨 데이터를 돌려준다', () => {
+    expect(unwrapEnvelope({data: [station], message: 'success'})).toEqual([
+      station,
+    ]);
+    expect(
+      unwrapEnvelope({
+        data: station,
+        code: 200,
+        status: 'OK',
+        success: true,
+        timestamp: '2024-01-01T00:00:00',
+      }),
+    ).toEqual(station);
+  });
+
+  it('이중으로 감싸진 응답도 벗긴다', () => {
+    expect(
+      unwrapEnvelope({
+        data: {data: [station], message: 'success'},
+        message: 'success',
+      }),
+    ).toEqual([station]);
+  });
+
+  it('봉투가 없으면 본문을 그대로 돌려준다', () => {
+    expect(unwrapEnvelope([station])).toEqual([station]);
+    expect(unwrapEnvelope('ok')).toBe('ok');
+    expect(unwrapEnvelope(null)).toBeNull();
+  });
+
+  it('data 필드를 가진 도메인 객체는 봉투로 보지 않는다', () => {
+    // data만 있거나 봉투에 없는 필드가 섞인 경우
+    const onlyData = {data: station};
+    const domain = {id: 'notice-1', data: station, message: '공지'};
+
+    expect(unwrapEnvelope(onlyData)).toBe(onlyData);
+    expect(unwrapEnvelope(domain)).toBe(domain);
+    expect(unwrapEnvelope({data: domain, message: 'success'})).toBe(domain);
+  });
+});
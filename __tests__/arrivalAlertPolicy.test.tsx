@@ -0,0 +1,177 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  ETA_EXPIRY_GRACE_SECONDS,
+  getRemainingSeconds,
+  parseEta,
+} from '../src/api/eta';
+import type {ArrivalAlertRule} from '../src/store/useArrivalAlertStore';
+import {
+  ArrivalCandidate,
+  MIN_APPROACH_M,
+  NEAR_STATION_BUS_RADIUS_M,
+  WEEKDAYS,
+  findAlertCandidate,
+  formatDays,
+  isQuietTime,
+  isRuleActive,
+  isWithinWindow,
+} from '../src/services/arrivalAlertPolicy';
+
+const rule = (changes: Partial<ArrivalAlertRule> = {}): ArrivalAlertRule => ({
+  id: 'rule-1',
+  stationId: 'main-gate',
+  stationName: '정문',
+  latitude: 37.5,
+  longitude: 127,
+  busNumber: null,
+  busRealNumber: null,
+  minutesBefore: 5,
+  days: WEEKDAYS,
+  window: {startMinute: 8 * 60, endMinute: 9 * 60},
+  enabled: true,
+  createdAt: 0,
+  ...changes,
+});
+
+const candidate = (
+  changes: Partial<ArrivalCandidate> = {},
+): ArrivalCandidate => ({
+  busNumber: 'A1',
+  busRealNumber: '101',
+  remainingSeconds: null,
+  distanceMeters: null,
+  previousDistanceMeters: null,
+  ...changes,
+});
+
+// 2024-06-03은 월요일, 2024-06-08은 토요일 (기기 현지 시간)
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2024, 5, day, hours, minutes);
+
+describe('arrivalAlertPolicy', () => {
+  it('matches time windows, including ones that cross midnight', () => {
+    const morning = {startMinute: 8 * 60, endMinute: 9 * 60};
+    expect(isWithinWindow(morning, 8 * 60)).toBe(true);
+    expect(isWithinWindow(morning, 9 * 60)).toBe(false);
+
+    const night = {startMinute: 23 * 60, endMinute: 7 * 60};
+    expect(isWithinWindow(night, 23 * 60 + 30)).toBe(true);
+    expect(isWithinWindow(night, 6 * 60)).toBe(true);
+    expect(isWithinWindow(night, 12 * 60)).toBe(false);
+  });
+
+  it('activates rules only on their days and within their window', () => {
+    expect(isRuleActive(rule(), at(3, 8, 30))).toBe(true);
+    expect(isRuleActive(rule(), at(3, 9, 30))).toBe(false);
+    expect(isRuleActive(rule(), at(8, 8, 30))).toBe(false);
+    expect(isRuleActive(rule({enabled: false}), at(3, 8, 30))).toBe(false);
+  });
+
+  it('uses the start day for windows that cross midnight', () => {
+    const fridayNight = rule({
+      days: [5],
+      window: {startMinute: 23 * 60, endMinute: 1 * 60},
+    });
+    // 토요일 00:30은 금요일 밤 시간대
+    expect(isRuleActive(fridayNight, at(8, 0, 30))).toBe(true);
+    // 금요일 00:30은 목요일 밤 시간대
+    expect(isRuleActive(fridayNight, at(7, 0, 30))).toBe(false);
+  });
+
+  it('suppresses alerts during enabled quiet hours', () => {
+    const window = {startMinute: 22 * 60, endMinute: 7 * 60};
+    expect(isQuietTime({enabled: true, window}, at(3, 6))).toBe(true);
+    expect(isQuietTime({enabled: false, window}, at(3, 6))).toBe(false);
+    expect(isQuietTime({enabled: true, window}, at(3, 8))).toBe(false);
+  });
+
+  it('picks the earliest bus due within the rule minutes', () => {
+    const found = findAlertCandidate(rule(), [
+      candidate({busNumber: 'A1', remainingSeconds: 240}),
+      candidate({busNumber: 'A2', remainingSeconds: 90}),
+      candidate({busNumber: 'A3', remainingSeconds: 600}),
+    ]);
+    expect(found?.busNumber).toBe('A2');
+    expect(
+      findAlertCandidate(rule(), [candidate({remainingSeconds: 301})]),
+    ).toBeNull();
+  });
+
+  it('treats a live bus approaching the station as arriving', () => {
+    const found = findAlertCandidate(rule(), [
+      candidate({
+        remainingSeconds: null,
+        distanceMeters: NEAR_STATION_BUS_RADIUS_M - 1,
+        previousDistanceMeters: NEAR_STATION_BUS_RADIUS_M + 100,
+      }),
+    ]);
+    expect(found?.busNumber).toBe('A1');
+    // 도착 예정 시간이 남아 있으면 늦게 갱신된 추정보다 위치를 믿음
+    expect(
+      findAlertCandidate(rule(), [
+        candidate({remainingSeconds: 600, distanceMeters: 100}),
+      ]),
+    ).not.toBeNull();
+  });
+
+  it('ignores buses near the station that have passed it or are not moving', () => {
+    // 방금 지나가 멀어지는 버스 (도착 예정 시간은 만료되어 알 수 없음)
+    const passed = candidate({
+      remainingSeconds: null,
+      distanceMeters: 120,
+      previousDistanceMeters: 40,
+    });
+    // 정류장 옆 차고지에 서 있는 버스 (GPS가 조금 흔들림)
+    const parked = candidate({
+      busNumber: 'A2',
+      remainingSeconds: null,
+      distanceMeters: 80,
+      previousDistanceMeters: 80 + MIN_APPROACH_M - 1,
+    });
+    // 위치 보고가 한 번뿐이라 다가오는지 알 수 없는 버스
+    const unknown = candidate({
+      busNumber: 'A3',
+      remainingSeconds: null,
+      distanceMeters: 80,
+    });
+
+    expect(findAlertCandidate(rule(), [passed, parked, unknown])).toBeNull();
+  });
+
+  it('does not alert on estimates whose arrival time has long passed', () => {
+    const eta = parseEta('2분', 'arrival-estimate', 0);
+    const after = (seconds: number) =>
+      candidate({remainingSeconds: getRemainingSeconds(eta, seconds * 1000)});
+
+    // 도착 시각 직후에는 곧 도착
+    expect(findAlertCandidate(rule(), [after(120)])).not.toBeNull();
+    // 새 정보 없이 더 지나면 알 수 없는 추정으로 보고 알리지 않음
+    expect(
+      after(120 + ETA_EXPIRY_GRACE_SECONDS + 1).remainingSeconds,
+    ).toBeNull();
+    expect(
+      findAlertCandidate(rule(), [after(120 + ETA_EXPIRY_GRACE_SECONDS + 1)]),
+    ).toBeNull();
+  });
+
+  it('only considers the chosen bus for bus-specific rules', () => {
+    const candidates = [
+      candidate({busNumber: 'A1', remainingSeconds: 60}),
+      candidate({busNumber: 'A2', remainingSeconds: 120}),
+    ];
+    expect(
+      findAlertCandidate(rule({busNumber: 'A2'}), candidates)?.busNumber,
+    ).toBe('A2');
+    expect(findAlertCandidate(rule({busNumber: 'B9'}), candidates)).toBeNull();
+  });
+
+  it('describes common day sets', () => {
+    expect(formatDays(WEEKDAYS)).toBe('평일');
+    expect(formatDays([6, 0])).toBe('주말');
+    expect(formatDays([5, 1, 3])).toBe('월·수·금');
+  });
+});
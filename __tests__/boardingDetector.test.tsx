@@ -0,0 +1,207 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  BoardingDetector,
+  BoardingInference,
+  BoardingSuspicion,
+} from '../src/services/boardingDetector';
+import traces from './fixtures/gpsTraces.json';
+
+// [위도, 경도, 시각(ms)]
+type RecordedPoint = number[];
+
+interface RecordedTrace {
+  description: string;
+  buses: Record<string, RecordedPoint[]>;
+  user: RecordedPoint[];
+}
+
+interface ReplayResult {
+  timestamp: number;
+  inference: BoardingInference;
+}
+
+const toTrackPoint = ([latitude, longitude, timestamp]: RecordedPoint) => ({
+  latitude,
+  longitude,
+  timestamp,
+});
+
+/**
+ * 기록된 버스/사용자 위치를 시각 순서대로 감지기에 넣고,
+ * 사용자 위치가 들어올 때마다 추정한 결과를 모읍니다.
+ */
+const replay = (
+  trace: RecordedTrace,
+  boardedBusNumber: string | null = null,
+): ReplayResult[] => {
+  const detector = new BoardingDetector();
+  const events = [
+    ...Object.entries(trace.buses).flatMap(([busNumber, points]) =>
+      points.map(point => ({busNumber, point})),
+    ),
+    ...trace.user.map(point => ({busNumber: null, point})),
+  ].sort((a, b) => a.point[2] - b.point[2]);
+
+  const results: ReplayResult[] = [];
+  events.forEach(({busNumber, point}) => {
+    if (busNumber) {
+      detector.addBusPoint(busNumber, toTrackPoint(point));
+      return;
+    }
+    detector.addUserPoint(toTrackPoint(point));
+    const inference = detector.evaluate(boardedBusNumber);
+    if (inference) {
+      results.push({timestamp: point[2], inference});
+    }
+  });
+  return results;
+};
+
+interface SuspicionSample {
+  timestamp: number;
+  suspicion: BoardingSuspicion | null;
+  inference: BoardingInference | null;
+}
+
+// replay와 같은 순서로 넣으면서 사용자 위치마다 조짐과 추정 결과를 함께 기록
+const replaySuspicions = (
+  trace: RecordedTrace,
+  boardedBusNumber: string | null = null,
+): SuspicionSample[] => {
+  const detector = new BoardingDetector();
+  const events = [
+    ...Object.entries(trace.buses).flatMap(([busNumber, points]) =>
+      points.map(point => ({busNumber, point})),
+    ),
+    ...trace.user.map(point => ({busNumber: null, point})),
+  ].sort((a, b) => a.point[2] - b.point[2]);
+
+  const samples: SuspicionSample[] = [];
+  events.forEach(({busNumber, point}) => {
+    if (busNumber) {
+      detector.addBusPoint(busNumber, toTrackPoint(point));
+      return;
+    }
+    detector.addUserPoint(toTrackPoint(point));
+    samples.push({
+      timestamp: point[2],
+      suspicion: detector.getSuspicion(boardedBusNumber),
+      inference: detector.evaluate(boardedBusNumber),
+    });
+  });
+  return samples;
+};
+
+describe('BoardingDetector', () => {
+  it('detects boarding the bus the user rides away with', () => {
+    const results = replay(traces.ride);
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[0].inference).toMatchObject({
+      type: 'boarded',
+      busNumber: '101',
+    });
+    expect(results.every(({inference}) => inference.busNumber === '101')).toBe(
+      true,
+    );
+  });
+
+  it('waits for enough co-moving samples before proposing boarding', () => {
+    const [first] = replay(traces.ride);
+    const busDepartedAt = traces.ride.buses['101'][10][2];
+
+    // 버스가 출발하고 최소 세 구간(약 30초)을 함께 움직인 뒤에 추정
+    expect(first.timestamp - busDepartedAt).toBeGreaterThanOrEqual(30000);
+    expect(first.inference.confidence).toBeGreaterThan(0);
+    expect(first.inference.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('does not mistake walking next to a slow bus for boarding', () => {
+    expect(replay(traces.walkAlongside)).toEqual([]);
+  });
+
+  it('holds off when several buses move together', () => {
+    expect(replay(traces.bunchedBuses)).toEqual([]);
+
+    // 한 대만 있었다면 탑승으로 추정했을 구간
+    const [first] = replay({
+      ...traces.bunchedBuses,
+      buses: {'101': traces.bunchedBuses.buses['101']},
+    });
+    expect(first.inference.busNumber).toBe('101');
+  });
+
+  it('does not guess when bus positions arrive too rarely', () => {
+    expect(replay(traces.flakyBusFeed)).toEqual([]);
+  });
+
+  it('detects alighting after the user stays away from the boarded bus', () => {
+    const results = replay(traces.alight, '101');
+    const lastRideSampleAt = traces.alight.user[6][2];
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results[0].inference).toMatchObject({
+      type: 'alighted',
+      busNumber: '101',
+    });
+    expect(results[0].timestamp).toBeGreaterThan(lastRideSampleAt);
+  });
+
+  it('does not report alighting while riding', () => {
+    const results = replay(traces.ride, '101').filter(
+      ({timestamp}) => timestamp > traces.ride.buses['101'][10][2],
+    );
+
+    expect(results).toEqual([]);
+  });
+
+  it('reports a boarding suspicion before the boarding inference', () => {
+    const samples = replaySuspicions(traces.ride);
+    const firstSuspicion = samples.find(({suspicion}) => suspicion !== null);
+    const firstInference = samples.find(({inference}) => inference !== null);
+
+    expect(firstSuspicion?.suspicion).toMatchObject({
+      type: 'boarding',
+      busNumber: '101',
+    });
+    expect(firstInference).toBeDefined();
+    expect(firstSuspicion!.timestamp).toBeLessThan(firstInference!.timestamp);
+    // 추정 결과가 나오면 조짐으로는 더 알리지 않음
+    expect(firstInference!.suspicion).toBeNull();
+  });
+
+  it('reports an alighting suspicion before the alighting inference', () => {
+    const samples = replaySuspicions(traces.alight, '101');
+    const lastRideSampleAt = traces.alight.user[6][2];
+    const firstSuspicion = samples.find(({suspicion}) => suspicion !== null);
+    const firstInference = samples.find(({inference}) => inference !== null);
+
+    expect(firstSuspicion?.suspicion).toMatchObject({
+      type: 'alighting',
+      busNumber: '101',
+    });
+    expect(firstSuspicion!.timestamp).toBeGreaterThan(lastRideSampleAt);
+    expect(firstSuspicion!.timestamp).toBeLessThan(firstInference!.timestamp);
+  });
+
+  it('ignores out-of-order points and forgets the user track on reset', () => {
+    const detector = new BoardingDetector();
+    traces.ride.buses['101'].forEach(point =>
+      detector.addBusPoint('101', toTrackPoint(point)),
+    );
+    traces.ride.user.forEach(point =>
+      detector.addUserPoint(toTrackPoint(point)),
+    );
+    expect(detector.evaluate(null)?.busNumber).toBe('101');
+
+    detector.addUserPoint(toTrackPoint(traces.ride.user[0]));
+    expect(detector.evaluate(null)?.busNumber).toBe('101');
+
+    detector.resetUserTrack();
+    expect(detector.evaluate(null)).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {getDistanceMeters} from '../src/api/geo';
+import {
+  MAX_DEAD_RECKONING_MS,
+  STALE_AFTER_MS,
+  addFix,
+  createTrack,
+  estimatePosition,
+} from '../src/services/busMotionModel';
+
+// 위도 0.0001도 ≈ 11m
+const START = {latitude: 37.5, longitude: 127.0};
+const north = (meters: number) => ({
+  latitude: START.latitude + meters / 111195,
+  longitude: START.longitude,
+});
+
+const trackMovingNorth = () =>
+  addFix(createTrack('A1', {...START, timestamp: 0}), {
+    ...north(50),
+    timestamp: 5000,
+  });
+
+const distanceFromStart = (position: {latitude: number; longitude: number}) =>
+  getDistanceMeters(
+    START.latitude,
+    START.longitude,
+    position.latitude,
+    position.longitude,
+  );
+
+describe('busMotionModel', () => {
+  it('새 보고를 받으면 보이던 위치에서 보고 간격 동안 옮긴다', () => {
+    const track = trackMovingNorth();
+
+    expect(track.heading).toBeCloseTo(0, 0);
+    expect(track.speedMps).toBeCloseTo(10, 0);
+    expect(distanceFromStart(estimatePosition(track, 5000))).toBeCloseTo(0, 0);
+    expect(distanceFromStart(estimatePosition(track, 7500))).toBeCloseTo(25, 0);
+    expect(estimatePosition(track, 7500).isMoving).toBe(true);
+  });
+
+  it('다음 보고가 늦으면 속도와 방향으로 잠시 더 움직이고 멈춘다', () => {
+    const track = trackMovingNorth();
+
+    // 구간 끝(10초) + 2초 → 50m + 20m
+    expect(distanceFromStart(estimatePosition(track, 12000))).toBeCloseTo(
+      70,
+      0,
+    );
+
+    const capped = estimatePosition(
+      track,
+      10000 + MAX_DEAD_RECKONING_MS + 5000,
+    );
+    expect(distanceFromStart(capped)).toBeCloseTo(150, 0);
+    expect(capped.isMoving).toBe(false);
+  });
+
+  it('오래 보고가 없으면 마지막 위치에 두고 오래된 위치로 표시한다', () => {
+    const track = trackMovingNorth();
+    const estimate = estimatePosition(track, 5000 + STALE_AFTER_MS + 1);
+
+    expect(estimate.isStale).toBe(true);
+    expect(distanceFromStart(estimate)).toBeCloseTo(50, 0);
+  });
+
+  it('같은 위치를 다시 받으면 새 보고로 보지 않는다', () => {
+    const track = trackMovingNorth();
+    // 전체 목록 동기화가 마지막 보고와 같은 좌표를 다시 넣음
+    const resent = addFix(track, {...north(50), timestamp: 7500});
+
+    expect(resent).toBe(track);
+    expect(distanceFromStart(estimatePosition(resent, 7500))).toBeCloseTo(
+      25,
+      0,
+    );
+
+    // 보고가 끊긴 버스는 동기화가 반복되어도 오래된 위치로 남음
+    const stale = addFix(track, {
+      ...north(50),
+      timestamp: 5000 + STALE_AFTER_MS + 1000,
+    });
+    expect(estimatePosition(stale, 5000 + STALE_AFTER_MS + 1000).isStale).toBe(
+      true,
+    );
+  });
+
+  it('GPS가 튀면 애니메이션 없이 바로 옮긴다', () => {
+    const track = addFix(trackMovingNorth(), {
+      ...north(5000),
+      timestamp: 10000,
+    });
+
+    expect(distanceFromStart(estimatePosition(track, 10000))).toBeCloseTo(
+      5000,
+      0,
+    );
+    expect(track.speedMps).toBe(0);
+  });
+
+  it('노선 경로가 있으면 경로 위로 붙이고 방향도 경로를 따른다', () => {
+    // 북쪽으로 달리는 버스 옆 10m 동쪽에 남→북 방향 경로
+    const eastOffset =
+      10 / (111195 * Math.cos((START.latitude * Math.PI) / 180));
+    const path = [
+      {latitude: START.latitude, longitude: START.longitude + eastOffset},
+      {latitude: north(200).latitude, longitude: START.longitude + eastOffset},
+    ];
+    const estimate = estimatePosition(trackMovingNorth(), 10000, path);
+
+    expect(estimate.longitude).toBeCloseTo(START.longitude + eastOffset, 7);
+    expect(estimate.heading).toBeCloseTo(0, 0);
+
+    // 경로에서 멀면 붙이지 않음
+    const farPath = path.map(point => ({
+      ...point,
+      longitude: point.longitude + eastOffset * 10,
+    }));
+    expect(
+      estimatePosition(trackMovingNorth(), 10000, farPath).longitude,
+    ).toBeCloseTo(START.longitude, 7);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import type {BusStationDetail} from '../src/api/services/busService';
+import {
+  getDestinationAlertLevel,
+  getRemainingStops,
+  isCloserAlertLevel,
+} from '../src/services/destinationProgress';
+
+// 순서대로 정류장 A~F, currentIndex번째 정류장으로 버스가 향하는 중
+const makeStations = (currentIndex: number): BusStationDetail[] =>
+  ['A', 'B', 'C', 'D', 'E', 'F'].map((id, index) => ({
+    id,
+    name: `${id} 정류장`,
+    location: {latitude: 37.5, longitude: 127},
+    organizationId: 'org',
+    isPassed: index < currentIndex,
+    isCurrentStation: index === currentIndex,
+    estimatedArrivalTime: null,
+    eta: {
+      seconds: null,
+      isUnknown: true,
+      confidence: 'none',
+      source: 'station-detail',
+      computedAt: 0,
+    },
+    sequence: index,
+    currentStation: index === currentIndex,
+    passed: index < currentIndex,
+  }));
+
+describe('destinationProgress', () => {
+  it('counts the stops left including the destination', () => {
+    expect(getRemainingStops(makeStations(1), 'E')).toBe(4);
+    expect(getRemainingStops(makeStations(3), 'E')).toBe(2);
+    expect(getRemainingStops(makeStations(4), 'E')).toBe(1);
+    expect(getRemainingStops(makeStations(5), 'E')).toBe(0);
+  });
+
+  it('sorts stations by sequence before counting', () => {
+    const shuffled = makeStations(3).reverse();
+    expect(getRemainingStops(shuffled, 'E')).toBe(2);
+  });
+
+  it('returns null when the destination or the bus cannot be found', () => {
+    expect(getRemainingStops(makeStations(1), 'Z')).toBeNull();
+    expect(getRemainingStops(makeStations(-1), 'E')).toBeNull();
+  });
+
+  it('escalates the alert as the destination approaches', () => {
+    expect(getDestinationAlertLevel(null)).toBeNull();
+    expect(getDestinationAlertLevel(3)).toBeNull();
+    expect(getDestinationAlertLevel(2)).toBe('twoStopsBefore');
+    expect(getDestinationAlertLevel(1)).toBe('oneStopBefore');
+    expect(getDestinationAlertLevel(0)).toBe('arrived');
+    expect(getDestinationAlertLevel(-1)).toBe('arrived');
+  });
+
+  it('only alerts again for a closer level', () => {
+    expect(isCloserAlertLevel('twoStopsBefore', null)).toBe(true);
+    expect(isCloserAlertLevel('oneStopBefore', 'twoStopsBefore')).toBe(true);
+    expect(isCloserAlertLevel('twoStopsBefore', 'twoStopsBefore')).toBe(false);
+    expect(isCloserAlertLevel('twoStopsBefore', 'oneStopBefore')).toBe(false);
+    // 정류장을 건너뛰고 바로 도착해도 알림
+    expect(isCloserAlertLevel('arrived', 'twoStopsBefore')).toBe(true);
+  });
+});
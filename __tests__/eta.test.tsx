@@ -0,0 +1,82 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  compareEta,
+  Eta,
+  ETA_EXPIRY_GRACE_SECONDS,
+  getEarliestEta,
+  parseEta,
+  unknownEta,
+} from '../src/api/eta';
+
+const NOW = 1_700_000_000_000;
+
+const etaIn = (seconds: number, computedAt: number = NOW): Eta =>
+  parseEta(
+    `${Math.floor(seconds / 60)}분 ${seconds % 60}초`,
+    'station-detail',
+    computedAt,
+  );
+
+describe('parseEta', () => {
+  it('분과 초 문자열을 초 단위로 읽는다', () => {
+    expect(parseEta('3분 20초', 'arrival-estimate', NOW)).toEqual({
+      seconds: 200,
+      isUnknown: false,
+      confidence: 'high',
+      source: 'arrival-estimate',
+      computedAt: NOW,
+    });
+    expect(parseEta('3분', 'station-detail', NOW).seconds).toBe(180);
+    expect(parseEta('40초', 'station-detail', NOW).seconds).toBe(40);
+    expect(parseEta(' 12분40초 ', 'station-detail', NOW).seconds).toBe(760);
+    expect(parseEta('0분 0초', 'station-detail', NOW).seconds).toBe(0);
+  });
+
+  it('출처에 따라 신뢰도를 정한다', () => {
+    expect(parseEta('1분', 'arrival-estimate', NOW).confidence).toBe('high');
+    expect(parseEta('1분', 'station-detail', NOW).confidence).toBe('medium');
+  });
+
+  it('읽을 수 없는 값은 unknown', () => {
+    const unknown = unknownEta('station-detail', NOW);
+    expect(parseEta('--분 --초', 'station-detail', NOW)).toEqual(unknown);
+    expect(parseEta('', 'station-detail', NOW)).toEqual(unknown);
+    expect(parseEta('   ', 'station-detail', NOW)).toEqual(unknown);
+    expect(parseEta(null, 'station-detail', NOW)).toEqual(unknown);
+    expect(parseEta(undefined, 'station-detail', NOW)).toEqual(unknown);
+    expect(parseEta('3 minutes', 'station-detail', NOW)).toEqual(unknown);
+    expect(parseEta('초 3분', 'station-detail', NOW)).toEqual(unknown);
+  });
+});
+
+describe('compareEta', () => {
+  it('빨리 도착하는 순으로 정렬하고 unknown은 맨 뒤로 보낸다', () => {
+    const unknown = unknownEta('station-detail', NOW);
+    const sorted = [etaIn(300), unknown, etaIn(60), etaIn(180)].sort((a, b) =>
+      compareEta(a, b, NOW),
+    );
+
+    expect(sorted.map(eta => eta.seconds)).toEqual([60, 180, 300, null]);
+  });
+
+  it('계산 시각이 달라도 지금 남은 시간으로 비교한다', () => {
+    // 2분 전에 3분 남았던 버스가 방금 2분 남은 버스보다 먼저 도착
+    const older = etaIn(180, NOW - 2 * 60 * 1000);
+    const fresh = etaIn(120, NOW);
+
+    expect(compareEta(older, fresh, NOW)).toBeLessThan(0);
+    expect(compareEta(fresh, older, NOW)).toBeGreaterThan(0);
+    expect(compareEta(fresh, etaIn(120, NOW), NOW)).toBe(0);
+  });
+
+  it('예상 도착 시각이 한참 지난 ETA는 unknown처럼 맨 뒤로 보낸다', () => {
+    const expired = etaIn(60, NOW - (60 + ETA_EXPIRY_GRACE_SECONDS + 1) * 1000);
+
+    expect(compareEta(expired, etaIn(600), NOW)).toBeGreaterThan(0);
+    expect(getEarliestEta([expired, etaIn(600)], NOW)?.seconds).toBe(600);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  fromCoordinates,
+  geoPointSchema,
+  toCoordinates,
+  toGeoPoint,
+} from '../src/api/geo';
+import {s} from '../src/api/schema';
+
+// 서울시청: 위도 37.5665, 경도 126.978
+const CITY_HALL = {latitude: 37.5665, longitude: 126.978};
+
+describe('toGeoPoint', () => {
+  it('서버의 세 가지 위치 형태를 같은 좌표로 읽는다', () => {
+    expect(toGeoPoint({x: 126.978, y: 37.5665})).toEqual(CITY_HALL);
+    expect(
+      toGeoPoint({type: 'Point', coordinates: [126.978, 37.5665]}),
+    ).toEqual(CITY_HALL);
+    expect(
+      toGeoPoint({
+        x: 126.978,
+        y: 37.5665,
+        coordinates: [126.978, 37.5665],
+        type: 'Point',
+      }),
+    ).toEqual(CITY_HALL);
+  });
+
+  it('이미 바꾼 GeoPoint는 그대로 돌려준다', () => {
+    expect(toGeoPoint(CITY_HALL)).toEqual(CITY_HALL);
+  });
+
+  it('읽을 수 없거나 범위를 벗어난 값은 null', () => {
+    expect(toGeoPoint(null)).toBeNull();
+    expect(toGeoPoint(undefined)).toBeNull();
+    expect(toGeoPoint({coordinates: [126.978]})).toBeNull();
+    expect(toGeoPoint({x: '126.978', y: '37.5665'})).toBeNull();
+    // [위도, 경도]로 잘못 보낸 값을 경도 37, 위도 126으로 읽지 않음
+    expect(fromCoordinates([37.5665, 126.978])).toBeNull();
+  });
+
+  it('GeoJSON 좌표로 되돌리면 [경도, 위도] 순서', () => {
+    expect(toCoordinates(CITY_HALL)).toEqual([126.978, 37.5665]);
+    expect(fromCoordinates(toCoordinates(CITY_HALL))).toEqual(CITY_HALL);
+  });
+});
+
+describe('geoPointSchema', () => {
+  it('응답의 위치 필드를 GeoPoint로 바꾸고 없으면 null', () => {
+    const schema = s.object<{id: string; location: unknown}>({
+      id: s.string(),
+      location: geoPointSchema,
+    });
+
+    expect(
+      schema.parse({
+        id: 's1',
+        location: {
+          x: 126.978,
+          y: 37.5665,
+          coordinates: [126.978, 37.5665],
+          type: 'Point',
+        },
+      }).location,
+    ).toEqual(CITY_HALL);
+    expect(schema.parse({id: 's2'}).location).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  BUS_APPROACH_RADIUS_M,
+  FAR_FROM_ROUTE_M,
+  getSamplingMode,
+  getSamplingProfile,
+  isSameProfile,
+  NEAR_STATION_RADIUS_M,
+  SamplingContext,
+  STATIONARY_SPEED_MPS,
+} from '../src/services/locationSamplingPolicy';
+
+// 정류장에서 300m 떨어져 걷는 중
+const context = (changes: Partial<SamplingContext> = {}): SamplingContext => ({
+  isBoarded: false,
+  batterySaver: false,
+  nearestStationM: 300,
+  nearestBusM: null,
+  speedMps: 1.2,
+  ...changes,
+});
+
+describe('getSamplingMode', () => {
+  it('탑승 중이면 위치와 상관없이 boarded', () => {
+    expect(
+      getSamplingMode(
+        context({isBoarded: true, nearestStationM: 10, nearestBusM: 10}),
+      ),
+    ).toBe('boarded');
+  });
+
+  it('정류장 근처에서는 버스가 다가오는지에 따라 나눈다', () => {
+    const near = {nearestStationM: NEAR_STATION_RADIUS_M};
+    expect(
+      getSamplingMode(context({...near, nearestBusM: BUS_APPROACH_RADIUS_M})),
+    ).toBe('approaching');
+    expect(
+      getSamplingMode(
+        context({...near, nearestBusM: BUS_APPROACH_RADIUS_M + 1}),
+      ),
+    ).toBe('nearStation');
+    expect(getSamplingMode(context(near))).toBe('nearStation');
+    // 정류장 근처에서는 멈춰 있어도 버스를 기다리는 중
+    expect(getSamplingMode(context({...near, speedMps: 0}))).toBe(
+      'nearStation',
+    );
+  });
+
+  it('노선에서 멀면 속도와 상관없이 farFromRoute', () => {
+    expect(getSamplingMode(context({nearestStationM: FAR_FROM_ROUTE_M}))).toBe(
+      'moving',
+    );
+    expect(
+      getSamplingMode(context({nearestStationM: FAR_FROM_ROUTE_M + 1})),
+    ).toBe('farFromRoute');
+    expect(
+      getSamplingMode(
+        context({nearestStationM: FAR_FROM_ROUTE_M + 1, speedMps: 0}),
+      ),
+    ).toBe('farFromRoute');
+  });
+
+  it('속도가 느리면 stationary, 속도를 모르면 moving', () => {
+    expect(
+      getSamplingMode(context({speedMps: STATIONARY_SPEED_MPS - 0.1})),
+    ).toBe('stationary');
+    expect(getSamplingMode(context({speedMps: STATIONARY_SPEED_MPS}))).toBe(
+      'moving',
+    );
+    expect(getSamplingMode(context({speedMps: null}))).toBe('moving');
+    // 정류장 정보가 없을 때도 속도로 판단
+    expect(getSamplingMode(context({nearestStationM: null, speedMps: 0}))).toBe(
+      'stationary',
+    );
+  });
+});
+
+describe('getSamplingProfile', () => {
+  it('버스가 다가올수록 자주, 정확하게 받는다', () => {
+    const approaching = getSamplingProfile(
+      context({nearestStationM: 50, nearestBusM: 200}),
+    );
+    const moving = getSamplingProfile(context());
+    const far = getSamplingProfile(context({nearestStationM: 5000}));
+
+    expect(approaching.intervalMs).toBeLessThan(moving.intervalMs);
+    expect(moving.intervalMs).toBeLessThan(far.intervalMs);
+    expect(approaching.enableHighAccuracy).toBe(true);
+    expect(far.enableHighAccuracy).toBe(false);
+    expect(getSamplingProfile(context({isBoarded: true}))).toMatchObject({
+      mode: 'boarded',
+      enableHighAccuracy: false,
+    });
+  });
+
+  it('배터리 절약 모드는 주기와 거리 필터를 늘리고 다가올 때만 정확도를 높인다', () => {
+    for (const changes of [
+      {nearestStationM: 50, nearestBusM: 200},
+      {nearestStationM: 50},
+      {},
+    ]) {
+      const normal = getSamplingProfile(context(changes));
+      const saver = getSamplingProfile(
+        context({...changes, batterySaver: true}),
+      );
+
+      expect(saver.mode).toBe(normal.mode);
+      expect(saver.intervalMs).toBe(normal.intervalMs * 2);
+      expect(saver.distanceFilterM).toBe(normal.distanceFilterM * 2);
+      expect(saver.enableHighAccuracy).toBe(saver.mode === 'approaching');
+    }
+  });
+});
+
+describe('isSameProfile', () => {
+  it('모드가 달라도 설정이 같으면 위치 구독을 다시 만들지 않는다', () => {
+    const profile = getSamplingProfile(context());
+
+    expect(isSameProfile(profile, {...profile, mode: 'nearStation'})).toBe(
+      true,
+    );
+    expect(
+      isSameProfile(profile, {...profile, intervalMs: profile.intervalMs + 1}),
+    ).toBe(false);
+    expect(
+      isSameProfile(profile, getSamplingProfile(context({speedMps: 0}))),
+    ).toBe(false);
+  });
+});
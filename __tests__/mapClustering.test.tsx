@@ -0,0 +1,162 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {
+  CLUSTER_MAX_ZOOM,
+  clusterPoints,
+  estimateRegion,
+  getPaddedBounds,
+  isInBounds,
+} from '../src/services/mapClustering';
+
+interface TestStation {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+const accessors = {
+  getId: (station: TestStation) => station.id,
+  getPoint: (station: TestStation) => station,
+};
+
+const CENTER = {latitude: 37.5, longitude: 127.0};
+// 세로 800px 화면 기준 범위
+const viewportAt = (zoom: number) =>
+  getPaddedBounds(estimateRegion(CENTER, zoom, 400, 800));
+
+// 같은 시드면 같은 정류장 목록 (실행마다 같은 결과)
+const createStations = (count: number, seed: number): TestStation[] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  // 중심에서 ±0.5도 (서울 전체 정도) 안에 흩뿌림
+  return Array.from({length: count}, (_, index) => ({
+    id: `station-${index}`,
+    latitude: CENTER.latitude + (random() - 0.5),
+    longitude: CENTER.longitude + (random() - 0.5),
+  }));
+};
+
+const countItems = (clusters: {items: unknown[]}[]) =>
+  clusters.reduce((sum, cluster) => sum + cluster.items.length, 0);
+
+describe('mapClustering', () => {
+  it('화면 범위를 어림하고 여유만큼 넓힌다', () => {
+    const region = estimateRegion(CENTER, 15, 400, 800);
+
+    expect(region.latitude + region.latitudeDelta / 2).toBeCloseTo(
+      CENTER.latitude,
+      10,
+    );
+    expect(region.longitude + region.longitudeDelta / 2).toBeCloseTo(
+      CENTER.longitude,
+      10,
+    );
+    // 한 단계 확대하면 범위는 절반
+    expect(estimateRegion(CENTER, 16, 400, 800).longitudeDelta).toBeCloseTo(
+      region.longitudeDelta / 2,
+      10,
+    );
+
+    const bounds = getPaddedBounds(region, 0.25);
+    expect(bounds.east - bounds.west).toBeCloseTo(region.longitudeDelta * 1.5);
+    expect(isInBounds(CENTER, bounds)).toBe(true);
+    expect(
+      isInBounds({latitude: CENTER.latitude + 1, longitude: 127}, bounds),
+    ).toBe(false);
+  });
+
+  it('화면 밖 항목과 좌표가 없는 항목은 그리지 않는다', () => {
+    const bounds = viewportAt(CLUSTER_MAX_ZOOM);
+    const stations = [
+      {id: 'in', ...CENTER},
+      {id: 'out', latitude: CENTER.latitude + 1, longitude: CENTER.longitude},
+      {id: 'none', ...CENTER},
+    ];
+    const clusters = clusterPoints(
+      stations,
+      {...accessors, getPoint: s => (s.id === 'none' ? null : s)},
+      CLUSTER_MAX_ZOOM,
+      bounds,
+    );
+
+    expect(clusters.map(cluster => cluster.id)).toEqual(['in']);
+  });
+
+  it('줌이 낮으면 가까운 정류장을 묶고 최대 줌부터는 하나씩 둔다', () => {
+    const nearby = [0, 1, 2].map(index => ({
+      id: `near-${index}`,
+      latitude: CENTER.latitude + 0.0001 + index * 0.00005,
+      longitude: CENTER.longitude + 0.0001,
+    }));
+    const bounds = viewportAt(12);
+
+    const clustered = clusterPoints(nearby, accessors, 12, bounds);
+    expect(clustered).toHaveLength(1);
+    expect(clustered[0].items).toHaveLength(3);
+    expect(clustered[0].id).toMatch(/^cluster-12-/);
+    expect(clustered[0].latitude).toBeCloseTo(nearby[1].latitude, 10);
+
+    const separated = clusterPoints(
+      nearby,
+      accessors,
+      CLUSTER_MAX_ZOOM,
+      bounds,
+    );
+    expect(separated.map(cluster => cluster.id)).toEqual([
+      'near-0',
+      'near-1',
+      'near-2',
+    ]);
+  });
+
+  it('같은 줌에서는 지도를 옮겨도 묶음 id가 유지된다', () => {
+    const stations = createStations(500, 7);
+    const ids = (bounds: ReturnType<typeof viewportAt>) =>
+      clusterPoints(stations, accessors, 11, bounds).map(cluster => cluster.id);
+
+    const before = new Set(
+      ids(getPaddedBounds(estimateRegion(CENTER, 9, 400, 800))),
+    );
+    const movedCenter = {
+      latitude: CENTER.latitude + 0.01,
+      longitude: CENTER.longitude + 0.01,
+    };
+    const after = ids(
+      getPaddedBounds(estimateRegion(movedCenter, 9, 400, 800)),
+    );
+
+    expect(after.filter(id => before.has(id)).length).toBeGreaterThan(
+      after.length * 0.9,
+    );
+  });
+});
+
+describe('mapClustering 대량 정류장', () => {
+  it.each([1000, 5000, 20000])(
+    '정류장 %i개에서도 그릴 마커 수가 화면 칸 수로 제한된다',
+    count => {
+      const stations = createStations(count, count);
+
+      [10, 13, CLUSTER_MAX_ZOOM].forEach(zoom => {
+        const bounds = viewportAt(zoom);
+        const clusters = clusterPoints(stations, accessors, zoom, bounds);
+
+        // 묶인 항목은 모두 화면 범위 안
+        expect(countItems(clusters)).toBe(
+          stations.filter(station => isInBounds(station, bounds)).length,
+        );
+        if (zoom < CLUSTER_MAX_ZOOM) {
+          // 마커 수는 정류장 수가 아니라 화면 칸 수로 제한됨
+          // (여유 포함 화면 600x1200px, 64px 칸 → 최대 (10+1)x(19+1)칸)
+          expect(clusters.length).toBeLessThanOrEqual(11 * 20);
+        }
+      });
+    },
+  );
+});
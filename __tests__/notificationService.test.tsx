@@ -0,0 +1,193 @@
+/**
+ * @format
+ */
+
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import type {AppStateStatus} from 'react-native';
+import type {PermissionStatus} from 'react-native-permissions';
+import {
+  AppNotification,
+  NotificationPlatform,
+  NotificationPresenter,
+  NotificationService,
+} from '../src/services/notificationService';
+
+// 네이티브 모듈 대신 필요한 값만 제공 (권한은 아래 플랫폼에서 정함)
+jest.mock('react-native-permissions', () => ({
+  RESULTS: {GRANTED: 'granted'},
+  checkNotifications: jest.fn(),
+  requestNotifications: jest.fn(),
+}));
+
+// 앱 상태와 권한을 테스트에서 바꿀 수 있는 플랫폼
+const createPlatform = () => {
+  const listeners: Array<(state: AppStateStatus) => void> = [];
+  const platform = {
+    appState: 'active' as AppStateStatus,
+    permission: 'granted' as PermissionStatus,
+    // 권한을 물어본 횟수
+    permissionRequests: 0,
+    setAppState(state: AppStateStatus) {
+      platform.appState = state;
+      listeners.forEach(listener => listener(state));
+    },
+  };
+  const notificationPlatform: NotificationPlatform = {
+    getAppState: () => platform.appState,
+    onAppStateChange: listener => {
+      listeners.push(listener);
+      return () => {};
+    },
+    checkPermission: async () => platform.permission,
+    requestPermission: async () => {
+      platform.permissionRequests += 1;
+      return platform.permission;
+    },
+  };
+  return {platform, notificationPlatform};
+};
+
+const createPresenter = () => {
+  const presented: AppNotification[] = [];
+  const scheduled: AppNotification[] = [];
+  const cancelled: string[] = [];
+  const presenter: NotificationPresenter = {
+    createChannels: async () => {},
+    present: async notification => {
+      presented.push(notification);
+    },
+    schedule: async notification => {
+      scheduled.push(notification);
+    },
+    cancel: async id => {
+      cancelled.push(id);
+    },
+  };
+  return {presenter, presented, scheduled, cancelled};
+};
+
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i += 1) {
+    await Promise.resolve();
+  }
+};
+
+describe('NotificationService', () => {
+  let toasts: Array<{message: string; type: string}>;
+  let platform: ReturnType<typeof createPlatform>['platform'];
+  let service: NotificationService;
+
+  beforeEach(() => {
+    const created = createPlatform();
+    platform = created.platform;
+    service = new NotificationService(created.notificationPlatform);
+    toasts = [];
+    service.setToastHandler((message, type) => toasts.push({message, type}));
+  });
+
+  it('shows a toast while the app is in the foreground', async () => {
+    const {presenter, presented} = createPresenter();
+    service.setPresenter(presenter);
+
+    service.notify({
+      channelId: 'boarding',
+      body: '탑승했어요',
+      level: 'success',
+    });
+    await flushPromises();
+
+    expect(toasts).toEqual([{message: '탑승했어요', type: 'success'}]);
+    expect(presented).toHaveLength(0);
+  });
+
+  it('presents a system notification in the background', async () => {
+    const {presenter, presented} = createPresenter();
+    service.setPresenter(presenter);
+    platform.setAppState('background');
+
+    service.notify({channelId: 'arrivals', body: '101 버스가 곧 도착해요'});
+    await flushPromises();
+
+    expect(toasts).toHaveLength(0);
+    expect(presented).toHaveLength(1);
+    expect(presented[0]).toMatchObject({
+      channelId: 'arrivals',
+      title: '도착 알림',
+      body: '101 버스가 곧 도착해요',
+    });
+  });
+
+  it('keeps notifications it could not present until the app is opened', async () => {
+    const {presenter, presented} = createPresenter();
+    service.setPresenter(presenter);
+    platform.permission = 'blocked';
+    platform.setAppState('background');
+
+    service.notify({channelId: 'boarding', body: '첫 번째'});
+    service.notify({channelId: 'boarding', body: '두 번째', level: 'warning'});
+    await flushPromises();
+    expect(presented).toHaveLength(0);
+
+    platform.setAppState('active');
+    expect(toasts).toEqual([
+      {message: '두 번째 (외 알림 1개)', type: 'warning'},
+    ]);
+  });
+
+  it('skips the in-app toast when the screen shows its own notice', async () => {
+    service.notify({channelId: 'boarding', body: '도착', showInApp: false});
+    platform.setAppState('background');
+    service.notify({channelId: 'boarding', body: '도착', showInApp: false});
+    await flushPromises();
+    platform.setAppState('active');
+
+    expect(toasts).toHaveLength(0);
+  });
+
+  it('delivers scheduled notifications and supports cancellation', () => {
+    jest.useFakeTimers();
+    try {
+      const now = Date.now();
+      service.schedule({channelId: 'events', body: '이벤트 시작'}, now + 1000);
+      const cancelled = service.schedule(
+        {channelId: 'arrivals', body: '취소될 알림'},
+        now + 1000,
+      );
+      service.cancel(cancelled.id);
+
+      jest.advanceTimersByTime(999);
+      expect(toasts).toHaveLength(0);
+      jest.advanceTimersByTime(1);
+      expect(toasts).toEqual([{message: '이벤트 시작', type: 'info'}]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('asks for permission only once system notifications can be shown', async () => {
+    platform.permission = 'denied';
+    expect(await service.requestPermission()).toBe('denied');
+    expect(platform.permissionRequests).toBe(0);
+
+    service.setPresenter(createPresenter().presenter);
+    await service.requestPermission();
+    expect(platform.permissionRequests).toBe(1);
+  });
+
+  it('cancels scheduled notifications by channel', () => {
+    jest.useFakeTimers();
+    try {
+      const triggerAt = Date.now() + 1000;
+      service.schedule({channelId: 'arrivals', body: '도착 1'}, triggerAt);
+      service.schedule({channelId: 'arrivals', body: '도착 2'}, triggerAt);
+      service.schedule({channelId: 'events', body: '이벤트'}, triggerAt);
+
+      service.cancelAll('arrivals');
+      jest.advanceTimersByTime(1000);
+
+      expect(toasts.map(toast => toast.message)).toEqual(['이벤트']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @format
+ */
+
+import {beforeEach, describe, expect, it, jest} from '@jest/globals';
+import type AsyncStorageType from '@react-native-async-storage/async-storage';
+import type {LocationMessage} from '../src/api/services/websocketProtocol';
+import type OutboundQueueType from '../src/services/outboundQueue';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const STORAGE_KEY = 'ws-outbound-queue';
+const MAX_QUEUE_SIZE = 500;
+const START = 1_700_000_000_000;
+
+// i번째 위치: 10초 간격으로 약 100m씩 이동
+const location = (
+  i: number,
+  changes: Partial<LocationMessage['data']> = {},
+): LocationMessage => ({
+  type: 'location',
+  organizationId: 'org-1',
+  data: {
+    userId: 'user-1',
+    latitude: 37.5665 + i * 0.001,
+    longitude: 126.978,
+    timestamp: START + i * 10000,
+    ...changes,
+  },
+});
+
+// 보낸 메시지를 기록하고 limit개를 보낸 뒤에는 연결이 끊긴 것처럼 실패
+const recordingSender = (limit: number = Infinity) => {
+  const sent: LocationMessage[] = [];
+  const send = (message: LocationMessage) => {
+    if (sent.length >= limit) {
+      return false;
+    }
+    sent.push(message);
+    return true;
+  };
+  return {sent, send};
+};
+
+describe('outboundQueue', () => {
+  let outboundQueue: typeof OutboundQueueType;
+  let AsyncStorage: typeof AsyncStorageType;
+
+  beforeEach(() => {
+    // 싱글톤이 저장소를 한 번만 읽으므로 테스트마다 새로 불러옴
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    outboundQueue = require('../src/services/outboundQueue').default;
+    return AsyncStorage.clear();
+  });
+
+  it('들어온 순서대로 보낸다', async () => {
+    [0, 1, 2].forEach(i => outboundQueue.enqueue(location(i)));
+    const {sent, send} = recordingSender();
+
+    await outboundQueue.flush(send);
+
+    expect(sent.map(message => message.data.timestamp)).toEqual([
+      START,
+      START + 10000,
+      START + 20000,
+    ]);
+    expect(outboundQueue.size()).toBe(0);
+  });
+
+  it('같은 메시지와 제자리 위치는 한 번만 보관한다', () => {
+    outboundQueue.enqueue(location(0));
+    outboundQueue.enqueue(location(0));
+    // 5초 뒤 같은 자리
+    outboundQueue.enqueue(location(0, {timestamp: START + 5000}));
+    expect(outboundQueue.size()).toBe(1);
+
+    // 30초가 지나면 같은 자리여도 보관
+    outboundQueue.enqueue(location(0, {timestamp: START + 30000}));
+    // 다른 사용자의 같은 시각 위치도 보관
+    outboundQueue.enqueue(location(1, {userId: 'user-2'}));
+    expect(outboundQueue.size()).toBe(3);
+  });
+
+  it('500개를 넘으면 오래된 것부터 버린다', async () => {
+    for (let i = 0; i < MAX_QUEUE_SIZE + 10; i += 1) {
+      outboundQueue.enqueue(location(i));
+    }
+    expect(outboundQueue.size()).toBe(MAX_QUEUE_SIZE);
+
+    const {sent, send} = recordingSender(1);
+    await outboundQueue.flush(send);
+
+    expect(sent[0]).toEqual(location(10));
+  });
+
+  it('전송이 실패하면 남은 메시지를 순서대로 남겨둔다', async () => {
+    [0, 1, 2, 3].forEach(i => outboundQueue.enqueue(location(i)));
+
+    await outboundQueue.flush(recordingSender(2).send);
+    expect(outboundQueue.size()).toBe(2);
+
+    const {sent, send} = recordingSender();
+    await outboundQueue.flush(send);
+    expect(sent).toEqual([location(2), location(3)]);
+  });
+
+  it('저장된 메시지 뒤에 불러오기 전에 들어온 메시지를 붙인다', async () => {
+    const stored = [0, 1].map(i => ({
+      key: `location:user-1:${START + i * 10000}`,
+      message: location(i),
+      enqueuedAt: START,
+    }));
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+    outboundQueue.enqueue(location(2));
+    await outboundQueue.load();
+    const {sent, send} = recordingSender();
+    await outboundQueue.flush(send);
+
+    expect(sent).toEqual([location(0), location(1), location(2)]);
+  });
+});
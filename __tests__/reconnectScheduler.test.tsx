@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  getBackoffDelay,
+  ReconnectScheduler,
+} from '../src/services/reconnectScheduler';
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+describe('getBackoffDelay', () => {
+  it('시도할 때마다 두 배로 늘고 절반 구간 안에서 지터를 준다', () => {
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      const exponential = BASE_DELAY_MS * 2 ** attempt;
+      expect(getBackoffDelay(attempt, () => 0)).toBe(exponential / 2);
+      expect(getBackoffDelay(attempt, () => 1)).toBe(exponential);
+      expect(getBackoffDelay(attempt, () => 0.5)).toBe((exponential * 3) / 4);
+    }
+  });
+
+  it('상한을 넘지 않고 시도 횟수가 커져도 계속 재시도한다', () => {
+    for (const attempt of [5, 10, 100, 2000]) {
+      const delay = getBackoffDelay(attempt, () => 1);
+      expect(delay).toBe(MAX_DELAY_MS);
+      expect(getBackoffDelay(attempt, () => 0)).toBe(MAX_DELAY_MS / 2);
+      expect(Number.isFinite(delay)).toBe(true);
+    }
+  });
+});
+
+describe('ReconnectScheduler', () => {
+  let run: jest.Mock;
+  let onChange: jest.Mock;
+  let scheduler: ReconnectScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    run = jest.fn();
+    onChange = jest.fn();
+    scheduler = new ReconnectScheduler(run, onChange);
+  });
+
+  afterEach(() => {
+    scheduler.cancel();
+    jest.useRealTimers();
+  });
+
+  it('실패할 때마다 늘어난 대기 시간 범위 안에서 재연결한다', () => {
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+      const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      scheduler.schedule();
+      const delay = (scheduler.getRetryAt() as number) - Date.now();
+
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+
+      jest.advanceTimersByTime(delay);
+      expect(run).toHaveBeenCalledTimes(attempt + 1);
+      expect(scheduler.getAttempt()).toBe(attempt + 1);
+    }
+  });
+
+  it('이미 예약된 재연결은 다시 예약하지 않는다', () => {
+    scheduler.schedule();
+    const retryAt = scheduler.getRetryAt();
+    scheduler.schedule();
+
+    expect(scheduler.getRetryAt()).toBe(retryAt);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(BASE_DELAY_MS);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('바로 재연결하거나 연결에 성공하면 백오프를 처음부터 다시 센다', () => {
+    scheduler.schedule();
+    jest.advanceTimersByTime(BASE_DELAY_MS);
+    scheduler.schedule();
+    jest.advanceTimersByTime(BASE_DELAY_MS * 2);
+    expect(scheduler.getAttempt()).toBe(2);
+
+    scheduler.schedule();
+    scheduler.retryNow();
+    expect(scheduler.isScheduled()).toBe(false);
+    expect(scheduler.getAttempt()).toBe(0);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    scheduler.schedule();
+    jest.advanceTimersByTime(BASE_DELAY_MS);
+    scheduler.reset();
+    expect(scheduler.getAttempt()).toBe(0);
+    expect(scheduler.getRetryAt()).toBeNull();
+  });
+});
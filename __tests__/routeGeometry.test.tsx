@@ -0,0 +1,85 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import type {Route} from '../src/api/services/routeService';
+import {
+  ROUTE_COLOR_PALETTE,
+  getRouteColors,
+  getRoutePath,
+} from '../src/services/routeGeometry';
+
+const route = (changes: Partial<Route> = {}): Route => ({
+  id: 'route-1',
+  routeName: '1번',
+  organizationId: 'org-1',
+  stations: [
+    {
+      stationId: 'b',
+      stationName: '도서관',
+      sequence: 2,
+      location: {latitude: 37.502, longitude: 127.002},
+    },
+    {
+      stationId: 'a',
+      stationName: '정문',
+      sequence: 1,
+      location: {latitude: 37.501, longitude: 127.001},
+    },
+    {
+      stationId: 'c',
+      stationName: '좌표 없음',
+      sequence: 3,
+      location: null,
+    },
+  ],
+  ...changes,
+});
+
+describe('getRoutePath', () => {
+  it('서버 모양이 없으면 정류장을 순서대로 잇는다', () => {
+    expect(getRoutePath(route())).toEqual([
+      {latitude: 37.501, longitude: 127.001},
+      {latitude: 37.502, longitude: 127.002},
+    ]);
+  });
+
+  it('서버 모양이 있으면 그대로 쓴다', () => {
+    const shape = {
+      type: 'LineString',
+      coordinates: [
+        [127.0, 37.5],
+        [127.0005, 37.5005],
+        [127.001, 37.501],
+      ],
+    };
+    expect(getRoutePath(route({shape}))).toHaveLength(3);
+    expect(getRoutePath(route({shape}))[1]).toEqual({
+      latitude: 37.5005,
+      longitude: 127.0005,
+    });
+  });
+
+  it('좌표가 2개 미만이면 그리지 않는다', () => {
+    expect(
+      getRoutePath(route({stations: route().stations.slice(0, 1)})),
+    ).toEqual([]);
+  });
+});
+
+describe('getRouteColors', () => {
+  it('노선 이름순으로 색을 나눠 주고 목록 순서와 관계없이 같다', () => {
+    const routes = [
+      route({id: 'r2', routeName: '2번'}),
+      route({id: 'r1', routeName: '1번'}),
+    ];
+
+    const colors = getRouteColors(routes);
+    expect(colors).toEqual({
+      r1: ROUTE_COLOR_PALETTE[0],
+      r2: ROUTE_COLOR_PALETTE[1],
+    });
+    expect(getRouteColors([...routes].reverse())).toEqual(colors);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import {s, SchemaError} from '../src/api/schema';
+
+// 검증에 실패한 경로와 메시지를 꺼냄
+const failure = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SchemaError);
+    return {
+      path: (error as SchemaError).path,
+      message: (error as SchemaError).message,
+    };
+  }
+  throw new Error('검증에 실패해야 합니다.');
+};
+
+interface Station {
+  id: string;
+  name: string;
+  order?: number;
+  location: {x: number; y: number} | null;
+}
+
+const stationSchema = s.object<Station>({
+  id: s.string(),
+  name: s.string(),
+  order: s.optional(s.number()),
+  location: s.nullable(
+    s.object<{x: number; y: number}>({x: s.number(), y: s.number()}),
+  ),
+});
+
+describe('s (기본 스키마)', () => {
+  it('형식이 맞으면 값을 그대로 돌려준다', () => {
+    expect(s.string().parse('정문')).toBe('정문');
+    expect(s.number().parse(0)).toBe(0);
+    expect(s.boolean().parse(false)).toBe(false);
+    expect(s.literal(['open', 'closed']).parse('open')).toBe('open');
+    expect(s.unknown().parse({any: 'thing'})).toEqual({any: 'thing'});
+  });
+
+  it('형식이 다르면 받은 값의 종류를 담아 SchemaError를 던진다', () => {
+    expect(failure(() => s.string().parse(1))).toEqual({
+      path: '$',
+      message: '$: string 형식이 필요하지만 number을(를) 받았습니다.',
+    });
+    expect(failure(() => s.number().parse(null)).message).toContain('null');
+    expect(failure(() => s.boolean().parse([])).message).toContain('array');
+    expect(failure(() => s.number().parse(NaN)).path).toBe('$');
+    expect(
+      failure(() => s.literal(['open', 'closed']).parse('gone')).message,
+    ).toContain('open | closed');
+  });
+
+  it('optional은 null도 없는 값으로, nullable은 undefined도 null로 읽는다', () => {
+    expect(s.optional(s.string()).parse(null)).toBeUndefined();
+    expect(s.optional(s.string()).parse(undefined)).toBeUndefined();
+    expect(s.nullable(s.string()).parse(undefined)).toBeNull();
+    expect(failure(() => s.optional(s.string()).parse(3)).path).toBe('$');
+  });
+
+  it('transform은 검증한 값을 변환한다', () => {
+    const minutes = s.transform(s.number(), seconds => seconds / 60);
+    expect(minutes.parse(120)).toBe(2);
+    expect(failure(() => minutes.parse('120')).path).toBe('$');
+  });
+});
+
+describe('s.object / s.array', () => {
+  it('선언되지 않은 필드는 유지하고 없는 선택 필드는 채우지 않는다', () => {
+    expect(
+      stationSchema.parse({id: 's1', name: '정문', location: null, extra: 1}),
+    ).toEqual({
+      id: 's1',
+      name: '정문',
+      order: undefined,
+      location: null,
+      extra: 1,
+    });
+  });
+
+  it('잘못된 필드의 경로를 알려준다', () => {
+    const stations = s.array(stationSchema);
+    const valid = {id: 's1', name: '정문', location: {x: 126.978, y: 37.5665}};
+
+    expect(
+      failure(() =>
+        stations.parse([valid, {...valid, location: {x: 126.978, y: '37'}}]),
+      ).path,
+    ).toBe('$[1].location.y');
+    expect(
+      failure(() => stations.parse([{...valid, id: undefined}])).path,
+    ).toBe('$[0].id');
+    expect(failure(() => stations.parse({0: valid})).path).toBe('$');
+    expect(failure(() => stationSchema.parse([valid])).message).toContain(
+      'object 형식이 필요하지만 array',
+    );
+  });
+
+  it('shape로 다른 객체 스키마를 확장할 수 있다', () => {
+    const detailSchema = s.object<Station & {busCount: number}>({
+      ...stationSchema.shape,
+      busCount: s.number(),
+    });
+
+    expect(
+      failure(() =>
+        detailSchema.parse({id: 's1', name: '정문', location: null}),
+      ).path,
+    ).toBe('$.busCount');
+  });
+});
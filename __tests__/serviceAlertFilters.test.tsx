@@ -0,0 +1,147 @@
+/**
+ * @format
+ */
+
+import {describe, expect, it} from '@jest/globals';
+import type {ServiceAlert} from '../src/api/services/serviceAlertService';
+import {
+  formatAlertHeadline,
+  getBannerAlerts,
+  getHighestSeverity,
+  getRouteAlerts,
+  getRouteIdsForStation,
+  getStationAlerts,
+  getTimeUntilStart,
+  isAlertActive,
+} from '../src/services/serviceAlertFilters';
+
+const NOW = Date.parse('2026-03-02T08:00:00Z');
+
+const alert = (changes: Partial<ServiceAlert> = {}): ServiceAlert => ({
+  id: 'alert-1',
+  organizationId: 'org-1',
+  type: 'DELAY',
+  severity: 'INFO',
+  scope: 'ROUTE',
+  routeId: 'route-1',
+  busNumber: null,
+  stationId: null,
+  scopeName: '1번 노선',
+  title: '10분 지연',
+  message: '교통 혼잡으로 운행이 지연되고 있습니다.',
+  operationPlanId: null,
+  startsAt: '2026-03-02T07:00:00Z',
+  endsAt: null,
+  updatedAt: '2026-03-02T07:00:00Z',
+  ...changes,
+});
+
+describe('isAlertActive', () => {
+  it('시작 전이거나 끝난 공지는 진행 중이 아니다', () => {
+    expect(isAlertActive(alert(), NOW)).toBe(true);
+    expect(isAlertActive(alert({startsAt: '2026-03-02T09:00:00Z'}), NOW)).toBe(
+      false,
+    );
+    expect(isAlertActive(alert({endsAt: '2026-03-02T07:30:00Z'}), NOW)).toBe(
+      false,
+    );
+  });
+});
+
+describe('getTimeUntilStart', () => {
+  it('시작 전인 공지만 시작까지 남은 시간을 돌려준다', () => {
+    expect(
+      getTimeUntilStart(alert({startsAt: '2026-03-02T09:00:00Z'}), NOW),
+    ).toBe(60 * 60 * 1000);
+    expect(getTimeUntilStart(alert(), NOW)).toBeNull();
+    expect(getTimeUntilStart(alert({startsAt: 'unknown'}), NOW)).toBeNull();
+  });
+});
+
+describe('getRouteAlerts', () => {
+  it('노선 공지와 노선이 지나는 정류장의 공지를 심각도 순으로 고른다', () => {
+    const alerts = [
+      alert({id: 'route'}),
+      alert({
+        id: 'station',
+        scope: 'STATION',
+        routeId: null,
+        stationId: 'station-2',
+        severity: 'WARNING',
+      }),
+      alert({id: 'other-route', routeId: 'route-9'}),
+      alert({id: 'organization', scope: 'ORGANIZATION', routeId: null}),
+    ];
+
+    expect(
+      getRouteAlerts(alerts, 'route-1', ['station-1', 'station-2'], NOW).map(
+        item => item.id,
+      ),
+    ).toEqual(['station', 'route']);
+  });
+});
+
+describe('getStationAlerts', () => {
+  it('정류장, 지나는 노선, 도착 예정 버스의 공지를 고른다', () => {
+    const routeStationIds = {
+      'route-1': ['station-1', 'station-2'],
+      'route-2': ['station-3'],
+    };
+    const alerts = [
+      alert({id: 'route'}),
+      alert({id: 'other-route', routeId: 'route-2'}),
+      alert({
+        id: 'station',
+        scope: 'STATION',
+        routeId: null,
+        stationId: 'station-1',
+      }),
+      alert({
+        id: 'bus',
+        scope: 'BUS',
+        routeId: null,
+        busNumber: 'B7',
+        type: 'CANCELLATION',
+        severity: 'CRITICAL',
+      }),
+    ];
+
+    const result = getStationAlerts(
+      alerts,
+      'station-1',
+      {
+        routeIds: getRouteIdsForStation(routeStationIds, 'station-1'),
+        busNumbers: ['B7'],
+      },
+      NOW,
+    );
+
+    expect(result.map(item => item.id).sort()).toEqual(
+      ['bus', 'route', 'station'].sort(),
+    );
+    expect(result[0].id).toBe('bus');
+    expect(getHighestSeverity(result)).toBe('CRITICAL');
+  });
+});
+
+describe('getBannerAlerts', () => {
+  it('조직 전체 공지와 운행 취소를 보여주고 닫은 공지는 뺀다', () => {
+    const alerts = [
+      alert({id: 'delay'}),
+      alert({id: 'organization', scope: 'ORGANIZATION', routeId: null}),
+      alert({id: 'cancel', type: 'CANCELLATION', severity: 'WARNING'}),
+      alert({id: 'dismissed', type: 'CANCELLATION', severity: 'CRITICAL'}),
+    ];
+
+    expect(
+      getBannerAlerts(alerts, ['dismissed'], NOW).map(item => item.id),
+    ).toEqual(['cancel', 'organization']);
+  });
+
+  it('배너 제목에 종류와 대상을 붙인다', () => {
+    expect(formatAlertHeadline(alert())).toBe('[지연] 1번 노선 · 10분 지연');
+    expect(formatAlertHeadline(alert({scopeName: null}))).toBe(
+      '[지연] 10분 지연',
+    );
+  });
+});
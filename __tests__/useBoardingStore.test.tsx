@@ -0,0 +1,115 @@
+/**
+ * @format
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import useBoardingStore, {
+  canTransition,
+  getBusBoardingPhase,
+} from '../src/store/useBoardingStore';
+
+describe('useBoardingStore', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    useBoardingStore.getState().reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('walks through waiting, boarding and alighting', () => {
+    const {transition, boardBus, alightBus} = useBoardingStore.getState();
+
+    expect(transition('waiting', {stationId: 's1', stationName: '정문'})).toBe(
+      true,
+    );
+    expect(
+      transition('boardingSuspected', {
+        busNumber: '101',
+        confidence: 0.4,
+        source: 'client',
+      }),
+    ).toBe(true);
+    expect(useBoardingStore.getState()).toMatchObject({
+      isBoarded: false,
+      boardedBusNumber: null,
+      status: {phase: 'boardingSuspected', busNumber: '101', stationId: null},
+    });
+
+    expect(boardBus('101', 'server')).toBe(true);
+    expect(useBoardingStore.getState()).toMatchObject({
+      isBoarded: true,
+      boardedBusNumber: '101',
+      status: {phase: 'boarded', source: 'server', confidence: 1},
+    });
+
+    // 하차 확인 중에도 하차가 확정되기 전까지는 탑승 중
+    expect(transition('alightingSuspected', {confidence: 0.5})).toBe(true);
+    expect(useBoardingStore.getState().boardedBusNumber).toBe('101');
+
+    expect(alightBus('client', 0.8)).toBe(true);
+    expect(useBoardingStore.getState()).toMatchObject({
+      isBoarded: false,
+      boardedBusNumber: null,
+      status: {phase: 'alighted', busNumber: '101', source: 'client'},
+    });
+  });
+
+  it('rejects transitions that skip a required step', () => {
+    const {transition, alightBus} = useBoardingStore.getState();
+
+    expect(alightBus()).toBe(false);
+    expect(transition('alightingSuspected')).toBe(false);
+    expect(useBoardingStore.getState().status.phase).toBe('idle');
+    expect(console.warn).toHaveBeenCalled();
+
+    useBoardingStore.getState().boardBus('101');
+    expect(transition('waiting')).toBe(false);
+    expect(useBoardingStore.getState().status.phase).toBe('boarded');
+
+    expect(canTransition('boarded', 'idle')).toBe(false);
+    expect(canTransition('alighted', 'waiting')).toBe(true);
+  });
+
+  it('restarts the stage when the bus or stop changes', () => {
+    const {transition, boardBus} = useBoardingStore.getState();
+    const nowSpy = jest.spyOn(Date, 'now');
+
+    nowSpy.mockReturnValue(1000);
+    transition('approachingStop', {stationId: 's1', stationName: '정문'});
+    nowSpy.mockReturnValue(2000);
+    transition('approachingStop', {stationId: 's1', stationName: '정문'});
+    expect(useBoardingStore.getState().status).toMatchObject({
+      enteredAt: 1000,
+      updatedAt: 2000,
+    });
+
+    nowSpy.mockReturnValue(3000);
+    transition('approachingStop', {stationId: 's2', stationName: '후문'});
+    expect(useBoardingStore.getState().status.enteredAt).toBe(3000);
+
+    // 다른 버스로 바로 갈아탄 경우 (서버 감지)
+    boardBus('101');
+    nowSpy.mockReturnValue(4000);
+    boardBus('202');
+    expect(useBoardingStore.getState()).toMatchObject({
+      boardedBusNumber: '202',
+      status: {enteredAt: 4000},
+    });
+  });
+
+  it('reports the phase only for the bus it concerns', () => {
+    useBoardingStore.getState().boardBus('101');
+    const {status} = useBoardingStore.getState();
+
+    expect(getBusBoardingPhase(status, '101')).toBe('boarded');
+    expect(getBusBoardingPhase(status, '202')).toBeNull();
+
+    useBoardingStore.getState().alightBus();
+    expect(
+      getBusBoardingPhase(useBoardingStore.getState().status, '101'),
+    ).toBeNull();
+  });
+});
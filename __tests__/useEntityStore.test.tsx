@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import {beforeEach, describe, expect, it} from '@jest/globals';
+import type {Station} from '../src/api/services/stationService';
+import type {Route} from '../src/api/services/routeService';
+import useEntityStore, {
+  selectRoute,
+  selectStation,
+  selectStationList,
+} from '../src/store/useEntityStore';
+
+const CITY_HALL = {latitude: 37.5665, longitude: 126.978};
+
+const station = (id: string, changes: Partial<Station> = {}): Station => ({
+  id,
+  name: `${id} 정류장`,
+  location: CITY_HALL,
+  organizationId: 'org-1',
+  ...changes,
+});
+
+const route = (id: string): Route => ({
+  id,
+  routeName: `${id}번`,
+  organizationId: 'org-1',
+  stations: [],
+});
+
+describe('useEntityStore', () => {
+  beforeEach(() => {
+    useEntityStore.getState().reset();
+  });
+
+  it('id로 정류장을 찾고 일부만 담긴 응답은 기존 정보를 지우지 않는다', () => {
+    const {upsertStations} = useEntityStore.getState();
+    upsertStations([station('a')]);
+    // 노선 응답처럼 좌표와 기관 id가 빠진 정류장
+    upsertStations([
+      station('a', {
+        name: '새 이름',
+        location: null,
+        organizationId: undefined,
+      }),
+    ]);
+
+    expect(selectStation('a')(useEntityStore.getState())).toEqual({
+      id: 'a',
+      name: '새 이름',
+      location: CITY_HALL,
+      organizationId: 'org-1',
+    });
+    expect(selectStation('missing')(useEntityStore.getState())).toBeNull();
+    expect(selectStation(null)(useEntityStore.getState())).toBeNull();
+  });
+
+  it('바뀐 것이 없으면 같은 객체와 같은 목록을 유지한다', () => {
+    const {upsertStations} = useEntityStore.getState();
+    upsertStations([station('a'), station('b')]);
+    const before = useEntityStore.getState();
+    const list = selectStationList(before);
+
+    upsertStations([station('a')]);
+    upsertStations([station('b')]);
+    useEntityStore.getState().replaceStations([station('a'), station('b')]);
+    const after = useEntityStore.getState();
+
+    expect(after.stations).toBe(before.stations);
+    // 맵이 그대로면 selector도 같은 배열 (화면이 다시 그려지지 않음)
+    expect(selectStationList(after)).toBe(list);
+
+    upsertStations([station('a', {name: '바뀐 이름'})]);
+    const changed = useEntityStore.getState();
+    expect(changed.stations.b).toBe(before.stations.b);
+    expect(selectStationList(changed)).not.toBe(list);
+  });
+
+  it('전체 목록으로 교체하면 서버에서 사라진 항목을 정리한다', () => {
+    const store = useEntityStore.getState();
+    store.upsertStations([station('a'), station('b')]);
+    store.replaceStations([station('b'), station('c')]);
+    store.upsertRoutes([route('r1'), route('r2')]);
+    store.removeRoute('r1');
+
+    const state = useEntityStore.getState();
+    expect(Object.keys(state.stations)).toEqual(['b', 'c']);
+    expect(selectRoute('r1')(state)).toBeNull();
+    expect(selectRoute('r2')(state)?.routeName).toBe('r2번');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @format
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import authSession from '../src/api/authSession';
+import type {Trip} from '../src/api/services/tripService';
+import {registerUserDataCleanup} from '../src/services/userDataCleanup';
+import useArrivalAlertStore from '../src/store/useArrivalAlertStore';
+import useEntityStore from '../src/store/useEntityStore';
+import useSelectedStationStore from '../src/store/useSelectedStationStore';
+import useSettingsStore from '../src/store/useSettingsStore';
+import useTripHistoryStore from '../src/store/useTripHistoryStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const trip = (id: string): Trip => ({
+  id,
+  busNumber: 'bus-1',
+  busRealNumber: '12가3456',
+  routeName: '1번',
+  boardedAt: 0,
+  alightedAt: 60 * 1000,
+  boardingStation: null,
+  alightingStation: null,
+  path: [],
+  syncedAt: null,
+});
+
+describe('userDataCleanup', () => {
+  let unregister: () => void;
+
+  beforeEach(() => {
+    unregister = registerUserDataCleanup();
+    useTripHistoryStore.setState({
+      trips: [trip('t1')],
+      activeTrip: trip('t2'),
+    });
+    useSettingsStore.setState({batterySaver: true, tripSyncEnabled: true});
+    useArrivalAlertStore.getState().addRule({
+      stationId: 'main-gate',
+      stationName: '정문',
+      latitude: null,
+      longitude: null,
+      busNumber: null,
+      busRealNumber: null,
+      minutesBefore: 5,
+      days: [1, 2, 3, 4, 5],
+      window: {startMinute: 8 * 60, endMinute: 9 * 60},
+      enabled: true,
+    });
+    useArrivalAlertStore.getState().setQuietHours({enabled: true});
+    useSelectedStationStore.getState().setSelectedStation({
+      id: 'main-gate',
+      name: '정문',
+      location: {latitude: 37.5665, longitude: 126.978},
+      organizationId: 'org-1',
+    });
+  });
+
+  afterEach(() => {
+    unregister();
+  });
+
+  it('로그아웃하면 이전 사용자의 데이터를 지운다', async () => {
+    await authSession.signOut();
+
+    // 이전 기관의 정류장과 선택한 정류장도 남기지 않음
+    expect(useEntityStore.getState().stations).toEqual({});
+    expect(useSelectedStationStore.getState().selectedStation).toBeNull();
+    expect(useArrivalAlertStore.getState().rules).toEqual([]);
+    expect(useArrivalAlertStore.getState().quietHours.enabled).toBe(false);
+    expect(useTripHistoryStore.getState().trips).toEqual([]);
+    expect(useTripHistoryStore.getState().activeTrip).toBeNull();
+    expect(useSettingsStore.getState().tripSyncEnabled).toBe(false);
+    // 기기 설정은 계정과 상관없으므로 유지
+    expect(useSettingsStore.getState().batterySaver).toBe(true);
+  });
+
+  it('세션이 만료되어도 같은 정리를 거친다', async () => {
+    await authSession.setTokens('access-token', 'refresh-token');
+    await authSession.expireSession();
+
+    expect(await authSession.getAccessToken()).toBeNull();
+    expect(useTripHistoryStore.getState().trips).toEqual([]);
+    expect(useSettingsStore.getState().tripSyncEnabled).toBe(false);
+  });
+
+  it('로그인 전 401은 로그아웃으로 보지 않는다', async () => {
+    await authSession.expireSession();
+
+    expect(useTripHistoryStore.getState().trips).toHaveLength(1);
+  });
+});
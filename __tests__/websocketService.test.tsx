@@ -0,0 +1,127 @@
+/**
+ * @format
+ */
+
+import {afterEach, beforeEach, describe, expect, it, jest} from '@jest/globals';
+import {
+  HEARTBEAT_TIMEOUT_CODE,
+  WebSocketWrapper,
+} from '../src/api/services/websocketService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+// 보낸 메시지를 기록하고 서버 메시지를 흉내 낼 수 있는 소켓
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  sent: Array<{type: string}> = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: {data: string}) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+
+  constructor() {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: object) {
+    this.onmessage?.({data: JSON.stringify(message)});
+  }
+}
+
+const PING_INTERVAL_MS = 20000;
+const PONG_TIMEOUT_MS = 10000;
+
+describe('WebSocketWrapper heartbeat', () => {
+  const originalWebSocket = global.WebSocket;
+  let onClose: jest.Mock;
+  let wrapper: WebSocketWrapper;
+
+  const connect = () => {
+    wrapper.connect('/ws/passenger', 'token');
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    socket.open();
+    return socket;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+    onClose = jest.fn();
+    wrapper = new WebSocketWrapper({
+      onOpen: () => {},
+      onMessage: () => {},
+      onError: () => {},
+      onClose,
+    });
+  });
+
+  afterEach(() => {
+    wrapper.disconnect();
+    jest.useRealTimers();
+    global.WebSocket = originalWebSocket;
+  });
+
+  it('detects a connection that stops answering before the first pong', () => {
+    const socket = connect();
+    socket.receive({type: 'welcome', protocolVersion: 1});
+
+    // 핸드셰이크 전에 보낸 첫 ping부터 응답을 기다림
+    jest.advanceTimersByTime(PONG_TIMEOUT_MS);
+
+    expect(onClose).toHaveBeenCalledWith(
+      expect.objectContaining({code: HEARTBEAT_TIMEOUT_CODE}),
+    );
+  });
+
+  it('does not time out on servers that never answered the handshake', () => {
+    connect();
+
+    jest.advanceTimersByTime(PING_INTERVAL_MS * 3);
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('forgets pong support when it reconnects', () => {
+    const first = connect();
+    first.receive({type: 'welcome', protocolVersion: 1});
+    first.receive({type: 'pong', id: 1});
+    wrapper.disconnect();
+
+    // 새 연결의 서버는 아직 핸드셰이크 전
+    connect();
+    jest.advanceTimersByTime(PING_INTERVAL_MS * 3);
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('keeps the connection while pongs arrive', () => {
+    const socket = connect();
+    socket.receive({type: 'welcome', protocolVersion: 1});
+
+    for (let i = 0; i < 3; i += 1) {
+      const ping = socket.sent.filter(message => message.type === 'ping').pop();
+      socket.receive({...ping, type: 'pong'});
+      jest.advanceTimersByTime(PING_INTERVAL_MS);
+    }
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
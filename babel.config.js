@@ -1,6 +1,11 @@
 module.exports = {
   presets: ['module:@react-native/babel-preset'],
   plugins: [
+    // 빌드 시점 플래그 (QA 릴리스 빌드에서 개발자 설정 화면 열기)
+    [
+      'transform-inline-environment-variables',
+      {include: ['ENABLE_DEV_SETTINGS']},
+    ],
     'react-native-reanimated/plugin',
   ],
 };
@@ -2,7 +2,11 @@
  * @format
  */
 import {AppRegistry} from 'react-native';
+import notifee from '@notifee/react-native';
 import App from './App';
 import {name as appName} from './app.json';
 
+// 백그라운드에서 시스템 알림을 누르면 앱이 열리기만 하면 되므로 따로 처리하지 않음
+notifee.onBackgroundEvent(async () => {});
+
 AppRegistry.registerComponent(appName, () => App);
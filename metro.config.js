@@ -1,6 +1,8 @@
 const {getDefaultConfig, mergeConfig} = require('@react-native/metro-config');
 
 const config = {
+  // 빌드 플래그가 바뀌면 이전 플래그로 변환한 캐시를 쓰지 않음
+  cacheVersion: `dev-settings:${process.env.ENABLE_DEV_SETTINGS ?? ''}`,
   transformer: {
     babelTransformerPath: require.resolve('react-native-svg-transformer'),
   },
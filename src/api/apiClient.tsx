@@ -1,35 +1,97 @@
-import axios, {AxiosInstance, AxiosRequestConfig, AxiosResponse} from 'axios';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import {Platform} from 'react-native';
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import {getApiBaseUrl} from '../config/environment';
+import authSession from './authSession';
+import {ApiError} from './apiError';
+import {Schema} from './schema';
+import requestCache, {
+  CacheEntry,
+  CachePolicy,
+  isFresh,
+  isUsableOffline,
+} from './requestCache';
+import useNetworkStatusStore from '../store/useNetworkStatusStore';
 
-// API 기본 URL 설정
-export const API_BASE_URL = Platform.select({
-  ios: 'http://devse.kr:12589', // iOS 시뮬레이터에서 localhost 접근용
-  android: 'http://devse.kr:12589', // Android 에뮬레이터에서 localhost 접근용
-});
-
-// 응답 타입 정의
+// 응답 타입 정의 (서버 공통 응답 봉투)
 export interface ApiResponse<T> {
   data: T;
   message: string;
 }
 
+// 요청 설정 - 응답 데이터 검증용 스키마를 함께 전달할 수 있음
+export interface ApiRequestConfig<T> extends AxiosRequestConfig {
+  schema?: Schema<T>;
+}
+
+// GET 요청 설정 - 캐시 정책을 지정하면 오프라인 우선으로 동작
+export interface ApiGetConfig<T> extends ApiRequestConfig<T> {
+  cache?: CachePolicy;
+  // 오래된 캐시를 먼저 반환한 뒤 새 데이터를 받으면 호출됨
+  onRevalidate?: (data: T) => void;
+}
+
+// 오프라인으로 판단하는 에러 코드
+const OFFLINE_ERROR_CODES = ['NETWORK_ERROR', 'TIMEOUT'];
+
+// 봉투에 함께 올 수 있는 필드
+const ENVELOPE_KEYS = ['data', 'message', 'code', 'status', 'success', 'timestamp'];
+
+// 응답 본문이 ApiResponse 봉투 형태인지 확인
+const isApiEnvelope = (body: unknown): body is ApiResponse<unknown> => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return false;
+  }
+  const keys = Object.keys(body);
+  return (
+    keys.includes('data') &&
+    keys.length > 1 &&
+    keys.every(key => ENVELOPE_KEYS.includes(key))
+  );
+};
+
+/**
+ * 응답 봉투를 벗겨 실제 데이터를 반환합니다.
+ * 이중으로 감싸진 응답도 처리하며, 봉투가 없으면 본문을 그대로 반환합니다.
+ */
+export const unwrapEnvelope = (body: unknown): unknown => {
+  let data = body;
+  while (isApiEnvelope(data)) {
+    data = data.data;
+  }
+  return data;
+};
+
+// 토큰 재발급 후 한 번만 재시도하기 위한 표시
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
 class ApiClient {
   private axiosInstance: AxiosInstance;
+  // 진행 중인 GET 요청 (같은 요청은 하나의 Promise를 공유)
+  private inFlightRequests: Map<string, Promise<unknown>> = new Map();
+  // 전체 캐시를 지울 때마다 증가 (지우기 전에 보낸 요청의 응답은 캐시에 넣지 않음)
+  private cacheGeneration = 0;
 
   constructor() {
     this.axiosInstance = axios.create({
-      baseURL: API_BASE_URL,
+      baseURL: getApiBaseUrl(),
       headers: {
         'Content-Type': 'application/json',
       },
       timeout: 15000, // 15초
     });
 
-    // 요청 인터셉터 설정 - 토큰 자동 추가
+    // 요청 인터셉터 설정 - 서버 주소 및 토큰 자동 추가
     this.axiosInstance.interceptors.request.use(
       async config => {
-        const token = await AsyncStorage.getItem('token');
+        // 개발자 화면에서 바꾼 서버 프로필이 즉시 반영되도록 요청마다 설정
+        config.baseURL = getApiBaseUrl();
+        const token = await authSession.getAccessToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -44,89 +106,163 @@ class ApiClient {
     this.axiosInstance.interceptors.response.use(
       response => response,
       async error => {
-        // 401 에러 처리 (토큰 만료 등)
-        if (error.response?.status === 401) {
-          await AsyncStorage.removeItem('token');
-          // 로그인 화면으로 리다이렉트하는 로직은 별도로 구현해야 함
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+
+        // 401 에러 처리 (토큰 만료 등) - 토큰 재발급 후 실패한 요청 재시도
+        if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
+          originalRequest._retry = true;
+
+          // 동시에 실패한 요청들은 진행 중인 재발급 하나를 함께 기다림
+          const newToken = await authSession.refreshAccessToken();
+          if (newToken) {
+            originalRequest.headers.Authorization = `Bearer ${newToken}`;
+            return this.axiosInstance(originalRequest);
+          }
+
+          // 재발급 실패 시 세션 종료 (구독 중인 네비게이션이 로그인 화면으로 이동)
+          await authSession.expireSession();
+        } else if (error.response?.status === 401) {
+          await authSession.expireSession();
         }
         return Promise.reject(error);
       },
     );
+
+    // 로그아웃, 회원탈퇴, 세션 만료 시 이전 사용자(기관)의 캐시 삭제
+    authSession.onSignedOut(() => {
+      this.invalidateCache();
+    });
   }
 
-  // GET 요청
-  async get<T>(
-    url: string,
-    config?: AxiosRequestConfig,
-  ): Promise<ApiResponse<T>> {
-    try {
-      const response: AxiosResponse<ApiResponse<T>> =
-        await this.axiosInstance.get(url, config);
-      return response.data;
-    } catch (error) {
-      this.handleError(error);
-      throw error;
+  /**
+   * GET 요청
+   * 캐시 정책이 있으면 신선한 캐시는 바로 반환하고, 오래된 캐시는 먼저 반환한 뒤
+   * 백그라운드에서 갱신합니다 (stale-while-revalidate).
+   */
+  async get<T>(url: string, config?: ApiGetConfig<T>): Promise<T> {
+    const {cache, onRevalidate, ...requestConfig} = config ?? {};
+    const fetchFromNetwork = () =>
+      this.request<T>({...requestConfig, method: 'get', url});
+
+    if (!cache) {
+      return this.dedupe(this.getRequestKey(url, requestConfig), fetchFromNetwork);
+    }
+
+    const cacheKey = `${cache.key}@${getApiBaseUrl()}`;
+    const entry = await requestCache.get<T>(cacheKey);
+    if (entry && isFresh(entry, cache)) {
+      return entry.data;
+    }
+
+    const revalidate = () =>
+      this.dedupe(cacheKey, async () => {
+        const generation = this.cacheGeneration;
+        const data = await fetchFromNetwork();
+        if (generation === this.cacheGeneration) {
+          await requestCache.set(cacheKey, data);
+        }
+        return data;
+      });
+
+    if (entry && isUsableOffline(entry, cache)) {
+      revalidate()
+        .then(data => onRevalidate?.(data))
+        .catch(error => this.handleCacheFallback(error, entry));
+      return entry.data;
     }
+
+    return revalidate();
+  }
+
+  // 캐시 삭제 (접두어를 지정하면 해당 엔드포인트만)
+  async invalidateCache(prefix?: string): Promise<void> {
+    if (!prefix) {
+      this.cacheGeneration += 1;
+    }
+    await requestCache.invalidate(prefix);
   }
 
   // POST 요청
   async post<T>(
     url: string,
     data?: any,
-    config?: AxiosRequestConfig,
-  ): Promise<ApiResponse<T>> {
-    try {
-      const response: AxiosResponse<ApiResponse<T>> =
-        await this.axiosInstance.post(url, data, config);
-      return response.data;
-    } catch (error) {
-      this.handleError(error);
-      throw error;
-    }
+    config?: ApiRequestConfig<T>,
+  ): Promise<T> {
+    return this.request<T>({...config, method: 'post', url, data});
   }
 
   // PUT 요청
   async put<T>(
     url: string,
     data?: any,
-    config?: AxiosRequestConfig,
-  ): Promise<ApiResponse<T>> {
-    try {
-      const response: AxiosResponse<ApiResponse<T>> =
-        await this.axiosInstance.put(url, data, config);
-      return response.data;
-    } catch (error) {
-      this.handleError(error);
-      throw error;
-    }
+    config?: ApiRequestConfig<T>,
+  ): Promise<T> {
+    return this.request<T>({...config, method: 'put', url, data});
   }
 
   // DELETE 요청
-  async delete<T>(
-    url: string,
-    config?: AxiosRequestConfig,
-  ): Promise<ApiResponse<T>> {
+  async delete<T>(url: string, config?: ApiRequestConfig<T>): Promise<T> {
+    return this.request<T>({...config, method: 'delete', url});
+  }
+
+  /**
+   * 요청을 보내고 응답 봉투(ApiResponse)를 벗겨 데이터만 반환합니다.
+   * schema가 주어지면 런타임에 형식을 검증합니다.
+   * 실패하면 항상 ApiError를 던집니다.
+   */
+  private async request<T>(config: ApiRequestConfig<T>): Promise<T> {
+    const {schema, ...axiosConfig} = config;
     try {
-      const response: AxiosResponse<ApiResponse<T>> =
-        await this.axiosInstance.delete(url, config);
-      return response.data;
+      const response: AxiosResponse<unknown> =
+        await this.axiosInstance.request(axiosConfig);
+      const data = unwrapEnvelope(response.data);
+      useNetworkStatusStore.getState().setOnline();
+      return schema ? schema.parse(data) : (data as T);
     } catch (error) {
-      this.handleError(error);
-      throw error;
+      const apiError = ApiError.from(error, axiosConfig.url);
+      if (OFFLINE_ERROR_CODES.includes(apiError.code)) {
+        useNetworkStatusStore.getState().setOffline();
+      }
+      this.handleError(apiError);
+      throw apiError;
     }
   }
 
-  // 에러 처리 메서드
-  private handleError(error: any): void {
-    if (axios.isAxiosError(error)) {
-      console.error(
-        'API Error:',
-        error.response?.status,
-        error.response?.data?.message || error.message,
-      );
-    } else {
-      console.error('Unexpected error:', error);
+  // 같은 키의 요청이 진행 중이면 그 결과를 함께 기다림
+  private dedupe<T>(key: string, run: () => Promise<T>): Promise<T> {
+    const inFlight = this.inFlightRequests.get(key);
+    if (inFlight) {
+      return inFlight as Promise<T>;
     }
+    const promise = run().finally(() => {
+      this.inFlightRequests.delete(key);
+    });
+    this.inFlightRequests.set(key, promise);
+    return promise;
+  }
+
+  private getRequestKey(url: string, config: AxiosRequestConfig): string {
+    return `${url}?${JSON.stringify(config.params ?? {})}`;
+  }
+
+  // 백그라운드 갱신 실패 시 오프라인이면 캐시 시각을 기록
+  private handleCacheFallback(error: unknown, entry: CacheEntry<unknown>) {
+    if (
+      error instanceof ApiError &&
+      OFFLINE_ERROR_CODES.includes(error.code)
+    ) {
+      useNetworkStatusStore.getState().setOffline(entry.storedAt);
+    }
+  }
+
+  // 에러 처리 메서드
+  private handleError(error: ApiError): void {
+    console.error(
+      'API Error:',
+      error.status ?? error.code,
+      error.url,
+      error.serverMessage || error.message,
+    );
   }
 }
 
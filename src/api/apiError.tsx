@@ -0,0 +1,97 @@
+// src/api/apiError.tsx
+import axios from 'axios';
+import {SchemaError} from './schema';
+
+// 서버 응답이 없거나 형식이 잘못된 경우의 에러 코드
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'INVALID_RESPONSE'
+  | 'UNKNOWN'
+  | string;
+
+/**
+ * 모든 API 서비스가 던지는 에러 타입.
+ * 화면에서는 status/code로 분기하고 message를 그대로 사용자에게 보여줄 수 있습니다.
+ */
+export class ApiError extends Error {
+  // HTTP 상태 코드 (응답을 받지 못한 경우 null)
+  status: number | null;
+  // 서버가 내려준 메시지
+  serverMessage: string | null;
+  // 서버 에러 코드 또는 클라이언트 에러 분류
+  code: ApiErrorCode;
+  // 요청 URL
+  url?: string;
+
+  constructor(params: {
+    message: string;
+    status?: number | null;
+    serverMessage?: string | null;
+    code?: ApiErrorCode;
+    url?: string;
+  }) {
+    super(params.message);
+    this.name = 'ApiError';
+    this.status = params.status ?? null;
+    this.serverMessage = params.serverMessage ?? null;
+    this.code = params.code ?? 'UNKNOWN';
+    this.url = params.url;
+  }
+
+  /**
+   * axios 에러, 스키마 에러 등 어떤 에러든 ApiError로 변환합니다.
+   */
+  static from(error: unknown, url?: string): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    if (error instanceof SchemaError) {
+      return new ApiError({
+        message: '서버 응답 형식이 올바르지 않습니다.',
+        code: 'INVALID_RESPONSE',
+        serverMessage: error.message,
+        url,
+      });
+    }
+
+    if (axios.isAxiosError(error)) {
+      const body = error.response?.data as
+        | {message?: unknown; code?: unknown}
+        | undefined;
+      const serverMessage =
+        typeof body?.message === 'string' ? body.message : null;
+
+      if (!error.response) {
+        const isTimeout = error.code === 'ECONNABORTED';
+        return new ApiError({
+          message: isTimeout
+            ? '서버 응답 시간이 초과되었습니다.'
+            : '네트워크 연결을 확인해주세요.',
+          code: isTimeout ? 'TIMEOUT' : 'NETWORK_ERROR',
+          url: url ?? error.config?.url,
+        });
+      }
+
+      return new ApiError({
+        message: serverMessage || error.message,
+        status: error.response.status,
+        serverMessage,
+        code:
+          typeof body?.code === 'string'
+            ? body.code
+            : `HTTP_${error.response.status}`,
+        url: url ?? error.config?.url,
+      });
+    }
+
+    return new ApiError({
+      message: error instanceof Error ? error.message : String(error),
+      url,
+    });
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
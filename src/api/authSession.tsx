@@ -0,0 +1,139 @@
+// src/api/authSession.tsx
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {getApiBaseUrl} from '../config/environment';
+
+// AsyncStorage 키
+export const ACCESS_TOKEN_KEY = 'token';
+export const REFRESH_TOKEN_KEY = 'refreshToken';
+
+// 토큰 재발급 응답 형식
+interface TokenRefreshResponse {
+  data: {
+    accessToken: string;
+    refreshToken?: string;
+  };
+  message: string;
+}
+
+type TokenRefreshedListener = (accessToken: string) => void;
+type SessionExpiredListener = () => void;
+type SignedOutListener = () => void;
+
+/**
+ * 인증 세션(액세스/리프레시 토큰)을 관리하는 싱글톤 클래스.
+ * 동시에 여러 요청이 401을 받더라도 토큰 재발급 요청은 한 번만 보내고,
+ * 모든 요청이 같은 결과를 기다리도록 합니다.
+ */
+class AuthSession {
+  private refreshPromise: Promise<string | null> | null = null;
+  private tokenRefreshedListeners: Set<TokenRefreshedListener> = new Set();
+  private sessionExpiredListeners: Set<SessionExpiredListener> = new Set();
+  private signedOutListeners: Set<SignedOutListener> = new Set();
+
+  public async getAccessToken(): Promise<string | null> {
+    return AsyncStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  public async setTokens(
+    accessToken: string,
+    refreshToken?: string | null,
+  ): Promise<void> {
+    await AsyncStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+    if (refreshToken) {
+      await AsyncStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  }
+
+  public async clearTokens(): Promise<void> {
+    await AsyncStorage.multiRemove([ACCESS_TOKEN_KEY, REFRESH_TOKEN_KEY]);
+  }
+
+  /**
+   * 리프레시 토큰으로 액세스 토큰을 재발급합니다.
+   * 이미 진행 중인 재발급이 있으면 그 결과를 함께 기다립니다.
+   * @returns 새 액세스 토큰, 재발급에 실패하면 null
+   */
+  public refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestNewAccessToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * 로그아웃합니다. 로그아웃, 회원탈퇴, 세션 만료가 모두 이 경로를 거치므로
+   * 이전 사용자의 데이터 정리는 onSignedOut 구독자에서 한 번에 처리합니다.
+   */
+  public async signOut(): Promise<void> {
+    await this.clearTokens();
+    console.log('🔐 [AuthSession] 로그아웃되었습니다.');
+    this.signedOutListeners.forEach(listener => listener());
+  }
+
+  /**
+   * 세션을 종료합니다. 로그아웃 후 구독자에게 알려 로그인 화면으로 이동시킵니다.
+   */
+  public async expireSession(): Promise<void> {
+    const hadToken = (await this.getAccessToken()) !== null;
+
+    // 로그인 전 요청의 401은 세션 만료가 아니므로 알리지 않음
+    if (!hadToken) {
+      await this.clearTokens();
+      return;
+    }
+
+    console.log('🔐 [AuthSession] 세션이 만료되어 로그아웃합니다.');
+    await this.signOut();
+    this.sessionExpiredListeners.forEach(listener => listener());
+  }
+
+  public onTokenRefreshed(listener: TokenRefreshedListener): () => void {
+    this.tokenRefreshedListeners.add(listener);
+    return () => this.tokenRefreshedListeners.delete(listener);
+  }
+
+  public onSessionExpired(listener: SessionExpiredListener): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => this.sessionExpiredListeners.delete(listener);
+  }
+
+  public onSignedOut(listener: SignedOutListener): () => void {
+    this.signedOutListeners.add(listener);
+    return () => this.signedOutListeners.delete(listener);
+  }
+
+  private async requestNewAccessToken(): Promise<string | null> {
+    const refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return null;
+    }
+
+    try {
+      // apiClient 인터셉터를 거치지 않도록 axios를 직접 사용
+      const response = await axios.post<TokenRefreshResponse>(
+        `${getApiBaseUrl()}/api/auth/refresh`,
+        {refreshToken},
+        {headers: {'Content-Type': 'application/json'}, timeout: 15000},
+      );
+      const {accessToken, refreshToken: nextRefreshToken} = response.data.data;
+      if (!accessToken) {
+        return null;
+      }
+
+      await this.setTokens(accessToken, nextRefreshToken);
+      console.log('🔐 [AuthSession] 액세스 토큰이 재발급되었습니다.');
+      this.tokenRefreshedListeners.forEach(listener => listener(accessToken));
+      return accessToken;
+    } catch (error) {
+      console.error('🔐 [AuthSession] 토큰 재발급 실패:', error);
+      return null;
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const authSession = new AuthSession();
+export default authSession;
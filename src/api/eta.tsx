@@ -0,0 +1,168 @@
+// src/api/eta.tsx
+
+/**
+ * 도착 예정 시간(ETA) 도메인 타입.
+ * 서버는 '3분 20초', '--분 --초' 같은 문자열을 내려주므로 서비스 계층에서 한 번만 파싱하고,
+ * 화면에서는 초 단위 값으로 비교/정렬하고 아래 포맷 함수로 같은 방식으로 표시합니다.
+ */
+
+// 도착 예정 시간을 알 수 없을 때 서버가 내려주는 값
+export const UNKNOWN_ETA_TEXT = '--분 --초';
+
+// ETA 출처
+// - arrival-estimate: 도착 시간 예측 API (카카오 경로 기반)
+// - station-detail: 버스 경로 정류장 상세의 estimatedArrivalTime
+export type EtaSource = 'arrival-estimate' | 'station-detail';
+
+// 신뢰도 (unknown 상태는 none)
+export type EtaConfidence = 'high' | 'medium' | 'none';
+
+export interface Eta {
+  // 계산 시점 기준 남은 시간(초), 알 수 없으면 null
+  seconds: number | null;
+  isUnknown: boolean;
+  confidence: EtaConfidence;
+  source: EtaSource;
+  // 계산 시각 (ms)
+  computedAt: number;
+}
+
+const SOURCE_CONFIDENCE: Record<EtaSource, EtaConfidence> = {
+  'arrival-estimate': 'high',
+  'station-detail': 'medium',
+};
+
+const ETA_PATTERN = /^\s*(?:(\d+)\s*분)?\s*(?:(\d+)\s*초)?\s*$/;
+
+// 예상 도착 시각이 이만큼 지나도록 새 정보가 없으면 만료된 추정으로 봄 (도착 정보 갱신 주기)
+export const ETA_EXPIRY_GRACE_SECONDS = 30;
+
+export const unknownEta = (
+  source: EtaSource,
+  computedAt: number = Date.now(),
+): Eta => ({
+  seconds: null,
+  isUnknown: true,
+  confidence: 'none',
+  source,
+  computedAt,
+});
+
+/**
+ * 서버의 도착 시간 문자열을 Eta로 변환합니다.
+ * '3분 20초', '3분', '40초'를 지원하고 그 외 형식은 unknown으로 처리합니다.
+ */
+export const parseEta = (
+  text: string | null | undefined,
+  source: EtaSource,
+  computedAt: number = Date.now(),
+): Eta => {
+  const match = text ? ETA_PATTERN.exec(text) : null;
+  if (!match || (match[1] === undefined && match[2] === undefined)) {
+    return unknownEta(source, computedAt);
+  }
+
+  const minutes = match[1] ? parseInt(match[1], 10) : 0;
+  const seconds = match[2] ? parseInt(match[2], 10) : 0;
+  return {
+    seconds: minutes * 60 + seconds,
+    isUnknown: false,
+    confidence: SOURCE_CONFIDENCE[source],
+    source,
+    computedAt,
+  };
+};
+
+/**
+ * 현재 시각 기준 남은 시간(초). 계산 후 지난 시간만큼 줄어들며 0 아래로 내려가지 않습니다.
+ * 예상 도착 시각이 지난 뒤로 새 정보가 없으면 곧 도착이 아니라 알 수 없음(null)으로 봅니다.
+ */
+export const getRemainingSeconds = (
+  eta: Eta,
+  now: number = Date.now(),
+): number | null => {
+  if (eta.seconds === null) {
+    return null;
+  }
+  const elapsed = Math.max(0, Math.floor((now - eta.computedAt) / 1000));
+  const remaining = eta.seconds - elapsed;
+  if (remaining < -ETA_EXPIRY_GRACE_SECONDS) {
+    return null;
+  }
+  return Math.max(0, remaining);
+};
+
+export const getEtaMinutes = (
+  eta: Eta,
+  now: number = Date.now(),
+): number | null => {
+  const remaining = getRemainingSeconds(eta, now);
+  return remaining === null ? null : Math.floor(remaining / 60);
+};
+
+// 주어진 분 이내에 도착하는지 (unknown은 false)
+export const isEtaWithin = (
+  eta: Eta,
+  minutes: number,
+  now: number = Date.now(),
+): boolean => {
+  const remaining = getRemainingSeconds(eta, now);
+  return remaining !== null && remaining <= minutes * 60;
+};
+
+// 빨리 도착하는 순으로 정렬하기 위한 비교 함수 (unknown은 맨 뒤)
+export const compareEta = (a: Eta, b: Eta, now: number = Date.now()) => {
+  const aSeconds = getRemainingSeconds(a, now) ?? Number.MAX_SAFE_INTEGER;
+  const bSeconds = getRemainingSeconds(b, now) ?? Number.MAX_SAFE_INTEGER;
+  return aSeconds - bSeconds;
+};
+
+// 가장 빨리 도착하는 Eta (모두 unknown이면 null)
+export const getEarliestEta = (etas: Eta[], now: number = Date.now()) => {
+  const known = etas.filter(eta => !eta.isUnknown);
+  return known.length > 0
+    ? [...known].sort((a, b) => compareEta(a, b, now))[0]
+    : null;
+};
+
+/**
+ * 초 단위 카운트다운 표시: '3분 20초', '잠시 후 도착', '--분 --초'
+ */
+export const formatEta = (eta: Eta, now: number = Date.now()): string => {
+  const remaining = getRemainingSeconds(eta, now);
+  if (remaining === null) {
+    return UNKNOWN_ETA_TEXT;
+  }
+  if (remaining <= 0) {
+    return '잠시 후 도착';
+  }
+  return `${Math.floor(remaining / 60)}분 ${remaining % 60}초`;
+};
+
+/**
+ * 분 단위 요약 표시: '약 3분 후', '곧 도착', '정보 없음'
+ */
+export const formatEtaMinutes = (
+  eta: Eta,
+  now: number = Date.now(),
+): string => {
+  const minutes = getEtaMinutes(eta, now);
+  if (minutes === null) {
+    return '정보 없음';
+  }
+  return minutes < 1 ? '곧 도착' : `약 ${minutes}분 후`;
+};
+
+/**
+ * 도착 안내 문장 표시: '약 3분 후 도착', '곧 도착', '도착 정보 없음'
+ */
+export const formatEtaArrival = (
+  eta: Eta,
+  now: number = Date.now(),
+): string => {
+  const minutes = getEtaMinutes(eta, now);
+  if (minutes === null) {
+    return '도착 정보 없음';
+  }
+  return minutes < 1 ? '곧 도착' : `약 ${minutes}분 후 도착`;
+};
@@ -0,0 +1,224 @@
+// src/api/geo.tsx
+import {s} from './schema';
+
+/**
+ * 위치 계산 유틸리티.
+ * 위도/경도는 도(degree), 거리는 미터 단위입니다.
+ */
+
+const EARTH_RADIUS_M = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * 두 지점 사이의 거리(m)를 하버사인 공식으로 계산합니다.
+ */
+export const getDistanceMeters = (
+  fromLatitude: number,
+  fromLongitude: number,
+  toLatitude: number,
+  toLongitude: number,
+): number => {
+  const dLat = toRadians(toLatitude - fromLatitude);
+  const dLng = toRadians(toLongitude - fromLongitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(fromLatitude)) *
+      Math.cos(toRadians(toLatitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * 출발 지점에서 도착 지점을 바라보는 방위각(0~360도, 북쪽 0도, 시계 방향)을 계산합니다.
+ */
+export const getBearingDegrees = (
+  fromLatitude: number,
+  fromLongitude: number,
+  toLatitude: number,
+  toLongitude: number,
+): number => {
+  const lat1 = toRadians(fromLatitude);
+  const lat2 = toRadians(toLatitude);
+  const dLng = toRadians(toLongitude - fromLongitude);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// 두 방위각의 차이 (0~180도)
+export const getHeadingDifference = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
+
+/**
+ * 앱 안에서 쓰는 좌표. 위도와 경도를 이름으로 구분합니다.
+ * 서버 응답의 x/y나 [경도, 위도] 배열은 API 경계에서 toGeoPoint로 바꾸고 그대로 넘기지 않습니다.
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * 서버가 보내는 위치 형태
+ * - {x, y}: x가 경도, y가 위도 (Spring GeoJsonPoint)
+ * - {coordinates: [경도, 위도], type}: GeoJSON Point
+ * - {x, y, coordinates, type}: 위 둘을 함께 담은 형태
+ */
+export interface RawGeoLocation {
+  x?: number;
+  y?: number;
+  coordinates?: number[];
+  type?: string;
+}
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// 위도/경도 범위 안의 좌표인지
+export const isValidGeoPoint = (latitude: unknown, longitude: unknown) =>
+  isFiniteNumber(latitude) &&
+  isFiniteNumber(longitude) &&
+  Math.abs(latitude) <= 90 &&
+  Math.abs(longitude) <= 180;
+
+// GeoJSON 좌표 [경도, 위도]를 읽음 (형식이 다르면 null)
+export const fromCoordinates = (coordinates: unknown): GeoPoint | null => {
+  if (!Array.isArray(coordinates) || coordinates.length < 2) {
+    return null;
+  }
+  const [longitude, latitude] = coordinates;
+  return isValidGeoPoint(latitude, longitude) ? {latitude, longitude} : null;
+};
+
+/**
+ * 서버 위치(RawGeoLocation의 모든 형태)나 이미 바꾼 GeoPoint를 GeoPoint로 바꿉니다.
+ * coordinates가 있으면 우선 사용하고, 읽을 수 없는 값이면 null입니다.
+ */
+export const toGeoPoint = (location: unknown): GeoPoint | null => {
+  if (typeof location !== 'object' || location === null) {
+    return null;
+  }
+  const source = location as RawGeoLocation & Partial<GeoPoint>;
+  const fromArray = fromCoordinates(source.coordinates);
+  if (fromArray) {
+    return fromArray;
+  }
+  if (isValidGeoPoint(source.y, source.x)) {
+    return {latitude: source.y as number, longitude: source.x as number};
+  }
+  if (isValidGeoPoint(source.latitude, source.longitude)) {
+    return {
+      latitude: source.latitude as number,
+      longitude: source.longitude as number,
+    };
+  }
+  return null;
+};
+
+// 서버로 보낼 GeoJSON 좌표 [경도, 위도]
+export const toCoordinates = (point: GeoPoint): [number, number] => [
+  point.longitude,
+  point.latitude,
+];
+
+// 응답의 위치 필드 검증 (어떤 형태든 GeoPoint로, 읽을 수 없으면 null)
+export const geoPointSchema = s.transform(s.unknown(), toGeoPoint);
+
+// 두 지점 사이를 fraction(0~1) 비율로 잇는 지점 (짧은 거리용 선형 보간)
+export const interpolateGeoPoint = (
+  from: GeoPoint,
+  to: GeoPoint,
+  fraction: number,
+): GeoPoint => ({
+  latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+  longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+});
+
+/**
+ * 출발 지점에서 방위각 방향으로 거리(m)만큼 이동한 지점을 계산합니다.
+ */
+export const getDestinationPoint = (
+  latitude: number,
+  longitude: number,
+  bearingDegrees: number,
+  distanceMeters: number,
+): GeoPoint => {
+  const angular = distanceMeters / EARTH_RADIUS_M;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(latitude);
+  const lng1 = toRadians(longitude);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) +
+      Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing),
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+    );
+  return {
+    latitude: (lat2 * 180) / Math.PI,
+    longitude: (((lng2 * 180) / Math.PI + 540) % 360) - 180,
+  };
+};
+
+// 경로 위에 투영한 지점
+export interface PathProjection extends GeoPoint {
+  // 원래 지점에서 투영 지점까지 거리(m)
+  distanceMeters: number;
+  // 투영된 경로 구간의 방향 (경로 순서 기준 방위각)
+  bearing: number;
+}
+
+/**
+ * 지점을 경로(폴리라인)에서 가장 가까운 위치로 투영합니다.
+ * 짧은 거리에서는 평면으로 근사해 계산합니다. 점이 2개 미만이면 null입니다.
+ */
+export const projectOntoPath = (
+  point: GeoPoint,
+  path: GeoPoint[],
+): PathProjection | null => {
+  if (path.length < 2) {
+    return null;
+  }
+  // 지점을 원점으로 하는 평면 좌표(m)
+  const metersPerLat = (Math.PI / 180) * EARTH_RADIUS_M;
+  const metersPerLng = metersPerLat * Math.cos(toRadians(point.latitude));
+  const toXY = (p: GeoPoint) => ({
+    x: (p.longitude - point.longitude) * metersPerLng,
+    y: (p.latitude - point.latitude) * metersPerLat,
+  });
+
+  let best: PathProjection | null = null;
+  for (let i = 0; i < path.length - 1; i++) {
+    const a = toXY(path[i]);
+    const b = toXY(path[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+      lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+    const distance = Math.hypot(a.x + dx * t, a.y + dy * t);
+    if (!best || distance < best.distanceMeters) {
+      best = {
+        ...interpolateGeoPoint(path[i], path[i + 1], t),
+        distanceMeters: distance,
+        bearing: getBearingDegrees(
+          path[i].latitude,
+          path[i].longitude,
+          path[i + 1].latitude,
+          path[i + 1].longitude,
+        ),
+      };
+    }
+  }
+  return best;
+};
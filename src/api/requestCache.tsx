@@ -0,0 +1,123 @@
+// src/api/requestCache.tsx
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const STORAGE_PREFIX = 'api-cache:';
+
+// 캐시 정책
+export interface CachePolicy {
+  // 캐시 키 (같은 URL이라도 날짜 등으로 구분해야 할 때 지정)
+  key: string;
+  // 이 시간(ms) 동안은 네트워크 요청 없이 캐시를 그대로 사용
+  ttl: number;
+  // 오프라인일 때 이 시간(ms)까지 지난 캐시를 대신 보여줌
+  maxStale: number;
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  // 저장 시각 (ms)
+  storedAt: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * 엔드포인트별 캐시 정책.
+ * 정류장/노선은 거의 바뀌지 않으므로 길게, 오늘 운행 일정은 짧게 유지합니다.
+ */
+export const CACHE_POLICIES = {
+  stations: (): CachePolicy => ({
+    key: 'stations',
+    ttl: 10 * MINUTE,
+    maxStale: 7 * DAY,
+  }),
+  routes: (): CachePolicy => ({
+    key: 'routes',
+    ttl: 10 * MINUTE,
+    maxStale: 7 * DAY,
+  }),
+  route: (routeId: string): CachePolicy => ({
+    key: `routes/${routeId}`,
+    ttl: 10 * MINUTE,
+    maxStale: 7 * DAY,
+  }),
+  // 날짜가 바뀌면 다른 키를 쓰도록 오늘 날짜를 키에 포함
+  todayOperationPlan: (date: string): CachePolicy => ({
+    key: `operation-plan/today/${date}`,
+    ttl: 5 * MINUTE,
+    maxStale: DAY,
+  }),
+};
+
+/**
+ * AsyncStorage에 저장되는 요청 캐시.
+ * 메모리에도 함께 보관해 같은 세션 안에서는 디스크를 다시 읽지 않습니다.
+ */
+class RequestCache {
+  private memory: Map<string, CacheEntry<unknown>> = new Map();
+
+  public async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      return cached as CacheEntry<T>;
+    }
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      if (!stored) {
+        return null;
+      }
+      const entry = JSON.parse(stored) as CacheEntry<T>;
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.warn('💾 [RequestCache] 캐시 읽기 실패:', key, error);
+      return null;
+    }
+  }
+
+  public async set<T>(key: string, data: T): Promise<void> {
+    const entry: CacheEntry<T> = {data, storedAt: Date.now()};
+    this.memory.set(key, entry);
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.warn('💾 [RequestCache] 캐시 저장 실패:', key, error);
+    }
+  }
+
+  /**
+   * 지정한 접두어로 시작하는 캐시를 삭제합니다. 접두어가 없으면 전체 삭제.
+   */
+  public async invalidate(prefix: string = ''): Promise<void> {
+    Array.from(this.memory.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.memory.delete(key));
+
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const targets = keys.filter(key =>
+        key.startsWith(STORAGE_PREFIX + prefix),
+      );
+      if (targets.length > 0) {
+        await AsyncStorage.multiRemove(targets);
+      }
+    } catch (error) {
+      console.warn('💾 [RequestCache] 캐시 삭제 실패:', prefix, error);
+    }
+  }
+}
+
+export const isFresh = (entry: CacheEntry<unknown>, policy: CachePolicy) =>
+  Date.now() - entry.storedAt < policy.ttl;
+
+export const isUsableOffline = (
+  entry: CacheEntry<unknown>,
+  policy: CachePolicy,
+) => Date.now() - entry.storedAt < policy.maxStale;
+
+// 싱글톤 인스턴스 생성
+const requestCache = new RequestCache();
+export default requestCache;
@@ -0,0 +1,139 @@
+// src/api/schema.tsx
+
+/**
+ * API 응답 런타임 검증을 위한 경량 스키마 모듈.
+ * 서비스에 선언된 인터페이스를 기준으로 스키마를 만들고,
+ * 형식이 맞지 않으면 어느 필드가 잘못되었는지 담은 SchemaError를 던집니다.
+ */
+
+export class SchemaError extends Error {
+  // 검증에 실패한 필드 경로 (예: '$[0].location.coordinates')
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(
+      `${path}: ${expected} 형식이 필요하지만 ${describe(
+        received,
+      )}을(를) 받았습니다.`,
+    );
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => T;
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+};
+
+const primitive = <T,>(
+  expected: string,
+  check: (value: unknown) => boolean,
+): Schema<T> => ({
+  parse: (value, path = '$') => {
+    if (!check(value)) {
+      throw new SchemaError(path, expected, value);
+    }
+    return value as T;
+  },
+});
+
+const string = (): Schema<string> =>
+  primitive('string', value => typeof value === 'string');
+
+const number = (): Schema<number> =>
+  primitive(
+    'number',
+    value => typeof value === 'number' && !Number.isNaN(value),
+  );
+
+const boolean = (): Schema<boolean> =>
+  primitive('boolean', value => typeof value === 'boolean');
+
+// 형식을 검증하지 않는 필드 (any로 선언된 필드 등)
+const unknown = <T = unknown,>(): Schema<T> => ({
+  parse: value => value as T,
+});
+
+const literal = <T extends string>(values: readonly T[]): Schema<T> =>
+  primitive(values.join(' | '), value => values.includes(value as T));
+
+// 없는 필드 (null도 없는 것으로 취급)
+const optional = <T,>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path = '$') =>
+    value === undefined || value === null
+      ? undefined
+      : schema.parse(value, path),
+});
+
+const nullable = <T,>(schema: Schema<T>): Schema<T | null> => ({
+  parse: (value, path = '$') =>
+    value === null || value === undefined ? null : schema.parse(value, path),
+});
+
+const array = <T,>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path = '$') => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, 'array', value);
+    }
+    return value.map((element, index) =>
+      item.parse(element, `${path}[${index}]`),
+    );
+  },
+});
+
+export type ObjectShape<T> = {[K in keyof T]-?: Schema<T[K]>};
+
+// 다른 객체 스키마를 확장할 수 있도록 필드 스키마를 함께 노출
+export interface ObjectSchema<T> extends Schema<T> {
+  shape: ObjectShape<T>;
+}
+
+/**
+ * 객체 스키마. 선언되지 않은 필드는 그대로 유지합니다.
+ * 인터페이스를 타입 인자로 넘기면 모든 필드에 스키마가 있는지 컴파일 시점에 확인됩니다.
+ */
+const object = <T extends object>(shape: ObjectShape<T>): ObjectSchema<T> => ({
+  shape,
+  parse: (value, path = '$') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {...source};
+    (Object.keys(shape) as (keyof T & string)[]).forEach(key => {
+      result[key] = shape[key].parse(source[key], `${path}.${key}`);
+    });
+    return result as T;
+  },
+});
+
+// 검증한 값을 변환 (예: 서버 문자열을 도메인 타입으로)
+const transform = <T, R>(
+  schema: Schema<T>,
+  map: (value: T) => R,
+): Schema<R> => ({
+  parse: (value, path = '$') => map(schema.parse(value, path)),
+});
+
+export const s = {
+  string,
+  number,
+  boolean,
+  unknown,
+  literal,
+  optional,
+  nullable,
+  array,
+  object,
+  transform,
+};
@@ -1,4 +1,6 @@
 import apiClient from '../apiClient';
+import authSession from '../authSession';
+import {s} from '../schema';
 
 export interface UserInfo {
   name: string;
@@ -7,22 +9,32 @@ export interface UserInfo {
   organizationId?: string;
 }
 
+const userInfoSchema = s.object<UserInfo>({
+  name: s.string(),
+  email: s.string(),
+  role: s.string(),
+  organizationId: s.optional(s.string()),
+});
+
 export const authService = {
   // 사용자 정보 조회
   async getUserInfo(): Promise<UserInfo> {
-    const response = await apiClient.get<UserInfo>('/api/auth/user');
-    return response.data;
+    return apiClient.get<UserInfo>('/api/auth/user', {
+      schema: userInfoSchema,
+    });
   },
 
-  // 로그아웃
+  // 로그아웃 (서버 요청이 실패해도 기기에서는 로그아웃)
   async logout(): Promise<boolean> {
-    const response = await apiClient.post<boolean>('/api/auth/logout');
-    return response.data;
+    try {
+      return await apiClient.post<boolean>('/api/auth/logout');
+    } finally {
+      await authSession.signOut();
+    }
   },
 
   // 역할 업그레이드 (GUEST -> USER)
   async rankUpUser(code: string): Promise<boolean> {
-    const response = await apiClient.post<boolean>('/api/auth/rankUp', {code});
-    return response.data;
+    return apiClient.post<boolean>('/api/auth/rankUp', {code});
   },
 };
@@ -1,6 +1,10 @@
 // src/api/services/busService.tsx
-import apiClient, {ApiResponse} from '../apiClient';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiClient from '../apiClient';
+import {s} from '../schema';
+import {Eta, parseEta} from '../eta';
+import {GeoPoint, geoPointSchema} from '../geo';
+import useEntityStore from '../../store/useEntityStore';
+import {toStation} from './stationService';
 
 export interface BusRealTimeStatus {
   busNumber: string;
@@ -48,10 +52,7 @@ export interface BusInfo {
   totalSeats: number;
   occupiedSeats: number;
   availableSeats: number;
-  location: {
-    coordinates: number[];
-    type: string;
-  };
+  location: GeoPoint | null;
   stationNames: string[];
   timestamp: string;
   position?: number;
@@ -61,112 +62,173 @@ export interface BusInfo {
   isOperate: boolean; // 운행 여부 추가
 }
 
-export interface StationDetail {
-  id: string;
-  name: string;
-  sequence: number;
-  isPassed: boolean;
-  isCurrentStation: boolean;
-  estimatedArrivalTime?: string;
-  location: {
-    coordinates: number[];
-    type: string;
-  };
-  organizationId: string;
-}
-
 export interface BusArrivalEstimate {
   estimatedTime: string;
   waypoints: string[];
+  // estimatedTime을 파싱한 도착 예정 정보
+  eta: Eta;
 }
 
-// 백엔드에서 반환하는 정류장 인터페이스
-interface Station {
+// 백엔드에서 반환하는 버스 경로상의 정류장 상세 인터페이스
+export interface BusStationDetail {
   id: string;
   name: string;
-  location: {
-    coordinates: number[]; // [경도, 위도] 배열
-    type: string;
-  };
+  location: GeoPoint | null;
   organizationId: string;
   isPassed: boolean; // 백엔드에서 isPassed로 반환
   isCurrentStation: boolean; // 백엔드에서 isCurrentStation으로 반환
   estimatedArrivalTime: string | null;
+  // estimatedArrivalTime을 파싱한 도착 예정 정보
+  eta: Eta;
   sequence: number;
   // 추가 필드
   currentStation: boolean; // 응답에 currentStation도 있음
   passed: boolean; // 응답에 passed도 있음
 }
 
+export const busRealTimeStatusSchema = s.object<BusRealTimeStatus>({
+  busNumber: s.string(),
+  busRealNumber: s.nullable(s.string()),
+  routeName: s.string(),
+  organizationId: s.string(),
+  latitude: s.number(),
+  longitude: s.number(),
+  totalSeats: s.number(),
+  occupiedSeats: s.number(),
+  availableSeats: s.number(),
+  currentStationName: s.string(),
+  lastUpdateTime: s.number(),
+  currentStationIndex: s.number(),
+  totalStations: s.number(),
+  operate: s.boolean(),
+});
+
+const busSeatSchema = s.object<BusSeat>({
+  busNumber: s.string(),
+  busRealNumber: s.nullable(s.string()),
+  totalSeats: s.number(),
+  availableSeats: s.number(),
+  occupiedSeats: s.number(),
+  isOperate: s.boolean(),
+});
+
+const busLocationSchema = s.object<BusLocation>({
+  latitude: s.number(),
+  longitude: s.number(),
+  timestamp: s.string(),
+});
+
+export const busStationDetailSchema = s.transform(
+  s.object<Omit<BusStationDetail, 'eta'>>({
+    id: s.string(),
+    name: s.string(),
+    location: geoPointSchema,
+    organizationId: s.string(),
+    isPassed: s.boolean(),
+    isCurrentStation: s.boolean(),
+    estimatedArrivalTime: s.nullable(s.string()),
+    sequence: s.number(),
+    currentStation: s.boolean(),
+    passed: s.boolean(),
+  }),
+  (station): BusStationDetail => ({
+    ...station,
+    eta: parseEta(station.estimatedArrivalTime, 'station-detail'),
+  }),
+);
+
+const busArrivalEstimateSchema = s.transform(
+  s.object<Omit<BusArrivalEstimate, 'eta'>>({
+    estimatedTime: s.string(),
+    waypoints: s.array(s.string()),
+  }),
+  (estimate): BusArrivalEstimate => ({
+    ...estimate,
+    eta: parseEta(estimate.estimatedTime, 'arrival-estimate'),
+  }),
+);
+
+// 받은 버스를 엔티티 스토어에 반영 (다른 화면과 공유)
+const storeBuses = (buses: BusRealTimeStatus[]): BusRealTimeStatus[] => {
+  useEntityStore.getState().upsertBuses(buses);
+  return buses;
+};
+
 export const busService = {
   // 모든 버스 조회
   async getAllBuses(): Promise<BusRealTimeStatus[]> {
-    const response = await apiClient.get<BusRealTimeStatus[]>('/api/bus');
-    return response.data;
+    const buses = await apiClient.get<BusRealTimeStatus[]>('/api/bus', {
+      schema: s.array(busRealTimeStatusSchema),
+    });
+    useEntityStore.getState().replaceBuses(buses);
+    return buses;
   },
 
   // 특정 버스 조회 (busNumber로)
   async getBusByNumber(busNumber: string): Promise<BusRealTimeStatus> {
-    const response = await apiClient.get<BusRealTimeStatus>(
+    const bus = await apiClient.get<BusRealTimeStatus>(
       `/api/bus/${busNumber}`,
+      {schema: busRealTimeStatusSchema},
     );
-    return response.data;
+    storeBuses([bus]);
+    return bus;
   },
 
   // 실제 버스 번호로 버스 조회
   async getBusByRealNumber(busRealNumber: string): Promise<BusRealTimeStatus> {
-    const response = await apiClient.get<BusRealTimeStatus>(
+    return apiClient.get<BusRealTimeStatus>(
       `/api/bus/real-number/${busRealNumber}`,
+      {schema: busRealTimeStatusSchema},
     );
-    return response.data;
   },
 
   // 운행 중인 버스만 조회
   async getOperatingBuses(): Promise<BusRealTimeStatus[]> {
-    const response = await apiClient.get<BusRealTimeStatus[]>('/api/bus/operating');
-    return response.data;
+    return storeBuses(
+      await apiClient.get<BusRealTimeStatus[]>('/api/bus/operating', {
+        schema: s.array(busRealTimeStatusSchema),
+      }),
+    );
   },
 
   // 특정 정류장을 지나는 버스 조회
   async getBusesByStation(stationId: string): Promise<BusRealTimeStatus[]> {
-    const response = await apiClient.get<BusRealTimeStatus[]>(
-      `/api/bus/station/${stationId}`,
+    return storeBuses(
+      await apiClient.get<BusRealTimeStatus[]>(
+        `/api/bus/station/${stationId}`,
+        {
+          schema: s.array(busRealTimeStatusSchema),
+        },
+      ),
     );
-    return response.data;
   },
 
   // 버스 좌석 정보 조회
   async getBusSeats(busNumber: string): Promise<BusSeat> {
-    const response = await apiClient.get<BusSeat>(
-      `/api/bus/seats/${busNumber}`,
-    );
-    return response.data;
+    return apiClient.get<BusSeat>(`/api/bus/seats/${busNumber}`, {
+      schema: busSeatSchema,
+    });
   },
 
   // 버스 위치 조회
   async getBusLocation(busNumber: string): Promise<BusLocation> {
-    const response = await apiClient.get<BusLocation>(
-      `/api/bus/location/${busNumber}`,
-    );
-    return response.data;
+    return apiClient.get<BusLocation>(`/api/bus/location/${busNumber}`, {
+      schema: busLocationSchema,
+    });
   },
 
   // 버스 탑승/하차 처리
   async processBusBoarding(boardingData: BusBoardingAction): Promise<boolean> {
-    const response = await apiClient.post<boolean>(
-      '/api/bus/boarding',
-      boardingData,
-    );
-    return response.data;
+    return apiClient.post<boolean>('/api/bus/boarding', boardingData);
   },
 
   // 버스의 정류장 이름 목록 조회 (이전 방식)
   async getBusStationNames(busNumber: string): Promise<string[]> {
     try {
-      const response = await apiClient.get<ApiResponse<string[]>>(
+      return await apiClient.get<string[]>(
         `/api/bus/stationNames/${busNumber}`,
+        {schema: s.array(s.string())},
       );
-      return response.data.data;
     } catch (error) {
       console.error('Failed to fetch bus station names:', error);
       throw error;
@@ -178,24 +240,14 @@ export const busService = {
    * @param busNumber 버스 번호
    * @returns 정류장 상세 정보 목록
    */
-  async getBusStationsDetail(busNumber: string): Promise<Station[]> {
+  async getBusStationsDetail(busNumber: string): Promise<BusStationDetail[]> {
     try {
-      const response = await apiClient.get<ApiResponse<Station[]>>(
+      const stations = await apiClient.get<BusStationDetail[]>(
         `/api/bus/stations-detail/${busNumber}`,
+        {schema: s.array(busStationDetailSchema)},
       );
-
-      // 응답이 바로 배열로 오는 경우
-      if (Array.isArray(response.data)) {
-        return response.data;
-      }
-
-      // ApiResponse 형태로 오는 경우 (data 필드 안에 배열이 있는 경우)
-      if (response.data && Array.isArray(response.data.data)) {
-        return response.data.data;
-      }
-
-      console.error('예상치 못한 API 응답 형식:', response.data);
-      throw new Error('API 응답 형식 오류');
+      useEntityStore.getState().upsertStations(stations.map(toStation));
+      return stations;
     } catch (error) {
       console.error('버스 정류장 상세 정보 조회 실패:', error);
       throw error;
@@ -207,18 +259,12 @@ export const busService = {
     busId: string,
     stationId: string,
   ): Promise<BusArrivalEstimate> {
-    const token = await AsyncStorage.getItem('token');
-    const response = await apiClient.get<ApiResponse<BusArrivalEstimate>>(
+    return apiClient.get<BusArrivalEstimate>(
       '/api/kakao-api/arrival-time/multi',
       {
         params: {busId, stationId},
-        headers: token
-          ? {
-              Authorization: `Bearer ${token}`,
-            }
-          : undefined,
+        schema: busArrivalEstimateSchema,
       },
     );
-    return response.data.data;
   },
-};
\ No newline at end of file
+};
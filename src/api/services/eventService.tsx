@@ -1,5 +1,6 @@
 // src/api/services/eventService.tsx
-import apiClient, {ApiResponse} from '../apiClient';
+import apiClient from '../apiClient';
+import {s} from '../schema';
 
 /**
  * 이벤트 정보
@@ -88,32 +89,83 @@ export interface RewardDrawResponse {
   message: string;
 }
 
+const eventMissionSchema = s.object<EventMission>({
+  id: s.string(),
+  eventId: s.string(),
+  title: s.string(),
+  description: s.string(),
+  missionType: s.literal(Object.values(MissionType)),
+  targetValue: s.string(),
+  isRequired: s.boolean(),
+  order: s.number(),
+  isCompleted: s.boolean(),
+});
+
+const eventRewardSchema = s.object<EventReward>({
+  id: s.string(),
+  eventId: s.string(),
+  rewardName: s.string(),
+  rewardGrade: s.number(),
+  probability: s.number(),
+  totalQuantity: s.number(),
+  remainingQuantity: s.number(),
+  imageUrl: s.string(),
+  description: s.string(),
+});
+
+const eventSchema = s.object<Event>({
+  id: s.string(),
+  name: s.string(),
+  description: s.string(),
+  startDate: s.string(),
+  endDate: s.string(),
+  isActive: s.boolean(),
+  organizationId: s.string(),
+  missions: s.array(eventMissionSchema),
+  rewards: s.array(eventRewardSchema),
+  createdAt: s.string(),
+});
+
+const eventParticipationSchema = s.object<EventParticipation>({
+  id: s.string(),
+  eventId: s.string(),
+  userId: s.string(),
+  completedMissions: s.array(s.string()),
+  isEligibleForDraw: s.boolean(),
+  hasDrawn: s.boolean(),
+  drawnReward: s.nullable(eventRewardSchema),
+  drawTimestamp: s.nullable(s.string()),
+});
+
+const rewardDrawResponseSchema = s.object<RewardDrawResponse>({
+  success: s.boolean(),
+  reward: eventRewardSchema,
+  message: s.string(),
+});
+
 /**
  * 현재 진행 중인 이벤트 조회
  */
 export const getCurrentEvent = async (): Promise<Event> => {
-  const response = await apiClient.get<ApiResponse<Event>>('/api/event/current');
-  return response.data.data;
+  return apiClient.get<Event>('/api/event/current', {schema: eventSchema});
 };
 
 /**
  * 이벤트 미션 목록 조회
  */
 export const getEventMissions = async (eventId: string): Promise<EventMission[]> => {
-  const response = await apiClient.get<ApiResponse<EventMission[]>>(
-    `/api/event/${eventId}/missions`,
-  );
-  return response.data.data;
+  return apiClient.get<EventMission[]>(`/api/event/${eventId}/missions`, {
+    schema: s.array(eventMissionSchema),
+  });
 };
 
 /**
  * 이벤트 상품 목록 조회
  */
 export const getEventRewards = async (eventId: string): Promise<EventReward[]> => {
-  const response = await apiClient.get<ApiResponse<EventReward[]>>(
-    `/api/event/${eventId}/rewards`,
-  );
-  return response.data.data;
+  return apiClient.get<EventReward[]>(`/api/event/${eventId}/rewards`, {
+    schema: s.array(eventRewardSchema),
+  });
 };
 
 /**
@@ -122,29 +174,30 @@ export const getEventRewards = async (eventId: string): Promise<EventReward[]> =
 export const completeMission = async (
   request: MissionCompleteRequest,
 ): Promise<EventParticipation> => {
-  const response = await apiClient.post<ApiResponse<EventParticipation>>(
+  return apiClient.post<EventParticipation>(
     '/api/event/complete-mission',
     request,
+    {schema: eventParticipationSchema},
   );
-  return response.data.data;
 };
 
 /**
  * 랜덤 뽑기 실행
  */
 export const drawReward = async (eventId: string): Promise<RewardDrawResponse> => {
-  const response = await apiClient.post<ApiResponse<RewardDrawResponse>>(
+  return apiClient.post<RewardDrawResponse>(
     `/api/event/${eventId}/draw-reward`,
+    undefined,
+    {schema: rewardDrawResponseSchema},
   );
-  return response.data.data;
 };
 
 /**
  * 내 참여 현황 조회
  */
 export const getMyParticipation = async (eventId: string): Promise<EventParticipation> => {
-  const response = await apiClient.get<ApiResponse<EventParticipation>>(
+  return apiClient.get<EventParticipation>(
     `/api/event/${eventId}/my-participation`,
+    {schema: eventParticipationSchema},
   );
-  return response.data.data;
 };
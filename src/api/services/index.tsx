@@ -5,4 +5,6 @@ export * from './stationService.tsx';
 export * from './userService.tsx';
 export * from './routeService.tsx';
 export * from './operationPlanService.tsx';
-export * from './eventService.tsx'; 
\ No newline at end of file
+export * from './eventService.tsx';
+export * from './tripService.tsx';
+export * from './serviceAlertService.tsx';
@@ -1,16 +1,19 @@
 import apiClient from '../apiClient';
+import {s} from '../schema';
+import {CACHE_POLICIES} from '../requestCache';
 
 // 백엔드 OperationPlanDTO에 정확히 맞춘 인터페이스
+// 배정되지 않은 버스/기사/노선 정보는 null로 내려올 수 있음
 export interface OperationPlanDTO {
   id: string;
   operationId: string;
-  busId: string;
-  busNumber: string;
-  busRealNumber: string;
-  driverId: string;
-  driverName: string;
-  routeId: string;
-  routeName: string;
+  busId: string | null;
+  busNumber: string | null;
+  busRealNumber: string | null;
+  driverId: string | null;
+  driverName: string | null;
+  routeId: string | null;
+  routeName: string | null;
   operationDate: string; // LocalDate -> "2025-06-07" 형식
   startTime: string; // LocalTime -> "08:00:00" 형식
   endTime: string; // LocalTime -> "18:00:00" 형식
@@ -22,6 +25,29 @@ export interface OperationPlanDTO {
   updatedAt: string; // LocalDateTime -> ISO 형식
 }
 
+const operationPlanSchema = s.object<OperationPlanDTO>({
+  id: s.string(),
+  operationId: s.string(),
+  busId: s.nullable(s.string()),
+  busNumber: s.nullable(s.string()),
+  busRealNumber: s.nullable(s.string()),
+  driverId: s.nullable(s.string()),
+  driverName: s.nullable(s.string()),
+  routeId: s.nullable(s.string()),
+  routeName: s.nullable(s.string()),
+  operationDate: s.string(),
+  startTime: s.string(),
+  endTime: s.string(),
+  status: s.literal(['SCHEDULED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']),
+  isRecurring: s.boolean(),
+  recurringWeeks: s.optional(s.number()),
+  organizationId: s.string(),
+  createdAt: s.string(),
+  updatedAt: s.string(),
+});
+
+const operationPlanListSchema = s.array(operationPlanSchema);
+
 // 프론트엔드에서 사용할 버스 스케줄 인터페이스
 export interface BusSchedule {
   id: string;
@@ -43,11 +69,19 @@ export interface BusSchedule {
 }
 
 export const operationPlanService = {
-  // 오늘의 버스 운행 시간표 조회
-  async getTodayBusSchedule(): Promise<BusSchedule[]> {
+  // 오늘의 버스 운행 시간표 조회 (캐시 우선, 오래된 캐시는 갱신 후 onRevalidate 호출)
+  async getTodayBusSchedule(
+    onRevalidate?: (schedules: BusSchedule[]) => void,
+  ): Promise<BusSchedule[]> {
     try {
-      const response = await apiClient.get<OperationPlanDTO[]>('/api/operation-plan/today');
-      return this.convertToScheduleList(response.data);
+      const operations = await apiClient.get<OperationPlanDTO[]>('/api/operation-plan/today', {
+        schema: operationPlanListSchema,
+        cache: CACHE_POLICIES.todayOperationPlan(this.getLocalDateString()),
+        onRevalidate: onRevalidate
+          ? fresh => onRevalidate(this.convertToScheduleList(fresh))
+          : undefined,
+      });
+      return this.convertToScheduleList(operations);
     } catch (error) {
       console.error('오늘 운행 일정 조회 실패:', error);
       throw error;
@@ -58,8 +92,10 @@ export const operationPlanService = {
   async getBusScheduleByDate(date: string): Promise<BusSchedule[]> {
     try {
       // date는 YYYY-MM-DD 형식으로 전달
-      const response = await apiClient.get<OperationPlanDTO[]>(`/api/operation-plan/${date}`);
-      return this.convertToScheduleList(response.data);
+      const operations = await apiClient.get<OperationPlanDTO[]>(`/api/operation-plan/${date}`, {
+        schema: operationPlanListSchema,
+      });
+      return this.convertToScheduleList(operations);
     } catch (error) {
       console.error('날짜별 운행 일정 조회 실패:', error);
       throw error;
@@ -69,8 +105,10 @@ export const operationPlanService = {
   // 주별 운행 일정 조회
   async getWeeklyBusSchedule(): Promise<BusSchedule[]> {
     try {
-      const response = await apiClient.get<OperationPlanDTO[]>('/api/operation-plan/weekly');
-      return this.convertToScheduleList(response.data);
+      const operations = await apiClient.get<OperationPlanDTO[]>('/api/operation-plan/weekly', {
+        schema: operationPlanListSchema,
+      });
+      return this.convertToScheduleList(operations);
     } catch (error) {
       console.error('주별 운행 일정 조회 실패:', error);
       throw error;
@@ -80,8 +118,10 @@ export const operationPlanService = {
   // 월별 운행 일정 조회
   async getMonthlyBusSchedule(): Promise<BusSchedule[]> {
     try {
-      const response = await apiClient.get<OperationPlanDTO[]>('/api/operation-plan/monthly');
-      return this.convertToScheduleList(response.data);
+      const operations = await apiClient.get<OperationPlanDTO[]>('/api/operation-plan/monthly', {
+        schema: operationPlanListSchema,
+      });
+      return this.convertToScheduleList(operations);
     } catch (error) {
       console.error('월별 운행 일정 조회 실패:', error);
       throw error;
@@ -91,8 +131,9 @@ export const operationPlanService = {
   // 운행 일정 상세 조회
   async getOperationDetail(id: string): Promise<OperationPlanDTO> {
     try {
-      const response = await apiClient.get<OperationPlanDTO>(`/api/operation-plan/detail/${id}`);
-      return response.data;
+      return await apiClient.get<OperationPlanDTO>(`/api/operation-plan/detail/${id}`, {
+        schema: operationPlanSchema,
+      });
     } catch (error) {
       console.error('운행 일정 상세 조회 실패:', error);
       throw error;
@@ -102,8 +143,9 @@ export const operationPlanService = {
   // 운행 일정 생성 (관리자용)
   async createOperationPlan(operationPlan: Partial<OperationPlanDTO>): Promise<OperationPlanDTO[]> {
     try {
-      const response = await apiClient.post<OperationPlanDTO[]>('/api/operation-plan', operationPlan);
-      return response.data;
+      return await apiClient.post<OperationPlanDTO[]>('/api/operation-plan', operationPlan, {
+        schema: operationPlanListSchema,
+      });
     } catch (error) {
       console.error('운행 일정 생성 실패:', error);
       throw error;
@@ -113,8 +155,9 @@ export const operationPlanService = {
   // 운행 일정 수정 (관리자용)
   async updateOperationPlan(operationPlan: OperationPlanDTO): Promise<OperationPlanDTO> {
     try {
-      const response = await apiClient.put<OperationPlanDTO>('/api/operation-plan', operationPlan);
-      return response.data;
+      return await apiClient.put<OperationPlanDTO>('/api/operation-plan', operationPlan, {
+        schema: operationPlanSchema,
+      });
     } catch (error) {
       console.error('운행 일정 수정 실패:', error);
       throw error;
@@ -124,8 +167,7 @@ export const operationPlanService = {
   // 운행 일정 삭제 (관리자용)
   async deleteOperationPlan(id: string): Promise<boolean> {
     try {
-      const response = await apiClient.delete<boolean>(`/api/operation-plan/${id}`);
-      return response.data;
+      return await apiClient.delete<boolean>(`/api/operation-plan/${id}`);
     } catch (error) {
       console.error('운행 일정 삭제 실패:', error);
       throw error;
@@ -202,6 +244,14 @@ export const operationPlanService = {
     }
   },
 
+  // 기기 시간대 기준 오늘 날짜를 YYYY-MM-DD 형식으로 반환
+  getLocalDateString(): string {
+    const today = new Date();
+    const month = String(today.getMonth() + 1).padStart(2, '0');
+    const day = String(today.getDate()).padStart(2, '0');
+    return `${today.getFullYear()}-${month}-${day}`;
+  },
+
   // 현재 날짜를 YYYY-MM-DD 형식으로 반환
   getTodayDateString(): string {
     const today = new Date();
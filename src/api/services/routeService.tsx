@@ -1,17 +1,49 @@
 import apiClient from '../apiClient';
+import {s} from '../schema';
+import {CACHE_POLICIES} from '../requestCache';
+import {GeoPoint, geoPointSchema} from '../geo';
+import useEntityStore from '../../store/useEntityStore';
+import {Station, toStation} from './stationService';
+import {
+  BusRealTimeStatus,
+  BusStationDetail,
+  busRealTimeStatusSchema,
+  busStationDetailSchema,
+} from './busService';
 
 export interface RouteStation {
-  location: any;
+  location: GeoPoint | null;
   sequence: number;
   stationId: string;
   stationName: string;
 }
 
+// 서버가 그려 둔 노선 모양 (GeoJSON LineString, 좌표는 [경도, 위도])
+export interface RouteShape {
+  type: string;
+  coordinates: number[][];
+}
+
 export interface Route {
   id: string;
   routeName: string;
   organizationId: string;
   stations: RouteStation[];
+  // 없으면 정류장 순서대로 이어서 그림
+  shape?: RouteShape | null;
+}
+
+// 노선 스냅샷의 버스 정보 (버스 경로상의 정류장 상세 포함)
+export interface RouteSnapshotBus extends BusRealTimeStatus {
+  stations: BusStationDetail[];
+}
+
+// 노선 하나의 정류장/운행 버스/도착 예정 정보를 한 번에 담은 응답
+export interface RouteSnapshot {
+  route: Route;
+  buses: RouteSnapshotBus[];
+  // 서버 생성 시각 (ms)
+  generatedAt: number;
 }
 
 export interface RouteRequest {
@@ -22,41 +54,133 @@ export interface RouteRequest {
   }[];
 }
 
+const routeStationSchema = s.object<RouteStation>({
+  location: geoPointSchema,
+  sequence: s.number(),
+  stationId: s.string(),
+  stationName: s.string(),
+});
+
+const routeShapeSchema = s.object<RouteShape>({
+  type: s.string(),
+  coordinates: s.array(s.array(s.number())),
+});
+
+const routeSchema = s.object<Route>({
+  id: s.string(),
+  routeName: s.string(),
+  organizationId: s.string(),
+  stations: s.array(routeStationSchema),
+  shape: s.optional(s.nullable(routeShapeSchema)),
+});
+
+const routeSnapshotBusSchema = s.object<RouteSnapshotBus>({
+  ...busRealTimeStatusSchema.shape,
+  stations: s.array(busStationDetailSchema),
+});
+
+const routeSnapshotSchema = s.object<RouteSnapshot>({
+  route: routeSchema,
+  buses: s.array(routeSnapshotBusSchema),
+  generatedAt: s.number(),
+});
+
+// 노선에 담긴 정류장을 정류장 모델로
+export const getRouteStations = (route: Route): Station[] =>
+  route.stations.map(station =>
+    toStation({
+      id: station.stationId,
+      name: station.stationName,
+      location: station.location,
+      organizationId: route.organizationId,
+    }),
+  );
+
+// 받은 노선과 노선 정류장을 엔티티 스토어에 반영
+const storeRoutes = (routes: Route[], replace = false): Route[] => {
+  const store = useEntityStore.getState();
+  if (replace) {
+    store.replaceRoutes(routes);
+  } else {
+    store.upsertRoutes(routes);
+  }
+  store.upsertStations(routes.flatMap(getRouteStations));
+  return routes;
+};
+
 export const routeService = {
-  // 모든 라우트 조회
-  async getAllRoutes(): Promise<Route[]> {
-    const response = await apiClient.get<Route[]>('/api/routes');
-    return response.data;
+  // 모든 라우트 조회 (캐시 우선, 오래된 캐시는 갱신 후 onRevalidate 호출)
+  async getAllRoutes(
+    onRevalidate?: (routes: Route[]) => void,
+  ): Promise<Route[]> {
+    const routes = await apiClient.get<Route[]>('/api/routes', {
+      schema: s.array(routeSchema),
+      cache: CACHE_POLICIES.routes(),
+      onRevalidate: revalidated => {
+        storeRoutes(revalidated, true);
+        onRevalidate?.(revalidated);
+      },
+    });
+    return storeRoutes(routes, true);
   },
 
   // 라우트 검색
   async searchRoutes(name: string): Promise<Route[]> {
-    const response = await apiClient.get<Route[]>('/api/routes', {
-      params: {name},
-    });
-    return response.data;
+    return storeRoutes(
+      await apiClient.get<Route[]>('/api/routes', {
+        params: {name},
+        schema: s.array(routeSchema),
+      }),
+    );
   },
 
   // 특정 라우트 조회
   async getRouteById(id: string): Promise<Route> {
-    const response = await apiClient.get<Route>(`/api/routes/${id}`);
-    return response.data;
+    const route = await apiClient.get<Route>(`/api/routes/${id}`, {
+      schema: routeSchema,
+      cache: CACHE_POLICIES.route(id),
+    });
+    storeRoutes([route]);
+    return route;
+  },
+
+  // 노선 스냅샷 조회 (정류장, 운행 버스, 도착 예정 시간을 한 번에)
+  async getRouteSnapshot(routeId: string): Promise<RouteSnapshot> {
+    const snapshot = await apiClient.get<RouteSnapshot>(
+      `/api/routes/${routeId}/snapshot`,
+      {schema: routeSnapshotSchema},
+    );
+    storeRoutes([snapshot.route]);
+    useEntityStore
+      .getState()
+      .upsertBuses(snapshot.buses.map(({stations: _stations, ...bus}) => bus));
+    return snapshot;
   },
 
   // 라우트 생성
   async createRoute(routeData: RouteRequest): Promise<Route> {
-    const response = await apiClient.post<Route>('/api/routes', routeData);
-    return response.data;
+    const route = await apiClient.post<Route>('/api/routes', routeData, {
+      schema: routeSchema,
+    });
+    await apiClient.invalidateCache('routes');
+    storeRoutes([route]);
+    return route;
   },
 
   // 라우트 업데이트
   async updateRoute(routeData: RouteRequest): Promise<Route> {
-    const response = await apiClient.put<Route>('/api/routes', routeData);
-    return response.data;
+    const route = await apiClient.put<Route>('/api/routes', routeData, {
+      schema: routeSchema,
+    });
+    await apiClient.invalidateCache('routes');
+    storeRoutes([route]);
+    return route;
   },
 
   // 라우트 삭제
   async deleteRoute(id: string): Promise<void> {
     await apiClient.delete<void>(`/api/routes/${id}`);
+    await apiClient.invalidateCache('routes');
+    useEntityStore.getState().removeRoute(id);
   },
 };
@@ -0,0 +1,70 @@
+// src/api/services/serviceAlertService.tsx
+import apiClient from '../apiClient';
+import {s} from '../schema';
+
+// 공지 종류: 우회 운행, 운행 취소, 지연, 일반 안내
+export type ServiceAlertType = 'DETOUR' | 'CANCELLATION' | 'DELAY' | 'NOTICE';
+
+export type ServiceAlertSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
+
+// 공지가 적용되는 범위
+export type ServiceAlertScope = 'ORGANIZATION' | 'ROUTE' | 'BUS' | 'STATION';
+
+/**
+ * 운행 공지 (우회, 운행 취소, 지연 등)
+ * 범위가 좁은 공지도 상위 대상을 함께 내려줍니다. (예: 버스 공지의 routeId)
+ */
+export interface ServiceAlert {
+  id: string;
+  organizationId: string;
+  type: ServiceAlertType;
+  severity: ServiceAlertSeverity;
+  scope: ServiceAlertScope;
+  routeId: string | null;
+  busNumber: string | null;
+  stationId: string | null;
+  // 범위 대상의 표시 이름 (노선명, 버스 번호, 정류장명), 조직 전체면 null
+  scopeName: string | null;
+  title: string;
+  message: string;
+  // 운행 취소 공지가 가리키는 운행 계획 (OperationPlanDTO.id)
+  operationPlanId: string | null;
+  startsAt: string; // ISO 형식
+  endsAt: string | null; // ISO 형식, 해제될 때까지 유효하면 null
+  updatedAt: string; // ISO 형식
+}
+
+export const serviceAlertSchema = s.object<ServiceAlert>({
+  id: s.string(),
+  organizationId: s.string(),
+  type: s.literal(['DETOUR', 'CANCELLATION', 'DELAY', 'NOTICE']),
+  severity: s.literal(['INFO', 'WARNING', 'CRITICAL']),
+  scope: s.literal(['ORGANIZATION', 'ROUTE', 'BUS', 'STATION']),
+  routeId: s.nullable(s.string()),
+  busNumber: s.nullable(s.string()),
+  stationId: s.nullable(s.string()),
+  scopeName: s.nullable(s.string()),
+  title: s.string(),
+  message: s.string(),
+  operationPlanId: s.nullable(s.string()),
+  startsAt: s.string(),
+  endsAt: s.nullable(s.string()),
+  updatedAt: s.string(),
+});
+
+// 특정 노선/버스/정류장의 공지만 조회할 때의 조건
+export interface ServiceAlertFilter {
+  routeId?: string;
+  busNumber?: string;
+  stationId?: string;
+}
+
+export const serviceAlertService = {
+  // 내 조직의 진행 중인 운행 공지 조회 (조건을 주면 해당 대상과 조직 전체 공지)
+  async getActiveAlerts(filter?: ServiceAlertFilter): Promise<ServiceAlert[]> {
+    return apiClient.get<ServiceAlert[]>('/api/service-alerts/active', {
+      params: filter,
+      schema: s.array(serviceAlertSchema),
+    });
+  },
+};
@@ -1,36 +1,84 @@
 // src/api/services/stationService.tsx 개선
 import apiClient from '../apiClient';
+import {s} from '../schema';
+import {CACHE_POLICIES} from '../requestCache';
+import {Eta, parseEta} from '../eta';
+import {GeoPoint, geoPointSchema} from '../geo';
+import useEntityStore from '../../store/useEntityStore';
 
+// 앱 전체에서 쓰는 정류장 모델 (노선/버스 응답에 담긴 정류장도 toStation으로 이 형태로 바꿈)
 export interface Station {
   id: string;
   name: string;
-  location?: {
-    y: number;
-    x: number;
-    coordinates: number[]; // [longitude, latitude]
-    type: string; // 일반적으로 "Point"
-  };
+  // 위치가 없거나 읽을 수 없으면 null
+  location: GeoPoint | null;
   organizationId?: string;
 }
 
 export interface StationArrivalTimeResponse {
   estimatedTime: string;
   waypoints: string[];
+  // estimatedTime을 파싱한 도착 예정 정보
+  eta: Eta;
 }
 
+export const stationSchema = s.object<Station>({
+  id: s.string(),
+  name: s.string(),
+  location: geoPointSchema,
+  organizationId: s.optional(s.string()),
+});
+
+const stationArrivalTimeSchema = s.transform(
+  s.object<Omit<StationArrivalTimeResponse, 'eta'>>({
+    estimatedTime: s.string(),
+    waypoints: s.array(s.string()),
+  }),
+  (response): StationArrivalTimeResponse => ({
+    ...response,
+    eta: parseEta(response.estimatedTime, 'arrival-estimate'),
+  }),
+);
+
+// 다른 응답에 담긴 정류장(버스 경로 정류장 등)에서 정류장 모델의 필드만 골라냄
+export const toStation = ({
+  id,
+  name,
+  location,
+  organizationId,
+}: Station): Station => ({id, name, location, organizationId});
+
+// 받은 정류장을 엔티티 스토어에 반영 (다른 화면과 공유)
+const storeStations = (stations: Station[]): Station[] => {
+  useEntityStore.getState().upsertStations(stations);
+  return stations;
+};
+
 export const stationService = {
-  // 모든 정류장 조회
-  async getAllStations(): Promise<Station[]> {
-    const response = await apiClient.get<Station[]>('/api/station');
-    return response.data;
+  // 모든 정류장 조회 (캐시 우선, 오래된 캐시는 갱신 후 onRevalidate 호출)
+  async getAllStations(
+    onRevalidate?: (stations: Station[]) => void,
+  ): Promise<Station[]> {
+    const stations = await apiClient.get<Station[]>('/api/station', {
+      schema: s.array(stationSchema),
+      cache: CACHE_POLICIES.stations(),
+      onRevalidate: revalidated => {
+        useEntityStore.getState().replaceStations(revalidated);
+        onRevalidate?.(revalidated);
+      },
+    });
+    useEntityStore.getState().replaceStations(stations);
+    return stations;
   },
 
   // 정류장 이름으로 검색
   async searchStationsByName(name: string): Promise<Station[]> {
-    const response = await apiClient.get<Station[]>('/api/station', {
-      params: {name},
-    });
-    return response.data;
+    return storeStations(
+      await apiClient.get<Station[]>('/api/station', {
+        params: {name},
+        schema: s.array(stationSchema),
+      }),
+    );
   },
 
   // 정류장 생성
@@ -39,8 +87,12 @@ export const stationService = {
     latitude: number;
     longitude: number;
   }): Promise<Station> {
-    const response = await apiClient.post<Station>('/api/station', stationData);
-    return response.data;
+    const station = await apiClient.post<Station>('/api/station', stationData, {
+      schema: stationSchema,
+    });
+    await apiClient.invalidateCache('stations');
+    storeStations([station]);
+    return station;
   },
 
   // 정류장 업데이트
@@ -48,16 +100,19 @@ export const stationService = {
     id: string,
     stationData: {name: string; latitude: number; longitude: number},
   ): Promise<string> {
-    const response = await apiClient.put<string>(
+    const result = await apiClient.put<string>(
       `/api/station/${id}`,
       stationData,
     );
-    return response.data;
+    await apiClient.invalidateCache('stations');
+    return result;
   },
 
   // 정류장 삭제
   async deleteStation(id: string): Promise<void> {
     await apiClient.delete<void>(`/api/station/${id}`);
+    await apiClient.invalidateCache('stations');
+    useEntityStore.getState().removeStation(id);
   },
 
   // 버스 도착 시간 예측 (deprecated - 이제 busService.getArrivalEstimate 사용)
@@ -65,12 +120,12 @@ export const stationService = {
     busId: string,
     stationId: string,
   ): Promise<StationArrivalTimeResponse> {
-    const response = await apiClient.get<StationArrivalTimeResponse>(
+    return apiClient.get<StationArrivalTimeResponse>(
       '/api/kakao-api/arrival-time/multi',
       {
         params: {busId, stationId},
+        schema: stationArrivalTimeSchema,
       },
     );
-    return response.data;
   },
 };
@@ -0,0 +1,42 @@
+// src/api/services/tripService.tsx
+import apiClient from '../apiClient';
+
+// 이동 경로의 한 지점
+export interface TripPathPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+export interface TripStation {
+  // 정류장 목록에서 찾지 못하면 null (버스가 알려준 정류장 이름만 있는 경우)
+  id: string | null;
+  name: string;
+}
+
+/**
+ * 한 번의 버스 이용 기록 (탑승 ~ 하차)
+ */
+export interface Trip {
+  id: string;
+  busNumber: string;
+  busRealNumber: string | null;
+  routeName: string | null;
+  boardedAt: number;
+  // 탑승 중이면 null
+  alightedAt: number | null;
+  boardingStation: TripStation | null;
+  alightingStation: TripStation | null;
+  path: TripPathPoint[];
+  // 서버에 백업한 시각, 백업하지 않았으면 null
+  syncedAt: number | null;
+}
+
+export const tripService = {
+  // 이동 기록 백업 (서버가 지원하는 경우)
+  async uploadTrips(trips: Trip[]): Promise<boolean> {
+    return apiClient.post<boolean>('/api/user/trips', {
+      trips: trips.map(({syncedAt: _syncedAt, ...trip}) => trip),
+    });
+  },
+};
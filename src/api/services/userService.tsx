@@ -1,26 +1,25 @@
 import apiClient from '../apiClient';
-import {Station} from './stationService';
+import {s} from '../schema';
+import {Station, stationSchema} from './stationService';
+import useEntityStore from '../../store/useEntityStore';
 
 export const userService = {
   // 내 정류장 조회
   async getMyStations(): Promise<Station[]> {
-    const response = await apiClient.get<Station[]>('/api/user/my-station');
-    return response.data;
+    const stations = await apiClient.get<Station[]>('/api/user/my-station', {
+      schema: s.array(stationSchema),
+    });
+    useEntityStore.getState().upsertStations(stations);
+    return stations;
   },
 
   // 내 정류장 추가
   async addMyStation(stationId: string): Promise<boolean> {
-    const response = await apiClient.post<boolean>('/api/user/my-station', {
-      stationId,
-    });
-    return response.data;
+    return apiClient.post<boolean>('/api/user/my-station', {stationId});
   },
 
   // 내 정류장 삭제
   async deleteMyStation(stationId: string): Promise<boolean> {
-    const response = await apiClient.delete<boolean>(
-      `/api/user/my-station/${stationId}`,
-    );
-    return response.data;
+    return apiClient.delete<boolean>(`/api/user/my-station/${stationId}`);
   },
 };
@@ -0,0 +1,284 @@
+// src/api/services/websocketProtocol.tsx
+import {s, Schema, SchemaError} from '../schema';
+import {PassengerLocationDTO} from './dto/PassengerLocationDTO';
+import {ServiceAlert, serviceAlertSchema} from './serviceAlertService';
+
+/**
+ * 승객용 WebSocket(/ws/passenger) 메시지 프로토콜.
+ * 주고받는 모든 메시지를 type 필드로 구분되는 유니온 타입으로 선언하고,
+ * 수신 메시지는 런타임에 검증한 뒤 타입별 핸들러로 전달합니다.
+ *
+ * 새 메시지 타입을 추가하려면
+ * 1. 메시지 인터페이스를 선언하고 InboundMessage(또는 OutboundMessage)에 추가
+ * 2. inboundSchemas에 스키마 추가 (수신 메시지인 경우)
+ * 3. GlobalWebSocketService.onMessage(type, handler)로 핸들러 등록
+ */
+
+// 클라이언트가 사용하는 프로토콜 버전. 호환되지 않는 변경이 있을 때 올립니다.
+export const PROTOCOL_VERSION = 1;
+
+// ===== 수신 메시지 (서버 → 앱) =====
+
+// 버스 위치 갱신
+export interface BusUpdateMessage {
+  type: 'busUpdate';
+  data: {
+    busNumber: string;
+    busRealNumber: string | null;
+    latitude: number;
+    longitude: number;
+    operate: boolean;
+  };
+}
+
+// 서버의 탑승/하차 감지 결과
+export interface BoardingUpdateMessage {
+  type: 'boarding_update';
+  status: 'boarded' | 'alighted';
+  data?: {
+    busNumber?: string;
+  };
+}
+
+// 연결 직후 hello에 대한 서버 응답 (프로토콜 버전 협상)
+export interface WelcomeMessage {
+  type: 'welcome';
+  protocolVersion: number;
+  // 서버가 지원하는 최소 클라이언트 프로토콜 버전
+  minClientVersion?: number;
+}
+
+// ping에 대한 서버 응답 (ping의 id/sentAt을 그대로 돌려줌)
+export interface PongMessage {
+  type: 'pong';
+  id?: number;
+  sentAt?: number;
+}
+
+// 서버가 요청 처리 실패를 알리는 메시지
+export interface ErrorMessage {
+  type: 'error';
+  message?: string;
+  code?: string;
+}
+
+// 운행 공지 등록/수정(upsert) 또는 해제(resolve)
+export interface ServiceAlertMessage {
+  type: 'serviceAlert';
+  action: 'upsert' | 'resolve';
+  // upsert일 때 공지 전체
+  data?: ServiceAlert;
+  // resolve일 때 해제된 공지 id
+  alertId?: string;
+}
+
+export type InboundMessage =
+  | BusUpdateMessage
+  | BoardingUpdateMessage
+  | WelcomeMessage
+  | PongMessage
+  | ErrorMessage
+  | ServiceAlertMessage;
+
+export type InboundMessageType = InboundMessage['type'];
+
+export type InboundMessageOf<K extends InboundMessageType> = Extract<
+  InboundMessage,
+  {type: K}
+>;
+
+// ===== 송신 메시지 (앱 → 서버) =====
+
+// 연결 직후 보내는 프로토콜 버전 핸드셰이크
+export interface HelloMessage {
+  type: 'hello';
+  protocolVersion: number;
+  client: 'passenger-app';
+}
+
+// 조직 구독 (백엔드 BusPassengerWebSocketHandler 형식)
+export interface SubscribeMessage {
+  type: 'subscribe';
+  organizationId: string;
+}
+
+// 승객 위치 (자동 탑승 감지용)
+export interface LocationMessage {
+  type: 'location';
+  organizationId: string;
+  data: {
+    userId: string;
+    latitude: number;
+    longitude: number;
+    timestamp: number;
+  };
+}
+
+// 연결 확인 (서버는 pong으로 응답, 왕복 시간 측정에 사용)
+export interface PingMessage {
+  type: 'ping';
+  id: number;
+  sentAt: number;
+}
+
+export type OutboundMessage =
+  | HelloMessage
+  | SubscribeMessage
+  | LocationMessage
+  | PingMessage;
+
+export type OutboundMessageType = OutboundMessage['type'];
+
+// 연결이 끊긴 동안 큐에 보관했다가 재연결 후 보낼 수 있는 메시지
+// (hello, subscribe, ping은 연결마다 새로 보내므로 제외)
+export type QueueableMessage = LocationMessage;
+
+// ===== 런타임 검증 =====
+
+const inboundSchemas: {
+  [K in InboundMessageType]: Schema<InboundMessageOf<K>>;
+} = {
+  busUpdate: s.object<BusUpdateMessage>({
+    type: s.literal(['busUpdate']),
+    data: s.object<BusUpdateMessage['data']>({
+      busNumber: s.string(),
+      busRealNumber: s.nullable(s.string()),
+      latitude: s.number(),
+      longitude: s.number(),
+      operate: s.boolean(),
+    }),
+  }),
+  boarding_update: s.object<BoardingUpdateMessage>({
+    type: s.literal(['boarding_update']),
+    status: s.literal(['boarded', 'alighted']),
+    data: s.optional(
+      s.object<NonNullable<BoardingUpdateMessage['data']>>({
+        busNumber: s.optional(s.string()),
+      }),
+    ),
+  }),
+  welcome: s.object<WelcomeMessage>({
+    type: s.literal(['welcome']),
+    protocolVersion: s.number(),
+    minClientVersion: s.optional(s.number()),
+  }),
+  pong: s.object<PongMessage>({
+    type: s.literal(['pong']),
+    id: s.optional(s.number()),
+    sentAt: s.optional(s.number()),
+  }),
+  error: s.object<ErrorMessage>({
+    type: s.literal(['error']),
+    message: s.optional(s.string()),
+    code: s.optional(s.string()),
+  }),
+  serviceAlert: s.object<ServiceAlertMessage>({
+    type: s.literal(['serviceAlert']),
+    action: s.literal(['upsert', 'resolve']),
+    data: s.optional(serviceAlertSchema),
+    alertId: s.optional(s.string()),
+  }),
+};
+
+const isInboundMessageType = (type: unknown): type is InboundMessageType =>
+  typeof type === 'string' &&
+  Object.prototype.hasOwnProperty.call(inboundSchemas, type);
+
+/**
+ * 수신한 원본 데이터를 검증해 InboundMessage로 변환합니다.
+ * 알 수 없는 타입이거나 형식이 잘못된 메시지는 null을 반환합니다.
+ */
+export const parseInboundMessage = (raw: unknown): InboundMessage | null => {
+  if (typeof raw !== 'object' || raw === null) {
+    console.warn('🔵 [WSProtocol] 객체가 아닌 메시지 수신:', raw);
+    return null;
+  }
+
+  const type = (raw as {type?: unknown}).type;
+  if (!isInboundMessageType(type)) {
+    console.warn('🔵 [WSProtocol] 알 수 없는 메시지 타입:', type);
+    return null;
+  }
+
+  try {
+    return inboundSchemas[type].parse(raw);
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      console.warn(`🔵 [WSProtocol] ${type} 메시지 형식 오류:`, error.message);
+      return null;
+    }
+    throw error;
+  }
+};
+
+// 서버가 이 클라이언트의 프로토콜 버전을 지원하는지
+export const isProtocolCompatible = (welcome: WelcomeMessage): boolean =>
+  (welcome.minClientVersion ?? 0) <= PROTOCOL_VERSION;
+
+export const createHelloMessage = (): HelloMessage => ({
+  type: 'hello',
+  protocolVersion: PROTOCOL_VERSION,
+  client: 'passenger-app',
+});
+
+export const createLocationMessage = (
+  location: PassengerLocationDTO,
+): LocationMessage => ({
+  type: 'location',
+  organizationId: location.organizationId,
+  data: {
+    userId: location.userId,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    timestamp: location.timestamp,
+  },
+});
+
+// ===== 핸들러 레지스트리 =====
+
+export type InboundMessageHandler<K extends InboundMessageType> = (
+  message: InboundMessageOf<K>,
+) => void;
+
+/**
+ * 메시지 타입별 핸들러 목록. 한 타입에 여러 핸들러를 등록할 수 있습니다.
+ */
+export class MessageHandlerRegistry {
+  private handlers: {
+    [K in InboundMessageType]?: Set<InboundMessageHandler<K>>;
+  } = {};
+
+  public on<K extends InboundMessageType>(
+    type: K,
+    handler: InboundMessageHandler<K>,
+  ): () => void {
+    const handlers =
+      (this.handlers[type] as Set<InboundMessageHandler<K>> | undefined) ??
+      new Set<InboundMessageHandler<K>>();
+    (this.handlers as Record<K, Set<InboundMessageHandler<K>>>)[type] =
+      handlers;
+    handlers.add(handler);
+    return () => handlers.delete(handler);
+  }
+
+  public dispatch(message: InboundMessage): void {
+    const handlers = this.handlers[message.type] as
+      | Set<InboundMessageHandler<typeof message.type>>
+      | undefined;
+    if (!handlers || handlers.size === 0) {
+      console.log('🔵 [WSProtocol] 처리할 핸들러가 없는 메시지:', message.type);
+      return;
+    }
+
+    handlers.forEach(handler => {
+      try {
+        handler(message);
+      } catch (error) {
+        console.error(
+          `🔵 [WSProtocol] ${message.type} 핸들러 실행 중 오류:`,
+          error,
+        );
+      }
+    });
+  }
+}
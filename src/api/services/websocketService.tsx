@@ -1,30 +1,82 @@
-import {Platform} from 'react-native';
 import {PassengerLocationDTO} from './dto/PassengerLocationDTO';
+import {getWsBaseUrl} from '../../config/environment';
+import {
+  InboundMessage,
+  OutboundMessage,
+  createHelloMessage,
+  createLocationMessage,
+  parseInboundMessage,
+} from './websocketProtocol';
 
-// API 및 WebSocket 기본 URL 설정
-const API_BASE_URL = Platform.select({
-  ios: 'http://devse.kr:12589',
-  android: 'http://devse.kr:12589',
-});
-const WS_BASE_URL = API_BASE_URL?.replace('http', 'ws');
+// ping 전송 주기
+const PING_INTERVAL_MS = 20000;
+// 이 시간 안에 pong이 오지 않으면 끊긴 연결로 판단
+const PONG_TIMEOUT_MS = 10000;
+// pong 시간 초과로 직접 연결을 끊을 때 onClose에 전달하는 종료 코드
+export const HEARTBEAT_TIMEOUT_CODE = 4000;
+
+// 연결 품질 등급
+export type ConnectionQualityLevel = 'good' | 'fair' | 'poor' | 'unknown';
+
+// 연결 품질 지표
+export interface ConnectionQuality {
+  // 마지막 ping/pong 왕복 시간 (ms), 측정 전이면 null
+  rttMs: number | null;
+  // 마지막 메시지 수신 시각 (ms)
+  lastMessageAt: number | null;
+  level: ConnectionQualityLevel;
+}
 
 // WebSocket 이벤트 콜백 인터페이스
 export interface WebSocketOptions {
   onOpen: () => void;
-  onMessage: (data: any) => void;
+  // 검증을 통과한 메시지만 전달됩니다
+  onMessage: (message: InboundMessage) => void;
   onError: (error: any) => void;
   onClose: (event: any) => void;
+  // pong을 받아 연결 품질이 갱신될 때
+  onQualityChange?: (quality: ConnectionQuality) => void;
 }
 
+/**
+ * 왕복 시간과 마지막 메시지 수신 후 경과 시간으로 연결 품질 등급을 계산합니다.
+ */
+export const getConnectionQualityLevel = (
+  rttMs: number | null,
+  lastMessageAt: number | null,
+  now: number = Date.now(),
+): ConnectionQualityLevel => {
+  if (rttMs === null) {
+    return 'unknown';
+  }
+  const messageAge = lastMessageAt === null ? Infinity : now - lastMessageAt;
+  if (rttMs < 500 && messageAge < PING_INTERVAL_MS + PONG_TIMEOUT_MS) {
+    return 'good';
+  }
+  if (rttMs < 1500 && messageAge < (PING_INTERVAL_MS + PONG_TIMEOUT_MS) * 2) {
+    return 'fair';
+  }
+  return 'poor';
+};
+
 /**
  * WebSocket 통신을 직접 담당하는 저수준(low-level) 서비스 클래스.
- * 재연결 로직 없이 연결, 해제, 메시지 전송/수신, 하트비트 기능만 수행합니다.
+ * 재연결 로직 없이 연결, 해제, 메시지 전송/수신, 하트비트(ping/pong) 기능만 수행합니다.
  */
 export class WebSocketWrapper {
   private socket: WebSocket | null = null;
   private options: WebSocketOptions;
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private pongTimeout: NodeJS.Timeout | null = null;
   private endpoint: string = '';
+  private pingSeq = 0;
+  // 응답을 기다리는 ping
+  private pendingPing: {id: number; sentAt: number} | null = null;
+  // 이번 연결의 서버가 pong을 보내는지 여부 (pong을 보내지 않는 서버에서는 시간 초과로 끊지 않음)
+  // welcome 핸드셰이크(프로토콜 v1부터 ping/pong 포함)나 pong을 받으면 true, 연결마다 초기화
+  private serverSupportsPong = false;
+  private rttMs: number | null = null;
+  private lastMessageAt: number | null = null;
 
   constructor(options: WebSocketOptions) {
     this.options = options;
@@ -33,33 +85,57 @@ export class WebSocketWrapper {
   /**
    * 지정된 엔드포인트로 WebSocket 연결을 시도합니다.
    * @param endpoint - 연결할 WebSocket 엔드포인트 (예: '/ws/passenger')
+   * @param token - 인증 헤더에 담을 액세스 토큰
    */
-  public connect(endpoint: string): void {
+  public connect(endpoint: string, token?: string | null): void {
     if (this.socket && this.socket.readyState === WebSocket.OPEN) {
       console.log('🔵 [WebSocketWrapper] WebSocket이 이미 연결되어 있습니다.');
       return;
     }
 
     this.endpoint = endpoint;
-    const url = `${WS_BASE_URL}${this.endpoint}`;
+    this.rttMs = null;
+    this.lastMessageAt = null;
+    this.serverSupportsPong = false;
+    const url = `${getWsBaseUrl()}${this.endpoint}`;
     console.log('🔵 [WebSocketWrapper] 연결 시도:', url);
 
-    this.socket = new WebSocket(url);
+    this.socket = new WebSocket(
+      url,
+      null,
+      token ? {headers: {Authorization: `Bearer ${token}`}} : null,
+    );
 
     this.socket.onopen = () => {
       console.log('🔵 [WebSocketWrapper] 연결됨.');
+      // 프로토콜 버전 핸드셰이크 (서버는 welcome으로 응답)
+      this.send(createHelloMessage());
       this.startHeartbeat();
       this.options.onOpen();
     };
 
     this.socket.onmessage = event => {
+      let data: unknown;
       try {
-        const data = JSON.parse(event.data);
-        this.options.onMessage(data);
+        data = JSON.parse(event.data);
       } catch (error) {
-        // JSON 파싱 에러가 아닌 경우 원본 데이터 전달
-        this.options.onMessage(event.data);
+        console.warn('🔵 [WebSocketWrapper] JSON이 아닌 메시지 무시:', event.data);
+        return;
+      }
+
+      this.lastMessageAt = Date.now();
+      const message = parseInboundMessage(data);
+      if (!message) {
+        return;
       }
+      if (message.type === 'pong') {
+        this.handlePong(message.id);
+        return;
+      }
+      if (message.type === 'welcome') {
+        this.handleWelcome();
+      }
+      this.options.onMessage(message);
     };
 
     this.socket.onerror = error => {
@@ -76,14 +152,16 @@ export class WebSocketWrapper {
 
   /**
    * WebSocket으로 데이터를 전송합니다.
-   * @param data - 전송할 데이터 (JSON으로 변환됨)
+   * @param message - 전송할 메시지 (JSON으로 변환됨)
+   * @returns 전송 여부 (연결되어 있지 않으면 false)
    */
-  public send(data: any): void {
+  public send(message: OutboundMessage): boolean {
     if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-      this.socket.send(JSON.stringify(data));
-    } else {
-      console.error('🔵 [WebSocketWrapper] WebSocket이 연결되지 않아 메시지를 보낼 수 없습니다.');
+      this.socket.send(JSON.stringify(message));
+      return true;
     }
+    console.error('🔵 [WebSocketWrapper] WebSocket이 연결되지 않아 메시지를 보낼 수 없습니다.');
+    return false;
   }
 
   /**
@@ -92,6 +170,11 @@ export class WebSocketWrapper {
   public disconnect(): void {
     this.stopHeartbeat();
     if (this.socket) {
+      // 이전 소켓의 종료 이벤트가 새 연결 상태를 덮어쓰지 않도록 핸들러 해제
+      this.socket.onopen = null;
+      this.socket.onmessage = null;
+      this.socket.onerror = null;
+      this.socket.onclose = null;
       this.socket.close();
       this.socket = null;
     }
@@ -115,31 +198,84 @@ export class WebSocketWrapper {
   }
 
   // 승객 위치 정보 전송 (자동 탑승 감지용, 백엔드 형식에 맞춤)
-  public sendLocationUpdate(locationData: PassengerLocationDTO): void {
-    this.send({
-      type: 'location',
-      organizationId: locationData.organizationId,
-      data: {
-        userId: locationData.userId,
-        latitude: locationData.latitude,
-        longitude: locationData.longitude,
-        timestamp: locationData.timestamp,
-      },
-    });
+  public sendLocationUpdate(locationData: PassengerLocationDTO): boolean {
+    return this.send(createLocationMessage(locationData));
   }
 
 
   /**
-   * 1분마다 하트비트 메시지를 보내 연결을 유지합니다.
+   * 현재 연결 품질 지표를 반환합니다.
+   */
+  public getQuality(): ConnectionQuality {
+    return {
+      rttMs: this.rttMs,
+      lastMessageAt: this.lastMessageAt,
+      level: getConnectionQualityLevel(this.rttMs, this.lastMessageAt),
+    };
+  }
+
+  /**
+   * 주기적으로 ping을 보내 연결을 유지하고 왕복 시간을 측정합니다.
+   * pong을 보내는 서버에서 시간 안에 응답이 없으면 끊긴 연결로 보고 강제로 종료합니다.
    */
   private startHeartbeat(): void {
     this.stopHeartbeat(); // 기존 하트비트가 있다면 중지
-    this.heartbeatInterval = setInterval(() => {
-      if (this.isConnected()) {
-        this.send({type: 'heartbeat'});
-        console.log('🔵 [WebSocketWrapper] Ping...');
-      }
-    }, 60000); // 1분
+    this.sendPing();
+    this.heartbeatInterval = setInterval(() => this.sendPing(), PING_INTERVAL_MS);
+  }
+
+  private sendPing(): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    this.pendingPing = {id: ++this.pingSeq, sentAt: Date.now()};
+    this.send({type: 'ping', ...this.pendingPing});
+    this.armPongTimeout();
+  }
+
+  // 응답을 기다리는 ping이 있으면 pong 시간 초과 타이머를 겁니다. (이미 걸려 있으면 먼저 건 것을 유지)
+  private armPongTimeout(): void {
+    if (!this.serverSupportsPong || !this.pendingPing || this.pongTimeout) {
+      return;
+    }
+    this.pongTimeout = setTimeout(() => {
+      this.pongTimeout = null;
+      console.warn(
+        `🔵 [WebSocketWrapper] ${PONG_TIMEOUT_MS / 1000}초 동안 pong이 없어 연결을 종료합니다.`,
+      );
+      this.handleDeadConnection();
+    }, PONG_TIMEOUT_MS);
+  }
+
+  // 핸드셰이크 전에 보낸 첫 ping도 응답을 기다리도록 바로 타이머를 겁니다.
+  private handleWelcome(): void {
+    this.serverSupportsPong = true;
+    this.armPongTimeout();
+  }
+
+  private handlePong(id?: number): void {
+    this.serverSupportsPong = true;
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+
+    // id가 없는 응답은 가장 최근 ping에 대한 것으로 간주
+    if (this.pendingPing && (id === undefined || id === this.pendingPing.id)) {
+      this.rttMs = Date.now() - this.pendingPing.sentAt;
+      this.pendingPing = null;
+      this.options.onQualityChange?.(this.getQuality());
+    }
+  }
+
+  // 응답이 없는 소켓을 정리하고 비정상 종료로 알려 재연결하도록 합니다.
+  private handleDeadConnection(): void {
+    this.disconnect();
+    this.options.onClose({
+      code: HEARTBEAT_TIMEOUT_CODE,
+      reason: 'heartbeat timeout',
+    });
   }
 
   /**
@@ -150,5 +286,10 @@ export class WebSocketWrapper {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+    this.pendingPing = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,310 @@
+import React, {useEffect, useState} from 'react';
+import {View, StyleSheet, TouchableOpacity} from 'react-native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from '../common/Text';
+import Button from '../common/Button';
+import theme from '../../theme';
+import {busService} from '../../api/services/busService';
+import type {Station} from '../../api/services/stationService';
+import type {
+  ArrivalAlertRuleInput,
+  TimeWindow,
+} from '../../store/useArrivalAlertStore';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  formatMinuteOfDay,
+} from '../../services/arrivalAlertPolicy';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+const MINUTE_OPTIONS = [3, 5, 10, 15];
+// 시간 조절 단위 (분)
+const TIME_STEP_MINUTES = 30;
+
+interface BusOption {
+  busNumber: string;
+  busRealNumber: string | null;
+}
+
+export const createDefaultRuleInput = (
+  station: Station,
+): ArrivalAlertRuleInput => {
+  return {
+    stationId: station.id,
+    stationName: station.name,
+    latitude: station.location?.latitude ?? null,
+    longitude: station.location?.longitude ?? null,
+    busNumber: null,
+    busRealNumber: null,
+    minutesBefore: 5,
+    days: WEEKDAYS,
+    window: {startMinute: 8 * 60, endMinute: 9 * 60},
+    enabled: true,
+  };
+};
+
+interface TimeStepperProps {
+  label: string;
+  minute: number;
+  onChange: (minute: number) => void;
+}
+
+/**
+ * 30분 단위로 시각을 고르는 입력
+ */
+export const TimeStepper: React.FC<TimeStepperProps> = ({
+  label,
+  minute,
+  onChange,
+}) => {
+  const step = (delta: number) =>
+    onChange((((minute + delta) % 1440) + 1440) % 1440);
+
+  return (
+    <View style={styles.stepper}>
+      <Text variant="xs" color={theme.colors.gray[500]}>
+        {label}
+      </Text>
+      <View style={styles.stepperRow}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => step(-TIME_STEP_MINUTES)}
+          hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+          <Ionicons name="remove" size={16} color={theme.colors.gray[700]} />
+        </TouchableOpacity>
+        <Text variant="md" weight="semiBold" style={styles.stepperValue}>
+          {formatMinuteOfDay(minute)}
+        </Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => step(TIME_STEP_MINUTES)}
+          hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+          <Ionicons name="add" size={16} color={theme.colors.gray[700]} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip: React.FC<ChipProps> = ({label, selected, onPress}) => (
+  <TouchableOpacity
+    style={[styles.chip, selected && styles.chipSelected]}
+    onPress={onPress}>
+    <Text
+      variant="sm"
+      weight={selected ? 'semiBold' : 'regular'}
+      color={selected ? theme.colors.white : theme.colors.gray[700]}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+interface ArrivalAlertRuleEditorProps {
+  initialValue: ArrivalAlertRuleInput;
+  onSave: (rule: ArrivalAlertRuleInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 정류장 도착 알림 규칙 편집 카드
+ * 버스(모든 버스 또는 특정 버스), 몇 분 전, 요일, 시간대를 고릅니다.
+ */
+const ArrivalAlertRuleEditor: React.FC<ArrivalAlertRuleEditorProps> = ({
+  initialValue,
+  onSave,
+  onCancel,
+}) => {
+  const [draft, setDraft] = useState(initialValue);
+  const [busOptions, setBusOptions] = useState<BusOption[]>([]);
+
+  // 정류장에 서는 버스 목록 (실패하면 '모든 버스'만 선택 가능)
+  useEffect(() => {
+    let isCancelled = false;
+    busService
+      .getBusesByStation(initialValue.stationId)
+      .then(buses => {
+        if (!isCancelled) {
+          setBusOptions(
+            buses.map(bus => ({
+              busNumber: bus.busNumber,
+              busRealNumber: bus.busRealNumber,
+            })),
+          );
+        }
+      })
+      .catch(error => {
+        console.warn('🔔 [ArrivalAlert] 정류장 버스 목록 조회 실패:', error);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [initialValue.stationId]);
+
+  const toggleDay = (day: number) => {
+    const days = draft.days.includes(day)
+      ? draft.days.filter(item => item !== day)
+      : [...draft.days, day].sort((a, b) => a - b);
+    setDraft({...draft, days});
+  };
+
+  const setWindow = (changes: Partial<TimeWindow>) =>
+    setDraft({...draft, window: {...draft.window, ...changes}});
+
+  return (
+    <View style={styles.container}>
+      <Text variant="sm" weight="semiBold" style={styles.label}>
+        버스
+      </Text>
+      <View style={styles.chipRow}>
+        <Chip
+          label="모든 버스"
+          selected={draft.busNumber === null}
+          onPress={() =>
+            setDraft({...draft, busNumber: null, busRealNumber: null})
+          }
+        />
+        {busOptions.map(bus => (
+          <Chip
+            key={bus.busNumber}
+            label={bus.busRealNumber ?? bus.busNumber}
+            selected={draft.busNumber === bus.busNumber}
+            onPress={() =>
+              setDraft({
+                ...draft,
+                busNumber: bus.busNumber,
+                busRealNumber: bus.busRealNumber,
+              })
+            }
+          />
+        ))}
+      </View>
+
+      <Text variant="sm" weight="semiBold" style={styles.label}>
+        도착 몇 분 전에 알릴까요?
+      </Text>
+      <View style={styles.chipRow}>
+        {MINUTE_OPTIONS.map(minutes => (
+          <Chip
+            key={minutes}
+            label={`${minutes}분`}
+            selected={draft.minutesBefore === minutes}
+            onPress={() => setDraft({...draft, minutesBefore: minutes})}
+          />
+        ))}
+      </View>
+
+      <Text variant="sm" weight="semiBold" style={styles.label}>
+        요일
+      </Text>
+      <View style={styles.chipRow}>
+        {WEEKDAY_LABELS.map((label, day) => (
+          <Chip
+            key={label}
+            label={label}
+            selected={draft.days.includes(day)}
+            onPress={() => toggleDay(day)}
+          />
+        ))}
+      </View>
+
+      <Text variant="sm" weight="semiBold" style={styles.label}>
+        시간대
+      </Text>
+      <View style={styles.timeRow}>
+        <TimeStepper
+          label="시작"
+          minute={draft.window.startMinute}
+          onChange={startMinute => setWindow({startMinute})}
+        />
+        <TimeStepper
+          label="종료"
+          minute={draft.window.endMinute}
+          onChange={endMinute => setWindow({endMinute})}
+        />
+      </View>
+
+      <View style={styles.actions}>
+        <Button variant="text" size="small" onPress={onCancel}>
+          취소
+        </Button>
+        <Button
+          size="small"
+          disabled={draft.days.length === 0}
+          onPress={() => onSave(draft)}>
+          저장
+        </Button>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: theme.spacing.sm,
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.gray[50],
+    borderRadius: theme.borderRadius.md,
+  },
+  label: {
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.sm + 2,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    backgroundColor: theme.colors.white,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary.default,
+    borderColor: theme.colors.primary.default,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+  },
+  stepper: {
+    flex: 1,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    backgroundColor: theme.colors.white,
+    borderRadius: theme.borderRadius.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+  },
+  stepperButton: {
+    padding: theme.spacing.xs,
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+});
+
+export default ArrivalAlertRuleEditor;
@@ -0,0 +1,90 @@
+import React, {useState} from 'react';
+import {Alert, StyleProp, ViewStyle} from 'react-native';
+import Button from '../common/Button';
+import {useToast} from '../common/Toast';
+import theme from '../../theme';
+import useBoardingStore from '../../store/useBoardingStore';
+import manualBoardingService from '../../services/manualBoardingService';
+
+interface BoardingActionButtonProps {
+  busNumber: string;
+  // 안내 문구에 표시할 버스 이름 (실제 번호 또는 가상번호)
+  busDisplayName: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * "이 버스 탑승" / "하차" 버튼.
+ * 확인 창을 띄운 뒤 manualBoardingService로 탑승 상태를 직접 바꿉니다.
+ */
+const BoardingActionButton: React.FC<BoardingActionButtonProps> = ({
+  busNumber,
+  busDisplayName,
+  style,
+}) => {
+  const {boardedBusNumber} = useBoardingStore();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const {showToast} = useToast();
+  const isBoardedOnThisBus = boardedBusNumber === busNumber;
+
+  const submit = async (isAlight: boolean) => {
+    setIsSubmitting(true);
+    const success = isAlight
+      ? await manualBoardingService.alight()
+      : await manualBoardingService.board(busNumber);
+    setIsSubmitting(false);
+
+    if (success) {
+      showToast(
+        isAlight
+          ? `${busDisplayName} 버스에서 하차했습니다.`
+          : `${busDisplayName} 버스에 탑승했습니다.`,
+        'success',
+      );
+    } else {
+      showToast('탑승 상태를 바꾸지 못했습니다. 다시 시도해주세요.', 'error');
+    }
+  };
+
+  const handlePress = () => {
+    if (isBoardedOnThisBus) {
+      Alert.alert('하차 확인', `${busDisplayName} 버스에서 하차하셨나요?`, [
+        {text: '취소', style: 'cancel'},
+        {text: '하차', style: 'destructive', onPress: () => submit(true)},
+      ]);
+      return;
+    }
+
+    const switchNotice =
+      boardedBusNumber !== null
+        ? '\n현재 탑승 중인 버스에서는 하차 처리됩니다.'
+        : '';
+    Alert.alert(
+      '탑승 확인',
+      `${busDisplayName} 버스에 탑승하셨나요?${switchNotice}`,
+      [
+        {text: '취소', style: 'cancel'},
+        {text: '탑승', onPress: () => submit(false)},
+      ],
+    );
+  };
+
+  return (
+    <Button
+      variant={isBoardedOnThisBus ? 'outlined' : 'tonal'}
+      size="small"
+      color={
+        isBoardedOnThisBus
+          ? theme.colors.system.error
+          : theme.colors.primary.default
+      }
+      isLoading={isSubmitting}
+      disabled={isSubmitting}
+      onPress={handlePress}
+      style={style}>
+      {isBoardedOnThisBus ? '하차했어요' : '탑승했어요'}
+    </Button>
+  );
+};
+
+export default BoardingActionButton;
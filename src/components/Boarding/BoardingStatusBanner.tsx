@@ -0,0 +1,134 @@
+import React, {useEffect, useState} from 'react';
+import {View, StyleSheet, StyleProp, ViewStyle} from 'react-native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from '../common/Text';
+import theme from '../../theme';
+import {formatEtaArrival} from '../../api/eta';
+import useBoardingStore, {
+  BoardingPhase,
+  BoardingStatus,
+} from '../../store/useBoardingStore';
+import useBusStore from '../../store/useBusStore';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+// 도착 예정 시간 표시 갱신 주기
+const ETA_TICK_MS = 15 * 1000;
+
+const PHASE_ICONS: Record<BoardingPhase, string> = {
+  idle: 'bus-outline',
+  approachingStop: 'walk',
+  waiting: 'time',
+  boardingSuspected: 'bus-outline',
+  boarded: 'bus',
+  alightingSuspected: 'exit-outline',
+  alighted: 'checkmark-circle',
+};
+
+interface BoardingStatusBannerProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * 현재 탑승 단계를 한 줄로 안내하는 배너.
+ * 예: "정문 정류장에서 기다리는 중 · 101 버스 약 2분 후 도착"
+ * 대기(idle) 상태에서는 표시하지 않습니다.
+ */
+const BoardingStatusBanner: React.FC<BoardingStatusBannerProps> = ({style}) => {
+  const status = useBoardingStore(state => state.status);
+  const busPositions = useBusStore(state => state.busPositions);
+  const [now, setNow] = useState(Date.now());
+
+  const hasEta = status.phase === 'waiting' && status.expectedBus !== null;
+  useEffect(() => {
+    if (!hasEta) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), ETA_TICK_MS);
+    return () => clearInterval(timer);
+  }, [hasEta]);
+
+  if (status.phase === 'idle') {
+    return null;
+  }
+
+  const getBusName = (busNumber: string | null) => {
+    const bus = busPositions.find(item => item.busNumber === busNumber);
+    return bus?.busRealNumber ?? busNumber ?? '';
+  };
+
+  const getMessage = ({
+    phase,
+    busNumber,
+    stationName,
+    expectedBus,
+  }: BoardingStatus): string => {
+    switch (phase) {
+      case 'approachingStop':
+        return `${stationName} 정류장으로 가는 중`;
+      case 'waiting':
+        return expectedBus
+          ? `${stationName}에서 기다리는 중 · ${
+              expectedBus.busRealNumber ?? expectedBus.busNumber
+            } 버스 ${formatEtaArrival(expectedBus.eta, now)}`
+          : `${stationName}에서 기다리는 중`;
+      case 'boardingSuspected':
+        return `${getBusName(busNumber)} 버스 탑승을 확인하고 있어요`;
+      case 'boarded':
+        return `${getBusName(busNumber)} 버스 탑승중`;
+      case 'alightingSuspected':
+        return `${getBusName(busNumber)} 버스 하차를 확인하고 있어요`;
+      case 'alighted':
+        return `${getBusName(busNumber)} 버스에서 하차했어요`;
+      default:
+        return '';
+    }
+  };
+
+  const isConfirmed = status.phase === 'boarded' || status.phase === 'waiting';
+
+  return (
+    <View
+      style={[
+        styles.container,
+        !isConfirmed && styles.pendingContainer,
+        style,
+      ]}>
+      <Ionicons
+        name={PHASE_ICONS[status.phase]}
+        size={18}
+        color={
+          isConfirmed ? theme.colors.primary.default : theme.colors.gray[600]
+        }
+      />
+      <Text
+        variant="sm"
+        weight="medium"
+        color={isConfirmed ? theme.colors.primary.dark : theme.colors.gray[700]}
+        style={styles.message}
+        numberOfLines={2}>
+        {getMessage(status)}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E7F1FB',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+  },
+  pendingContainer: {
+    backgroundColor: theme.colors.gray[100],
+  },
+  message: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+});
+
+export default BoardingStatusBanner;
@@ -1,14 +1,16 @@
-import React, {useEffect, useState, useCallback, useRef} from 'react';
+import React, {useEffect, useState, useCallback, useMemo, useRef} from 'react';
 import {
   View,
   StyleSheet,
   TouchableOpacity,
   Platform,
+  Dimensions,
 } from 'react-native';
 import Geolocation from '@react-native-community/geolocation';
 import {
   Camera,
   NaverMapMarkerOverlay,
+  NaverMapPathOverlay,
   NaverMapView,
 } from '@mj-studio/react-native-naver-map';
 import {request, PERMISSIONS, RESULTS} from 'react-native-permissions';
@@ -16,12 +18,34 @@ import {request, PERMISSIONS, RESULTS} from 'react-native-permissions';
 import theme from '../../theme';
 import LoadingPage from '../../pages/LoadingPage';
 import {stationService, Station} from '../../api/services/stationService';
+import {routeService} from '../../api/services/routeService';
+import {getRouteColors, getRoutePath} from '../../services/routeGeometry';
+import {
+  CLUSTER_MAX_ZOOM,
+  MapRegion,
+  clusterPoints,
+  estimateRegion,
+  getPaddedBounds,
+  isInBounds,
+} from '../../services/mapClustering';
 import useSelectedStationStore from '../../store/useSelectedStationStore';
 import {useToast} from '../../components/common/Toast';
 import MyLocationIcon from '../../../assets/logos/myLocation.svg';
 
 import useBusStore from '../../store/useBusStore';
-import useBoardingStore from '../../store/useBoardingStore'; // 탑승 상태 스토어 import
+import useBoardingStore, {
+  BOARDING_PHASE_LABELS,
+  getBusBoardingPhase,
+} from '../../store/useBoardingStore'; // 탑승 상태 스토어 import
+import useDestinationStore from '../../store/useDestinationStore';
+import useEntityStore, {
+  selectRouteList,
+  selectStationList,
+} from '../../store/useEntityStore';
+import useAnimatedBusPositions from './useAnimatedBusPositions';
+import RouteFilterBar from './RouteFilterBar';
+import StationMarker from './StationMarker';
+import StationClusterMarker from './StationClusterMarker';
 
 // 지도 카메라 초기 위치 (기본값: 서울)
 const DEFAULT_CAMERA: Camera = {
@@ -30,22 +54,41 @@ const DEFAULT_CAMERA: Camera = {
   zoom: 15,
 };
 
-interface MapViewProps {
-  stations?: Station[];
-}
+// 노선을 고르면 다른 노선의 경로/정류장/버스를 흐리게
+const DIMMED_ALPHA = 0.3;
+
+const stationAccessors = {
+  getId: (station: Station) => station.id,
+  getPoint: (station: Station) => station.location,
+};
 
 type LocationTrackingMode = 'None' | 'NoFollow' | 'Follow' | 'Face';
 const DEFAULT_TRACKING_MODE: LocationTrackingMode = 'NoFollow';
 
-const MapView: React.FC<MapViewProps> = ({stations}) => {
+const MapView: React.FC = () => {
   const naverMapRef = useRef<any>(null);
 
   // 상태 관리
-  const [stationPositions, setStationPositions] = useState<Station[]>([]);
+  // 정류장과 노선은 서비스가 채운 엔티티 스토어에서 읽음 (다른 화면과 공유)
+  const stationPositions = useEntityStore(selectStationList);
+  const routes = useEntityStore(selectRouteList);
+  // 강조 중인 노선 (칩이나 경로를 눌러 선택)
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
 
   const busPositions = useBusStore(state => state.busPositions);
-  const {isBoarded, boardedBusNumber} = useBoardingStore();
+  // 보고 사이를 보간한 마커 위치 (방향, 오래된 위치 여부 포함)
+  const displayBuses = useAnimatedBusPositions();
+  const {isBoarded, boardedBusNumber, status: boardingStatus} = useBoardingStore();
+  // 탑승 중 정한 내릴 정류장
+  const destinationStationId = useDestinationStore(
+    state => state.destination?.stationId ?? null,
+  );
   const [camera, setCamera] = useState<Camera>(DEFAULT_CAMERA);
+  // 카메라가 멈췄을 때 지도가 알려준 보이는 범위와 줌
+  const [visibleRegion, setVisibleRegion] = useState<{
+    region: MapRegion;
+    zoom: number;
+  } | null>(null);
   const [isMapReady, setIsMapReady] = useState(false);
   const [, setLocationTrackingMode] =
     useState<LocationTrackingMode>(DEFAULT_TRACKING_MODE);
@@ -150,20 +193,77 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
     }
   }, [hasLocationPermission, setTrackingMode, selectedStation, isInitialLoad]);
 
-  // 정류장 데이터 불러오기
+  // 정류장 데이터 불러오기 (캐시가 있으면 바로 스토어에 반영됨)
   const fetchStations = useCallback(async () => {
     try {
-      if (stations && stations.length > 0) {
-        setStationPositions(stations);
-      } else {
-        const stationsData = await stationService.getAllStations();
-        setStationPositions(stationsData);
-      }
+      await stationService.getAllStations();
     } catch (error) {
       console.error('정류장 정보 조회 오류:', error);
       showToast('정류장 정보를 불러올 수 없습니다.', 'error');
     }
-  }, [stations, showToast]);
+  }, [showToast]);
+
+  // 노선 경로와 색상 (노선 목록이 바뀔 때만 다시 계산)
+  const routeColors = useMemo(() => getRouteColors(routes), [routes]);
+  const routePaths = useMemo(
+    () =>
+      routes
+        .map(route => ({route, path: getRoutePath(route)}))
+        .filter(({path}) => path.length > 0),
+    [routes],
+  );
+  const selectedRoute = routes.find(route => route.id === selectedRouteId) ?? null;
+  const selectedRouteStationIds = useMemo(
+    () => new Set(selectedRoute?.stations.map(station => station.stationId) ?? []),
+    [selectedRoute],
+  );
+
+  // 마커를 그릴 범위 (첫 카메라 대기 이벤트 전에는 카메라와 화면 크기로 어림)
+  const viewport = useMemo(() => {
+    if (visibleRegion) {
+      return visibleRegion;
+    }
+    const {width, height} = Dimensions.get('window');
+    const zoom = camera.zoom ?? DEFAULT_CAMERA.zoom ?? 15;
+    return {region: estimateRegion(camera, zoom, width, height), zoom};
+  }, [visibleRegion, camera]);
+  const viewportBounds = useMemo(
+    () => getPaddedBounds(viewport.region),
+    [viewport],
+  );
+
+  // 상태를 함께 보여줘야 하는 정류장은 묶지 않고 항상 표시
+  const boardingStationId = boardingStatus.stationId;
+  const selectedStationId = selectedStation?.id ?? null;
+  const pinnedStations = useMemo(
+    () =>
+      stationPositions.filter(
+        station =>
+          station.id === destinationStationId ||
+          station.id === boardingStationId ||
+          station.id === selectedStationId,
+      ),
+    [stationPositions, destinationStationId, boardingStationId, selectedStationId],
+  );
+  const stationClusters = useMemo(
+    () =>
+      clusterPoints(
+        stationPositions.filter(station => !pinnedStations.includes(station)),
+        stationAccessors,
+        viewport.zoom,
+        viewportBounds,
+      ),
+    [stationPositions, pinnedStations, viewport.zoom, viewportBounds],
+  );
+
+  // 노선 목록 불러오기 (실패해도 지도는 그대로 사용)
+  useEffect(() => {
+    routeService
+      .getAllRoutes()
+      .catch(error => {
+        console.error('노선 정보 조회 오류:', error);
+      });
+  }, []);
 
   // 초기화
   useEffect(() => {
@@ -230,8 +330,8 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
   useEffect(() => {
     if (selectedStation && selectedStation.location) {
       setCamera({
-        latitude: selectedStation.location.x,
-        longitude: selectedStation.location.y,
+        latitude: selectedStation.location.latitude,
+        longitude: selectedStation.location.longitude,
         zoom: 17,
       });
     } else {
@@ -267,6 +367,33 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
     showToast,
   ]);
 
+  // 정류장 마커를 누르면 선택 (마커가 다시 만들어지지 않도록 고정된 함수)
+  const handleStationTap = useCallback(
+    (station: Station) => {
+      setSelectedStation(station);
+    },
+    [setSelectedStation],
+  );
+
+  // 클러스터를 누르면 그 위치로 두 단계 확대 (정류장이 하나씩 보이는 줌까지)
+  const handleClusterTap = useCallback(
+    (latitude: number, longitude: number) => {
+      setCamera({
+        latitude,
+        longitude,
+        zoom: Math.min(Math.floor(viewport.zoom) + 2, CLUSTER_MAX_ZOOM),
+      });
+    },
+    [viewport.zoom],
+  );
+
+  const handleCameraIdle = useCallback(
+    ({region, zoom}: {region: MapRegion; zoom?: number}) => {
+      setVisibleRegion({region, zoom: zoom ?? DEFAULT_CAMERA.zoom ?? 15});
+    },
+    [],
+  );
+
   // 지도가 준비되면 표시
   const handleMapReady = useCallback(() => {
     setIsMapReady(true);
@@ -279,6 +406,16 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
 
   return (
     <View style={styles.container}>
+      {/* 노선 선택 칩 */}
+      <View style={styles.routeFilterBar}>
+        <RouteFilterBar
+          routes={routes}
+          routeColors={routeColors}
+          selectedRouteId={selectedRouteId}
+          onSelect={setSelectedRouteId}
+        />
+      </View>
+
       {/* 위치 버튼 */}
       <TouchableOpacity
         style={styles.myLocationButton}
@@ -298,6 +435,7 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
         isShowLocationButton={false} // 커스텀 위치 버튼 사용
         isLiteModeEnabled={false}
         onInitialized={handleMapReady}
+        onCameraIdle={handleCameraIdle}
         layerGroups={{
           TRANSIT: true,
           BUILDING: true,
@@ -306,56 +444,103 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
           MOUNTAIN: false,
           TRAFFIC: false,
         }}>
-        {/* 정류장 마커 */}
-        {stationPositions.map(
-          station =>
-            station.location && (
-              <NaverMapMarkerOverlay
-                key={`station-${station.id}`}
-                latitude={station.location.x}
-                longitude={station.location.y}
-                caption={{
-                  text: station.name,
-                  textSize: 13,
-                  color: theme.colors.gray[900],
-                  haloColor: theme.colors.white,
-                }}
-                onTap={() => {
-                  setSelectedStation({
-                    ...station,
-                    location: station.location
-                      ? {
-                          x: station.location.x,
-                          y: station.location.y,
-                        }
-                      : undefined,
-                  });
-                }}
-                width={24}
-                height={24}
-                image={require('../../../assets/images/busStop.png')}
-              />
-            ),
+        {/* 노선 경로 (선택한 노선은 굵게 위로, 나머지는 흐리게) */}
+        {routePaths.map(({route, path}) => {
+          const isSelected = route.id === selectedRouteId;
+          const isDimmed = selectedRouteId !== null && !isSelected;
+          const color = routeColors[route.id];
+          return (
+            <NaverMapPathOverlay
+              key={`route-${route.id}`}
+              coords={path}
+              width={isSelected ? 8 : 5}
+              color={isDimmed ? `${color}4D` : color}
+              outlineWidth={1}
+              outlineColor={theme.colors.white}
+              zIndex={isSelected ? 5 : 1}
+              onTap={() => setSelectedRouteId(isSelected ? null : route.id)}
+            />
+          );
+        })}
+
+        {/* 정류장 마커 (화면 범위 안만, 줌이 낮으면 묶어서 개수 배지로) */}
+        {stationClusters.map(cluster =>
+          cluster.items.length === 1 ? (
+            <StationMarker
+              key={`station-${cluster.id}`}
+              station={cluster.items[0]}
+              status={null}
+              isDestination={false}
+              isDimmed={
+                selectedRoute !== null &&
+                !selectedRouteStationIds.has(cluster.id)
+              }
+              onTap={handleStationTap}
+            />
+          ) : (
+            <StationClusterMarker
+              key={cluster.id}
+              latitude={cluster.latitude}
+              longitude={cluster.longitude}
+              count={cluster.items.length}
+              isDimmed={
+                selectedRoute !== null &&
+                !cluster.items.some(station =>
+                  selectedRouteStationIds.has(station.id),
+                )
+              }
+              onTap={handleClusterTap}
+            />
+          ),
         )}
+        {pinnedStations.map(station => (
+          <StationMarker
+            key={`station-${station.id}`}
+            station={station}
+            // 내릴 정류장, 다가가거나 기다리는 정류장은 함께 표시
+            status={
+              destinationStationId === station.id
+                ? '내릴 정류장'
+                : boardingStationId === station.id
+                ? BOARDING_PHASE_LABELS[boardingStatus.phase]
+                : null
+            }
+            isDestination={destinationStationId === station.id}
+            isDimmed={
+              selectedRoute !== null && !selectedRouteStationIds.has(station.id)
+            }
+            onTap={handleStationTap}
+          />
+        ))}
 
         {/* 운행 중인 버스 마커만 표시 */}
-        {busPositions.length > 0 &&
-          busPositions
+        {displayBuses.length > 0 &&
+          displayBuses
             .filter(
               bus =>
                 bus.operate && // 운행 중인 버스만 필터링
                 bus.latitude >= -90 &&
                 bus.latitude <= 90 &&
                 bus.longitude >= -180 &&
-                bus.longitude <= 180,
+                bus.longitude <= 180 &&
+                // 화면 밖 버스는 그리지 않음 (탑승한 버스는 항상)
+                (bus.busNumber === boardedBusNumber ||
+                  isInBounds(bus, viewportBounds)),
             )
             .map(bus => {
               const isMyBus = bus.busNumber === boardedBusNumber;
-              const captionText = isMyBus
+              // 탑승 확인 중, 탑승중, 하차 확인 중이면 단계를 함께 표시
+              const boardingPhase = getBusBoardingPhase(boardingStatus, bus.busNumber);
+              // 오래 보고가 없는 버스는 마지막 위치와 지난 시간을 흐리게 표시
+              const captionText = boardingPhase
                 ? `${getBusDisplayName(
                     bus.busRealNumber,
                     bus.busNumber,
-                  )} (탑승중)`
+                  )} (${BOARDING_PHASE_LABELS[boardingPhase]})`
+                : bus.isStale
+                ? `${getBusDisplayName(bus.busRealNumber, bus.busNumber)} (${
+                    bus.lastReportAgeSeconds
+                  }초 전 위치)`
                 : getBusDisplayName(bus.busRealNumber, bus.busNumber);
               return (
                 <NaverMapMarkerOverlay
@@ -373,6 +558,17 @@ const MapView: React.FC<MapViewProps> = ({stations}) => {
                   width={24}
                   height={24}
                   zIndex={isMyBus ? 100 : 10}
+                  // 진행 방향으로 회전 (지도와 함께 회전하도록 눕힘)
+                  angle={bus.heading ?? 0}
+                  isFlatEnabled={bus.heading !== null}
+                  anchor={{x: 0.5, y: 0.5}}
+                  alpha={
+                    selectedRoute && bus.routeName !== selectedRoute.routeName
+                      ? DIMMED_ALPHA
+                      : bus.isStale
+                      ? 0.5
+                      : 1
+                  }
                   image={require('../../../assets/images/busIcon.png')}
                 />
               );
@@ -395,6 +591,13 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  routeFilterBar: {
+    position: 'absolute',
+    top: 18,
+    left: 16,
+    right: 72,
+    zIndex: 1000,
+  },
   myLocationButton: {
     position: 'absolute',
     top: 16,
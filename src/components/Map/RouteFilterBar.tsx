@@ -0,0 +1,121 @@
+import React from 'react';
+import {ScrollView, StyleSheet, TouchableOpacity, View} from 'react-native';
+import Text from '../common/Text';
+import theme from '../../theme';
+import type {Route} from '../../api/services/routeService';
+
+interface RouteFilterBarProps {
+  routes: Route[];
+  routeColors: Record<string, string>;
+  // 강조 중인 노선, null이면 전체
+  selectedRouteId: string | null;
+  onSelect: (routeId: string | null) => void;
+}
+
+interface RouteChipProps {
+  label: string;
+  color: string | null;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const RouteChip: React.FC<RouteChipProps> = ({
+  label,
+  color,
+  selected,
+  onPress,
+}) => (
+  <TouchableOpacity
+    style={[
+      styles.chip,
+      selected && {
+        backgroundColor: color ?? theme.colors.gray[800],
+        borderColor: color ?? theme.colors.gray[800],
+      },
+    ]}
+    onPress={onPress}
+    activeOpacity={0.7}>
+    {color && (
+      <View
+        style={[
+          styles.colorDot,
+          {backgroundColor: selected ? theme.colors.white : color},
+        ]}
+      />
+    )}
+    <Text
+      variant="sm"
+      weight={selected ? 'semiBold' : 'regular'}
+      color={selected ? theme.colors.white : theme.colors.gray[800]}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+/**
+ * 지도 위 노선 선택 칩 목록
+ * 노선을 고르면 지도에서 그 노선의 경로, 정류장, 버스를 강조합니다.
+ */
+const RouteFilterBar: React.FC<RouteFilterBarProps> = ({
+  routes,
+  routeColors,
+  selectedRouteId,
+  onSelect,
+}) => {
+  if (routes.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled">
+      <RouteChip
+        label="전체"
+        color={null}
+        selected={selectedRouteId === null}
+        onPress={() => onSelect(null)}
+      />
+      {routes.map(route => (
+        <RouteChip
+          key={route.id}
+          label={route.routeName}
+          color={routeColors[route.id] ?? null}
+          selected={selectedRouteId === route.id}
+          // 선택한 노선을 다시 누르면 전체로
+          onPress={() =>
+            onSelect(selectedRouteId === route.id ? null : route.id)
+          }
+        />
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing.xs,
+    paddingRight: theme.spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+    backgroundColor: theme.colors.white,
+    ...theme.shadows.sm,
+  },
+  colorDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: theme.spacing.xs,
+  },
+});
+
+export default RouteFilterBar;
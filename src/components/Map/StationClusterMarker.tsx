@@ -0,0 +1,59 @@
+import React from 'react';
+import {NaverMapMarkerOverlay} from '@mj-studio/react-native-naver-map';
+import theme from '../../theme';
+
+interface StationClusterMarkerProps {
+  latitude: number;
+  longitude: number;
+  count: number;
+  isDimmed: boolean;
+  // 누르면 클러스터 위치로 확대
+  onTap: (latitude: number, longitude: number) => void;
+}
+
+// 묶인 정류장 수에 따른 원 크기와 기본 클러스터 심볼
+const getClusterStyle = (count: number) => {
+  if (count < 10) {
+    return {size: 36, symbol: 'lowDensityCluster' as const};
+  }
+  if (count < 100) {
+    return {size: 44, symbol: 'mediumDensityCluster' as const};
+  }
+  return {size: 52, symbol: 'highDensityCluster' as const};
+};
+
+/**
+ * 여러 정류장을 묶은 클러스터 마커 (가운데에 정류장 수 배지)
+ */
+const StationClusterMarker: React.FC<StationClusterMarkerProps> = ({
+  latitude,
+  longitude,
+  count,
+  isDimmed,
+  onTap,
+}) => {
+  const {size, symbol} = getClusterStyle(count);
+
+  return (
+    <NaverMapMarkerOverlay
+      latitude={latitude}
+      longitude={longitude}
+      width={size}
+      height={size}
+      anchor={{x: 0.5, y: 0.5}}
+      image={{symbol}}
+      caption={{
+        text: count > 999 ? '999+' : String(count),
+        align: 'Center',
+        textSize: 13,
+        color: theme.colors.white,
+        haloColor: 'transparent',
+      }}
+      alpha={isDimmed ? 0.3 : 1}
+      zIndex={20}
+      onTap={() => onTap(latitude, longitude)}
+    />
+  );
+};
+
+export default React.memo(StationClusterMarker);
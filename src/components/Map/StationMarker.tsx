@@ -0,0 +1,52 @@
+import React from 'react';
+import {NaverMapMarkerOverlay} from '@mj-studio/react-native-naver-map';
+import theme from '../../theme';
+import type {Station} from '../../api/services/stationService';
+
+interface StationMarkerProps {
+  station: Station;
+  // 정류장 이름 뒤에 붙일 상태 (예: "내릴 정류장", "기다리는 중")
+  status: string | null;
+  isDestination: boolean;
+  isDimmed: boolean;
+  onTap: (station: Station) => void;
+}
+
+/**
+ * 지도의 정류장 마커
+ * 버스가 움직일 때마다 지도가 다시 그려지므로 props가 같으면 다시 만들지 않습니다.
+ */
+const StationMarker: React.FC<StationMarkerProps> = ({
+  station,
+  status,
+  isDestination,
+  isDimmed,
+  onTap,
+}) => {
+  if (!station.location) {
+    return null;
+  }
+
+  return (
+    <NaverMapMarkerOverlay
+      latitude={station.location.latitude}
+      longitude={station.location.longitude}
+      caption={{
+        text: status ? `${station.name} (${status})` : station.name,
+        textSize: isDestination ? 14 : 13,
+        color: isDestination
+          ? theme.colors.system.warning
+          : theme.colors.gray[900],
+        haloColor: theme.colors.white,
+      }}
+      zIndex={isDestination ? 50 : 0}
+      alpha={isDimmed ? 0.3 : 1}
+      onTap={() => onTap(station)}
+      width={isDestination ? 32 : 24}
+      height={isDestination ? 32 : 24}
+      image={require('../../../assets/images/busStop.png')}
+    />
+  );
+};
+
+export default React.memo(StationMarker);
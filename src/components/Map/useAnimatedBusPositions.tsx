@@ -0,0 +1,46 @@
+import {useEffect, useState} from 'react';
+import useBusStore from '../../store/useBusStore';
+import busMotionTracker, {
+  BusDisplayPosition,
+} from '../../services/busMotionTracker';
+
+// 버스가 움직이는 동안 마커 위치를 다시 계산하는 주기 (네이티브 마커 갱신 비용을 고려해 10fps)
+const ANIMATION_FRAME_MS = 100;
+// 모든 버스가 멈춰 있을 때 오래된 위치 표시를 갱신하는 주기
+const IDLE_REFRESH_MS = 1000;
+
+/**
+ * 지도에 그릴 버스 위치를 보고 사이에도 부드럽게 움직이도록 계속 갱신하는 훅
+ * 움직이는 버스가 있을 때만 프레임 단위로 다시 그립니다.
+ */
+const useAnimatedBusPositions = (): BusDisplayPosition[] => {
+  // 위치 보고가 들어오면 바로 다시 그림
+  const busPositions = useBusStore(state => state.busPositions);
+  const [, setFrameTime] = useState(Date.now());
+
+  useEffect(() => {
+    if (busPositions.length === 0) {
+      return;
+    }
+    let lastRenderedAt = Date.now();
+    const timer = setInterval(() => {
+      const current = Date.now();
+      const isMoving = busMotionTracker
+        .getDisplayPositions(current)
+        .some(bus => bus.isMoving);
+      if (isMoving || current - lastRenderedAt >= IDLE_REFRESH_MS) {
+        lastRenderedAt = current;
+        setFrameTime(current);
+      }
+    }, ANIMATION_FRAME_MS);
+    return () => clearInterval(timer);
+  }, [busPositions]);
+
+  useEffect(() => {
+    busMotionTracker.loadRoutePaths();
+  }, []);
+
+  return busMotionTracker.getDisplayPositions();
+};
+
+export default useAnimatedBusPositions;
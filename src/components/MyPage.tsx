@@ -1,4 +1,4 @@
-import React, {useEffect, useState} from 'react';
+import React, {useEffect, useRef, useState} from 'react';
 import {
   View,
   Text,
@@ -16,6 +16,10 @@ import _Ionicons from 'react-native-vector-icons/Ionicons';
 import theme from '../theme';
 import Footer from '../components/Footer';
 import {useToast} from '../components/common/Toast';
+import {DEV_SETTINGS_ENABLED, getApiBaseUrl} from '../config/environment';
+import authSession from '../api/authSession';
+import useSettingsStore from '../store/useSettingsStore';
+import useArrivalAlertStore from '../store/useArrivalAlertStore';
 
 const Ionicons = _Ionicons as unknown as React.ElementType;
 
@@ -23,8 +27,14 @@ type RootStackParamList = {
   Login: undefined;
   Home: undefined;
   Event: undefined;
+  DevSettings: undefined;
+  MyTrips: undefined;
+  ArrivalAlertSettings: undefined;
 };
 
+// 버전 문구를 연속으로 눌러 개발자 설정에 진입하는 횟수
+const DEV_SETTINGS_TAP_COUNT = 7;
+
 interface UserData {
   name: string;
   organizationId: string;
@@ -35,6 +45,9 @@ const MyPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [, setError] = useState<string | null>(null);
 
+  const versionTapCount = useRef(0);
+  const versionTapTimer = useRef<NodeJS.Timeout | null>(null);
+
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const {showToast} = useToast();
 
@@ -52,7 +65,7 @@ const MyPage: React.FC = () => {
       }
 
       const response = await axios.get(
-        'http://devse.kr:12589/api/auth/user',
+        `${getApiBaseUrl()}/api/auth/user`,
         {
           headers: {
             Authorization: `Bearer ${token}`,
@@ -94,7 +107,7 @@ const MyPage: React.FC = () => {
               }
 
               await axios.post(
-                'http://devse.kr:12589/api/auth/withdrawal',
+                `${getApiBaseUrl()}/api/auth/withdrawal`,
                 {},
                 {
                   headers: {
@@ -105,7 +118,7 @@ const MyPage: React.FC = () => {
                 },
               );
 
-              await AsyncStorage.removeItem('token');
+              await authSession.signOut();
               showToast('회원탈퇴가 완료되었습니다.', 'success');
               navigation.navigate('Login');
             } catch (error) {
@@ -136,6 +149,32 @@ const MyPage: React.FC = () => {
     }
   };
 
+  // 버전 문구 연속 탭 처리 (숨겨진 개발자 설정 진입)
+  const handleVersionTap = () => {
+    if (!DEV_SETTINGS_ENABLED) {
+      return;
+    }
+    if (versionTapTimer.current) {
+      clearTimeout(versionTapTimer.current);
+    }
+    versionTapCount.current += 1;
+
+    if (versionTapCount.current >= DEV_SETTINGS_TAP_COUNT) {
+      versionTapCount.current = 0;
+      navigation.navigate('DevSettings');
+      return;
+    }
+
+    versionTapTimer.current = setTimeout(() => {
+      versionTapCount.current = 0;
+    }, 1000);
+  };
+
+  const {batterySaver, setBatterySaver} = useSettingsStore();
+  const enabledAlertCount = useArrivalAlertStore(
+    state => state.rules.filter(rule => rule.enabled).length,
+  );
+
   const menuItems = [
     {
       id: 'profile',
@@ -146,6 +185,35 @@ const MyPage: React.FC = () => {
       icon: 'person',
       action: () => {},
     },
+    {
+      id: 'trips',
+      title: '내 이동 기록',
+      content: '',
+      icon: 'time',
+      action: () => navigation.navigate('MyTrips'),
+    },
+    {
+      id: 'arrivalAlerts',
+      title: '정류장 도착 알림',
+      content: enabledAlertCount > 0 ? `${enabledAlertCount}개 켜짐` : '',
+      icon: 'notifications',
+      action: () => navigation.navigate('ArrivalAlertSettings'),
+    },
+    {
+      id: 'batterySaver',
+      title: '배터리 절약 모드',
+      content: batterySaver ? '켜짐' : '꺼짐',
+      icon: 'battery-half',
+      action: () => {
+        setBatterySaver(!batterySaver);
+        showToast(
+          batterySaver
+            ? '배터리 절약 모드를 껐습니다.'
+            : '배터리 절약 모드를 켰습니다. 위치 확인 주기가 늘어납니다.',
+          'info',
+        );
+      },
+    },
     {
       id: 'contact',
       title: '문의하기',
@@ -232,7 +300,9 @@ const MyPage: React.FC = () => {
       />
 
       <View style={styles.footer}>
-        <Text style={styles.footerText}>버스 버디버디 v1.0.0</Text>
+        <TouchableOpacity activeOpacity={1} onPress={handleVersionTap}>
+          <Text style={styles.footerText}>버스 버디버디 v1.0.0</Text>
+        </TouchableOpacity>
         <TouchableOpacity onPress={handleSendEmail}>
           <Text style={styles.emailText}>devhundeveloper@gmail.com</Text>
         </TouchableOpacity>
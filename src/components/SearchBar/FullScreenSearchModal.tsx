@@ -15,14 +15,10 @@ import {
 } from 'react-native';
 import CommonSearchBarModule from './CommonSearchBarModule';
 import useSelectedStationStore from '../../store/useSelectedStationStore';
+import type { Station } from '../../api/services/stationService';
 
 const { width } = Dimensions.get('window');
 
-interface Station {
-  id: string;
-  name: string;
-}
-
 interface FullScreenSearchModalProps {
   isOpen: boolean;
   onClose: () => void;
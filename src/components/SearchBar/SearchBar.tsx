@@ -1,20 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { TextInput, Keyboard } from 'react-native';
-import axios from 'axios';
 import CommonSearchBarModule from './CommonSearchBarModule';
 import FullScreenSearchModal from './FullScreenSearchModal';
 import useSelectedStationStore from '../../store/useSelectedStationStore';
-
-interface SearchResult {
-  id: string;
-  name: string;
-  // 필요한 다른 속성들 추가
-}
+import {Station, stationService} from '../../api/services/stationService';
 
 const SearchBar: React.FC = () => {
   const [searchStationName, setSearchStationName] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<Station[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -56,19 +50,9 @@ const SearchBar: React.FC = () => {
     setError(null);
 
     try {
-      const response = await axios.get(
-        'http://localhost:8088/api/station',
-        {
-          params: {
-            name: stationName,
-          },
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      const stations = await stationService.searchStationsByName(stationName);
 
-      setSearchResults(response.data.data);
+      setSearchResults(stations);
       setSearchStationName(stationName);
     } catch (err) {
       setError(
@@ -82,7 +66,7 @@ const SearchBar: React.FC = () => {
     }
   };
 
-  const handleStationSelect = (station: SearchResult) => {
+  const handleStationSelect = (station: Station) => {
     setSelectedStation(station);
     handleModalClose();
   };
@@ -0,0 +1,61 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from '../common/Text';
+import theme from '../../theme';
+import type {
+  ServiceAlert,
+  ServiceAlertSeverity,
+} from '../../api/services/serviceAlertService';
+import {SERVICE_ALERT_TYPE_LABELS} from '../../services/serviceAlertFilters';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+export const SEVERITY_COLORS: Record<ServiceAlertSeverity, string> = {
+  CRITICAL: theme.colors.system.error,
+  WARNING: theme.colors.system.warning,
+  INFO: theme.colors.system.info,
+};
+
+interface ServiceAlertBadgeProps {
+  // 심각도 순으로 정렬된 공지 (첫 공지의 종류와 색으로 표시)
+  alerts: ServiceAlert[];
+}
+
+/**
+ * 노선 목록 등에 붙는 운행 공지 배지
+ * 예: "운행 취소 +1"
+ */
+const ServiceAlertBadge: React.FC<ServiceAlertBadgeProps> = ({alerts}) => {
+  if (alerts.length === 0) {
+    return null;
+  }
+  const [top] = alerts;
+  const color = SEVERITY_COLORS[top.severity];
+
+  return (
+    <View style={[styles.badge, {backgroundColor: color + '20'}]}>
+      <Ionicons name="alert-circle" size={12} color={color} />
+      <Text variant="xs" weight="semiBold" color={color} style={styles.label}>
+        {SERVICE_ALERT_TYPE_LABELS[top.type]}
+        {alerts.length > 1 ? ` +${alerts.length - 1}` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: theme.spacing.xs,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+  },
+  label: {
+    marginLeft: 2,
+  },
+});
+
+export default ServiceAlertBadge;
@@ -0,0 +1,99 @@
+import React, {useState} from 'react';
+import {View, StyleSheet, TouchableOpacity} from 'react-native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from '../common/Text';
+import theme from '../../theme';
+import useServiceAlertStore from '../../store/useServiceAlertStore';
+import {
+  formatAlertHeadline,
+  getBannerAlerts,
+} from '../../services/serviceAlertFilters';
+import {SEVERITY_COLORS} from './ServiceAlertBadge';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+/**
+ * 홈 화면 상단의 운행 공지 배너
+ * 가장 심각한 공지 하나를 보여주고, 누르면 나머지 공지와 내용을 펼칩니다.
+ * 닫은 공지는 다시 보이지 않습니다.
+ */
+const ServiceAlertBanner: React.FC = () => {
+  const alerts = useServiceAlertStore(state => state.alerts);
+  const dismissedIds = useServiceAlertStore(state => state.dismissedIds);
+  const dismissAlert = useServiceAlertStore(state => state.dismissAlert);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const bannerAlerts = getBannerAlerts(alerts, dismissedIds, Date.now());
+  if (bannerAlerts.length === 0) {
+    return null;
+  }
+
+  const [top] = bannerAlerts;
+  const color = SEVERITY_COLORS[top.severity];
+  const visibleAlerts = isExpanded ? bannerAlerts : [top];
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {backgroundColor: color + '15', borderBottomColor: color},
+      ]}>
+      {visibleAlerts.map(alert => (
+        <View key={alert.id} style={styles.alertRow}>
+          <Ionicons
+            name="megaphone-outline"
+            size={16}
+            color={SEVERITY_COLORS[alert.severity]}
+          />
+          <TouchableOpacity
+            style={styles.alertText}
+            onPress={() => setIsExpanded(!isExpanded)}
+            activeOpacity={0.7}>
+            <Text variant="sm" weight="semiBold" color={theme.colors.gray[800]}>
+              {formatAlertHeadline(alert)}
+            </Text>
+            {isExpanded && (
+              <Text variant="xs" color={theme.colors.gray[600]}>
+                {alert.message}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => dismissAlert(alert.id)}
+            hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+            <Ionicons name="close" size={16} color={theme.colors.gray[500]} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      {!isExpanded && bannerAlerts.length > 1 && (
+        <TouchableOpacity onPress={() => setIsExpanded(true)}>
+          <Text variant="xs" color={theme.colors.gray[600]} style={styles.more}>
+            외 {bannerAlerts.length - 1}건 더 보기
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderBottomWidth: 1,
+  },
+  alertRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 2,
+  },
+  alertText: {
+    flex: 1,
+    marginHorizontal: theme.spacing.xs,
+  },
+  more: {
+    marginLeft: 16 + theme.spacing.xs,
+  },
+});
+
+export default ServiceAlertBanner;
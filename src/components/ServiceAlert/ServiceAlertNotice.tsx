@@ -0,0 +1,75 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from '../common/Text';
+import Card from '../common/Card';
+import theme from '../../theme';
+import type {ServiceAlert} from '../../api/services/serviceAlertService';
+import {formatAlertHeadline} from '../../services/serviceAlertFilters';
+import {SEVERITY_COLORS} from './ServiceAlertBadge';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+interface ServiceAlertNoticeProps {
+  // 심각도 순으로 정렬된 공지
+  alerts: ServiceAlert[];
+}
+
+/**
+ * 정류장 상세 상단의 운행 공지 안내 (정류장과 지나는 노선, 오는 버스의 공지)
+ */
+const ServiceAlertNotice: React.FC<ServiceAlertNoticeProps> = ({alerts}) => {
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {alerts.map(alert => {
+        const color = SEVERITY_COLORS[alert.severity];
+        return (
+          <Card
+            key={alert.id}
+            variant="outlined"
+            style={[styles.card, {borderLeftColor: color}]}>
+            <View style={styles.header}>
+              <Ionicons name="alert-circle" size={16} color={color} />
+              <Text
+                variant="sm"
+                weight="semiBold"
+                color={theme.colors.gray[800]}
+                style={styles.headline}>
+                {formatAlertHeadline(alert)}
+              </Text>
+            </View>
+            <Text variant="xs" color={theme.colors.gray[600]}>
+              {alert.message}
+            </Text>
+          </Card>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+    gap: theme.spacing.xs,
+  },
+  card: {
+    backgroundColor: theme.colors.white,
+    borderLeftWidth: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  headline: {
+    marginLeft: theme.spacing.xs,
+    flex: 1,
+  },
+});
+
+export default ServiceAlertNotice;
@@ -103,15 +103,7 @@ const SearchStationModal: React.FC<SearchStationModalProps> = ({
 
   // 정류장 선택 처리
   const handleStationSelect = (station: Station) => {
-    setSelectedStation({
-      ...station,
-      location: station.location
-        ? {
-            x: station.location.coordinates[0],
-            y: station.location.coordinates[1],
-          }
-        : undefined,
-    });
+    setSelectedStation(station);
     onClose();
   };
 
@@ -1,4 +1,4 @@
-import React, {useState, useEffect, useCallback} from 'react';
+import React, {useState, useEffect, useCallback, useMemo} from 'react';
 import {
   View,
   StyleSheet,
@@ -12,28 +12,55 @@ import Card from '../common/Card';
 import theme from '../../theme';
 import {busService, BusRealTimeStatus} from '../../api/services/busService';
 import {stationService} from '../../api/services/stationService';
+import {Eta, compareEta, formatEta, unknownEta} from '../../api/eta';
 import {useToast} from '../common/Toast';
 import useBoardingStore from '../../store/useBoardingStore'; // 1. useBoardingStore import
+import BoardingActionButton from '../Boarding/BoardingActionButton';
+import ServiceAlertNotice from '../ServiceAlert/ServiceAlertNotice';
+import useServiceAlertStore from '../../store/useServiceAlertStore';
+import useEntityStore, {selectBusList} from '../../store/useEntityStore';
+import {
+  getRouteIdsForStation,
+  getStationAlerts,
+} from '../../services/serviceAlertFilters';
 
 interface StationDetailProps {
   stationId: string;
 }
 
-// 타입 정의 보완
+interface BusArrival {
+  busNumber: string;
+  eta: Eta;
+}
+
 interface BusWithArrival extends BusRealTimeStatus {
-  estimatedTime: string; // 원본 문자열 유지
-  remainingSeconds?: number | null; // null 허용
+  eta: Eta;
 }
 
 const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
-  const [buses, setBuses] = useState<BusWithArrival[]>([]);
+  // 도착 예정 시간만 보관 (빠른 순)
+  const [arrivals, setArrivals] = useState<BusArrival[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // 도착 시간 카운트다운 기준 시각
+  const [now, setNow] = useState(Date.now());
   const navigation = useNavigation();
   const {showToast} = useToast();
   // 2. 탑승 중인 버스 번호 가져오기
   const {boardedBusNumber} = useBoardingStore();
+  const serviceAlerts = useServiceAlertStore(state => state.alerts);
+  const routeStationIds = useServiceAlertStore(state => state.routeStationIds);
+  // 버스 정보(좌석, 운행 여부)는 엔티티 스토어에서 읽어 다른 화면의 갱신도 바로 반영
+  const busList = useEntityStore(selectBusList);
+
+  const buses = useMemo<BusWithArrival[]>(() => {
+    const busMap = new Map(busList.map(bus => [bus.busNumber, bus]));
+    return arrivals.flatMap(({busNumber, eta}) => {
+      const bus = busMap.get(busNumber);
+      return bus ? [{...bus, eta}] : [];
+    });
+  }, [arrivals, busList]);
 
   // 버스 표시명 생성 함수
   const getBusDisplayName = (
@@ -100,30 +127,14 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
               stationId,
             );
 
-            if (arrivalData.estimatedTime === '--분 --초') {
-              return {
-                ...bus,
-                estimatedTime: arrivalData.estimatedTime,
-                remainingSeconds: Number.MAX_SAFE_INTEGER,
-              };
-            }
-
-            const seconds = convertTimeStringToSeconds(
-              arrivalData.estimatedTime,
-            );
-
             console.log(
               `⏰ 버스 ${getBusDisplayName(
                 bus.busRealNumber,
                 bus.busNumber,
-              )}: ${arrivalData.estimatedTime} (${seconds}초)`,
+              )}: ${arrivalData.estimatedTime} (${arrivalData.eta.seconds}초)`,
             );
 
-            return {
-              ...bus,
-              estimatedTime: arrivalData.estimatedTime,
-              remainingSeconds: seconds,
-            };
+            return {...bus, eta: arrivalData.eta};
           } catch (innerError) {
             console.error(
               `❌ 버스 ${getBusDisplayName(
@@ -132,21 +143,15 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
               )} 도착 시간 조회 실패:`,
               innerError,
             );
-            return {
-              ...bus,
-              estimatedTime: '--분 --초',
-              remainingSeconds: Number.MAX_SAFE_INTEGER,
-            };
+            return {...bus, eta: unknownEta('arrival-estimate')};
           }
         }),
       );
 
       // 정렬 로직
-      const sortedBuses = busesWithArrival.sort((a, b) => {
-        const aSeconds = a.remainingSeconds ?? Number.MAX_SAFE_INTEGER;
-        const bSeconds = b.remainingSeconds ?? Number.MAX_SAFE_INTEGER;
-        return aSeconds - bSeconds;
-      });
+      const sortedBuses = busesWithArrival.sort((a, b) =>
+        compareEta(a.eta, b.eta),
+      );
 
       console.log(`📋 정렬된 버스 목록:`);
       sortedBuses.forEach((bus, index) => {
@@ -154,11 +159,12 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
           `  ${index + 1}. ${getBusDisplayName(
             bus.busRealNumber,
             bus.busNumber,
-          )} - ${bus.estimatedTime}`,
+          )} - ${formatEta(bus.eta)}`,
         );
       });
 
-      setBuses(sortedBuses);
+      setArrivals(sortedBuses.map(({busNumber, eta}) => ({busNumber, eta})));
+      setNow(Date.now());
     } catch (error) {
       console.error('❌ 정류장 상세 정보 로딩 오류:', error);
       setError('버스 정보를 불러오는데 실패했습니다.');
@@ -168,37 +174,15 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
     }
   }, [stationId]);
 
+  // 1초마다 남은 시간 갱신
   useEffect(() => {
-    let intervalId: NodeJS.Timeout;
-
-    if (buses.length > 0) {
-      intervalId = setInterval(() => {
-        setBuses(prevBuses =>
-          prevBuses.map(bus => {
-            // remainingSeconds가 null/undefined/Number.MAX_SAFE_INTEGER면 덮어쓰지 않음
-            if (
-              bus.remainingSeconds &&
-              bus.remainingSeconds > 0 &&
-              bus.remainingSeconds !== Number.MAX_SAFE_INTEGER
-            ) {
-              const newSeconds = bus.remainingSeconds - 1;
-              return {
-                ...bus,
-                estimatedTime: formatSecondsToTime(newSeconds),
-                remainingSeconds: newSeconds,
-              };
-            }
-            // 변환 불가/특수값이면 estimatedTime을 그대로 유지
-            return bus;
-          }),
-        );
-      }, 1000);
+    if (arrivals.length === 0) {
+      return;
     }
 
-    return () => {
-      if (intervalId) clearInterval(intervalId);
-    };
-  }, [buses.length]);
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [arrivals.length]);
 
   // 초기 데이터 로딩
   useEffect(() => {
@@ -222,34 +206,6 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
     navigation.navigate('BusRoute', {busNumber});
   };
 
-  // 초 변환 함수 개선
-  const convertTimeStringToSeconds = (timeString: string): number | null => {
-    if (timeString === '--분 --초') {
-      return null;
-    } // 변환 불가 시 null 반환
-
-    const match = timeString.match(/(\d+)분\s*(\d+)?초?/);
-    if (match) {
-      const minutes = parseInt(match[1], 10);
-      const seconds = match[2] ? parseInt(match[2], 10) : 0;
-      return minutes * 60 + seconds;
-    }
-    return null; // 형식 오류 시 null 반환
-  };
-
-  // 시간 표시 함수 개선
-  const formatSecondsToTime = (seconds: number | null): string => {
-    if (seconds === null || seconds === Number.MAX_SAFE_INTEGER) {
-      return '--분 --초';
-    }
-    if (seconds <= 0) {
-      return '잠시 후 도착';
-    }
-
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}분 ${remainingSeconds}초`;
-  };
   // 버스 아이템 렌더링
   const renderBusItem = ({item}: {item: BusWithArrival}) => {
     // 3. 탑승 여부 확인
@@ -289,6 +245,16 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
             <Text variant="xs" color={theme.colors.gray[500]}>
               {item.routeName}
             </Text>
+            {item.operate && (
+              <BoardingActionButton
+                busNumber={item.busNumber}
+                busDisplayName={getBusDisplayName(
+                  item.busRealNumber,
+                  item.busNumber,
+                )}
+                style={styles.boardingActionButton}
+              />
+            )}
           </View>
 
           <View style={styles.busInfoContainer}>
@@ -302,7 +268,7 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
                     : theme.colors.gray[400]
                 }
                 style={styles.arrivalTime}>
-                {item.operate ? item.estimatedTime : '운행 중지'}
+                {item.operate ? formatEta(item.eta, now) : '운행 중지'}
               </Text>
             </View>
 
@@ -312,9 +278,7 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
                   style={[
                     styles.progressBar,
                     {
-                      width: `${
-                        (item.occupiedSeats / item.totalSeats) * 100
-                      }%`,
+                      width: `${(item.occupiedSeats / item.totalSeats) * 100}%`,
                       backgroundColor: item.operate
                         ? theme.colors.primary.default
                         : theme.colors.gray[300],
@@ -325,9 +289,7 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
               <Text
                 variant="xs"
                 color={
-                  item.operate
-                    ? theme.colors.gray[600]
-                    : theme.colors.gray[400]
+                  item.operate ? theme.colors.gray[600] : theme.colors.gray[400]
                 }>
                 {item.availableSeats}/{item.totalSeats}석
               </Text>
@@ -356,6 +318,17 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
     </View>
   );
 
+  // 정류장과 지나는 노선, 도착 예정 버스에 걸린 운행 공지
+  const stationAlerts = getStationAlerts(
+    serviceAlerts,
+    stationId,
+    {
+      routeIds: getRouteIdsForStation(routeStationIds, stationId),
+      busNumbers: buses.map(bus => bus.busNumber),
+    },
+    now,
+  );
+
   // 구분선
   const ItemSeparator = () => <View style={styles.separator} />;
 
@@ -374,6 +347,7 @@ const StationDetail: React.FC<StationDetailProps> = ({stationId}) => {
       keyExtractor={item => item.busNumber}
       contentContainerStyle={styles.listContainer}
       ItemSeparatorComponent={ItemSeparator}
+      ListHeaderComponent={<ServiceAlertNotice alerts={stationAlerts} />}
       ListEmptyComponent={renderEmptyList}
       refreshControl={
         <RefreshControl
@@ -433,6 +407,10 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     alignSelf: 'center',
   },
+  boardingActionButton: {
+    alignSelf: 'flex-start',
+    marginTop: theme.spacing.xs,
+  },
   boardingBadgeText: {
     color: theme.colors.white,
     fontSize: 10,
@@ -504,4 +482,4 @@ const styles = StyleSheet.create({
   },
 });
 
-export default StationDetail;
\ No newline at end of file
+export default StationDetail;
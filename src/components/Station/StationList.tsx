@@ -39,14 +39,7 @@ const StationList: React.FC<StationListProps> = ({
         styles.stationCard,
         selectedStation?.id === item.id && styles.selectedCard,
       ]}
-      onPress={() =>
-        setSelectedStation({
-          ...item,
-          location: item.location
-            ? {x: item.location.coordinates[0], y: item.location.coordinates[1]}
-            : undefined,
-        })
-      }>
+      onPress={() => setSelectedStation(item)}>
       <View style={styles.stationRow}>
         <View style={styles.stationInfo}>
           <Text
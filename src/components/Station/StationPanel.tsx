@@ -13,6 +13,7 @@ import {Station} from '../../api/services/stationService';
 import StationList from './StationList';
 import StationDetail from './StationDetail';
 import useSelectedStationStore from '../../store/useSelectedStationStore';
+import useEntityStore, {selectStation} from '../../store/useEntityStore';
 
 const {height} = Dimensions.get('window');
 
@@ -33,6 +34,8 @@ const StationPanel: React.FC<StationPanelProps> = ({
   toggleFavorite,
 }) => {
   const {selectedStation, resetSelectedStation} = useSelectedStationStore();
+  // 선택한 뒤 정류장 정보가 갱신되면 최신 이름으로 표시
+  const latestStation = useEntityStore(selectStation(selectedStation?.id));
   const [panelHeight, setPanelHeight] = useState(SNAP_POINTS.MIDDLE);
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [isDragging, setIsDragging] = useState(false);
@@ -195,7 +198,7 @@ const StationPanel: React.FC<StationPanelProps> = ({
               weight="semiBold"
               style={styles.title}
               numberOfLines={1}>
-              {selectedStation.name}
+              {(latestStation ?? selectedStation).name}
             </Text>
           </>
         ) : (
@@ -7,21 +7,11 @@ import {
   Platform,
 } from 'react-native';
 import useStore from '../../store/useStore';
-
-export interface Station {
-  id: string;
-  name: string;
-  location?: {
-    x: number;
-    y: number;
-  };
-  type?: string;
-  favorite?: boolean;
-}
+import useEntityStore, {selectStationList} from '../../store/useEntityStore';
 
 const StationSearch: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
-  const stations = useStore(state => state.stations);
+  const stations = useEntityStore(selectStationList);
   const setFilteredStations = useStore(state => state.setFilteredStations);
 
   const handleSearch = (text: string) => {
@@ -0,0 +1,99 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import Text from '../common/Text';
+import theme from '../../theme';
+import type {Trip} from '../../api/services/tripService';
+
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+
+// 예: 10월 19일 (일)
+export const formatTripDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getMonth() + 1}월 ${date.getDate()}일 (${
+    WEEKDAYS[date.getDay()]
+  })`;
+};
+
+// 예: 08:05
+export const formatTripTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+export const getTripBusName = (trip: Trip): string =>
+  trip.busRealNumber ?? `${trip.busNumber} (가상번호)`;
+
+// 탑승 중이면 현재 시각까지의 시간
+const formatDuration = (trip: Trip): string => {
+  const endedAt = trip.alightedAt ?? Date.now();
+  const minutes = Math.max(1, Math.round((endedAt - trip.boardedAt) / 60000));
+  if (minutes < 60) {
+    return `${minutes}분`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}시간 ${rest}분` : `${hours}시간`;
+};
+
+interface TripSummaryProps {
+  trip: Trip;
+}
+
+/**
+ * 이동 기록 한 건의 요약 (버스, 노선, 시간, 정류장)
+ * 내 이동 기록 목록과 상세 화면에서 함께 사용합니다.
+ */
+const TripSummary: React.FC<TripSummaryProps> = ({trip}) => {
+  const isActive = trip.alightedAt === null;
+  const timeRange = `${formatTripTime(trip.boardedAt)} → ${
+    isActive ? '탑승 중' : formatTripTime(trip.alightedAt as number)
+  }`;
+  const stationRange = `${trip.boardingStation?.name ?? '알 수 없음'} → ${
+    trip.alightingStation?.name ?? (isActive ? '이동 중' : '알 수 없음')
+  }`;
+
+  return (
+    <View>
+      <View style={styles.titleRow}>
+        <Text variant="lg" weight="semiBold">
+          {getTripBusName(trip)}
+        </Text>
+        <Text
+          variant="sm"
+          weight="medium"
+          color={
+            isActive ? theme.colors.system.warning : theme.colors.gray[600]
+          }>
+          {formatDuration(trip)}
+        </Text>
+      </View>
+      {trip.routeName && (
+        <Text variant="sm" color={theme.colors.gray[600]}>
+          {trip.routeName}
+        </Text>
+      )}
+      <Text variant="sm" color={theme.colors.gray[800]} style={styles.detail}>
+        {timeRange}
+      </Text>
+      <Text variant="sm" color={theme.colors.gray[800]}>
+        {stationRange}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  detail: {
+    marginTop: theme.spacing.xs,
+  },
+});
+
+export default TripSummary;
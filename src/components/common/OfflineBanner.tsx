@@ -0,0 +1,62 @@
+import React from 'react';
+import {View, StyleSheet} from 'react-native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from './Text';
+import useNetworkStatusStore from '../../store/useNetworkStatusStore';
+import theme from '../../theme';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+// 시각을 HH:mm 형식으로 변환
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+/**
+ * 오프라인 상태일 때 표시되는 배너
+ * 캐시된 데이터를 보여주고 있으면 해당 데이터의 저장 시각을 함께 표시합니다.
+ */
+const OfflineBanner: React.FC = () => {
+  const isOffline = useNetworkStatusStore(state => state.isOffline);
+  const cachedDataTime = useNetworkStatusStore(state => state.cachedDataTime);
+
+  if (!isOffline) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Ionicons
+        name="cloud-offline-outline"
+        size={16}
+        color={theme.colors.gray[700]}
+      />
+      <Text variant="sm" color={theme.colors.gray[700]} style={styles.message}>
+        {cachedDataTime
+          ? `오프라인 상태입니다. ${formatTime(cachedDataTime)} 기준 정보를 표시합니다.`
+          : '오프라인 상태입니다. 네트워크 연결을 확인해주세요.'}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    backgroundColor: '#FFF8E6',
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.system.warning,
+  },
+  message: {
+    marginLeft: theme.spacing.xs,
+    flex: 1,
+  },
+});
+
+export default OfflineBanner;
@@ -0,0 +1,73 @@
+// src/config/environment.tsx
+import {Platform} from 'react-native';
+import useEnvironmentStore from '../store/useEnvironmentStore';
+
+// 앱이 연결할 수 있는 서버 프로필
+// (스테이징/운영 서버는 주소가 정해지면 추가)
+export type EnvironmentProfile = 'dev' | 'local-mock';
+
+export interface EnvironmentConfig {
+  profile: EnvironmentProfile;
+  // 개발자 화면에 표시할 이름
+  label: string;
+  // REST API 기본 URL
+  apiBaseUrl: string;
+  // WebSocket 기본 URL
+  wsBaseUrl: string;
+}
+
+// 로컬 서버 주소 (Android 에뮬레이터는 10.0.2.2로 호스트 PC에 접근)
+const LOCAL_HOST = Platform.select({
+  ios: 'http://localhost:8088',
+  android: 'http://10.0.2.2:8088',
+  default: 'http://localhost:8088',
+});
+
+const createConfig = (
+  profile: EnvironmentProfile,
+  label: string,
+  apiBaseUrl: string,
+): EnvironmentConfig => ({
+  profile,
+  label,
+  apiBaseUrl,
+  wsBaseUrl: apiBaseUrl.replace(/^http/, 'ws'),
+});
+
+export const ENVIRONMENTS: Record<EnvironmentProfile, EnvironmentConfig> = {
+  dev: createConfig('dev', '개발 서버', 'http://devse.kr:12589'),
+  'local-mock': createConfig('local-mock', '로컬 목 서버', LOCAL_HOST),
+};
+
+// 저장된 선택이 없을 때 사용하는 기본 프로필
+export const DEFAULT_PROFILE: EnvironmentProfile = 'dev';
+
+// 개발자 설정 화면(서버 프로필 전환)은 개발 빌드와
+// ENABLE_DEV_SETTINGS=true로 번들한 QA 릴리스 빌드에서만 열 수 있음
+export const DEV_SETTINGS_ENABLED =
+  __DEV__ || process.env.ENABLE_DEV_SETTINGS === 'true';
+
+export const ENVIRONMENT_PROFILES = Object.keys(
+  ENVIRONMENTS,
+) as EnvironmentProfile[];
+
+/**
+ * 현재 선택된 서버 환경 설정을 반환합니다.
+ * 요청 시점마다 호출되므로 개발자 화면에서 프로필을 바꾸면 즉시 반영됩니다.
+ * 릴리스 빌드는 저장된 선택과 관계없이 기본 프로필을 사용합니다.
+ */
+export const getEnvironment = (): EnvironmentConfig => {
+  if (!DEV_SETTINGS_ENABLED) {
+    return ENVIRONMENTS[DEFAULT_PROFILE];
+  }
+  const {profile} = useEnvironmentStore.getState();
+  return ENVIRONMENTS[profile] ?? ENVIRONMENTS[DEFAULT_PROFILE];
+};
+
+export const getApiBaseUrl = (): string => getEnvironment().apiBaseUrl;
+
+export const getWsBaseUrl = (): string => getEnvironment().wsBaseUrl;
+
+// OAuth 로그인 시작 URL
+export const getLoginUrl = (): string =>
+  `${getApiBaseUrl()}/oauth2/authorization/google`;
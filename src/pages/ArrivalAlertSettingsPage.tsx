@@ -0,0 +1,308 @@
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  Switch,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import Text from '../components/common/Text';
+import Card from '../components/common/Card';
+import Button from '../components/common/Button';
+import ArrivalAlertRuleEditor, {
+  TimeStepper,
+  createDefaultRuleInput,
+} from '../components/ArrivalAlert/ArrivalAlertRuleEditor';
+import theme from '../theme';
+import type {Station} from '../api/services/stationService';
+import {userService} from '../api/services/userService';
+import useArrivalAlertStore, {
+  ArrivalAlertRule,
+  ArrivalAlertRuleInput,
+} from '../store/useArrivalAlertStore';
+import arrivalAlertService from '../services/arrivalAlertService';
+import notificationService from '../services/notificationService';
+import {formatDays, formatMinuteOfDay} from '../services/arrivalAlertPolicy';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+// 편집 중인 규칙 (새 규칙이면 ruleId가 null)
+interface EditingRule {
+  stationId: string;
+  ruleId: string | null;
+  initialValue: ArrivalAlertRuleInput;
+}
+
+// 예: "평일 08:00~09:00 · 모든 버스 · 5분 전"
+const describeRule = (rule: ArrivalAlertRule) =>
+  [
+    `${formatDays(rule.days)} ${formatMinuteOfDay(
+      rule.window.startMinute,
+    )}~${formatMinuteOfDay(rule.window.endMinute)}`,
+    rule.busNumber
+      ? `${rule.busRealNumber ?? rule.busNumber} 버스`
+      : '모든 버스',
+    `${rule.minutesBefore}분 전`,
+  ].join(' · ');
+
+/**
+ * 즐겨찾기 정류장 도착 알림 설정 화면
+ * 정류장별 알림 규칙과 방해 금지 시간을 관리합니다. 규칙은 기기에 저장됩니다.
+ */
+const ArrivalAlertSettingsPage: React.FC = () => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<EditingRule | null>(null);
+  const {rules, quietHours, addRule, updateRule, removeRule, setQuietHours} =
+    useArrivalAlertStore();
+
+  useEffect(() => {
+    userService
+      .getMyStations()
+      .then(favoriteStations => {
+        setStations(favoriteStations);
+        arrivalAlertService.syncFavoriteStations(
+          favoriteStations.map(station => station.id),
+        );
+      })
+      .catch(error => {
+        console.warn('🔔 [ArrivalAlert] 즐겨찾기 정류장 조회 실패:', error);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSave = (input: ArrivalAlertRuleInput) => {
+    if (editing?.ruleId) {
+      updateRule(editing.ruleId, input);
+    } else {
+      addRule(input);
+      // 앱을 닫아 두어도 알림을 받을 수 있도록 권한 요청 (이미 정했으면 다시 묻지 않음)
+      notificationService.requestPermission().catch(error => {
+        console.warn('🔔 [ArrivalAlert] 알림 권한 요청 실패:', error);
+      });
+    }
+    setEditing(null);
+  };
+
+  const renderRule = (rule: ArrivalAlertRule) => (
+    <View key={rule.id} style={styles.ruleRow}>
+      <TouchableOpacity
+        style={styles.ruleText}
+        onPress={() =>
+          setEditing({
+            stationId: rule.stationId,
+            ruleId: rule.id,
+            initialValue: rule,
+          })
+        }>
+        <Text
+          variant="sm"
+          color={
+            rule.enabled ? theme.colors.gray[800] : theme.colors.gray[400]
+          }>
+          {describeRule(rule)}
+        </Text>
+      </TouchableOpacity>
+      <Switch
+        value={rule.enabled}
+        onValueChange={enabled => updateRule(rule.id, {enabled})}
+      />
+      <TouchableOpacity
+        style={styles.deleteButton}
+        onPress={() => removeRule(rule.id)}
+        hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+        <Ionicons
+          name="trash-outline"
+          size={18}
+          color={theme.colors.gray[500]}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderStation = ({item: station}: {item: Station}) => {
+    const stationRules = rules.filter(rule => rule.stationId === station.id);
+    const isEditingHere = editing?.stationId === station.id;
+
+    return (
+      <Card variant="outlined" style={styles.stationCard}>
+        <View style={styles.stationHeader}>
+          <Ionicons name="star" size={16} color={theme.colors.system.warning} />
+          <Text variant="md" weight="semiBold" style={styles.stationName}>
+            {station.name}
+          </Text>
+        </View>
+
+        {stationRules.length === 0 && !isEditingHere && (
+          <Text variant="sm" color={theme.colors.gray[400]}>
+            설정한 알림이 없습니다.
+          </Text>
+        )}
+        {stationRules.map(renderRule)}
+
+        {isEditingHere ? (
+          <ArrivalAlertRuleEditor
+            key={editing.ruleId ?? 'new'}
+            initialValue={editing.initialValue}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <Button
+            variant="tonal"
+            size="small"
+            style={styles.addButton}
+            leftIcon={
+              <Ionicons
+                name="notifications-outline"
+                size={16}
+                color={theme.colors.primary.default}
+              />
+            }
+            onPress={() =>
+              setEditing({
+                stationId: station.id,
+                ruleId: null,
+                initialValue: createDefaultRuleInput(station),
+              })
+            }>
+            알림 추가
+          </Button>
+        )}
+      </Card>
+    );
+  };
+
+  const quietHoursCard = (
+    <Card variant="outlined" style={styles.stationCard}>
+      <View style={styles.quietHeader}>
+        <View style={styles.ruleText}>
+          <Text variant="md" weight="medium">
+            방해 금지 시간
+          </Text>
+          <Text variant="xs" color={theme.colors.gray[500]}>
+            이 시간에는 도착 알림을 보내지 않습니다.
+          </Text>
+        </View>
+        <Switch
+          value={quietHours.enabled}
+          onValueChange={enabled => setQuietHours({enabled})}
+        />
+      </View>
+      {quietHours.enabled && (
+        <View style={styles.quietTimes}>
+          <TimeStepper
+            label="시작"
+            minute={quietHours.window.startMinute}
+            onChange={startMinute =>
+              setQuietHours({window: {...quietHours.window, startMinute}})
+            }
+          />
+          <TimeStepper
+            label="종료"
+            minute={quietHours.window.endMinute}
+            onChange={endMinute =>
+              setQuietHours({window: {...quietHours.window, endMinute}})
+            }
+          />
+        </View>
+      )}
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary.default} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <FlatList
+        data={stations}
+        keyExtractor={station => station.id}
+        renderItem={renderStation}
+        extraData={[rules, editing]}
+        ListHeaderComponent={quietHoursCard}
+        contentContainerStyle={styles.listContainer}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text variant="md" color={theme.colors.gray[500]}>
+              즐겨찾기한 정류장이 없습니다.
+            </Text>
+            <Text variant="sm" color={theme.colors.gray[400]}>
+              홈 화면에서 정류장을 즐겨찾기에 추가하면 도착 알림을 설정할 수
+              있습니다.
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.gray[50],
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: theme.spacing.md,
+  },
+  stationCard: {
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.white,
+  },
+  stationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  stationName: {
+    marginLeft: theme.spacing.xs,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xs,
+  },
+  ruleText: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  deleteButton: {
+    marginLeft: theme.spacing.sm,
+  },
+  addButton: {
+    marginTop: theme.spacing.sm,
+    alignSelf: 'flex-start',
+  },
+  quietHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  quietTimes: {
+    flexDirection: 'row',
+    gap: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xxl,
+    paddingHorizontal: theme.spacing.lg,
+    gap: theme.spacing.xs,
+  },
+});
+
+export default ArrivalAlertSettingsPage;
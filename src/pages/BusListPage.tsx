@@ -18,12 +18,27 @@ import _Ionicons from 'react-native-vector-icons/Ionicons';
 
 import Footer from '../components/Footer';
 import {useToast} from '../components/common/Toast';
-import {busService, BusRealTimeStatus} from '../api/services/busService';
-import {routeService, Route} from '../api/services/routeService';
-import {stationService} from '../api/services/stationService';
+import OfflineBanner from '../components/common/OfflineBanner';
+import {toStation} from '../api/services/stationService';
+import routeSnapshotAggregator, {
+  StationWithBuses,
+  EnhancedBusInfo,
+} from '../services/routeSnapshotAggregator';
+import {
+  compareEta,
+  formatEta,
+  formatEtaMinutes,
+  getEarliestEta,
+  isEtaWithin,
+} from '../api/eta';
 import useSelectedStationStore from '../store/useSelectedStationStore';
+import useEntityStore, {selectRoute} from '../store/useEntityStore';
 import theme from '../theme';
-import useBoardingStore from '../store/useBoardingStore'; // 1. useBoardingStore import
+import useBoardingStore, {
+  BOARDING_PHASE_LABELS,
+  getBusBoardingPhase,
+} from '../store/useBoardingStore'; // 1. useBoardingStore import
+import BoardingStatusBanner from '../components/Boarding/BoardingStatusBanner';
 
 const Ionicons = _Ionicons as unknown as React.ElementType;
 
@@ -35,32 +50,7 @@ type RootStackParamList = {
 
 type BusListScreenRouteProp = RouteProp<RootStackParamList, 'BusList'>;
 
-interface StationWithBuses {
-  id: string;
-  name: string;
-  sequence: number;
-  location?: {
-    x: number;
-    y: number;
-    coordinates: number[];
-    type: string;
-  };
-  buses: {
-    busNumber: string;
-    busRealNumber: string | null;
-    estimatedArrivalTime?: string;
-    occupiedSeats: number;
-    totalSeats: number;
-  }[];
-}
-
-interface EnhancedBusInfo extends BusRealTimeStatus {
-  nextStationName?: string | null;
-  nextStationArrivalTime?: string | null;
-}
-
 const BusListPage: React.FC = () => {
-  const [, setRouteInfo] = useState<Route | null>(null);
   const [stationsWithBuses, setStationsWithBuses] = useState<
     StationWithBuses[]
   >([]);
@@ -72,10 +62,12 @@ const BusListPage: React.FC = () => {
   const route = useRoute<BusListScreenRouteProp>();
   const navigation = useNavigation();
   const {routeId, routeName} = route.params;
+  // 노선 정보는 스냅샷을 만들 때 엔티티 스토어에 반영됨 (이름이 바뀌면 바로 표시)
+  const routeInfo = useEntityStore(selectRoute(routeId));
   const {showToast} = useToast();
   const {setSelectedStation} = useSelectedStationStore();
-  // 2. 탑승 중인 버스 번호 가져오기
-  const {boardedBusNumber} = useBoardingStore();
+  // 2. 탑승 단계 가져오기 (탑승 확인 중, 탑승중, 하차 확인 중)
+  const boardingStatus = useBoardingStore(state => state.status);
 
   // 버스 표시명 생성 함수
   const getBusDisplayName = (
@@ -101,289 +93,10 @@ const BusListPage: React.FC = () => {
     try {
       setLoading(!refreshing);
 
-      // 1. 노선 정보 가져오기 (정류장 목록 포함)
-      const routeData = await routeService.getRouteById(routeId);
-      setRouteInfo(routeData);
-
-      // 2. 모든 정류장 정보 가져오기 (location 포함)
-      const allStations = await stationService.getAllStations();
-
-      // 3. 해당 노선을 운행하는 버스들 가져오기
-      const allBuses = await busService.getOperatingBuses(); // ← 변경점
-      const routeBuses = allBuses.filter(bus => bus.routeName === routeName);
-
-      console.log(
-        `📊 노선 ${routeName}: 전체 운행 중인 버스 ${routeBuses.length}대`,
-      );
-
-      // 운행 중지된 버스 필터링 확인
-      const operatingBuses = routeBuses.filter(bus => bus.operate);
-      const stoppedBuses = routeBuses.filter(bus => !bus.operate);
-
-      if (stoppedBuses.length > 0) {
-        console.warn(
-          `⚠️ 운행 중지된 버스 ${
-            stoppedBuses.length
-          }대가 감지되었습니다:`,
-          stoppedBuses.map(bus =>
-            getBusDisplayName(bus.busRealNumber, bus.busNumber),
-          ),
-        );
-      }
-
-      console.log(`✅ 실제 운행 중인 버스: ${operatingBuses.length}대`);
-
-      // 각 버스의 다음 정류장 도착 예정 시간 추가
-      const busesWithNextArrival = await Promise.all(
-        routeBuses.map(async bus => {
-          try {
-            const busStations = await busService.getBusStationsDetail(
-              bus.busNumber,
-            );
-            const currentStationIndex = busStations.findIndex(
-              station => station.isCurrentStation,
-            );
-            const nextStation =
-              currentStationIndex >= 0 &&
-              currentStationIndex < busStations.length - 1
-                ? busStations[currentStationIndex + 1]
-                : null;
-
-            return {
-              ...bus,
-              nextStationName: nextStation?.name || null,
-              nextStationArrivalTime: nextStation?.estimatedArrivalTime || null,
-              // 현재 위치는 다음에 향하고 있는 정류장으로 표시
-              currentStationName:
-                busStations.find(s => s.isCurrentStation)?.name || '이동 중',
-            };
-          } catch (error) {
-            console.error(
-              `Error fetching next station for bus ${bus.busNumber}:`,
-              error,
-            );
-            return {
-              ...bus,
-              nextStationName: null,
-              nextStationArrivalTime: null,
-              currentStationName: '이동 중',
-            };
-          }
-        }),
-      );
-
-      // 5. 최종 확인: 운행 중인 버스만 설정
-      const finalOperatingBuses = busesWithNextArrival.filter(
-        bus => bus.operate,
-      );
-      setActiveBuses(finalOperatingBuses);
-
-      console.log('🚌 최종 운행 중인 버스들:');
-      finalOperatingBuses.forEach(bus => {
-        console.log(`  ✅ ${getBusDisplayName(
-          bus.busRealNumber,
-          bus.busNumber,
-        )}: 
-          향하는곳=${bus.currentStationName}, 그다음=${bus.nextStationName}, 
-          운행상태=${bus.operate ? '운행중' : '중지'}`);
-      });
-
-      // 4. 각 정류장별로 버스 정보 매핑 - location 정보 포함
-      const stationsWithBusData: StationWithBuses[] = await Promise.all(
-        routeData.stations
-          .sort((a, b) => a.sequence - b.sequence)
-          .map(async station => {
-            console.log('🗺️ 처리 중인 station:', station);
-
-            // 해당 정류장의 전체 정보 찾기 (location 포함)
-            const fullStationInfo = allStations.find(
-              s => s.id === station.stationId,
-            );
-            console.log('🗺️ 찾은 fullStationInfo:', fullStationInfo);
-
-            const busInfoForStation = await Promise.all(
-              finalOperatingBuses.map(async bus => {
-                try {
-                  // 운행 중지된 버스는 제외
-                  if (!bus.operate) {
-                    console.log(
-                      `⏹️ 버스 ${getBusDisplayName(
-                        bus.busRealNumber,
-                        bus.busNumber,
-                      )} 운행 중지로 제외`,
-                    );
-                    return null;
-                  }
-
-                  // 각 버스의 정류장 상세 정보 가져오기
-                  const busStations = await busService.getBusStationsDetail(
-                    bus.busNumber,
-                  );
-
-                  // 해당 정류장이 이 버스의 경로에 있는지 확인
-                  const targetStation = busStations.find(
-                    s => s.name === station.stationName,
-                  );
-
-                  let estimatedTime: string | undefined = undefined;
-
-                  if (targetStation) {
-                    // 이미 지나간 정류장이면 제외 (isPassed: true)
-                    if (targetStation.isPassed) {
-                      return null; // 이미 지나간 정류장은 정보 제공하지 않음
-                    }
-
-                    // 다음에 향하고 있는 정류장 (isCurrentStation: true)
-                    if (targetStation.isCurrentStation) {
-                      try {
-                        const arrivalData =
-                          await stationService.getArrivalEstimate(
-                            bus.busNumber,
-                            station.stationId,
-                          );
-
-                        if (arrivalData.estimatedTime === '--분 --초') {
-                          estimatedTime = '--분 --초';
-                        } else {
-                          estimatedTime = arrivalData.estimatedTime;
-                        }
-                      } catch (arrivalError) {
-                        console.error(
-                          `카카오 API 호출 실패 for bus ${bus.busNumber} to station ${station.stationName}:`,
-                          arrivalError,
-                        );
-                        estimatedTime = '--분 --초';
-                      }
-                    }
-                    // 아직 가지 않은 미래 정류장 (isCurrentStation: false && isPassed: false)
-                    else if (
-                      !targetStation.isCurrentStation &&
-                      !targetStation.isPassed
-                    ) {
-                      try {
-                        const arrivalData =
-                          await stationService.getArrivalEstimate(
-                            bus.busNumber,
-                            station.stationId,
-                          );
-                        if (arrivalData.estimatedTime !== '--분 --초') {
-                          estimatedTime = arrivalData.estimatedTime;
-                        }
-                      } catch (arrivalError) {
-                        // 먼 정류장의 경우 API 실패 시 시간 없음으로 처리
-                        console.error(
-                          `카카오 API 호출 실패 for future station ${bus.busNumber} to ${station.stationName}:`,
-                          arrivalError,
-                        );
-                        estimatedTime = undefined;
-                      }
-                    }
-                  }
-
-                  // 도착 예정 시간이 있는 경우만 반환
-                  if (estimatedTime) {
-                    return {
-                      busNumber: bus.busNumber,
-                      busRealNumber: bus.busRealNumber,
-                      estimatedArrivalTime: estimatedTime,
-                      occupiedSeats: bus.occupiedSeats,
-                      totalSeats: bus.totalSeats,
-                    };
-                  }
-
-                  return null; // 도착 예정 시간이 없으면 null
-                } catch (error) {
-                  console.error(
-                    `Error fetching station info for bus ${bus.busNumber}:`,
-                    error,
-                  );
-                  return null;
-                }
-              }),
-            );
-
-            // null 값들을 필터링하고 유효한 버스 정보만 포함
-            const validBusInfo = busInfoForStation.filter(
-              busInfo => busInfo !== null,
-            );
-
-            // location 처리 개선
-            let processedLocation = undefined;
-
-            if (fullStationInfo?.location) {
-              if (
-                fullStationInfo.location.coordinates &&
-                Array.isArray(fullStationInfo.location.coordinates) &&
-                fullStationInfo.location.coordinates.length >= 2
-              ) {
-                // coordinates 배열이 있는 경우
-                processedLocation = {
-                  x: fullStationInfo.location.coordinates[0], // 경도
-                  y: fullStationInfo.location.coordinates[1], // 위도
-                  coordinates: fullStationInfo.location.coordinates,
-                  type: fullStationInfo.location.type || 'Point',
-                };
-                console.log('✅ coordinates 배열 사용:', processedLocation);
-              } else if (
-                fullStationInfo.location.x &&
-                fullStationInfo.location.y
-              ) {
-                // x, y 직접 값이 있는 경우
-                processedLocation = {
-                  x: fullStationInfo.location.x,
-                  y: fullStationInfo.location.y,
-                  coordinates: [
-                    fullStationInfo.location.x,
-                    fullStationInfo.location.y,
-                  ],
-                  type: fullStationInfo.location.type || 'Point',
-                };
-                console.log('✅ x,y 직접값 사용:', processedLocation);
-              } else {
-                console.log(
-                  '⚠️ location 형식이 예상과 다름:',
-                  fullStationInfo.location,
-                );
-              }
-            } else {
-              console.log('⚠️ fullStationInfo에 location이 없음');
-            }
-
-            console.log('🔍 최종 processedLocation:', processedLocation);
-
-            return {
-              id: station.stationId,
-              name: station.stationName,
-              sequence: station.sequence,
-              location: processedLocation, // 처리된 location 사용
-              buses: validBusInfo,
-            };
-          }),
-      );
-
-      console.log('🔍 최종 stationsWithBusData:');
-      stationsWithBusData.forEach((station, index) => {
-        console.log(`  [${index}] ${station.name}:`);
-        console.log(`    - ID: ${station.id}`);
-        console.log(`    - location:`, station.location);
-        console.log(`    - buses: ${station.buses.length}대`);
-        station.buses.forEach(bus => {
-          console.log(
-            `      * ${getBusDisplayName(
-              bus.busRealNumber,
-              bus.busNumber,
-            )}: ${bus.estimatedArrivalTime}`,
-          );
-        });
-        if (station.location) {
-          console.log(`    - coordinates:`, station.location.coordinates);
-          console.log(`    - x:`, station.location.x);
-          console.log(`    - y:`, station.location.y);
-        }
-        console.log('    ---');
-      });
-
-      setStationsWithBuses(stationsWithBusData);
+      // 노선, 정류장별 버스 도착 정보, 운행 버스를 한 번에 구성
+      const snapshot = await routeSnapshotAggregator.build(routeId, routeName);
+      setActiveBuses(snapshot.activeBuses);
+      setStationsWithBuses(snapshot.stations);
       setError(null);
     } catch (error) {
       console.error('노선 데이터를 가져오는 중 오류 발생:', error);
@@ -436,41 +149,10 @@ const BusListPage: React.FC = () => {
         return;
       }
 
-      // 기본 station 정보 (필수 필드만)
-      const baseStation: {
-        id: string;
-        name: string;
-        location?: {x: number; y: number};
-      } = {
-        id: station.id,
-        name: station.name,
-      };
-
-      // location이 있는 경우에만 추가
-      if (station.location) {
-        if (
-          station.location.coordinates &&
-          Array.isArray(station.location.coordinates) &&
-          station.location.coordinates.length >= 2
-        ) {
-          baseStation.location = {
-            x: Number(station.location.coordinates[0]), // 경도
-            y: Number(station.location.coordinates[1]), // 위도
-          };
-          console.log('✅ location 있음 - coordinates 사용');
-        } else if (
-          typeof station.location.x === 'number' &&
-          typeof station.location.y === 'number'
-        ) {
-          baseStation.location = {
-            x: station.location.x,
-            y: station.location.y,
-          };
-          console.log('✅ location 있음 - x,y 직접 사용');
-        } else {
-          console.log('⚠️ location 형식이 예상과 다름, 기본 정보만 사용');
-        }
-      } else {
+      // 정류장 모델 필드만 (버스 도착 정보 제외)
+      const baseStation = toStation(station);
+
+      if (!station.location) {
         console.log('⚠️ location 없음 - 기본 정보만 저장');
       }
 
@@ -481,8 +163,7 @@ const BusListPage: React.FC = () => {
 
       // 저장 확인 (동기적으로)
       setTimeout(() => {
-        const currentState =
-          useSelectedStationStore.getState().selectedStation;
+        const currentState = useSelectedStationStore.getState().selectedStation;
         console.log('🚌 Store 확인 - 저장 후 selectedStation:', currentState);
 
         if (currentState && currentState.id === baseStation.id) {
@@ -517,13 +198,6 @@ const BusListPage: React.FC = () => {
     return theme.colors.system.success;
   };
 
-  // 시간 문자열에서 분 추출
-  const extractMinutes = (timeString?: string | null): number => {
-    if (!timeString) return 0;
-    const matches = timeString.match(/(\d+)분/);
-    return matches && matches[1] ? parseInt(matches[1], 10) : 0;
-  };
-
   // 전체 운행 상황 요약 (정류장 목록 위에 표시)
   const renderOverallSituation = () => {
     console.log('🔍 renderOverallSituation 호출됨');
@@ -537,19 +211,16 @@ const BusListPage: React.FC = () => {
       console.log(`🔍 정류장 ${station.name}의 버스들:`, station.buses);
 
       const incomingBuses = station.buses.filter(bus => {
-        const hasTime =
-          bus.estimatedArrivalTime && bus.estimatedArrivalTime !== '--분 --초';
-        const withinTime =
-          hasTime && extractMinutes(bus.estimatedArrivalTime) <= 30;
+        const withinTime = isEtaWithin(bus.eta, 30);
 
         console.log(
           `  버스 ${getBusDisplayName(
             bus.busRealNumber,
             bus.busNumber,
-          )}: 시간=${bus.estimatedArrivalTime}, 30분내=${withinTime}`,
+          )}: 시간=${formatEta(bus.eta)}, 30분내=${withinTime}`,
         );
 
-        return hasTime && withinTime;
+        return withinTime;
       });
 
       console.log(
@@ -559,11 +230,7 @@ const BusListPage: React.FC = () => {
       if (incomingBuses.length > 0) {
         allIncomingBuses.push({
           stationName: station.name,
-          buses: incomingBuses.sort(
-            (a, b) =>
-              extractMinutes(a.estimatedArrivalTime) -
-              extractMinutes(b.estimatedArrivalTime),
-          ),
+          buses: incomingBuses.sort((a, b) => compareEta(a.eta, b.eta)),
         });
       }
     });
@@ -596,9 +263,9 @@ const BusListPage: React.FC = () => {
                       그 다음: {bus.nextStationName || '종점'}
                     </Text>
                     <View style={styles.situationArrivalInfo}>
-                      {bus.nextStationArrivalTime && (
+                      {bus.nextStationEta && (
                         <Text style={styles.situationArrivalTime}>
-                          약 {extractMinutes(bus.nextStationArrivalTime)}분 후
+                          {formatEtaMinutes(bus.nextStationEta)}
                         </Text>
                       )}
                       <View style={styles.situationSeatInfo}>
@@ -657,7 +324,7 @@ const BusListPage: React.FC = () => {
                   </View>
                   <View style={styles.situationArrivalInfo}>
                     <Text style={styles.situationArrivalTime}>
-                      약 {extractMinutes(bus.estimatedArrivalTime)}분 후
+                      {formatEtaMinutes(bus.eta)}
                     </Text>
                     <View style={styles.situationSeatInfo}>
                       <View
@@ -696,8 +363,11 @@ const BusListPage: React.FC = () => {
         showsHorizontalScrollIndicator={false}
         style={styles.busCardsContainer}>
         {activeBuses.map(bus => {
-          // 3. 탑승 여부 확인
-          const isBoarded = bus.busNumber === boardedBusNumber;
+          // 3. 이 버스의 탑승 단계 확인
+          const boardingPhase = getBusBoardingPhase(
+            boardingStatus,
+            bus.busNumber,
+          );
           return (
             <View key={bus.busNumber} style={styles.busCard}>
               <View style={styles.busCardHeader}>
@@ -714,19 +384,26 @@ const BusListPage: React.FC = () => {
                     {getBusSubtitle(bus.busRealNumber, bus.busNumber)}
                   </Text>
                 </View>
-                {/* 4. 탑승 중 배지 추가 */}
-                {isBoarded && (
-                  <View style={styles.boardingBadge}>
-                    <Text style={styles.boardingBadgeText}>탑승중</Text>
+                {/* 4. 탑승 단계 배지 추가 */}
+                {boardingPhase && (
+                  <View
+                    style={[
+                      styles.boardingBadge,
+                      boardingPhase !== 'boarded' &&
+                        styles.boardingBadgePending,
+                    ]}>
+                    <Text style={styles.boardingBadgeText}>
+                      {BOARDING_PHASE_LABELS[boardingPhase]}
+                    </Text>
                   </View>
                 )}
               </View>
               <Text style={styles.busCardLocation}>
                 {bus.currentStationName}으로 이동 중
-                {bus.nextStationName && bus.nextStationArrivalTime && (
+                {bus.nextStationName && bus.nextStationEta && (
                   <Text style={styles.nextArrivalText}>
                     {'\n'}그 다음: {bus.nextStationName} (
-                    {extractMinutes(bus.nextStationArrivalTime)}분 후)
+                    {formatEtaMinutes(bus.nextStationEta)})
                   </Text>
                 )}
               </Text>
@@ -765,11 +442,8 @@ const BusListPage: React.FC = () => {
   const renderStationDetailModal = () => {
     if (!selectedStationDetail) return null;
 
-    const upcomingBuses = selectedStationDetail.buses.filter(
-      bus =>
-        bus.estimatedArrivalTime &&
-        bus.estimatedArrivalTime !== '--분 --초' &&
-        extractMinutes(bus.estimatedArrivalTime) <= 60,
+    const upcomingBuses = selectedStationDetail.buses.filter(bus =>
+      isEtaWithin(bus.eta, 60),
     );
 
     return (
@@ -811,14 +485,13 @@ const BusListPage: React.FC = () => {
                     🚌 해당 정류장으로 가고있어요
                   </Text>
                   {upcomingBuses
-                    .sort(
-                      (a, b) =>
-                        extractMinutes(a.estimatedArrivalTime) -
-                        extractMinutes(b.estimatedArrivalTime),
-                    )
+                    .sort((a, b) => compareEta(a.eta, b.eta))
                     .map(bus => {
-                      // 5. 모달 내에서도 탑승 여부 확인
-                      const isBoarded = bus.busNumber === boardedBusNumber;
+                      // 5. 모달 내에서도 탑승 단계 확인
+                      const boardingPhase = getBusBoardingPhase(
+                        boardingStatus,
+                        bus.busNumber,
+                      );
                       return (
                         <View key={bus.busNumber} style={styles.modalBusItem}>
                           <View style={styles.modalBusHeader}>
@@ -836,17 +509,22 @@ const BusListPage: React.FC = () => {
                                 )}
                               </Text>
                             </View>
-                            {/* 6. 모달 내 탑승 중 배지 추가 */}
-                            {isBoarded && (
-                              <View style={styles.boardingBadge}>
+                            {/* 6. 모달 내 탑승 단계 배지 추가 */}
+                            {boardingPhase && (
+                              <View
+                                style={[
+                                  styles.boardingBadge,
+                                  boardingPhase !== 'boarded' &&
+                                    styles.boardingBadgePending,
+                                ]}>
                                 <Text style={styles.boardingBadgeText}>
-                                  탑승중
+                                  {BOARDING_PHASE_LABELS[boardingPhase]}
                                 </Text>
                               </View>
                             )}
                             <View style={styles.modalArrivalContainer}>
                               <Text style={styles.modalArrivalTime}>
-                                약 {extractMinutes(bus.estimatedArrivalTime)}분 후
+                                {formatEtaMinutes(bus.eta)}
                               </Text>
                               <View style={styles.modalSeatInfo}>
                                 <View
@@ -907,12 +585,8 @@ const BusListPage: React.FC = () => {
   // 정류장 아이템 렌더링
   const renderStationItem = ({item}: {item: StationWithBuses}) => {
     // 도착 예정 버스들만 체크 (30분 이내)
-    const incomingBuses = item.buses.filter(
-      bus =>
-        bus.estimatedArrivalTime &&
-        bus.estimatedArrivalTime !== '--분 --초' &&
-        extractMinutes(bus.estimatedArrivalTime) <= 30,
-    );
+    const incomingBuses = item.buses.filter(bus => isEtaWithin(bus.eta, 30));
+    const earliestEta = getEarliestEta(incomingBuses.map(bus => bus.eta));
 
     // 이 정류장으로 향하고 있는 버스들 찾기
     const movingToBuses = activeBuses.filter(
@@ -978,22 +652,19 @@ const BusListPage: React.FC = () => {
               <Text style={styles.movingBusStatus}>
                 🚌{' '}
                 {movingToBuses
-                  .map(bus => getBusDisplayName(bus.busRealNumber, bus.busNumber))
+                  .map(bus =>
+                    getBusDisplayName(bus.busRealNumber, bus.busNumber),
+                  )
                   .join(', ')}
                 번 버스가 이동 중
               </Text>
             )}
 
             {/* 도착 예정 버스 정보 */}
-            {incomingBuses.length > 0 && (
+            {incomingBuses.length > 0 && earliestEta && (
               <Text style={styles.stationStatus}>
                 📍 {incomingBuses.length}대 도착 예정 (
-                {Math.min(
-                  ...incomingBuses.map(bus =>
-                    extractMinutes(bus.estimatedArrivalTime),
-                  ),
-                )}
-                분 후)
+                {formatEtaMinutes(earliestEta)})
               </Text>
             )}
           </View>
@@ -1044,18 +715,24 @@ const BusListPage: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.container}>
+      <OfflineBanner />
       <FlatList
         ListHeaderComponent={() => (
           <View>
             {/* 헤더 */}
             <View style={styles.header}>
-              <Text style={styles.headerText}>{routeName}</Text>
+              <Text style={styles.headerText}>
+                {routeInfo?.routeName ?? routeName}
+              </Text>
               <Text style={styles.subHeaderText}>
                 {stationsWithBuses.length}개 정류장 • {activeBuses.length}대
                 운행
               </Text>
             </View>
 
+            {/* 정류장 대기/탑승 단계 안내 */}
+            <BoardingStatusBanner style={styles.boardingStatusBanner} />
+
             {/* 버스 요약 정보 */}
             {activeBuses.length > 0 && renderBusSummary()}
 
@@ -1545,11 +1222,18 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.sm,
     marginLeft: 'auto', // 오른쪽으로 붙임
   },
+  boardingBadgePending: {
+    backgroundColor: theme.colors.gray[500],
+  },
   boardingBadgeText: {
     color: theme.colors.white,
     fontSize: 10,
     fontWeight: 'bold',
   },
+  boardingStatusBanner: {
+    marginHorizontal: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
 });
 
-export default BusListPage;
\ No newline at end of file
+export default BusListPage;
@@ -11,9 +11,22 @@ import {useRoute, RouteProp, useNavigation} from '@react-navigation/native';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import useSelectedStationStore from '../store/useSelectedStationStore';
 import theme from '../theme';
-import {busService, BusRealTimeStatus} from '../api/services/busService';
+import {busService, BusStationDetail} from '../api/services/busService';
+import {toStation} from '../api/services/stationService';
+import {Eta, formatEtaArrival} from '../api/eta';
 import {LoadingContainer} from './LoadingPage';
-import useBoardingStore from '../store/useBoardingStore'; // 1. useBoardingStore를 import 합니다.
+import useBoardingStore, {
+  BOARDING_PHASE_LABELS,
+  getBusBoardingPhase,
+} from '../store/useBoardingStore'; // 1. useBoardingStore를 import 합니다.
+import BoardingActionButton from '../components/Boarding/BoardingActionButton';
+import BoardingStatusBanner from '../components/Boarding/BoardingStatusBanner';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import useDestinationStore from '../store/useDestinationStore';
+import useEntityStore, {selectBus} from '../store/useEntityStore';
+import destinationAlertService from '../services/destinationAlertService';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
 
 // 네비게이션 타입 정의
 type RootStackParamList = {
@@ -21,38 +34,30 @@ type RootStackParamList = {
   Home: undefined;
 };
 
-// 백엔드에서 반환하는 정류장 인터페이스
-interface Station {
-  id: string;
-  name: string;
-  location: {
-    coordinates: number[];
-    type: string;
-  };
-  organizationId: string;
-  sequence: number;
-  isPassed: boolean;
-  isCurrentStation: boolean;
-  estimatedArrivalTime?: string | null;
-}
-
 const BusRoutePage: React.FC = () => {
   const route = useRoute<RouteProp<RootStackParamList, 'BusRoute'>>();
-  const [stationList, setStationList] = useState<Station[]>([]);
-  const [busInfo, setBusInfo] = useState<BusRealTimeStatus | null>(null);
+  const [stationList, setStationList] = useState<BusStationDetail[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [estimatedTime, setEstimatedTime] = useState<string | null>(null);
+  const [currentEta, setCurrentEta] = useState<Eta | null>(null);
   const {setSelectedStation} = useSelectedStationStore();
   const navigation = useNavigation();
 
-  // 2. 탑승 중인 버스 번호를 가져옵니다.
-  const {boardedBusNumber} = useBoardingStore();
+  // 2. 탑승 단계를 가져옵니다.
+  const boardingStatus = useBoardingStore(state => state.status);
 
   const busNumber = route.params.busNumber;
-
-  // 3. 현재 보고 있는 버스가 탑승 중인 버스인지 확인합니다.
-  const isBoarded = busNumber === boardedBusNumber;
+  // 좌석 정보는 엔티티 스토어의 버스를 읽음 (다른 화면에서 받은 정보도 바로 표시)
+  const busInfo = useEntityStore(selectBus(busNumber));
+
+  // 3. 현재 보고 있는 버스의 탑승 단계 (탑승 확인 중, 탑승중, 하차 확인 중)
+  const boardingPhase = getBusBoardingPhase(boardingStatus, busNumber);
+  // 이 버스에 타고 있을 때만 내릴 정류장 알림을 정할 수 있음
+  const isRidingThisBus =
+    boardingPhase === 'boarded' || boardingPhase === 'alightingSuspected';
+  const {destination, remainingStops} = useDestinationStore();
+  const destinationStationId =
+    destination?.busNumber === busNumber ? destination.stationId : null;
 
   // 버스 표시명 생성 함수
   const getBusDisplayName = (
@@ -101,11 +106,8 @@ const BusRoutePage: React.FC = () => {
       const stationsDetail = await busService.getBusStationsDetail(busNumber);
       console.log('Fetched stations:', stationsDetail);
 
-      // 2. 버스 실시간 정보 가져오기 (좌석 정보 포함)
-      const allBuses = await busService.getAllBuses();
-      const currentBus = allBuses.find(bus => bus.busNumber === busNumber);
-      setBusInfo(currentBus || null);
-      console.log('Fetched bus info:', currentBus);
+      // 2. 버스 실시간 정보 갱신 (좌석 정보 포함, 엔티티 스토어에 반영)
+      await busService.getAllBuses();
 
       // 정류장 목록 정렬 (sequence 기준)
       const sortedStations = [...stationsDetail].sort(
@@ -117,10 +119,10 @@ const BusRoutePage: React.FC = () => {
       const currentStation = sortedStations.find(
         station => station.isCurrentStation,
       );
-      if (currentStation && currentStation.estimatedArrivalTime) {
-        setEstimatedTime(currentStation.estimatedArrivalTime);
+      if (currentStation && !currentStation.eta.isUnknown) {
+        setCurrentEta(currentStation.eta);
       } else {
-        setEstimatedTime(null);
+        setCurrentEta(null);
       }
 
       setError(null);
@@ -132,17 +134,6 @@ const BusRoutePage: React.FC = () => {
     }
   }, [busNumber]);
 
-  // 시간 문자열에서 분 추출
-  const extractMinutes = (timeString?: string): number => {
-    if (!timeString) return 0;
-
-    const matches = timeString.match(/(\d+)분/);
-    if (matches && matches[1]) {
-      return parseInt(matches[1], 10);
-    }
-    return 0;
-  };
-
   // 초기 데이터 로딩
   useEffect(() => {
     fetchBusStations();
@@ -159,30 +150,31 @@ const BusRoutePage: React.FC = () => {
 
   // 정류장 클릭 핸들러
   const handleStationClick = useCallback(
-    (station: Station) => {
-      const convertedStation = {
-        id: station.id,
-        name: station.name,
-        location:
-          station.location && station.location.coordinates
-            ? {
-                x: station.location.coordinates[0], // 경도
-                y: station.location.coordinates[1], // 위도
-              }
-            : undefined,
-      };
-
-      setSelectedStation(convertedStation);
+    (station: BusStationDetail) => {
+      setSelectedStation(toStation(station));
       navigation.navigate('Home' as never);
     },
     [navigation, setSelectedStation],
   );
 
+  // 내릴 정류장 알림 켜기/끄기
+  const handleDestinationToggle = useCallback(
+    (station: BusStationDetail) => {
+      if (destinationStationId === station.id) {
+        destinationAlertService.clearDestination();
+        return;
+      }
+      destinationAlertService.setDestination(busNumber, station);
+    },
+    [busNumber, destinationStationId],
+  );
+
   // 정류장 아이템 렌더링
   const renderStationItem = useCallback(
-    ({item}: {item: Station}) => {
+    ({item}: {item: BusStationDetail}) => {
       const isBusHere = item.isCurrentStation;
       const index = item.sequence;
+      const isDestination = item.id === destinationStationId;
 
       return (
         <TouchableOpacity
@@ -221,22 +213,64 @@ const BusRoutePage: React.FC = () => {
                 style={[
                   styles.stationName,
                   isBusHere && styles.currentStationName,
+                  isDestination && styles.destinationStationName,
                 ]}>
                 {item.name}
               </Text>
-              {isBusHere && item.estimatedArrivalTime && (
+              {isBusHere && !item.eta.isUnknown && (
                 <Text style={styles.remainingTime}>
-                  {extractMinutes(item.estimatedArrivalTime)}분 후 도착
+                  {formatEtaArrival(item.eta)}
                 </Text>
               )}
+              {isDestination && (
+                <Text style={styles.destinationLabel}>내릴 정류장</Text>
+              )}
             </View>
+
+            {/* 탑승 중이면 지나지 않은 정류장에 하차 알림 버튼 표시 */}
+            {isRidingThisBus && !item.isPassed && (
+              <TouchableOpacity
+                style={styles.destinationButton}
+                onPress={() => handleDestinationToggle(item)}
+                hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+                <Ionicons
+                  name={isDestination ? 'notifications' : 'notifications-outline'}
+                  size={20}
+                  color={
+                    isDestination
+                      ? theme.colors.system.warning
+                      : theme.colors.gray[400]
+                  }
+                />
+              </TouchableOpacity>
+            )}
           </View>
         </TouchableOpacity>
       );
     },
-    [stationList.length, handleStationClick],
+    [
+      stationList.length,
+      handleStationClick,
+      destinationStationId,
+      isRidingThisBus,
+      handleDestinationToggle,
+    ],
   );
 
+  // 내릴 정류장 안내 문구
+  const getDestinationSummary = () => {
+    if (!destination || !destinationStationId) {
+      return null;
+    }
+    if (remainingStops === null) {
+      return `${destination.stationName}에서 내릴 때 알려드려요`;
+    }
+    if (remainingStops <= 0) {
+      return `${destination.stationName}에 도착했어요`;
+    }
+    return `${destination.stationName}까지 ${remainingStops}정류장 남음`;
+  };
+
   // 좌석 정보 헤더 렌더링
   const renderSeatInfo = () => {
     if (!busInfo) return null;
@@ -308,10 +342,16 @@ const BusRoutePage: React.FC = () => {
             <Text style={styles.headerMainTitle}>
               {getBusDisplayName(busInfo?.busRealNumber || null, busNumber)}
             </Text>
-            {/* 4. isBoarded가 true일 때 "탑승중" 배지를 렌더링합니다. */}
-            {isBoarded && (
-              <View style={styles.boardingBadge}>
-                <Text style={styles.boardingBadgeText}>탑승중</Text>
+            {/* 4. 이 버스와 관련된 탑승 단계가 있으면 배지를 렌더링합니다. */}
+            {boardingPhase && (
+              <View
+                style={[
+                  styles.boardingBadge,
+                  boardingPhase !== 'boarded' && styles.boardingBadgePending,
+                ]}>
+                <Text style={styles.boardingBadgeText}>
+                  {BOARDING_PHASE_LABELS[boardingPhase]}
+                </Text>
               </View>
             )}
           </View>
@@ -320,10 +360,46 @@ const BusRoutePage: React.FC = () => {
           </Text>
         </View>
 
+        {/* 자동 감지가 틀렸을 때 직접 탑승/하차 입력 */}
+        <BoardingActionButton
+          busNumber={busNumber}
+          busDisplayName={getBusDisplayName(
+            busInfo?.busRealNumber || null,
+            busNumber,
+          )}
+          style={styles.boardingActionButton}
+        />
+
+        {/* 정류장 대기/탑승 단계 안내 */}
+        <BoardingStatusBanner style={styles.boardingStatusBanner} />
+
+        {/* 내릴 정류장 알림 */}
+        {destinationStationId && (
+          <View style={styles.destinationSummary}>
+            <Ionicons
+              name="notifications"
+              size={16}
+              color={theme.colors.system.warning}
+            />
+            <Text style={styles.destinationSummaryText}>
+              {getDestinationSummary()}
+            </Text>
+            <TouchableOpacity
+              onPress={() => destinationAlertService.clearDestination()}>
+              <Text style={styles.destinationClearText}>해제</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {isRidingThisBus && !destinationStationId && (
+          <Text style={styles.destinationHint}>
+            정류장 옆 🔔을 누르면 내리기 전에 알려드려요
+          </Text>
+        )}
+
         {/* 도착 시간 정보 */}
-        {estimatedTime && (
+        {currentEta && (
           <Text style={styles.headerArrivalTime}>
-            약 {extractMinutes(estimatedTime)}분 후 도착
+            {formatEtaArrival(currentEta)}
           </Text>
         )}
 
@@ -349,6 +425,10 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: theme.colors.white,
   },
+  boardingActionButton: {
+    alignSelf: 'flex-start',
+    marginBottom: theme.spacing.sm,
+  },
   centerContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -382,11 +462,17 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.sm,
     marginLeft: theme.spacing.sm,
   },
+  boardingBadgePending: {
+    backgroundColor: theme.colors.gray[500],
+  },
   boardingBadgeText: {
     color: theme.colors.white,
     fontSize: 12,
     fontWeight: '600',
   },
+  boardingStatusBanner: {
+    marginBottom: theme.spacing.sm,
+  },
   headerSubtitle: {
     fontSize: theme.typography.text.sm.fontSize,
     color: theme.colors.gray[600],
@@ -543,6 +629,44 @@ const styles = StyleSheet.create({
     color: theme.colors.gray[600],
     marginTop: 4,
   },
+  destinationStationName: {
+    color: theme.colors.system.warning,
+    fontWeight: theme.typography.fontWeight.bold as TextStyle['fontWeight'],
+  },
+  destinationLabel: {
+    fontSize: theme.typography.text.sm.fontSize,
+    color: theme.colors.system.warning,
+    marginTop: 4,
+  },
+  destinationButton: {
+    paddingHorizontal: theme.spacing.sm,
+    marginTop: 15,
+  },
+  destinationSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.gray[50],
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  destinationSummaryText: {
+    flex: 1,
+    marginLeft: theme.spacing.xs,
+    fontSize: theme.typography.text.sm.fontSize,
+    color: theme.colors.gray[800],
+  },
+  destinationClearText: {
+    fontSize: theme.typography.text.sm.fontSize,
+    color: theme.colors.gray[500],
+    marginLeft: theme.spacing.sm,
+  },
+  destinationHint: {
+    fontSize: theme.typography.text.sm.fontSize,
+    color: theme.colors.gray[500],
+    marginBottom: theme.spacing.sm,
+  },
   errorText: {
     fontSize: theme.typography.text.md.fontSize,
     color: theme.colors.system.error,
@@ -551,4 +675,4 @@ const styles = StyleSheet.create({
   },
 });
 
-export default BusRoutePage;
\ No newline at end of file
+export default BusRoutePage;
@@ -13,7 +13,9 @@ import _Ionicons from 'react-native-vector-icons/Ionicons';
 
 import Footer from '../components/Footer';
 import {useToast} from '../components/common/Toast';
+import OfflineBanner from '../components/common/OfflineBanner';
 import {operationPlanService, BusSchedule} from '../api/services/operationPlanService';
+import {isApiError} from '../api/apiError';
 import theme from '../theme';
 
 const Ionicons = _Ionicons as unknown as React.ElementType;
@@ -54,19 +56,23 @@ const BusSchedulePage: React.FC = () => {
       setLoading(!refreshing);
       setError(null);
       
-      const schedules = await operationPlanService.getTodayBusSchedule();
-      
       // 시작 시간 순으로 정렬
-      const sortedSchedules = schedules.sort((a, b) => {
-        return a.startTime.localeCompare(b.startTime);
-      });
+      const sortByStartTime = (schedules: BusSchedule[]) =>
+        schedules.sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+      const schedules = await operationPlanService.getTodayBusSchedule(
+        freshSchedules => setBusSchedules(sortByStartTime(freshSchedules)),
+      );
+      const sortedSchedules = sortByStartTime(schedules);
       
       setBusSchedules(sortedSchedules);
       
       console.log('버스 시간표 로딩 성공:', sortedSchedules.length, '개');
-    } catch (error: any) {
+    } catch (error) {
       console.error('버스 시간표를 가져오는 중 오류 발생:', error);
-      const errorMessage = error?.response?.data?.message || error?.message || '버스 시간표를 불러오는데 실패했습니다.';
+      const errorMessage = isApiError(error)
+        ? error.message
+        : '버스 시간표를 불러오는데 실패했습니다.';
       setError(errorMessage);
       
       if (!refreshing) {
@@ -328,6 +334,7 @@ const BusSchedulePage: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.container}>
+      <OfflineBanner />
       <FlatList
         ListHeaderComponent={ListHeader}
         data={busSchedules}
@@ -0,0 +1,182 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  TextStyle,
+} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {NavigationProp, useNavigation} from '@react-navigation/native';
+import _Ionicons from 'react-native-vector-icons/Ionicons';
+import {
+  ENVIRONMENTS,
+  ENVIRONMENT_PROFILES,
+  EnvironmentProfile,
+} from '../config/environment';
+import useEnvironmentStore from '../store/useEnvironmentStore';
+import GlobalWebSocketService from '../services/globalWebSocketService';
+import authSession from '../api/authSession';
+import {useToast} from '../components/common/Toast';
+import theme from '../theme';
+
+const Ionicons = _Ionicons as unknown as React.ElementType;
+
+// 네비게이션 타입
+type RootStackParamList = {
+  Login: undefined;
+  DevSettings: undefined;
+};
+
+/**
+ * 숨겨진 개발자 화면
+ * QA가 하나의 빌드에서 연결 서버 프로필을 바꿀 수 있도록 합니다.
+ */
+const DevSettingsPage: React.FC = () => {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const {showToast} = useToast();
+  const profile = useEnvironmentStore(state => state.profile);
+  const setProfile = useEnvironmentStore(state => state.setProfile);
+
+  // 프로필 변경 적용 - 서버별로 토큰이 다르므로 로그아웃 후 로그인 화면으로 이동
+  const applyProfile = async (nextProfile: EnvironmentProfile) => {
+    try {
+      GlobalWebSocketService.getInstance().shutdown();
+      setProfile(nextProfile);
+      // 토큰과 이전 서버의 캐시, 사용자 데이터를 함께 정리
+      await authSession.signOut();
+      showToast(
+        `${ENVIRONMENTS[nextProfile].label}(으)로 전환되었습니다.`,
+        'success',
+      );
+      navigation.reset({index: 0, routes: [{name: 'Login'}]});
+    } catch (error) {
+      console.error('서버 프로필 전환 실패:', error);
+      showToast('서버 프로필 전환에 실패했습니다.', 'error');
+    }
+  };
+
+  const handleSelectProfile = (nextProfile: EnvironmentProfile) => {
+    if (nextProfile === profile) {
+      return;
+    }
+
+    Alert.alert(
+      '서버 전환',
+      `${ENVIRONMENTS[nextProfile].label}(으)로 전환하시겠습니까?\n전환 후 다시 로그인해야 합니다.`,
+      [
+        {text: '취소', style: 'cancel'},
+        {text: '전환', onPress: () => applyProfile(nextProfile)},
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          hitSlop={{top: 10, bottom: 10, left: 10, right: 10}}>
+          <Ionicons
+            name="chevron-back"
+            size={24}
+            color={theme.colors.gray[900]}
+          />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>개발자 설정</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContent}>
+        <Text style={styles.sectionTitle}>서버 프로필</Text>
+        {ENVIRONMENT_PROFILES.map(item => {
+          const config = ENVIRONMENTS[item];
+          const isSelected = item === profile;
+
+          return (
+            <TouchableOpacity
+              key={item}
+              style={[styles.profileItem, isSelected && styles.selectedItem]}
+              onPress={() => handleSelectProfile(item)}
+              activeOpacity={0.7}>
+              <View style={styles.profileInfo}>
+                <Text style={styles.profileLabel}>
+                  {config.label} ({config.profile})
+                </Text>
+                <Text style={styles.profileUrl}>{config.apiBaseUrl}</Text>
+                <Text style={styles.profileUrl}>{config.wsBaseUrl}</Text>
+              </View>
+              <Ionicons
+                name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                size={22}
+                color={
+                  isSelected
+                    ? theme.colors.primary.default
+                    : theme.colors.gray[400]
+                }
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.gray[50],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.white,
+    padding: theme.spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: theme.colors.gray[900],
+    marginLeft: theme.spacing.sm,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+  },
+  sectionTitle: {
+    ...theme.typography.text.sm,
+    color: theme.colors.gray[600],
+    marginBottom: theme.spacing.sm,
+  },
+  profileItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.white,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.sm,
+    ...theme.shadows.sm,
+  },
+  selectedItem: {
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.primary.default,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileLabel: {
+    ...theme.typography.text.md,
+    fontWeight: theme.typography.fontWeight.semiBold as TextStyle['fontWeight'],
+    color: theme.colors.gray[900],
+    marginBottom: 4,
+  },
+  profileUrl: {
+    ...theme.typography.text.sm,
+    color: theme.colors.gray[500],
+  },
+});
+
+export default DevSettingsPage;
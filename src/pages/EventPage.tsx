@@ -24,6 +24,8 @@ import {
 } from '../api/services/eventService';
 import _Ionicons from 'react-native-vector-icons/Ionicons';
 import useBoardingStore from '../store/useBoardingStore';
+import BoardingStatusBanner from '../components/Boarding/BoardingStatusBanner';
+import notificationService from '../services/notificationService';
 
 const Ionicons = _Ionicons as unknown as React.ElementType;
 
@@ -51,7 +53,11 @@ const EventPage: React.FC = () => {
   } = useEventStore();
 
   // 탑승 상태 (미션 완료 자동 감지용)
-  const {boardedBusNumber, isBoarded} = useBoardingStore();
+  const {boardedBusNumber, isBoarded, status: boardingStatus} =
+    useBoardingStore();
+  // 직접 입력한 탑승은 자동 감지 미션으로 인정하지 않음
+  const isAutoDetectedBoarding =
+    isBoarded && boardingStatus.source !== 'manual';
 
   // 데이터 로드
   useEffect(() => {
@@ -61,12 +67,12 @@ const EventPage: React.FC = () => {
 
   // 탑승 상태 변경 감지 (자동 미션 완료)
   useEffect(() => {
-    if (isBoarded && currentEvent) {
+    if (isAutoDetectedBoarding && currentEvent) {
       // AUTO_DETECT_BOARDING 미션 자동 완료
       autoCompleteBoardingMission();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isBoarded, currentEvent]);
+  }, [isAutoDetectedBoarding, currentEvent]);
 
   const loadEventData = async () => {
     try {
@@ -108,7 +114,12 @@ const EventPage: React.FC = () => {
           missionId: boardingMission.id,
           targetValue: boardedBusNumber || '',
         });
-        showToast('✅ 자동 승하차 감지 미션 완료!', 'success');
+        // 탑승 감지는 앱을 닫아 둔 사이에도 일어나므로 시스템 알림으로도 안내
+        notificationService.notify({
+          channelId: 'events',
+          body: '✅ 자동 승하차 감지 미션 완료!',
+          level: 'success',
+        });
         loadEventData(); // 새로고침
       }
     } catch (error: any) {
@@ -186,6 +197,9 @@ const EventPage: React.FC = () => {
           <Text style={styles.description}>{currentEvent.description}</Text>
         </View>
 
+        {/* 탑승 단계 안내 (자동 승하차 미션 진행 확인용) */}
+        <BoardingStatusBanner style={styles.boardingStatusBanner} />
+
         {/* 참여 현황 카드 */}
         <Card style={styles.participationCard}>
           <View style={styles.participationHeader}>
@@ -343,6 +357,10 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.text.md.fontSize,
     color: theme.colors.gray[600],
   },
+  boardingStatusBanner: {
+    marginHorizontal: theme.spacing.md,
+    marginTop: theme.spacing.md,
+  },
   participationCard: {
     margin: theme.spacing.md,
   },
@@ -24,64 +24,65 @@ import theme from '../theme';
 import IconSearch from '../components/assets/icons/IconSearch';
 import _Ionicons from 'react-native-vector-icons/Ionicons';
 import Footer from '../components/Footer';
+import OfflineBanner from '../components/common/OfflineBanner';
+import ServiceAlertBanner from '../components/ServiceAlert/ServiceAlertBanner';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import useTrackingSessionStore from '../store/useTrackingSessionStore';
+import trackingSessionManager from '../services/trackingSessionManager';
+import arrivalAlertService from '../services/arrivalAlertService';
+import serviceAlertManager from '../services/serviceAlertManager';
 
 const Ionicons = _Ionicons as unknown as React.ElementType;
 
+// 마지막 메시지 수신 후 이 시간(초)이 지나면 지연 안내 표시
+const STALE_MESSAGE_SECONDS = 30;
+
 const HomePage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [, setIsRefreshing] = useState(false);
   const [myStations, setMyStations] = useState<Station[]>([]);
   const [searchModalVisible, setSearchModalVisible] = useState(false);
-  const [allStations, setAllStations] = useState<Station[]>([]);
 
   // 전역 웹소켓 상태
-  const { isConnected, restart, ensureConnection } = useGlobalWebSocket();
-
-  // 추적 정보 상태
-  const [trackingInfo, setTrackingInfo] = useState<{
-    active: boolean;
-    timeLeft: string;
-  }>({
-    active: false,
-    timeLeft: '',
-  });
-  const {showToast} = useToast();
-
-  // 추적 정보 로드
-  const loadTrackingInfo = async () => {
-    try {
-      // 추적 상태 정보 로드
-      const active = await AsyncStorage.getItem('location_tracking_active');
-      const startTimeStr = await AsyncStorage.getItem(
-        'location_tracking_start_time',
-      );
-      const startTime = startTimeStr ? parseInt(startTimeStr, 10) : 0;
-
-      if (active === 'true' && startTime > 0) {
-        const timeLeft = calculateRemainingTime(startTime);
-        setTrackingInfo({
-          active: true,
-          timeLeft,
-        });
-      } else {
-        setTrackingInfo({
-          active: false,
-          timeLeft: '',
-        });
-      }
-    } catch (error) {
-      console.error('Failed to load tracking info:', error);
+  const { isConnected, connectionStatus, reconnectInSeconds, lastMessageAgeSeconds, restart, ensureConnection } = useGlobalWebSocket();
+
+  // 연결 상태 배지 문구/색상
+  const getConnectionLabel = () => {
+    switch (connectionStatus.state) {
+      case 'connected':
+        return connectionStatus.quality.rttMs !== null
+          ? `연결됨 · ${connectionStatus.quality.rttMs}ms`
+          : '연결됨';
+      case 'connecting':
+        return '연결 중...';
+      case 'reconnecting':
+        return reconnectInSeconds ? `${reconnectInSeconds}초 후 재연결` : '재연결 중...';
+      case 'offline':
+        return '네트워크 없음';
+      default:
+        return '연결 끊김';
     }
   };
+  const connectionColor = isConnected
+    ? connectionStatus.quality.level === 'poor'
+      ? theme.colors.system.error
+      : connectionStatus.quality.level === 'fair'
+      ? theme.colors.system.warning
+      : theme.colors.system.success
+    : connectionStatus.state === 'connecting' || connectionStatus.state === 'reconnecting'
+    ? theme.colors.system.warning
+    : theme.colors.system.error;
+
+  // 추적 세션 상태 (1분마다 남은 시간 갱신)
+  const trackingStatus = useTrackingSessionStore(state => state.status);
+  const trackingExpiresAt = useTrackingSessionStore(state => state.expiresAt);
+  const [now, setNow] = useState(Date.now());
+  const {showToast} = useToast();
 
-  // 남은 시간 계산
-  const calculateRemainingTime = (startTime: number): string => {
-    const now = Date.now();
-    const elapsed = now - startTime;
-    const remaining = Math.max(0, 2 * 60 * 60 * 1000 - elapsed); // 2시간을 밀리초로
-
-    if (remaining <= 0) {
+  // 남은 시간 표시
+  const getRemainingTimeLabel = (): string => {
+    const remaining = Math.max(0, (trackingExpiresAt ?? 0) - now);
+    if (trackingStatus !== 'active' || remaining <= 0) {
       return '만료됨';
     }
 
@@ -94,21 +95,14 @@ const HomePage: React.FC = () => {
   // 위치 추적 재시작 (전역 웹소켓 재시작)
   const handleRestartTracking = async () => {
     try {
-      // 새로운 시작 시간 설정
-      const now = Date.now();
-      await AsyncStorage.setItem('location_tracking_start_time', now.toString());
-      await AsyncStorage.setItem('location_tracking_active', 'true');
+      // 추적 세션을 새로 시작 (2시간)
+      await trackingSessionManager.start();
+      setNow(Date.now());
 
       // 전역 웹소켓 서비스 재시작
       const success = await restart();
       
       if (success) {
-        // 추적 정보 갱신
-        setTrackingInfo({
-          active: true,
-          timeLeft: calculateRemainingTime(now),
-        });
-
         showToast(
           '위치 추적이 재시작되었습니다. 2시간 동안 위치를 공유합니다.',
           'success',
@@ -131,19 +125,21 @@ const HomePage: React.FC = () => {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const userInfo = await authService.getUserInfo();
 
-      // 추적 정보 로드
-      await loadTrackingInfo();
-
-      // 자동 추적 항상 활성화 상태로 설정
+      // 자동 추적 항상 활성화 상태로 설정 (화면을 열 때마다 추적 세션 2시간 연장)
       await AsyncStorage.setItem('auto_tracking_enabled', 'true');
-      await AsyncStorage.setItem('location_tracking_active', 'true');
+      await trackingSessionManager.startOrExtend();
+      setNow(Date.now());
 
-      const stationsData = await stationService.getAllStations();
-      setAllStations(stationsData);
+      // 전체 정류장은 엔티티 스토어에 채워지고 지도에서 바로 읽음
+      await stationService.getAllStations();
 
       // 즐겨찾기 정류장 로드
       const favoriteStations = await userService.getMyStations();
       setMyStations(favoriteStations);
+      arrivalAlertService.syncFavoriteStations(favoriteStations.map(station => station.id));
+
+      // 운행 공지 갱신 (실패해도 화면 로딩은 계속)
+      serviceAlertManager.refresh();
 
       // 전역 웹소켓 연결 확인
       await ensureConnection();
@@ -175,7 +171,7 @@ const HomePage: React.FC = () => {
           '자동 탑승 기능 안내',
           '위치 기반 자동 탑승 기능은 앱 사용 시 항상 활성화되며, 앱을 닫아도 최대 2시간 동안 백그라운드에서 계속 작동합니다.\n\n' +
             '앱을 다시 열면 2시간 타이머가 초기화됩니다.\n\n' +
-            '10초마다 위치를 확인하여 자동 탑승을 감지합니다.',
+            '정류장 근처나 버스가 다가올 때는 자주, 가만히 있을 때는 드물게 위치를 확인하여 자동 탑승을 감지합니다. 마이페이지에서 배터리 절약 모드를 켤 수 있습니다.',
           [{text: '확인', style: 'default'}],
         );
         await AsyncStorage.setItem('location_tracking_info_shown', 'true');
@@ -187,19 +183,7 @@ const HomePage: React.FC = () => {
 
   // 추적 상태 정보 1분마다 갱신
   useEffect(() => {
-    const timer = setInterval(async () => {
-      const startTimeStr = await AsyncStorage.getItem(
-        'location_tracking_start_time',
-      );
-      if (startTimeStr) {
-        const startTime = parseInt(startTimeStr, 10);
-        const timeLeft = calculateRemainingTime(startTime);
-        setTrackingInfo(prev => ({
-          ...prev,
-          timeLeft,
-        }));
-      }
-    }, 60000); // 1분마다 업데이트
+    const timer = setInterval(() => setNow(Date.now()), 60000);
 
     return () => clearInterval(timer);
   }, []);
@@ -234,6 +218,7 @@ const HomePage: React.FC = () => {
       // 즐겨찾기 목록 갱신
       const updatedStations = await userService.getMyStations();
       setMyStations(updatedStations);
+      arrivalAlertService.syncFavoriteStations(updatedStations.map(station => station.id));
     } catch (error) {
       console.error('Favorite toggle error:', error);
       showToast('요청을 처리하는데 실패했습니다.', 'error');
@@ -254,6 +239,8 @@ const HomePage: React.FC = () => {
 
       {/* 상단 고정 영역 */}
       <View style={styles.topContainer}>
+        <OfflineBanner />
+        <ServiceAlertBanner />
         {/* 자동 탑승 기능 상태 표시 */}
         <View style={styles.autoTrackingContainer}>
           <View style={styles.autoTrackingContent}>
@@ -264,24 +251,30 @@ const HomePage: React.FC = () => {
               {/* 웹소켓 연결 상태 표시 */}
               <View style={[
                 styles.statusDot, 
-                { backgroundColor: isConnected ? theme.colors.system.success : theme.colors.system.error }
+                { backgroundColor: connectionColor }
               ]} />
-              <Text variant="sm" color={isConnected ? theme.colors.system.success : theme.colors.system.error}>
-                {isConnected ? '연결됨' : '연결 끊김'}
+              <Text variant="sm" color={connectionColor}>
+                {getConnectionLabel()}
               </Text>
-              {trackingInfo.active && isConnected && (
+              {trackingStatus !== 'idle' && isConnected && (
                 <>
                   <View style={styles.statusDot} />
                   <Text variant="sm" color={theme.colors.system.info}>
-                    {trackingInfo.timeLeft}
+                    {getRemainingTimeLabel()}
                   </Text>
                 </>
               )}
             </View>
             <View style={styles.autoTrackingDescContainer}>
               <Text variant="xs" color={theme.colors.gray[600]} style={styles.autoTrackingDesc}>
-                10초마다 위치를 확인하여 자동 탑승을 감지합니다
+                상황에 맞게 위치를 확인하여 자동 탑승을 감지합니다
               </Text>
+              {/* 오래 메시지가 없으면 실시간 정보가 지연되고 있음을 표시 */}
+              {lastMessageAgeSeconds !== null && lastMessageAgeSeconds >= STALE_MESSAGE_SECONDS && (
+                <Text variant="xs" color={theme.colors.system.warning}>
+                  마지막 수신 {lastMessageAgeSeconds}초 전
+                </Text>
+              )}
             </View>
           </View>
           <View style={styles.controlsContainer}>
@@ -323,7 +316,7 @@ const HomePage: React.FC = () => {
 
       {/* 지도 영역 */}
       <View style={styles.mapContainer}>
-        <MapView stations={allStations}/>
+        <MapView />
       </View>
 
       {/* 정류장 패널 */}
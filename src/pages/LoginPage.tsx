@@ -10,11 +10,16 @@ import {
   Image,
 } from 'react-native';
 import {useNavigation} from '@react-navigation/native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {SafeAreaView} from 'react-native-safe-area-context';
 import InAppBrowser from 'react-native-inappbrowser-reborn';
 import axios from 'axios';
 import GoogleLogo from '../../assets/logos/google.svg';
+import {
+  DEV_SETTINGS_ENABLED,
+  getApiBaseUrl,
+  getLoginUrl,
+} from '../config/environment';
+import authSession from '../api/authSession';
 
 interface LoginPageProps {
   onLoginSuccess?: () => void;
@@ -29,19 +34,18 @@ interface UserResponse {
   message: string;
 }
 
-const API_BASE_URL = Platform.select({
-  ios: 'http://devse.kr:12589',
-  android: 'http://devse.kr:12589', // Android 에뮬레이터에서 localhost 접근용
-}) as string;
-
-const LOGIN_URL = `${API_BASE_URL}/oauth2/authorization/google`;
-
 // 플랫폼별 앱 스킴 URL 설정 - 타입 assertion으로 string 타입 보장
 const APP_SCHEME_URL = Platform.select({
   ios: 'org.reactjs.native.example.Busbuddybuddy:/oauth2callback',
   android: 'com.busbuddybuddy://oauth2callback',
 }) as string;
 
+// 콜백 URL에서 쿼리 파라미터 값 추출
+const getUrlParam = (url: string, name: string): string | null => {
+  const match = url.match(new RegExp(`[?&#]${name}=([^&#]+)`));
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
 const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
   const navigation = useNavigation();
   const [loading, setLoading] = useState(false);
@@ -53,9 +57,9 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
   }, []);
 
   const handleUrl = useCallback(async (url: string) => {
-    if (url.includes('token=')) {
-      const token = url.split('token=')[1].split('&')[0];
-      await handleLoginSuccess(token);
+    const token = getUrlParam(url, 'token');
+    if (token) {
+      await handleLoginSuccess(token, getUrlParam(url, 'refreshToken'));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -85,7 +89,7 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
   const checkTokenAndNavigate = async () => {
     try {
       setLoading(true);
-      const token = await AsyncStorage.getItem('token');
+      const token = await authSession.getAccessToken();
 
       if (token) {
         const userRole = await fetchUserRole(token);
@@ -93,8 +97,18 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
       }
     } catch (error) {
       console.error('Token check error:', error);
-      // 토큰이 유효하지 않은 경우 삭제
-      await AsyncStorage.removeItem('token');
+      // 토큰이 만료된 경우 재발급 시도, 실패하면 로그아웃
+      const newToken = await authSession.refreshAccessToken();
+      if (newToken) {
+        try {
+          const userRole = await fetchUserRole(newToken);
+          await handleRoleBasedNavigation(userRole);
+          return;
+        } catch (retryError) {
+          console.error('Token check retry error:', retryError);
+        }
+      }
+      await authSession.signOut();
     } finally {
       setLoading(false);
     }
@@ -103,7 +117,7 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
   const fetchUserRole = async (token: string): Promise<UserRole> => {
     try {
       const response = await axios.get<UserResponse>(
-        `${API_BASE_URL}/api/auth/user`,
+        `${getApiBaseUrl()}/api/auth/user`,
         {
           headers: {
             Authorization: `Bearer ${token}`,
@@ -130,7 +144,7 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
       default:
         console.warn('Unknown role:', role);
         // 알 수 없는 역할의 경우 토큰 삭제
-        await AsyncStorage.removeItem('token');
+        await authSession.clearTokens();
     }
   };
 
@@ -144,7 +158,7 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
         // URL 리스너는 이미 useEffect에서 설정되어 있음
 
         const result = await InAppBrowser.openAuth(
-          LOGIN_URL,
+          getLoginUrl(),
           APP_SCHEME_URL, // 플랫폼별 앱 스킴 URL 사용
           {
             ephemeralWebSession: false,
@@ -158,7 +172,7 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
           await handleUrl(result.url);
         }
       } else {
-        await Linking.openURL(LOGIN_URL);
+        await Linking.openURL(getLoginUrl());
       }
     } catch (error) {
       console.error('Login error:', error);
@@ -167,9 +181,12 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
     }
   };
 
-  const handleLoginSuccess = async (token: string) => {
+  const handleLoginSuccess = async (
+    token: string,
+    refreshToken?: string | null,
+  ) => {
     try {
-      await AsyncStorage.setItem('token', token);
+      await authSession.setTokens(token, refreshToken);
       onLoginSuccess?.();
 
       // 로그인 성공 후 역할 확인 및 라우팅
@@ -178,18 +195,28 @@ const LoginPage: React.FC<LoginPageProps> = ({onLoginSuccess}) => {
     } catch (error) {
       console.error('Login success handling error:', error);
       // 에러 발생 시 토큰 삭제
-      await AsyncStorage.removeItem('token');
+      await authSession.clearTokens();
     }
   };
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
-        <Image
-          source={require('../../assets/images/BBB_Logo_Nomark.png')}
-          style={styles.busIcon}
-          resizeMode="contain"
-        />
+        {/* 개발 빌드에서 로고를 길게 누르면 개발자 설정 화면으로 이동 */}
+        <TouchableOpacity
+          activeOpacity={1}
+          delayLongPress={3000}
+          onLongPress={
+            DEV_SETTINGS_ENABLED
+              ? () => navigation.navigate('DevSettings' as never)
+              : undefined
+          }>
+          <Image
+            source={require('../../assets/images/BBB_Logo_Nomark.png')}
+            style={styles.busIcon}
+            resizeMode="contain"
+          />
+        </TouchableOpacity>
 
         <Text style={styles.title}>BBB - 버스 버디버디</Text>
         {loading ? (
@@ -0,0 +1,143 @@
+import React, {useMemo} from 'react';
+import {View, StyleSheet, SectionList, Switch} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useNavigation} from '@react-navigation/native';
+import {NativeStackNavigationProp} from '@react-navigation/native-stack';
+import Text from '../components/common/Text';
+import Card from '../components/common/Card';
+import TripSummary, {formatTripDay} from '../components/Trip/TripSummary';
+import theme from '../theme';
+import type {Trip} from '../api/services/tripService';
+import useTripHistoryStore from '../store/useTripHistoryStore';
+import useSettingsStore from '../store/useSettingsStore';
+
+type RootStackParamList = {
+  TripDetail: {tripId: string};
+};
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+interface TripSection {
+  title: string;
+  data: Trip[];
+}
+
+// 탑승 시각 기준으로 날짜별 묶음 (trips는 최신순)
+const groupTripsByDay = (trips: Trip[]): TripSection[] => {
+  const sections: TripSection[] = [];
+  trips.forEach(trip => {
+    const title = formatTripDay(trip.boardedAt);
+    const last = sections[sections.length - 1];
+    if (last && last.title === title) {
+      last.data.push(trip);
+    } else {
+      sections.push({title, data: [trip]});
+    }
+  });
+  return sections;
+};
+
+/**
+ * 내 이동 기록 화면
+ * 탑승 ~ 하차 기록을 날짜별로 보여주고, 누르면 상세 화면(지도)으로 이동합니다.
+ */
+const MyTripsPage: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const {trips, activeTrip} = useTripHistoryStore();
+  const {tripSyncEnabled, setTripSyncEnabled} = useSettingsStore();
+
+  const sections = useMemo(
+    () => groupTripsByDay(activeTrip ? [activeTrip, ...trips] : trips),
+    [trips, activeTrip],
+  );
+
+  const renderItem = ({item}: {item: Trip}) => (
+    <Card
+      variant="outlined"
+      style={styles.tripCard}
+      onPress={() => navigation.navigate('TripDetail', {tripId: item.id})}>
+      <TripSummary trip={item} />
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <View style={styles.syncRow}>
+        <View style={styles.syncText}>
+          <Text variant="md" weight="medium">
+            서버에 기록 백업
+          </Text>
+          <Text variant="xs" color={theme.colors.gray[500]}>
+            기기를 바꿔도 이동 기록을 볼 수 있도록 서버에 저장합니다.
+          </Text>
+        </View>
+        <Switch value={tripSyncEnabled} onValueChange={setTripSyncEnabled} />
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        renderSectionHeader={({section}) => (
+          <Text
+            variant="sm"
+            weight="semiBold"
+            color={theme.colors.gray[600]}
+            style={styles.sectionHeader}>
+            {section.title}
+          </Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text variant="md" color={theme.colors.gray[500]}>
+              아직 이동 기록이 없습니다.
+            </Text>
+            <Text variant="sm" color={theme.colors.gray[400]}>
+              버스에 탑승하면 자동으로 기록됩니다.
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.gray[50],
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: theme.colors.white,
+    padding: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  syncText: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  listContainer: {
+    padding: theme.spacing.md,
+  },
+  sectionHeader: {
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  tripCard: {
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.white,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.xxl,
+    gap: theme.spacing.xs,
+  },
+});
+
+export default MyTripsPage;
@@ -18,7 +18,13 @@ import _Ionicons from 'react-native-vector-icons/Ionicons';
 
 import Footer from '../components/Footer';
 import {useToast} from '../components/common/Toast';
+import OfflineBanner from '../components/common/OfflineBanner';
+import ServiceAlertBadge from '../components/ServiceAlert/ServiceAlertBadge';
 import {routeService, Route} from '../api/services/routeService';
+import useServiceAlertStore from '../store/useServiceAlertStore';
+import useEntityStore, {selectRouteList} from '../store/useEntityStore';
+import {getRouteAlerts} from '../services/serviceAlertFilters';
+import {getRouteColors} from '../services/routeGeometry';
 import theme from '../theme';
 
 Dimensions.get('window');
@@ -36,19 +42,20 @@ type RouteListScreenNavigationProp = NativeStackNavigationProp<
 >;
 
 const RouteListPage: React.FC = () => {
-  const [routeList, setRouteList] = useState<Route[]>([]);
+  // 노선 목록은 서비스가 채운 엔티티 스토어에서 읽음
+  const routeList = useEntityStore(selectRouteList);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const navigation = useNavigation<RouteListScreenNavigationProp>();
   const {showToast} = useToast();
+  const serviceAlerts = useServiceAlertStore(state => state.alerts);
 
   // 노선 목록 불러오기
   const fetchRouteList = async () => {
     try {
       setLoading(true);
-      const routes = await routeService.getAllRoutes();
-      setRouteList(routes);
+      await routeService.getAllRoutes();
       setError(null);
     } catch (error) {
       console.error('노선 목록을 가져오는 중 오류 발생:', error);
@@ -82,32 +89,49 @@ const RouteListPage: React.FC = () => {
     });
   };
 
+  // 지도와 같은 노선 색상
+  const routeColors = getRouteColors(routeList);
+
   // 노선 아이템 렌더링
-  const renderRouteItem = ({item}: {item: Route}) => (
-    <TouchableOpacity
-      style={styles.routeItem}
-      onPress={() => goToBusList(item)}
-      activeOpacity={0.7}>
-      <View style={styles.routeIconContainer}>
+  const renderRouteItem = ({item}: {item: Route}) => {
+    const routeAlerts = getRouteAlerts(
+      serviceAlerts,
+      item.id,
+      item.stations.map(station => station.stationId),
+      Date.now(),
+    );
+
+    return (
+      <TouchableOpacity
+        style={styles.routeItem}
+        onPress={() => goToBusList(item)}
+        activeOpacity={0.7}>
+        <View
+          style={[
+            styles.routeIconContainer,
+            {backgroundColor: routeColors[item.id] + '1A'},
+          ]}>
+          <Ionicons name="git-branch" size={30} color={routeColors[item.id]} />
+        </View>
+        <View style={styles.routeInfo}>
+          <Text style={styles.routeName}>{item.routeName}</Text>
+          <Text style={styles.stationsCount}>
+            {item.stations.length}개 정류장
+          </Text>
+          {routeAlerts.length > 0 && (
+            <View style={styles.alertBadge}>
+              <ServiceAlertBadge alerts={routeAlerts} />
+            </View>
+          )}
+        </View>
         <Ionicons
-          name="git-branch"
-          size={30}
-          color={theme.colors.primary.default}
+          name="chevron-forward"
+          size={20}
+          color={theme.colors.gray[400]}
         />
-      </View>
-      <View style={styles.routeInfo}>
-        <Text style={styles.routeName}>{item.routeName}</Text>
-        <Text style={styles.stationsCount}>
-          {item.stations.length}개 정류장
-        </Text>
-      </View>
-      <Ionicons
-        name="chevron-forward"
-        size={20}
-        color={theme.colors.gray[400]}
-      />
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   // 헤더 컴포넌트
   const ListHeader = () => (
@@ -152,10 +176,12 @@ const RouteListPage: React.FC = () => {
 
   return (
     <SafeAreaView style={styles.container}>
+      <OfflineBanner />
       <FlatList
         ListHeaderComponent={ListHeader}
         data={routeList}
         renderItem={renderRouteItem}
+        extraData={serviceAlerts}
         keyExtractor={item => item.id}
         ListEmptyComponent={EmptyList}
         contentContainerStyle={styles.listContent}
@@ -216,7 +242,6 @@ const styles = StyleSheet.create({
     width: 50,
     height: 50,
     borderRadius: 25,
-    backgroundColor: theme.colors.primary.light + '10', // 10% 투명도
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: theme.spacing.md,
@@ -234,6 +259,9 @@ const styles = StyleSheet.create({
     ...theme.typography.text.sm,
     color: theme.colors.gray[600],
   },
+  alertBadge: {
+    marginTop: theme.spacing.xs,
+  },
   emptyContainer: {
     padding: theme.spacing.xl,
     alignItems: 'center',
@@ -0,0 +1,189 @@
+import React, {useMemo} from 'react';
+import {View, StyleSheet} from 'react-native';
+import {SafeAreaView} from 'react-native-safe-area-context';
+import {useRoute, RouteProp} from '@react-navigation/native';
+import {
+  NaverMapView,
+  NaverMapMarkerOverlay,
+  NaverMapPathOverlay,
+  Region,
+} from '@mj-studio/react-native-naver-map';
+import Text from '../components/common/Text';
+import Card from '../components/common/Card';
+import TripSummary, {formatTripDay} from '../components/Trip/TripSummary';
+import theme from '../theme';
+import type {TripPathPoint} from '../api/services/tripService';
+import useTripHistoryStore from '../store/useTripHistoryStore';
+
+type RootStackParamList = {
+  TripDetail: {tripId: string};
+};
+
+// 경로 주변 여백 (경로 범위 대비 비율)
+const REGION_PADDING_RATIO = 0.3;
+// 경로가 거의 한 점일 때 보여줄 최소 범위 (도)
+const MIN_REGION_DELTA = 0.005;
+
+// 경로 전체가 보이는 지도 범위 (Region은 남서쪽 꼭짓점 기준)
+const getPathRegion = (path: TripPathPoint[]): Region | undefined => {
+  if (path.length === 0) {
+    return undefined;
+  }
+  const latitudes = path.map(point => point.latitude);
+  const longitudes = path.map(point => point.longitude);
+  const minLat = Math.min(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const latitudeDelta = Math.max(
+    (Math.max(...latitudes) - minLat) * (1 + REGION_PADDING_RATIO * 2),
+    MIN_REGION_DELTA,
+  );
+  const longitudeDelta = Math.max(
+    (Math.max(...longitudes) - minLng) * (1 + REGION_PADDING_RATIO * 2),
+    MIN_REGION_DELTA,
+  );
+  const centerLat = (minLat + Math.max(...latitudes)) / 2;
+  const centerLng = (minLng + Math.max(...longitudes)) / 2;
+  return {
+    latitude: centerLat - latitudeDelta / 2,
+    longitude: centerLng - longitudeDelta / 2,
+    latitudeDelta,
+    longitudeDelta,
+  };
+};
+
+/**
+ * 이동 기록 상세 화면
+ * 탑승 ~ 하차 경로를 지도에 그리고 기록 정보를 보여줍니다.
+ */
+const TripDetailPage: React.FC = () => {
+  const route = useRoute<RouteProp<RootStackParamList, 'TripDetail'>>();
+  const {tripId} = route.params;
+  const trip = useTripHistoryStore(state =>
+    state.activeTrip?.id === tripId
+      ? state.activeTrip
+      : state.trips.find(item => item.id === tripId),
+  );
+
+  const region = useMemo(
+    () => (trip ? getPathRegion(trip.path) : undefined),
+    [trip],
+  );
+
+  if (!trip) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text variant="md" color={theme.colors.gray[500]}>
+          이동 기록을 찾을 수 없습니다.
+        </Text>
+      </View>
+    );
+  }
+
+  const startPoint = trip.path[0];
+  const endPoint = trip.path[trip.path.length - 1];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      {region ? (
+        <NaverMapView
+          style={styles.map}
+          initialRegion={region}
+          isShowLocationButton={false}
+          layerGroups={{
+            TRANSIT: true,
+            BUILDING: true,
+            BICYCLE: false,
+            CADASTRAL: false,
+            MOUNTAIN: false,
+            TRAFFIC: false,
+          }}>
+          {trip.path.length >= 2 && (
+            <NaverMapPathOverlay
+              coords={trip.path.map(point => ({
+                latitude: point.latitude,
+                longitude: point.longitude,
+              }))}
+              width={6}
+              color={theme.colors.primary.default}
+              outlineWidth={1}
+              outlineColor={theme.colors.white}
+            />
+          )}
+          <NaverMapMarkerOverlay
+            latitude={startPoint.latitude}
+            longitude={startPoint.longitude}
+            caption={{
+              text: '탑승',
+              textSize: 12,
+              color: theme.colors.gray[900],
+              haloColor: theme.colors.white,
+            }}
+            width={24}
+            height={24}
+            image={require('../../assets/images/busStop.png')}
+          />
+          {trip.path.length >= 2 && (
+            <NaverMapMarkerOverlay
+              latitude={endPoint.latitude}
+              longitude={endPoint.longitude}
+              caption={{
+                text: trip.alightedAt === null ? '현재 위치' : '하차',
+                textSize: 12,
+                color: theme.colors.gray[900],
+                haloColor: theme.colors.white,
+              }}
+              width={24}
+              height={24}
+              image={require('../../assets/images/busIcon.png')}
+            />
+          )}
+        </NaverMapView>
+      ) : (
+        <View style={[styles.map, styles.noPath]}>
+          <Text variant="sm" color={theme.colors.gray[500]}>
+            기록된 이동 경로가 없습니다.
+          </Text>
+        </View>
+      )}
+
+      <Card variant="elevated" style={styles.infoCard}>
+        <Text
+          variant="sm"
+          color={theme.colors.gray[500]}
+          style={styles.dayText}>
+          {formatTripDay(trip.boardedAt)}
+        </Text>
+        <TripSummary trip={trip} />
+      </Card>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.gray[50],
+  },
+  map: {
+    flex: 1,
+  },
+  noPath: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.gray[100],
+  },
+  infoCard: {
+    margin: theme.spacing.md,
+    backgroundColor: theme.colors.white,
+  },
+  dayText: {
+    marginBottom: theme.spacing.xs,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default TripDetailPage;
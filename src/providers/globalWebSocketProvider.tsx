@@ -1,10 +1,15 @@
 // src/providers/globalWebSocketProvider.tsx
 import React, { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react';
-import GlobalWebSocketService from '../services/globalWebSocketService'; 
+import GlobalWebSocketService, { ConnectionStatus } from '../services/globalWebSocketService'; 
 import { useToast } from '../components/common/Toast';
 
 interface GlobalWebSocketContextType {
   isConnected: boolean;
+  connectionStatus: ConnectionStatus;
+  // 재연결 대기 중일 때 다음 재연결까지 남은 시간(초), 아니면 null
+  reconnectInSeconds: number | null;
+  // 마지막 메시지 수신 후 경과 시간(초), 연결되어 있지 않으면 null
+  lastMessageAgeSeconds: number | null;
   restart: () => Promise<boolean>;
   ensureConnection: () => Promise<void>;
 }
@@ -16,10 +21,12 @@ interface GlobalWebSocketProviderProps {
 }
 
 export const GlobalWebSocketProvider: React.FC<GlobalWebSocketProviderProps> = ({ children }) => {
-  const [isConnected, setIsConnected] = useState(false);
   const { showToast } = useToast();
   
   const wsService = useMemo(() => GlobalWebSocketService.getInstance(), []);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(() => wsService.getConnectionStatus());
+  const [now, setNow] = useState(Date.now());
+  const isConnected = connectionStatus.state === 'connected';
 
   useEffect(() => {
     wsService.setToastCallback(showToast);
@@ -28,10 +35,10 @@ export const GlobalWebSocketProvider: React.FC<GlobalWebSocketProviderProps> = (
   useEffect(() => {
     let isMounted = true;
     const unsubscribe = wsService.subscribe(status => {
-      if (isMounted) setIsConnected(status);
+      if (isMounted) setConnectionStatus(status);
     });
     
-    setIsConnected(wsService.getConnectionStatus());
+    setConnectionStatus(wsService.getConnectionStatus());
     wsService.initialize();
 
     return () => {
@@ -40,6 +47,27 @@ export const GlobalWebSocketProvider: React.FC<GlobalWebSocketProviderProps> = (
     };
   }, [wsService]);
 
+  // 재연결 대기 중에는 1초마다 남은 시간을 갱신
+  const { nextRetryAt } = connectionStatus;
+  useEffect(() => {
+    if (nextRetryAt === null) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [nextRetryAt]);
+
+  // 연결 중에는 5초마다 마지막 메시지 경과 시간을 갱신
+  useEffect(() => {
+    if (!isConnected) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(intervalId);
+  }, [isConnected]);
+
+  const { lastMessageAt } = connectionStatus.quality;
+  const lastMessageAgeSeconds = isConnected && lastMessageAt !== null ? Math.max(0, Math.floor((now - lastMessageAt) / 1000)) : null;
+
+  const reconnectInSeconds = nextRetryAt === null ? null : Math.max(0, Math.ceil((nextRetryAt - now) / 1000));
+
   const restart = useCallback(async (): Promise<boolean> => {
     return wsService.restart();
   }, [wsService]);
@@ -50,9 +78,12 @@ export const GlobalWebSocketProvider: React.FC<GlobalWebSocketProviderProps> = (
 
   const contextValue = useMemo(() => ({
     isConnected,
+    connectionStatus,
+    reconnectInSeconds,
+    lastMessageAgeSeconds,
     restart,
     ensureConnection,
-  }), [isConnected, restart, ensureConnection]);
+  }), [isConnected, connectionStatus, reconnectInSeconds, lastMessageAgeSeconds, restart, ensureConnection]);
 
   return (
     <GlobalWebSocketContext.Provider value={contextValue}>
@@ -0,0 +1,85 @@
+// src/services/__mocks__/notificationService.tsx
+// jest.mock('../src/services/notificationService')로 쓰는 테스트 대역.
+// 보낸/예약한/취소한 알림을 기록만 하고 화면이나 시스템에는 띄우지 않습니다.
+import type {PermissionStatus} from 'react-native-permissions';
+import type {
+  AppNotification,
+  NotificationPresenter,
+  NotificationRequest,
+} from '../notificationService';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannelId,
+} from '../notificationChannels';
+
+export class FakeNotificationService {
+  public delivered: AppNotification[] = [];
+  public scheduled: Array<{notification: AppNotification; triggerAt: number}> =
+    [];
+  public cancelled: string[] = [];
+  public permission: PermissionStatus = 'granted';
+  private sequence = 0;
+
+  public setToastHandler(): void {}
+
+  public setPresenter(_presenter: NotificationPresenter | null): void {}
+
+  public async getPermission(): Promise<PermissionStatus> {
+    return this.permission;
+  }
+
+  public async requestPermission(): Promise<PermissionStatus> {
+    return this.permission;
+  }
+
+  public notify(request: NotificationRequest): AppNotification {
+    const notification = this.createNotification(request);
+    this.delivered.push(notification);
+    return notification;
+  }
+
+  public schedule(
+    request: NotificationRequest,
+    triggerAt: number,
+  ): AppNotification {
+    const notification = this.createNotification(request);
+    this.scheduled.push({notification, triggerAt});
+    return notification;
+  }
+
+  public cancel(id: string): void {
+    this.cancelled.push(id);
+    this.scheduled = this.scheduled.filter(
+      entry => entry.notification.id !== id,
+    );
+  }
+
+  public cancelAll(channelId?: NotificationChannelId): void {
+    this.scheduled
+      .filter(entry => !channelId || entry.notification.channelId === channelId)
+      .forEach(entry => this.cancel(entry.notification.id));
+  }
+
+  // 테스트마다 기록 초기화
+  public reset(): void {
+    this.delivered = [];
+    this.scheduled = [];
+    this.cancelled = [];
+    this.permission = 'granted';
+  }
+
+  private createNotification(request: NotificationRequest): AppNotification {
+    this.sequence += 1;
+    return {
+      id: request.id ?? `${request.channelId}-${this.sequence}`,
+      channelId: request.channelId,
+      title: request.title ?? NOTIFICATION_CHANNELS[request.channelId].name,
+      body: request.body,
+      level: request.level ?? 'info',
+      createdAt: Date.now(),
+    };
+  }
+}
+
+const notificationService = new FakeNotificationService();
+export default notificationService;
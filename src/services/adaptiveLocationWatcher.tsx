@@ -0,0 +1,220 @@
+// src/services/adaptiveLocationWatcher.tsx
+import Geolocation, {
+  GeolocationError,
+  GeolocationResponse,
+} from '@react-native-community/geolocation';
+import {getDistanceMeters} from '../api/geo';
+import {stationService} from '../api/services/stationService';
+import useBoardingStore from '../store/useBoardingStore';
+import useBusStore from '../store/useBusStore';
+import useSettingsStore from '../store/useSettingsStore';
+import {
+  getSamplingProfile,
+  isSameProfile,
+  SamplingContext,
+  SamplingProfile,
+} from './locationSamplingPolicy';
+
+// iOS는 interval을 지원하지 않으므로 주기보다 너무 빨리 들어온 위치는 건너뜀 (약간의 오차 허용)
+const INTERVAL_TOLERANCE = 0.8;
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * watchPosition으로 위치를 받고, 상황이 바뀌면 locationSamplingPolicy에 따라
+ * 주기/거리 필터/정확도를 바꿔 다시 구독하는 클래스.
+ * 상황은 위치를 받을 때, 탑승 상태나 배터리 절약 설정, 버스 위치가 바뀔 때 다시 판단합니다.
+ * (정류장에 서 있으면 위치가 들어오지 않으므로 버스가 다가오는 것은 버스 위치로 알아챔)
+ */
+export class AdaptiveLocationWatcher {
+  private watchId: number | null = null;
+  private profile: SamplingProfile | null = null;
+  private stations: Coordinates[] = [];
+  private lastPosition: GeolocationResponse | null = null;
+  private lastEmittedAt = 0;
+  private unsubscribers: Array<() => void> = [];
+  private onPosition: (position: GeolocationResponse) => void;
+
+  /**
+   * @param onPosition - 정책 주기에 맞춰 걸러진 위치를 전달받는 함수
+   */
+  constructor(onPosition: (position: GeolocationResponse) => void) {
+    this.onPosition = onPosition;
+  }
+
+  public isRunning(): boolean {
+    return this.watchId !== null;
+  }
+
+  // 현재 적용 중인 샘플링 설정
+  public getProfile(): SamplingProfile | null {
+    return this.profile;
+  }
+
+  public start(): void {
+    if (this.isRunning()) {
+      return;
+    }
+
+    this.unsubscribers = [
+      useBoardingStore.subscribe((state, prevState) => {
+        if (state.isBoarded !== prevState.isBoarded) {
+          this.reevaluate();
+        }
+      }),
+      useSettingsStore.subscribe((state, prevState) => {
+        if (state.batterySaver !== prevState.batterySaver) {
+          this.reevaluate();
+        }
+      }),
+      useBusStore.subscribe((state, prevState) => {
+        if (state.busPositions !== prevState.busPositions) {
+          this.reevaluate();
+        }
+      }),
+    ];
+    this.loadStations();
+    this.reevaluate();
+  }
+
+  public stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.clearWatch();
+    this.profile = null;
+    this.lastPosition = null;
+    this.lastEmittedAt = 0;
+  }
+
+  // 정류장 근처 여부 판단용 (캐시된 목록 사용)
+  private loadStations = async () => {
+    try {
+      const stations = await stationService.getAllStations();
+      this.stations = stations.flatMap(station =>
+        station.location ? [station.location] : [],
+      );
+      this.reevaluate();
+    } catch (error) {
+      console.warn(
+        '📍 [LocationWatcher] 정류장 목록을 불러오지 못했습니다:',
+        error,
+      );
+    }
+  };
+
+  private handlePosition = (position: GeolocationResponse) => {
+    const previous = this.lastPosition;
+    this.lastPosition = {
+      ...position,
+      coords: {...position.coords, speed: this.getSpeed(position, previous)},
+    };
+    this.reevaluate();
+
+    const now = Date.now();
+    const intervalMs = this.profile?.intervalMs ?? 0;
+    if (now - this.lastEmittedAt < intervalMs * INTERVAL_TOLERANCE) {
+      return;
+    }
+    this.lastEmittedAt = now;
+    this.onPosition(position);
+  };
+
+  private handleError = (error: GeolocationError) => {
+    console.error(
+      `❌ [LocationWatcher] watchPosition 오류 (코드 ${error.code}): ${error.message}`,
+    );
+  };
+
+  // 기기가 속도를 주지 않으면 직전 위치와의 거리로 계산
+  private getSpeed(
+    position: GeolocationResponse,
+    previous: GeolocationResponse | null,
+  ): number | null {
+    const {speed} = position.coords;
+    if (speed !== null && speed >= 0) {
+      return speed;
+    }
+    if (!previous || position.timestamp <= previous.timestamp) {
+      return null;
+    }
+    const distance = getDistanceMeters(
+      previous.coords.latitude,
+      previous.coords.longitude,
+      position.coords.latitude,
+      position.coords.longitude,
+    );
+    return distance / ((position.timestamp - previous.timestamp) / 1000);
+  }
+
+  private getContext(): SamplingContext {
+    const position = this.lastPosition;
+    const nearest = (points: Coordinates[]) =>
+      position && points.length > 0
+        ? Math.min(
+            ...points.map(point =>
+              getDistanceMeters(
+                position.coords.latitude,
+                position.coords.longitude,
+                point.latitude,
+                point.longitude,
+              ),
+            ),
+          )
+        : null;
+
+    return {
+      isBoarded: useBoardingStore.getState().isBoarded,
+      batterySaver: useSettingsStore.getState().batterySaver,
+      nearestStationM: nearest(this.stations),
+      nearestBusM: nearest(
+        useBusStore.getState().busPositions.filter(bus => bus.operate),
+      ),
+      speedMps: position?.coords.speed ?? null,
+    };
+  }
+
+  // 샘플링 설정이 바뀌었으면 새 설정으로 다시 구독
+  private reevaluate = () => {
+    if (this.unsubscribers.length === 0) {
+      return;
+    }
+    const profile = getSamplingProfile(this.getContext());
+    if (
+      this.profile &&
+      this.watchId !== null &&
+      isSameProfile(this.profile, profile)
+    ) {
+      this.profile = profile;
+      return;
+    }
+
+    console.log(
+      `📍 [LocationWatcher] 샘플링 모드: ${profile.mode} (${
+        profile.intervalMs / 1000
+      }초, ${profile.distanceFilterM}m, 고정밀 ${profile.enableHighAccuracy})`,
+    );
+    this.profile = profile;
+    this.clearWatch();
+    this.watchId = Geolocation.watchPosition(
+      this.handlePosition,
+      this.handleError,
+      {
+        enableHighAccuracy: profile.enableHighAccuracy,
+        distanceFilter: profile.distanceFilterM,
+        interval: profile.intervalMs,
+        fastestInterval: profile.intervalMs / 2,
+        maximumAge: profile.intervalMs / 2,
+      },
+    );
+  };
+
+  private clearWatch(): void {
+    if (this.watchId !== null) {
+      Geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+  }
+}
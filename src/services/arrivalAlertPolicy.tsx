@@ -0,0 +1,138 @@
+// src/services/arrivalAlertPolicy.tsx
+import type {
+  ArrivalAlertRule,
+  QuietHours,
+  TimeWindow,
+} from '../store/useArrivalAlertStore';
+
+/**
+ * 즐겨찾기 정류장 도착 알림 규칙을 평가하는 순수 함수 모음.
+ * 시각은 기기 현지 시간 기준입니다.
+ */
+
+// 정류장으로 다가오는 버스가 이 거리 안에 있으면 도착 예정 시간과 관계없이 곧 도착으로 봄
+export const NEAR_STATION_BUS_RADIUS_M = 300;
+// 직전 보고보다 이만큼 가까워져야 다가오는 것으로 봄 (멈춘 버스의 GPS 흔들림 제외)
+export const MIN_APPROACH_M = 10;
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+// 규칙 평가에 쓰는 정류장 도착 후보 버스
+export interface ArrivalCandidate {
+  busNumber: string;
+  busRealNumber: string | null;
+  // 도착까지 남은 시간(초), 모르면 null
+  remainingSeconds: number | null;
+  // 실시간 위치 기준 정류장까지 거리(m), 모르면 null
+  distanceMeters: number | null;
+  // 직전 위치 보고 기준 정류장까지 거리(m), 모르면 null
+  previousDistanceMeters: number | null;
+}
+
+// 직전 위치 보고보다 정류장에 가까워졌는지
+const isApproaching = (candidate: ArrivalCandidate): boolean =>
+  candidate.distanceMeters !== null &&
+  candidate.previousDistanceMeters !== null &&
+  candidate.previousDistanceMeters - candidate.distanceMeters >= MIN_APPROACH_M;
+
+export const getMinuteOfDay = (date: Date): number =>
+  date.getHours() * 60 + date.getMinutes();
+
+// 'HH:mm'
+export const formatMinuteOfDay = (minute: number): string => {
+  const normalized = ((minute % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(
+    2,
+    '0',
+  )}`;
+};
+
+// 시작과 끝이 같으면 하루 종일로 봄
+export const isWithinWindow = (window: TimeWindow, minute: number): boolean => {
+  const {startMinute, endMinute} = window;
+  if (startMinute === endMinute) {
+    return true;
+  }
+  if (startMinute < endMinute) {
+    return minute >= startMinute && minute < endMinute;
+  }
+  return minute >= startMinute || minute < endMinute;
+};
+
+// '평일', '주말', '매일' 또는 '월·수·금'
+export const formatDays = (days: number[]): string => {
+  const sorted = [...days].sort((a, b) => a - b);
+  const key = sorted.join(',');
+  if (key === EVERY_DAY.join(',')) {
+    return '매일';
+  }
+  if (key === WEEKDAYS.join(',')) {
+    return '평일';
+  }
+  if (key === '0,6') {
+    return '주말';
+  }
+  return sorted.map(day => WEEKDAY_LABELS[day]).join('·');
+};
+
+/**
+ * 지금 규칙이 켜져 있는 요일/시간대인지 확인합니다.
+ * 자정을 넘기는 시간대는 시작한 날의 요일로 판단합니다. (금 23:00~01:00이면 토 00:30도 포함)
+ */
+export const isRuleActive = (rule: ArrivalAlertRule, date: Date): boolean => {
+  if (!rule.enabled) {
+    return false;
+  }
+  const minute = getMinuteOfDay(date);
+  if (!isWithinWindow(rule.window, minute)) {
+    return false;
+  }
+  const isAfterMidnight =
+    rule.window.startMinute > rule.window.endMinute &&
+    minute < rule.window.endMinute;
+  const day = isAfterMidnight ? (date.getDay() + 6) % 7 : date.getDay();
+  return rule.days.includes(day);
+};
+
+export const isQuietTime = (quietHours: QuietHours, date: Date): boolean =>
+  quietHours.enabled && isWithinWindow(quietHours.window, getMinuteOfDay(date));
+
+/**
+ * 규칙에 맞게 곧 도착하는 버스 중 가장 먼저 오는 버스를 찾습니다.
+ * 도착 예정 시간이 규칙의 분 안이거나, 실시간 위치가 정류장 가까이에 있으면 알릴 대상입니다.
+ * 위치로 판단할 때는 도착 예정 시간이 남아 있거나 정류장으로 다가오는 중이어야 합니다.
+ * (방금 지나간 버스, 멀어지는 버스, 정류장 옆 차고지에 서 있는 버스는 제외)
+ */
+export const findAlertCandidate = (
+  rule: ArrivalAlertRule,
+  candidates: ArrivalCandidate[],
+): ArrivalCandidate | null => {
+  const matches = candidates.filter(candidate => {
+    if (rule.busNumber !== null && candidate.busNumber !== rule.busNumber) {
+      return false;
+    }
+    const isDueSoon =
+      candidate.remainingSeconds !== null &&
+      candidate.remainingSeconds <= rule.minutesBefore * 60;
+    const isNearby =
+      candidate.distanceMeters !== null &&
+      candidate.distanceMeters <= NEAR_STATION_BUS_RADIUS_M &&
+      ((candidate.remainingSeconds !== null &&
+        candidate.remainingSeconds > 0) ||
+        isApproaching(candidate));
+    return isDueSoon || isNearby;
+  });
+  if (matches.length === 0) {
+    return null;
+  }
+  // 위치로만 판단한 버스는 곧 도착으로 보고 맨 앞에 둠
+  return matches.reduce((earliest, candidate) =>
+    (candidate.remainingSeconds ?? 0) < (earliest.remainingSeconds ?? 0)
+      ? candidate
+      : earliest,
+  );
+};
@@ -0,0 +1,238 @@
+// src/services/arrivalAlertService.tsx
+import {Vibration} from 'react-native';
+import {getDistanceMeters} from '../api/geo';
+import {Eta, getRemainingSeconds} from '../api/eta';
+import {busService} from '../api/services/busService';
+import useArrivalAlertStore, {
+  ArrivalAlertRule,
+} from '../store/useArrivalAlertStore';
+import useBusStore from '../store/useBusStore';
+import notificationService from './notificationService';
+import {
+  ArrivalCandidate,
+  findAlertCandidate,
+  isQuietTime,
+  isRuleActive,
+} from './arrivalAlertPolicy';
+
+// 켜진 규칙이 있는 동안 도착 예정 시간을 다시 조회하는 주기
+const ESTIMATE_REFRESH_MS = 30 * 1000;
+// 같은 규칙으로 같은 버스를 다시 알리지 않는 시간
+const RENOTIFY_COOLDOWN_MS = 20 * 60 * 1000;
+const ALERT_VIBRATION_PATTERN = [0, 400, 200, 400];
+
+interface StationArrival {
+  busNumber: string;
+  busRealNumber: string | null;
+  eta: Eta;
+}
+
+/**
+ * 즐겨찾기 정류장 도착 알림 싱글톤 클래스.
+ * 지금 켜져 있는 규칙의 정류장만 도착 예정 시간을 주기적으로 조회하고,
+ * 실시간 버스 위치가 바뀔 때마다 조회해 둔 값으로 다시 평가합니다.
+ * 방해 금지 시간에는 조회와 알림을 모두 쉽니다.
+ */
+class ArrivalAlertService {
+  private refreshTimer: NodeJS.Timeout | null = null;
+  // 정류장별 마지막 도착 예정 조회 결과
+  private arrivals = new Map<string, StationArrival[]>();
+  // `${규칙 id}:${버스 번호}` → 마지막 알림 시각
+  private notifiedAt = new Map<string, number>();
+  // `${정류장 id}:${버스 번호}` → 최근 두 위치 보고의 정류장까지 거리 (다가오는지 판단)
+  private busDistances = new Map<
+    string,
+    {current: number; previous: number | null}
+  >();
+
+  constructor() {
+    useArrivalAlertStore.subscribe((state, prevState) => {
+      if (state.rules !== prevState.rules) {
+        this.handleRulesChange();
+      }
+    });
+    useBusStore.subscribe((state, prevState) => {
+      if (state.busPositions !== prevState.busPositions) {
+        this.evaluate();
+      }
+    });
+    this.handleRulesChange();
+  }
+
+  /**
+   * 즐겨찾기 목록이 바뀌면 빠진 정류장의 규칙을 정리합니다.
+   */
+  public syncFavoriteStations(stationIds: string[]): void {
+    useArrivalAlertStore.getState().keepStations(stationIds);
+  }
+
+  private handleRulesChange() {
+    const {rules} = useArrivalAlertStore.getState();
+    const stationIds = new Set(rules.map(rule => rule.stationId));
+    this.arrivals.forEach((_, stationId) => {
+      if (!stationIds.has(stationId)) {
+        this.arrivals.delete(stationId);
+      }
+    });
+    this.busDistances.forEach((_, key) => {
+      if (!stationIds.has(key.slice(0, key.lastIndexOf(':')))) {
+        this.busDistances.delete(key);
+      }
+    });
+
+    const hasEnabledRule = rules.some(rule => rule.enabled);
+    if (hasEnabledRule && !this.refreshTimer) {
+      this.refreshArrivals();
+      this.refreshTimer = setInterval(
+        this.refreshArrivals,
+        ESTIMATE_REFRESH_MS,
+      );
+    } else if (!hasEnabledRule && this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private getActiveRules(now: Date): ArrivalAlertRule[] {
+    const {rules, quietHours} = useArrivalAlertStore.getState();
+    if (isQuietTime(quietHours, now)) {
+      return [];
+    }
+    return rules.filter(rule => isRuleActive(rule, now));
+  }
+
+  private refreshArrivals = async () => {
+    const stationIds = [
+      ...new Set(this.getActiveRules(new Date()).map(rule => rule.stationId)),
+    ];
+    if (stationIds.length === 0) {
+      return;
+    }
+
+    await Promise.all(stationIds.map(this.refreshStation));
+    this.evaluate();
+  };
+
+  // 정류장에 서는 운행 중인 버스마다 도착 예정 시간 조회
+  private refreshStation = async (stationId: string) => {
+    try {
+      const buses = await busService.getBusesByStation(stationId);
+      const arrivals = await Promise.all(
+        buses
+          .filter(bus => bus.operate)
+          .map(async bus => ({
+            busNumber: bus.busNumber,
+            busRealNumber: bus.busRealNumber,
+            eta: (
+              await busService.getArrivalEstimate(bus.busNumber, stationId)
+            ).eta,
+          })),
+      );
+      this.arrivals.set(stationId, arrivals);
+    } catch (error) {
+      console.warn(
+        `🔔 [ArrivalAlert] ${stationId} 정류장 도착 정보를 불러오지 못했습니다:`,
+        error,
+      );
+    }
+  };
+
+  private evaluate() {
+    const date = new Date();
+    const now = date.getTime();
+    this.getActiveRules(date).forEach(rule => {
+      const candidate = findAlertCandidate(rule, this.getCandidates(rule, now));
+      if (!candidate) {
+        return;
+      }
+      const key = `${rule.id}:${candidate.busNumber}`;
+      const lastNotifiedAt = this.notifiedAt.get(key);
+      if (lastNotifiedAt && now - lastNotifiedAt < RENOTIFY_COOLDOWN_MS) {
+        return;
+      }
+      this.notifiedAt.set(key, now);
+      this.notify(rule, candidate);
+    });
+  }
+
+  // 조회해 둔 도착 예정 시간(지난 시간만큼 줄임)과 실시간 위치로 후보 구성
+  private getCandidates(
+    rule: ArrivalAlertRule,
+    now: number,
+  ): ArrivalCandidate[] {
+    const {busPositions} = useBusStore.getState();
+    return (this.arrivals.get(rule.stationId) ?? []).map(arrival => {
+      const position = busPositions.find(
+        bus => bus.busNumber === arrival.busNumber && bus.operate,
+      );
+      const distanceMeters =
+        position && rule.latitude !== null && rule.longitude !== null
+          ? getDistanceMeters(
+              position.latitude,
+              position.longitude,
+              rule.latitude,
+              rule.longitude,
+            )
+          : null;
+      return {
+        busNumber: arrival.busNumber,
+        busRealNumber: arrival.busRealNumber,
+        remainingSeconds: getRemainingSeconds(arrival.eta, now),
+        distanceMeters,
+        previousDistanceMeters: this.trackDistance(
+          `${rule.stationId}:${arrival.busNumber}`,
+          distanceMeters,
+        ),
+      };
+    });
+  }
+
+  /**
+   * 버스의 정류장까지 거리를 기록하고 직전 위치 보고의 거리를 돌려줍니다.
+   * 같은 위치로 여러 번 평가해도(다른 버스의 보고, 전체 목록 동기화) 직전 거리는 바뀌지 않습니다.
+   */
+  private trackDistance(key: string, distance: number | null): number | null {
+    if (distance === null) {
+      this.busDistances.delete(key);
+      return null;
+    }
+    const recorded = this.busDistances.get(key);
+    if (!recorded) {
+      this.busDistances.set(key, {current: distance, previous: null});
+      return null;
+    }
+    if (recorded.current !== distance) {
+      this.busDistances.set(key, {
+        current: distance,
+        previous: recorded.current,
+      });
+      return recorded.current;
+    }
+    return recorded.previous;
+  }
+
+  private notify(rule: ArrivalAlertRule, candidate: ArrivalCandidate) {
+    const busName = candidate.busRealNumber ?? candidate.busNumber;
+    const minutes =
+      candidate.remainingSeconds === null
+        ? 0
+        : Math.floor(candidate.remainingSeconds / 60);
+    const arrivalText =
+      minutes < 1 ? '곧 도착해요' : `약 ${minutes}분 후 도착해요`;
+    console.log(
+      `🔔 [ArrivalAlert] ${rule.stationName} ← ${busName} (${arrivalText})`,
+    );
+
+    Vibration.vibrate(ALERT_VIBRATION_PATTERN);
+    notificationService.notify({
+      channelId: 'arrivals',
+      title: `${rule.stationName} 도착 알림`,
+      body: `${busName} 버스가 ${rule.stationName}에 ${arrivalText}.`,
+      level: 'info',
+    });
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const arrivalAlertService = new ArrivalAlertService();
+export default arrivalAlertService;
@@ -0,0 +1,343 @@
+// src/services/boardingDetector.tsx
+import {
+  getBearingDegrees,
+  getDistanceMeters,
+  getHeadingDifference,
+} from '../api/geo';
+
+/**
+ * 기기에서 탑승/하차를 추정하는 감지기.
+ * 사용자의 최근 위치 기록과 버스 위치 기록을 같은 시각 기준으로 비교해
+ * 가까이 붙어서 같은 속도, 같은 방향으로 여러 번 연속 움직이면 탑승으로,
+ * 탑승한 버스에서 연속으로 멀어지면 하차로 봅니다.
+ *
+ * 서버 감지(boarding_update)를 대신하는 것이 아니라 소켓이 불안정할 때의 보조 수단이며,
+ * 서버 이벤트와의 조정은 GlobalWebSocketService에서 합니다.
+ */
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  // 위치를 받은 시각 (ms)
+  timestamp: number;
+}
+
+export type BoardingInference =
+  | {
+      type: 'boarded';
+      busNumber: string;
+      // 연속으로 함께 움직인 구간 수
+      matchedSegments: number;
+      // 0~1
+      confidence: number;
+    }
+  | {
+      type: 'alighted';
+      busNumber: string;
+      confidence: number;
+    };
+
+// 아직 추정 결과를 낼 만큼은 아니지만 탑승/하차 조짐이 보이는 경우
+export interface BoardingSuspicion {
+  type: 'boarding' | 'alighting';
+  busNumber: string;
+  // 0~1
+  confidence: number;
+}
+
+export interface BoardingDetectorConfig {
+  // 이보다 오래된 위치 기록은 버림
+  maxTrackAgeMs: number;
+  // 탑승으로 보려면 필요한 연속 일치 구간 수
+  requiredMatches: number;
+  // 같은 시각 사용자-버스 거리 상한
+  maxBusDistanceM: number;
+  // 걷는 속도와 구분하기 위한 최소 이동 속도
+  minMovingSpeedMps: number;
+  // 사용자와 버스 속도 차이 상한
+  maxSpeedDiffMps: number;
+  // 사용자와 버스 진행 방향 차이 상한
+  maxHeadingDiffDeg: number;
+  // 사용자 위치 시각 앞뒤로 이 시간 안의 버스 위치가 있어야 비교
+  maxBusSampleGapMs: number;
+  // 탑승한 버스와 이 거리 이상 떨어지면 하차 후보
+  alightDistanceM: number;
+  // 하차로 보려면 필요한 연속 이탈 위치 수
+  requiredAlightSamples: number;
+}
+
+export const DEFAULT_DETECTOR_CONFIG: BoardingDetectorConfig = {
+  maxTrackAgeMs: 3 * 60 * 1000,
+  requiredMatches: 3,
+  maxBusDistanceM: 60,
+  minMovingSpeedMps: 3,
+  maxSpeedDiffMps: 4,
+  maxHeadingDiffDeg: 45,
+  maxBusSampleGapMs: 15000,
+  alightDistanceM: 120,
+  requiredAlightSamples: 3,
+};
+
+// 트랙 하나에 보관하는 최대 위치 수
+const MAX_TRACK_LENGTH = 30;
+
+interface Segment {
+  from: TrackPoint;
+  to: TrackPoint;
+}
+
+const getSpeed = ({from, to}: Segment) =>
+  getDistanceMeters(from.latitude, from.longitude, to.latitude, to.longitude) /
+  ((to.timestamp - from.timestamp) / 1000);
+
+const getHeading = ({from, to}: Segment) =>
+  getBearingDegrees(from.latitude, from.longitude, to.latitude, to.longitude);
+
+const getPointDistance = (a: TrackPoint, b: TrackPoint) =>
+  getDistanceMeters(a.latitude, a.longitude, b.latitude, b.longitude);
+
+export class BoardingDetector {
+  private userTrack: TrackPoint[] = [];
+  private busTracks = new Map<string, TrackPoint[]>();
+  private config: BoardingDetectorConfig;
+
+  constructor(config: Partial<BoardingDetectorConfig> = {}) {
+    this.config = {...DEFAULT_DETECTOR_CONFIG, ...config};
+  }
+
+  public addUserPoint(point: TrackPoint): void {
+    this.userTrack = this.appendPoint(this.userTrack, point);
+  }
+
+  public addBusPoint(busNumber: string, point: TrackPoint): void {
+    const track = this.appendPoint(this.busTracks.get(busNumber) ?? [], point);
+    this.busTracks.set(busNumber, track);
+  }
+
+  // 서버 이벤트로 상태가 확정되면 사용자 기록을 비워 같은 구간으로 다시 추정하지 않게 함
+  public resetUserTrack(): void {
+    this.userTrack = [];
+  }
+
+  public reset(): void {
+    this.userTrack = [];
+    this.busTracks.clear();
+  }
+
+  /**
+   * 현재 탑승 상태를 기준으로 새 추정 결과를 반환합니다.
+   * @param boardedBusNumber - 현재 탑승 중인 버스, 탑승 전이면 null
+   * @returns 상태를 바꿔야 하면 추정 결과, 아니면 null
+   */
+  public evaluate(boardedBusNumber: string | null): BoardingInference | null {
+    return boardedBusNumber
+      ? this.detectAlighting(boardedBusNumber)
+      : this.detectBoarding();
+  }
+
+  /**
+   * 추정 결과를 내기에는 근거가 부족하지만 탑승/하차 조짐이 보이는지 반환합니다.
+   * (함께 움직인 구간이나 멀어진 위치가 필요한 수보다 적은 경우)
+   * @param boardedBusNumber - 현재 탑승 중인 버스, 탑승 전이면 null
+   */
+  public getSuspicion(
+    boardedBusNumber: string | null,
+  ): BoardingSuspicion | null {
+    const {requiredMatches, requiredAlightSamples} = this.config;
+    if (boardedBusNumber) {
+      const awaySamples = this.countTrailingAwaySamples(boardedBusNumber);
+      return awaySamples > 0 && awaySamples < requiredAlightSamples
+        ? {
+            type: 'alighting',
+            busNumber: boardedBusNumber,
+            confidence: awaySamples / (requiredAlightSamples + 1),
+          }
+        : null;
+    }
+
+    const candidate = this.getLeadingCandidate();
+    return candidate &&
+      candidate.matches > 0 &&
+      candidate.matches < requiredMatches
+      ? {
+          type: 'boarding',
+          busNumber: candidate.busNumber,
+          confidence: candidate.matches / (requiredMatches + 2),
+        }
+      : null;
+  }
+
+  private detectBoarding(): BoardingInference | null {
+    const {requiredMatches} = this.config;
+    const candidate = this.getLeadingCandidate();
+    if (!candidate || candidate.matches < requiredMatches) {
+      return null;
+    }
+    const {busNumber, matches} = candidate;
+    return {
+      type: 'boarded',
+      busNumber,
+      matchedSegments: matches,
+      confidence: Math.min(1, matches / (requiredMatches + 2)),
+    };
+  }
+
+  private detectAlighting(busNumber: string): BoardingInference | null {
+    const {requiredAlightSamples} = this.config;
+    if (this.countTrailingAwaySamples(busNumber) < requiredAlightSamples) {
+      return null;
+    }
+    return {type: 'alighted', busNumber, confidence: 0.8};
+  }
+
+  // 함께 움직인 구간이 가장 많은 버스 (나란히 달리는 버스가 여럿이면 판단 보류)
+  private getLeadingCandidate(): {busNumber: string; matches: number} | null {
+    const candidates = Array.from(this.busTracks.keys())
+      .map(busNumber => ({
+        busNumber,
+        matches: this.countTrailingMatches(busNumber),
+      }))
+      .sort((a, b) => b.matches - a.matches);
+
+    if (
+      candidates.length === 0 ||
+      candidates[1]?.matches === candidates[0].matches
+    ) {
+      return null;
+    }
+    return candidates[0];
+  }
+
+  // 가장 최근 위치부터 거꾸로 세어 탑승한 버스와 멀리 떨어져 있던 연속 위치 수
+  private countTrailingAwaySamples(busNumber: string): number {
+    const {requiredAlightSamples, alightDistanceM} = this.config;
+    let awaySamples = 0;
+    for (
+      let i = this.userTrack.length - 1;
+      i >= 0 && awaySamples < requiredAlightSamples;
+      i--
+    ) {
+      const point = this.userTrack[i];
+      const busPoint = this.getBusPointAt(busNumber, point.timestamp);
+      if (
+        busPoint === null ||
+        getPointDistance(point, busPoint) <= alightDistanceM
+      ) {
+        break;
+      }
+      awaySamples++;
+    }
+    return awaySamples;
+  }
+
+  // 가장 최근 구간부터 거꾸로 세어 버스와 함께 움직인 연속 구간 수
+  private countTrailingMatches(busNumber: string): number {
+    let matches = 0;
+    for (let i = this.userTrack.length - 1; i > 0; i--) {
+      if (
+        !this.isCoMoving(busNumber, this.userTrack[i - 1], this.userTrack[i])
+      ) {
+        break;
+      }
+      matches++;
+    }
+    return matches;
+  }
+
+  private isCoMoving(
+    busNumber: string,
+    from: TrackPoint,
+    to: TrackPoint,
+  ): boolean {
+    const {
+      maxBusDistanceM,
+      minMovingSpeedMps,
+      maxSpeedDiffMps,
+      maxHeadingDiffDeg,
+    } = this.config;
+    if (to.timestamp <= from.timestamp) {
+      return false;
+    }
+
+    const busFrom = this.getBusPointAt(busNumber, from.timestamp);
+    const busTo = this.getBusPointAt(busNumber, to.timestamp);
+    if (!busFrom || !busTo) {
+      return false;
+    }
+    if (
+      getPointDistance(from, busFrom) > maxBusDistanceM ||
+      getPointDistance(to, busTo) > maxBusDistanceM
+    ) {
+      return false;
+    }
+
+    const userSegment = {from, to};
+    const busSegment = {from: busFrom, to: busTo};
+    const userSpeed = getSpeed(userSegment);
+    if (userSpeed < minMovingSpeedMps) {
+      return false;
+    }
+    return (
+      Math.abs(userSpeed - getSpeed(busSegment)) <= maxSpeedDiffMps &&
+      getHeadingDifference(getHeading(userSegment), getHeading(busSegment)) <=
+        maxHeadingDiffDeg
+    );
+  }
+
+  /**
+   * 주어진 시각의 버스 위치를 앞뒤 기록으로 보간해 구합니다.
+   * 기록 범위 밖이면 가까운 기록이 maxBusSampleGapMs 안에 있을 때만 그 위치를 사용합니다.
+   */
+  private getBusPointAt(
+    busNumber: string,
+    timestamp: number,
+  ): TrackPoint | null {
+    const track = this.busTracks.get(busNumber);
+    if (!track || track.length === 0) {
+      return null;
+    }
+
+    const nextIndex = track.findIndex(point => point.timestamp >= timestamp);
+    const next = nextIndex === -1 ? null : track[nextIndex];
+    const prev =
+      nextIndex === -1
+        ? track[track.length - 1]
+        : nextIndex > 0
+        ? track[nextIndex - 1]
+        : null;
+
+    if (prev && next) {
+      const span = next.timestamp - prev.timestamp;
+      if (span > this.config.maxBusSampleGapMs * 2) {
+        return null;
+      }
+      const ratio = span === 0 ? 0 : (timestamp - prev.timestamp) / span;
+      return {
+        latitude: prev.latitude + (next.latitude - prev.latitude) * ratio,
+        longitude: prev.longitude + (next.longitude - prev.longitude) * ratio,
+        timestamp,
+      };
+    }
+
+    const nearest = prev ?? next;
+    if (
+      !nearest ||
+      Math.abs(nearest.timestamp - timestamp) > this.config.maxBusSampleGapMs
+    ) {
+      return null;
+    }
+    return {...nearest, timestamp};
+  }
+
+  private appendPoint(track: TrackPoint[], point: TrackPoint): TrackPoint[] {
+    const minTimestamp = point.timestamp - this.config.maxTrackAgeMs;
+    const last = track[track.length - 1];
+    // 순서가 뒤바뀐 위치는 무시
+    if (last && point.timestamp <= last.timestamp) {
+      return track;
+    }
+    return [...track, point]
+      .filter(trackPoint => trackPoint.timestamp >= minTimestamp)
+      .slice(-MAX_TRACK_LENGTH);
+  }
+}
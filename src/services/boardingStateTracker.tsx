@@ -0,0 +1,281 @@
+// src/services/boardingStateTracker.tsx
+import {getDistanceMeters} from '../api/geo';
+import {getEarliestEta} from '../api/eta';
+import {busService} from '../api/services/busService';
+import {stationService} from '../api/services/stationService';
+import useBoardingStore, {
+  BoardingPhase,
+  isBoardedPhase,
+} from '../store/useBoardingStore';
+import type {BoardingSuspicion, TrackPoint} from './boardingDetector';
+import {NEAR_STATION_RADIUS_M} from './locationSamplingPolicy';
+
+// 정류장에서 이 거리 안에 머무르면 버스를 기다리는 것으로 봄
+const WAITING_RADIUS_M = 40;
+// 이 속도 미만이면 머무르는 것으로 봄 (GPS 흔들림 고려)
+const WAITING_MAX_SPEED_MPS = 0.8;
+// 정류장에서 이만큼 더 멀어지면 다가가는 중이 아닌 것으로 봄
+const APPROACH_TOLERANCE_M = 10;
+// 하차 완료를 이 시간 동안 보여준 뒤 정류장/대기 상태로 돌아감
+const ALIGHTED_HOLD_MS = 60 * 1000;
+// 기다리는 동안 도착 예정 버스를 다시 조회하는 주기
+const EXPECTED_BUS_REFRESH_MS = 60 * 1000;
+
+interface StationPoint {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+type StopPhase = Extract<BoardingPhase, 'idle' | 'approachingStop' | 'waiting'>;
+
+/**
+ * 탑승 전후 단계를 위치로 판단해 useBoardingStore에 반영하는 클래스.
+ * - 정류장에 다가가는 중 / 정류장에서 기다리는 중 (기다리는 동안 가장 먼저 도착할 버스 조회)
+ * - 기기 추정의 탑승/하차 조짐 (BoardingDetector.getSuspicion)
+ * 탑승/하차 확정은 GlobalWebSocketService가 서버 이벤트와 기기 추정을 조정해 정합니다.
+ */
+export class BoardingStateTracker {
+  private stations: StationPoint[] = [];
+  private lastPoint: TrackPoint | null = null;
+  // 마지막으로 판단한 정류장과 거리 (다가가는 중인지 판단용)
+  private lastStationDistance: {stationId: string; distance: number} | null =
+    null;
+  private expectedBusTimer: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  public start(): void {
+    if (this.unsubscribers.length > 0) {
+      return;
+    }
+    this.unsubscribers = [
+      useBoardingStore.subscribe((state, prevState) => {
+        const isWaiting = state.status.phase === 'waiting';
+        const wasWaiting = prevState.status.phase === 'waiting';
+        if (
+          isWaiting &&
+          (!wasWaiting || state.status.stationId !== prevState.status.stationId)
+        ) {
+          this.startExpectedBusRefresh(state.status.stationId);
+        } else if (!isWaiting && wasWaiting) {
+          this.stopExpectedBusRefresh();
+        }
+      }),
+    ];
+    this.loadStations();
+  }
+
+  public stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.stopExpectedBusRefresh();
+    this.lastPoint = null;
+    this.lastStationDistance = null;
+
+    // 위치를 더 받지 않으므로 위치로 판단한 단계는 유지하지 않음
+    const {status, transition} = useBoardingStore.getState();
+    if (
+      status.phase === 'approachingStop' ||
+      status.phase === 'waiting' ||
+      status.phase === 'boardingSuspected'
+    ) {
+      transition('idle', {confidence: 1});
+    }
+  }
+
+  /**
+   * 새 위치로 정류장 접근/대기 단계를 갱신합니다.
+   * 탑승 관련 단계(탑승 확인 중, 탑승, 하차 확인 중) 중에는 바꾸지 않습니다.
+   */
+  public handlePosition(point: TrackPoint): void {
+    const previous = this.lastPoint;
+    this.lastPoint = point;
+
+    const {status, transition} = useBoardingStore.getState();
+    const isHoldingAlighted =
+      status.phase === 'alighted' &&
+      point.timestamp - status.enteredAt < ALIGHTED_HOLD_MS;
+    if (
+      status.phase === 'boardingSuspected' ||
+      isBoardedPhase(status.phase) ||
+      isHoldingAlighted
+    ) {
+      this.lastStationDistance = null;
+      return;
+    }
+
+    const next = this.getStopPhase(point, previous);
+    transition(next.phase, {
+      stationId: next.station?.id ?? null,
+      stationName: next.station?.name ?? null,
+      confidence: 1,
+      source: 'client',
+    });
+  }
+
+  /**
+   * 기기 추정의 탑승/하차 조짐을 반영합니다.
+   * 조짐이 사라지면 탑승 확인 중은 정류장 단계로, 하차 확인 중은 탑승으로 되돌립니다.
+   */
+  public applySuspicion(suspicion: BoardingSuspicion | null): void {
+    const {status, transition} = useBoardingStore.getState();
+
+    if (suspicion?.type === 'boarding' && !isBoardedPhase(status.phase)) {
+      transition('boardingSuspected', {
+        busNumber: suspicion.busNumber,
+        confidence: suspicion.confidence,
+        source: 'client',
+      });
+    } else if (
+      suspicion?.type === 'alighting' &&
+      isBoardedPhase(status.phase) &&
+      suspicion.busNumber === status.busNumber
+    ) {
+      transition('alightingSuspected', {confidence: suspicion.confidence});
+    } else if (!suspicion && status.phase === 'boardingSuspected') {
+      const next = this.lastPoint
+        ? this.getStopPhase(this.lastPoint, null)
+        : {phase: 'idle' as const, station: null};
+      transition(next.phase, {
+        stationId: next.station?.id ?? null,
+        stationName: next.station?.name ?? null,
+        confidence: 1,
+      });
+    } else if (!suspicion && status.phase === 'alightingSuspected') {
+      transition('boarded', {confidence: 1});
+    }
+  }
+
+  private getStopPhase(
+    point: TrackPoint,
+    previous: TrackPoint | null,
+  ): {phase: StopPhase; station: StationPoint | null} {
+    const nearest = this.findNearestStation(point);
+    if (!nearest || nearest.distance > NEAR_STATION_RADIUS_M) {
+      this.lastStationDistance = null;
+      return {phase: 'idle', station: null};
+    }
+
+    const {station, distance} = nearest;
+    const lastDistance =
+      this.lastStationDistance?.stationId === station.id
+        ? this.lastStationDistance.distance
+        : null;
+    this.lastStationDistance = {stationId: station.id, distance};
+
+    const speed =
+      previous && point.timestamp > previous.timestamp
+        ? getDistanceMeters(
+            previous.latitude,
+            previous.longitude,
+            point.latitude,
+            point.longitude,
+          ) /
+          ((point.timestamp - previous.timestamp) / 1000)
+        : 0;
+    if (distance <= WAITING_RADIUS_M && speed < WAITING_MAX_SPEED_MPS) {
+      return {phase: 'waiting', station};
+    }
+    // 처음 판단하는 정류장이면 다가가는 중으로 보고, 이후 멀어지면 해제
+    if (
+      lastDistance === null ||
+      distance <= lastDistance + APPROACH_TOLERANCE_M
+    ) {
+      return {phase: 'approachingStop', station};
+    }
+    return {phase: 'idle', station: null};
+  }
+
+  private findNearestStation(
+    point: TrackPoint,
+  ): {station: StationPoint; distance: number} | null {
+    let nearest: {station: StationPoint; distance: number} | null = null;
+    for (const station of this.stations) {
+      const distance = getDistanceMeters(
+        point.latitude,
+        point.longitude,
+        station.latitude,
+        station.longitude,
+      );
+      if (!nearest || distance < nearest.distance) {
+        nearest = {station, distance};
+      }
+    }
+    return nearest;
+  }
+
+  // 캐시된 정류장 목록 사용
+  private loadStations = async () => {
+    try {
+      const stations = await stationService.getAllStations();
+      this.stations = stations.flatMap(station =>
+        station.location
+          ? [{id: station.id, name: station.name, ...station.location}]
+          : [],
+      );
+    } catch (error) {
+      console.warn(
+        '🚏 [BoardingTracker] 정류장 목록을 불러오지 못했습니다:',
+        error,
+      );
+    }
+  };
+
+  private startExpectedBusRefresh(stationId: string | null) {
+    this.stopExpectedBusRefresh();
+    if (!stationId) {
+      return;
+    }
+    this.refreshExpectedBus(stationId);
+    this.expectedBusTimer = setInterval(
+      () => this.refreshExpectedBus(stationId),
+      EXPECTED_BUS_REFRESH_MS,
+    );
+  }
+
+  private stopExpectedBusRefresh() {
+    if (this.expectedBusTimer) {
+      clearInterval(this.expectedBusTimer);
+      this.expectedBusTimer = null;
+    }
+  }
+
+  // 기다리는 정류장에 가장 먼저 도착할 운행 중인 버스 조회
+  private refreshExpectedBus = async (stationId: string) => {
+    try {
+      const buses = await busService.getBusesByStation(stationId);
+      const estimates = await Promise.all(
+        buses
+          .filter(bus => bus.operate)
+          .map(async bus => ({
+            bus,
+            eta: (
+              await busService.getArrivalEstimate(bus.busNumber, stationId)
+            ).eta,
+          })),
+      );
+      const earliestEta = getEarliestEta(estimates.map(({eta}) => eta));
+      const earliest = estimates.find(({eta}) => eta === earliestEta);
+
+      const {status, transition} = useBoardingStore.getState();
+      if (status.phase !== 'waiting' || status.stationId !== stationId) {
+        return;
+      }
+      transition('waiting', {
+        expectedBus: earliest
+          ? {
+              busNumber: earliest.bus.busNumber,
+              busRealNumber: earliest.bus.busRealNumber,
+              eta: earliest.eta,
+            }
+          : null,
+      });
+    } catch (error) {
+      console.warn(
+        '🚏 [BoardingTracker] 도착 예정 버스를 불러오지 못했습니다:',
+        error,
+      );
+    }
+  };
+}
@@ -0,0 +1,211 @@
+// src/services/busMotionModel.tsx
+import {
+  GeoPoint,
+  getBearingDegrees,
+  getDestinationPoint,
+  getDistanceMeters,
+  getHeadingDifference,
+  interpolateGeoPoint,
+  projectOntoPath,
+} from '../api/geo';
+
+/**
+ * 버스 위치 보고 사이의 화면 위치를 추정하는 순수 함수 모음.
+ * 새 위치를 받으면 지금 보이는 위치에서 새 위치까지 보고 간격 동안 옮기고,
+ * 다음 보고가 늦으면 마지막 속도와 방향으로 잠시 더 움직입니다(추측 항법).
+ * 노선 경로를 알면 추정 위치를 경로 위로 붙입니다.
+ */
+
+// 버스별로 보관하는 최근 위치 보고 수
+export const HISTORY_SIZE = 5;
+// 이 시간 동안 보고가 없으면 위치가 오래된 버스로 표시
+export const STALE_AFTER_MS = 30 * 1000;
+// 마지막 보고 이후 추측 항법으로 움직이는 최대 시간
+export const MAX_DEAD_RECKONING_MS = 10 * 1000;
+// 추정 위치를 노선 경로에 붙이는 최대 거리
+export const PATH_SNAP_DISTANCE_M = 40;
+
+// 보고 간격을 이동 애니메이션 시간으로 쓸 때의 범위
+const MIN_ANIMATION_MS = 500;
+const MAX_ANIMATION_MS = 5 * 1000;
+// 이보다 적게 움직이면 방향을 새로 정하지 않음 (GPS 흔들림)
+const MIN_HEADING_MOVE_M = 5;
+// 이보다 느리면 멈춘 것으로 보고 추측 항법을 하지 않음
+const MIN_MOVING_SPEED_MPS = 1;
+// 이보다 빠르게 움직였으면 GPS 튐으로 보고 애니메이션 없이 옮김
+const MAX_PLAUSIBLE_SPEED_MPS = 40;
+
+export interface BusFix extends GeoPoint {
+  // 앱이 보고를 받은 시각 (ms)
+  timestamp: number;
+}
+
+export interface BusTrack {
+  busNumber: string;
+  // 오래된 것부터 최근 보고 순
+  history: BusFix[];
+  // 진행 방향 (북쪽 0도, 시계 방향), 모르면 null
+  heading: number | null;
+  speedMps: number;
+  // 화면 이동 구간: startedAt부터 durationMs 동안 from에서 to로 이동
+  segment: {
+    from: GeoPoint;
+    to: GeoPoint;
+    startedAt: number;
+    durationMs: number;
+  };
+}
+
+// 화면에 그릴 추정 위치
+export interface MotionEstimate extends GeoPoint {
+  heading: number | null;
+  isStale: boolean;
+  // 이동 애니메이션이나 추측 항법 중인지 (화면을 계속 다시 그려야 하는지)
+  isMoving: boolean;
+}
+
+export const createTrack = (busNumber: string, fix: BusFix): BusTrack => ({
+  busNumber,
+  history: [fix],
+  heading: null,
+  speedMps: 0,
+  segment: {from: fix, to: fix, startedAt: fix.timestamp, durationMs: 0},
+});
+
+/**
+ * 새 위치 보고를 반영한 트랙을 돌려줍니다.
+ * 이동 구간은 지금 화면에 보이는 위치에서 시작하므로 보고가 늦거나 빨라도 마커가 튀지 않습니다.
+ */
+export const addFix = (track: BusTrack, fix: BusFix): BusTrack => {
+  const previous = track.history[track.history.length - 1];
+  if (fix.timestamp < previous.timestamp) {
+    return track;
+  }
+  // 같은 좌표를 다시 받은 것(전체 목록 동기화 등)은 새 보고로 보지 않음
+  // (마지막 보고 시각과 이동 중인 구간을 그대로 유지)
+  if (
+    fix.latitude === previous.latitude &&
+    fix.longitude === previous.longitude
+  ) {
+    return track;
+  }
+
+  const elapsedMs = fix.timestamp - previous.timestamp;
+  const moved = getDistanceMeters(
+    previous.latitude,
+    previous.longitude,
+    fix.latitude,
+    fix.longitude,
+  );
+  const speedMps = elapsedMs > 0 ? moved / (elapsedMs / 1000) : 0;
+  const history = [...track.history, fix].slice(-HISTORY_SIZE);
+
+  // 오래 소식이 없던 버스나 GPS가 튄 경우는 이어서 움직이지 않고 바로 옮김
+  if (
+    speedMps > MAX_PLAUSIBLE_SPEED_MPS ||
+    isTrackStale(track, fix.timestamp)
+  ) {
+    return {
+      ...track,
+      history,
+      speedMps: 0,
+      segment: {from: fix, to: fix, startedAt: fix.timestamp, durationMs: 0},
+    };
+  }
+
+  const heading =
+    moved >= MIN_HEADING_MOVE_M
+      ? getBearingDegrees(
+          previous.latitude,
+          previous.longitude,
+          fix.latitude,
+          fix.longitude,
+        )
+      : track.heading;
+  const displayed = estimatePosition(track, fix.timestamp);
+
+  return {
+    ...track,
+    history,
+    heading,
+    speedMps,
+    segment: {
+      from: {latitude: displayed.latitude, longitude: displayed.longitude},
+      to: fix,
+      startedAt: fix.timestamp,
+      durationMs: Math.min(
+        MAX_ANIMATION_MS,
+        Math.max(MIN_ANIMATION_MS, elapsedMs),
+      ),
+    },
+  };
+};
+
+export const getLastReportAt = (track: BusTrack): number =>
+  track.history[track.history.length - 1].timestamp;
+
+export const isTrackStale = (track: BusTrack, now: number): boolean =>
+  now - getLastReportAt(track) > STALE_AFTER_MS;
+
+/**
+ * 지금(now) 화면에 그릴 위치를 추정합니다.
+ * 경로(path)를 주면 가까운 경우 경로 위로 붙이고 방향도 경로를 따릅니다.
+ */
+export const estimatePosition = (
+  track: BusTrack,
+  now: number,
+  path?: GeoPoint[] | null,
+): MotionEstimate => {
+  const {segment, heading, speedMps} = track;
+  const isStale = isTrackStale(track, now);
+  const segmentEnd = segment.startedAt + segment.durationMs;
+
+  let position: GeoPoint;
+  let isMoving = false;
+  if (isStale) {
+    // 오래된 위치는 더 움직이지 않고 마지막 보고 위치에 둠
+    position = segment.to;
+  } else if (now < segmentEnd) {
+    position = interpolateGeoPoint(
+      segment.from,
+      segment.to,
+      (now - segment.startedAt) / segment.durationMs,
+    );
+    isMoving = true;
+  } else if (heading !== null && speedMps >= MIN_MOVING_SPEED_MPS) {
+    const extraMs = Math.min(now - segmentEnd, MAX_DEAD_RECKONING_MS);
+    position = getDestinationPoint(
+      segment.to.latitude,
+      segment.to.longitude,
+      heading,
+      (speedMps * extraMs) / 1000,
+    );
+    isMoving = extraMs < MAX_DEAD_RECKONING_MS;
+  } else {
+    position = segment.to;
+  }
+
+  const projection = path ? projectOntoPath(position, path) : null;
+  if (projection && projection.distanceMeters <= PATH_SNAP_DISTANCE_M) {
+    // 경로 순서와 반대로 달리고 있으면 경로 방향을 뒤집음
+    const pathHeading =
+      heading !== null && getHeadingDifference(heading, projection.bearing) > 90
+        ? (projection.bearing + 180) % 360
+        : projection.bearing;
+    return {
+      latitude: projection.latitude,
+      longitude: projection.longitude,
+      heading: pathHeading,
+      isStale,
+      isMoving,
+    };
+  }
+
+  return {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    heading,
+    isStale,
+    isMoving,
+  };
+};
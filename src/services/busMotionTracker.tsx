@@ -0,0 +1,123 @@
+// src/services/busMotionTracker.tsx
+import type {GeoPoint} from '../api/geo';
+import {routeService} from '../api/services/routeService';
+import useBusStore, {BusPosition} from '../store/useBusStore';
+import {
+  BusTrack,
+  MotionEstimate,
+  addFix,
+  createTrack,
+  estimatePosition,
+  getLastReportAt,
+} from './busMotionModel';
+import {getRoutePath} from './routeGeometry';
+
+// 지도에 그릴 버스 (추정 위치와 방향, 오래된 위치 여부 포함)
+export interface BusDisplayPosition extends BusPosition, MotionEstimate {
+  // 마지막 위치 보고 이후 지난 시간(초)
+  lastReportAgeSeconds: number;
+}
+
+/**
+ * 버스 위치 추정 싱글톤 클래스.
+ * useBusStore에 들어온 위치 보고를 버스별 기록(BusTrack)으로 모으고,
+ * 지도가 그릴 때마다 보고 사이의 위치를 추정해 줍니다.
+ * 버스의 노선 경로(getRoutePath)는 추정 위치를 경로에 붙이는 데 씁니다.
+ */
+class BusMotionTracker {
+  private tracks = new Map<string, BusTrack>();
+  // 노선 이름 → 노선 경로
+  private routePaths = new Map<string, GeoPoint[]>();
+  private routePathsPromise: Promise<void> | null = null;
+
+  constructor() {
+    useBusStore.subscribe((state, prevState) => {
+      if (state.busPositions !== prevState.busPositions) {
+        this.handlePositions(state.busPositions, prevState.busPositions);
+      }
+    });
+  }
+
+  /**
+   * 지금 지도에 그릴 버스 위치 목록을 계산합니다.
+   */
+  public getDisplayPositions(now: number = Date.now()): BusDisplayPosition[] {
+    return useBusStore.getState().busPositions.map(bus => {
+      const track =
+        this.tracks.get(bus.busNumber) ??
+        createTrack(bus.busNumber, {
+          latitude: bus.latitude,
+          longitude: bus.longitude,
+          timestamp: now,
+        });
+      const path = bus.routeName ? this.routePaths.get(bus.routeName) : null;
+      return {
+        ...bus,
+        ...estimatePosition(track, now, path),
+        lastReportAgeSeconds: Math.floor((now - getLastReportAt(track)) / 1000),
+      };
+    });
+  }
+
+  /**
+   * 노선 목록(캐시 우선)으로 노선별 경로를 만듭니다. 한 번만 불러옵니다.
+   */
+  public loadRoutePaths(): Promise<void> {
+    if (!this.routePathsPromise) {
+      this.routePathsPromise = routeService
+        .getAllRoutes()
+        .then(routes => {
+          routes.forEach(route => {
+            const path = getRoutePath(route);
+            if (path.length > 0) {
+              this.routePaths.set(route.routeName, path);
+            }
+          });
+          console.log(
+            `🚌 [BusMotion] 노선 경로 ${this.routePaths.size}개 준비`,
+          );
+        })
+        .catch(error => {
+          // 다음에 다시 시도
+          this.routePathsPromise = null;
+          console.warn('🚌 [BusMotion] 노선 경로 조회 실패:', error);
+        });
+    }
+    return this.routePathsPromise;
+  }
+
+  // 새로 들어오거나 바뀐 버스만 위치 보고로 기록 (좌표가 같으면 addFix가 무시)
+  private handlePositions(positions: BusPosition[], previous: BusPosition[]) {
+    const now = Date.now();
+    const previousByNumber = new Map(previous.map(bus => [bus.busNumber, bus]));
+    const busNumbers = new Set<string>();
+
+    positions.forEach(bus => {
+      busNumbers.add(bus.busNumber);
+      if (previousByNumber.get(bus.busNumber) === bus) {
+        return;
+      }
+      const fix = {
+        latitude: bus.latitude,
+        longitude: bus.longitude,
+        timestamp: now,
+      };
+      const track = this.tracks.get(bus.busNumber);
+      this.tracks.set(
+        bus.busNumber,
+        track ? addFix(track, fix) : createTrack(bus.busNumber, fix),
+      );
+    });
+
+    // 목록에서 빠진(운행 종료, 연결 끊김) 버스의 기록 정리
+    this.tracks.forEach((_, busNumber) => {
+      if (!busNumbers.has(busNumber)) {
+        this.tracks.delete(busNumber);
+      }
+    });
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const busMotionTracker = new BusMotionTracker();
+export default busMotionTracker;
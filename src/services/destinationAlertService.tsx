@@ -0,0 +1,224 @@
+// src/services/destinationAlertService.tsx
+import {Alert, Vibration} from 'react-native';
+import {getDistanceMeters} from '../api/geo';
+import {busService, BusStationDetail} from '../api/services/busService';
+import useBoardingStore from '../store/useBoardingStore';
+import useBusStore from '../store/useBusStore';
+import useDestinationStore, {
+  DestinationAlertLevel,
+} from '../store/useDestinationStore';
+import notificationService from './notificationService';
+import {
+  getDestinationAlertLevel,
+  getRemainingStops,
+  isCloserAlertLevel,
+} from './destinationProgress';
+
+// 정류장 목록으로 남은 정류장 수를 다시 계산하는 주기
+const PROGRESS_REFRESH_MS = 20 * 1000;
+// 탑승한 버스가 목적지에서 이 거리 안에 들어오면 도착으로 봄
+const ARRIVAL_RADIUS_M = 50;
+// 단계가 올라가면 이전 알림을 대신하도록 같은 id로 보냄
+const DESTINATION_NOTIFICATION_ID = 'destination-alert';
+
+// 단계가 올라갈수록 길고 여러 번 진동 (Android는 [대기, 진동, 대기, 진동...] ms)
+const VIBRATION_PATTERNS: Record<DestinationAlertLevel, number[]> = {
+  twoStopsBefore: [0, 300],
+  oneStopBefore: [0, 500, 200, 500],
+  arrived: [0, 800, 300, 800, 300, 800],
+};
+
+/**
+ * "내릴 정류장 알림" 싱글톤 클래스.
+ * 탑승 중에 목적지를 정하면 탑승한 버스의 정류장 상세와 실시간 위치를 따라가며
+ * 두 정류장 전, 한 정류장 전, 도착 시 점점 강하게 알립니다.
+ * 하차하거나 다른 버스로 바뀌면 목적지를 비웁니다.
+ */
+class DestinationAlertService {
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    useDestinationStore.subscribe((state, prevState) => {
+      if (state.destination !== prevState.destination) {
+        this.handleDestinationChange();
+      }
+    });
+    useBoardingStore.subscribe((state, prevState) => {
+      const {destination} = useDestinationStore.getState();
+      if (
+        destination &&
+        state.boardedBusNumber !== prevState.boardedBusNumber &&
+        state.boardedBusNumber !== destination.busNumber
+      ) {
+        useDestinationStore.getState().clearDestination();
+      }
+    });
+    useBusStore.subscribe((state, prevState) => {
+      if (state.busPositions !== prevState.busPositions) {
+        this.checkArrivalByPosition();
+      }
+    });
+  }
+
+  /**
+   * 탑승 중인 버스의 목적지를 정합니다.
+   * @returns 해당 버스에 탑승 중이 아니면 false
+   */
+  public setDestination(busNumber: string, station: BusStationDetail): boolean {
+    if (useBoardingStore.getState().boardedBusNumber !== busNumber) {
+      console.warn(
+        `🔔 [DestinationAlert] ${busNumber} 버스에 탑승 중이 아니어서 목적지를 정할 수 없습니다.`,
+      );
+      return false;
+    }
+
+    useDestinationStore.getState().setDestination({
+      busNumber,
+      stationId: station.id,
+      stationName: station.name,
+      sequence: station.sequence,
+      latitude: station.location?.latitude ?? null,
+      longitude: station.location?.longitude ?? null,
+    });
+    // 화면을 꺼 두어도 시스템 알림으로 받을 수 있도록 권한 요청 (이미 정했으면 다시 묻지 않음)
+    notificationService.requestPermission().catch(error => {
+      console.warn('🔔 [DestinationAlert] 알림 권한 요청 실패:', error);
+    });
+    return true;
+  }
+
+  public clearDestination(): void {
+    useDestinationStore.getState().clearDestination();
+  }
+
+  private handleDestinationChange() {
+    this.stopRefresh();
+    // 목적지가 바뀌거나 하차하면 이전 목적지의 알림은 지움
+    notificationService.cancel(DESTINATION_NOTIFICATION_ID);
+    if (!useDestinationStore.getState().destination) {
+      return;
+    }
+    this.refreshProgress();
+    this.refreshTimer = setInterval(this.refreshProgress, PROGRESS_REFRESH_MS);
+  }
+
+  private stopRefresh() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private refreshProgress = async () => {
+    const {destination} = useDestinationStore.getState();
+    if (!destination) {
+      return;
+    }
+    try {
+      const stations = await busService.getBusStationsDetail(
+        destination.busNumber,
+      );
+      // 조회하는 동안 목적지가 바뀌었으면 버림
+      if (useDestinationStore.getState().destination !== destination) {
+        return;
+      }
+      this.applyProgress(getRemainingStops(stations, destination.stationId));
+    } catch (error) {
+      console.warn(
+        '🔔 [DestinationAlert] 정류장 정보를 불러오지 못했습니다:',
+        error,
+      );
+    }
+  };
+
+  // 정류장 상세는 주기적으로만 갱신되므로 실시간 버스 위치로 도착을 먼저 확인
+  private checkArrivalByPosition() {
+    const {destination, lastAlertLevel} = useDestinationStore.getState();
+    if (
+      !destination ||
+      destination.latitude === null ||
+      destination.longitude === null ||
+      lastAlertLevel === 'arrived'
+    ) {
+      return;
+    }
+    const bus = useBusStore
+      .getState()
+      .busPositions.find(item => item.busNumber === destination.busNumber);
+    if (
+      bus &&
+      getDistanceMeters(
+        bus.latitude,
+        bus.longitude,
+        destination.latitude,
+        destination.longitude,
+      ) <= ARRIVAL_RADIUS_M
+    ) {
+      this.applyProgress(0);
+    }
+  }
+
+  private applyProgress(remainingStops: number | null) {
+    const {destination, lastAlertLevel, setProgress} =
+      useDestinationStore.getState();
+    if (!destination) {
+      return;
+    }
+
+    const level = getDestinationAlertLevel(remainingStops);
+    if (level && isCloserAlertLevel(level, lastAlertLevel)) {
+      setProgress(remainingStops, level);
+      this.alert(level, destination.stationName);
+    } else {
+      setProgress(remainingStops, lastAlertLevel);
+    }
+    if (level === 'arrived') {
+      // 도착한 뒤에는 하차할 때까지 더 조회하지 않음
+      this.stopRefresh();
+    }
+  }
+
+  private alert(level: DestinationAlertLevel, stationName: string) {
+    console.log(`🔔 [DestinationAlert] ${stationName} 알림: ${level}`);
+    Vibration.vibrate(VIBRATION_PATTERNS[level]);
+
+    switch (level) {
+      case 'twoStopsBefore':
+        notificationService.notify({
+          id: DESTINATION_NOTIFICATION_ID,
+          channelId: 'boarding',
+          title: '하차 알림',
+          body: `${stationName}까지 두 정류장 남았어요. 내릴 준비를 해주세요.`,
+          level: 'info',
+        });
+        break;
+      case 'oneStopBefore':
+        notificationService.notify({
+          id: DESTINATION_NOTIFICATION_ID,
+          channelId: 'boarding',
+          title: '하차 알림',
+          body: `다음 정류장은 ${stationName}입니다. 하차 벨을 눌러주세요!`,
+          level: 'warning',
+        });
+        break;
+      case 'arrived':
+        // 앱을 보고 있으면 아래 알림창으로 안내
+        notificationService.notify({
+          id: DESTINATION_NOTIFICATION_ID,
+          channelId: 'boarding',
+          title: '목적지 도착',
+          body: `${stationName}에 도착했습니다. 내리세요!`,
+          level: 'warning',
+          showInApp: false,
+        });
+        Alert.alert('목적지 도착', `${stationName}에 도착했습니다. 내리세요!`, [
+          {text: '확인', onPress: () => Vibration.cancel()},
+        ]);
+        break;
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const destinationAlertService = new DestinationAlertService();
+export default destinationAlertService;
@@ -0,0 +1,63 @@
+// src/services/destinationProgress.tsx
+import type {BusStationDetail} from '../api/services/busService';
+import type {DestinationAlertLevel} from '../store/useDestinationStore';
+
+/**
+ * 탑승한 버스의 정류장 목록으로 목적지까지 남은 정류장 수와 하차 알림 단계를 계산하는 함수들.
+ * 정류장 상세의 isCurrentStation은 버스가 지금 향하고 있는 정류장입니다.
+ */
+
+// 알림 단계 (뒤로 갈수록 목적지에 가까움)
+const ALERT_LEVEL_ORDER: DestinationAlertLevel[] = [
+  'twoStopsBefore',
+  'oneStopBefore',
+  'arrived',
+];
+
+/**
+ * 목적지까지 남은 정류장 수 (목적지 포함).
+ * 버스가 목적지로 향하고 있으면 1, 목적지를 지났으면 0 이하입니다.
+ * @returns 목적지가 노선에 없거나 버스 위치를 모르면 null
+ */
+export const getRemainingStops = (
+  stations: BusStationDetail[],
+  destinationStationId: string,
+): number | null => {
+  const sorted = [...stations].sort((a, b) => a.sequence - b.sequence);
+  const destinationIndex = sorted.findIndex(
+    station => station.id === destinationStationId,
+  );
+  if (destinationIndex < 0) {
+    return null;
+  }
+  if (sorted[destinationIndex].isPassed) {
+    return 0;
+  }
+
+  const currentIndex = sorted.findIndex(station => station.isCurrentStation);
+  if (currentIndex < 0) {
+    return null;
+  }
+  return destinationIndex - currentIndex + 1;
+};
+
+// 남은 정류장 수에 맞는 알림 단계 (아직 멀면 null)
+export const getDestinationAlertLevel = (
+  remainingStops: number | null,
+): DestinationAlertLevel | null => {
+  if (remainingStops === null || remainingStops > 2) {
+    return null;
+  }
+  if (remainingStops <= 0) {
+    return 'arrived';
+  }
+  return remainingStops === 1 ? 'oneStopBefore' : 'twoStopsBefore';
+};
+
+// 새 단계가 이미 알린 단계보다 목적지에 가까운지
+export const isCloserAlertLevel = (
+  level: DestinationAlertLevel,
+  lastLevel: DestinationAlertLevel | null,
+): boolean =>
+  lastLevel === null ||
+  ALERT_LEVEL_ORDER.indexOf(level) > ALERT_LEVEL_ORDER.indexOf(lastLevel);
@@ -1,17 +1,61 @@
 import { AppState, AppStateStatus, Platform } from 'react-native';
-import Geolocation, { GeolocationResponse, GeolocationError } from '@react-native-community/geolocation';
+import Geolocation, { GeolocationResponse } from '@react-native-community/geolocation';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
 import { check, PERMISSIONS, request, RESULTS, PermissionStatus } from 'react-native-permissions';
-import { WebSocketWrapper } from '../api/services/websocketService';
+import { ConnectionQuality, WebSocketWrapper } from '../api/services/websocketService';
 import { authService } from '../api/services/authService';
 import { busService } from '../api/services/busService';
+import authSession from '../api/authSession';
 import useBusStore, { BusPosition } from '../store/useBusStore';
-import useBoardingStore from '../store/useBoardingStore';
+import useBoardingStore, { BoardingSource } from '../store/useBoardingStore';
+import { ReconnectScheduler } from './reconnectScheduler';
+import outboundQueue from './outboundQueue';
+import trackingSessionManager from './trackingSessionManager';
+import { AdaptiveLocationWatcher } from './adaptiveLocationWatcher';
+import { BoardingDetector } from './boardingDetector';
+import { BoardingStateTracker } from './boardingStateTracker';
+import tripRecorder from './tripRecorder';
+import notificationService from './notificationService';
+import { NotificationChannelId } from './notificationChannels';
+import {
+  BoardingUpdateMessage,
+  BusUpdateMessage,
+  ErrorMessage,
+  InboundMessage,
+  InboundMessageHandler,
+  InboundMessageType,
+  MessageHandlerRegistry,
+  PROTOCOL_VERSION,
+  WelcomeMessage,
+  QueueableMessage,
+  createLocationMessage,
+  isProtocolCompatible,
+} from '../api/services/websocketProtocol';
 
 interface UserInfo {
   userId: string;
   organizationId: string;
 }
-type StatusChangeListener = (isConnected: boolean) => void;
+
+// 연결 상태
+// - reconnecting: 연결이 끊겨 재연결 대기 중
+// - offline: 네트워크가 없어 재연결 대기 중 (네트워크가 돌아오면 바로 재연결)
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  // 다음 재연결 예정 시각 (ms), 재연결 대기 중이 아니면 null
+  nextRetryAt: number | null;
+  // 연속으로 실패한 재연결 시도 횟수
+  attempt: number;
+  // 왕복 시간, 마지막 메시지 수신 시각 등 연결 품질
+  quality: ConnectionQuality;
+}
+
+type StatusChangeListener = (status: ConnectionStatus) => void;
+
+// 서버나 사용자가 탑승/하차를 정한 뒤 이 시간 동안은 기기 추정으로 상태를 바꾸지 않음
+const CONFIRMED_BOARDING_GRACE_MS = 2 * 60 * 1000;
 type ToastCallback = (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
 
 class GlobalWebSocketService {
@@ -21,20 +65,46 @@ class GlobalWebSocketService {
   private isConnecting = false;
   private websocket: WebSocketWrapper | null = null;
   
-  // --- 수정: watchId 대신 interval ID를 관리합니다. ---
-  private locationUpdateInterval: NodeJS.Timeout | null = null;
-  private readonly LOCATION_UPDATE_INTERVAL_MS = 10000; // 10초
+  // 상황(정류장 근처, 탑승 여부, 배터리 절약 설정)에 따라 위치 확인 주기를 조절
+  private locationWatcher = new AdaptiveLocationWatcher(position => this.handleLocationUpdate(position));
+  // 서버 감지를 보조하는 기기 탑승/하차 추정
+  private boardingDetector = new BoardingDetector();
+  // 정류장 접근/대기, 탑승·하차 확인 중 단계 판단
+  private boardingTracker = new BoardingStateTracker();
+  private boardingSource: BoardingSource | null = null;
+  private lastConfirmedBoardingAt = 0;
+  private isStartingLocationTracking = false;
+  // 기기의 네트워크 연결 여부 (NetInfo 기준, 확인 전에는 연결된 것으로 봄)
+  private hasNetwork = true;
 
   private statusListeners: Set<StatusChangeListener> = new Set();
-  private toastCallback: ToastCallback | null = null;
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private reconnectAttempts = 0;
-  private readonly MAX_RECONNECT_ATTEMPTS = 10;
+  // 시도 횟수 제한 없이 지수 백오프 + 지터로 재연결
+  private reconnectScheduler = new ReconnectScheduler(
+    () => this.connect(),
+    () => this.notifyStatusChange(),
+  );
   private syncInterval: NodeJS.Timeout | null = null;
+  private messageHandlers = new MessageHandlerRegistry();
   
 
   private constructor() {
     AppState.addEventListener('change', this.handleAppStateChange);
+    authSession.onTokenRefreshed(this.handleTokenRefreshed);
+    authSession.onSignedOut(() => this.shutdown());
+    NetInfo.addEventListener(this.handleNetworkChange);
+    // 위치 추적은 추적 세션이 진행 중일 때만 실행 (2시간이 지나면 자동 중지)
+    trackingSessionManager.subscribe(isActive => {
+      if (isActive) {
+        this.startLocationTracking();
+      } else {
+        this.stopLocationTracking();
+      }
+    });
+
+    this.messageHandlers.on('busUpdate', this.handleBusUpdate);
+    this.messageHandlers.on('boarding_update', this.handleBoardingUpdate);
+    this.messageHandlers.on('welcome', this.handleWelcome);
+    this.messageHandlers.on('error', this.handleServerError);
   }
 
   public static getInstance(): GlobalWebSocketService {
@@ -64,11 +134,14 @@ class GlobalWebSocketService {
         onMessage: this.onWebSocketMessage,
         onError: this.onWebSocketError,
         onClose: this.onWebSocketClose,
+        onQualityChange: () => this.notifyStatusChange(),
       });
 
       await this.connect();
       this.startPeriodicBusSync();
       this.isInitialized = true;
+      // 연결되지 않아도 위치는 큐에 보관했다가 재연결 후 전송
+      this.startLocationTracking();
       return true;
     } catch (error) {
       console.error('❌ [GlobalWS] 초기화 중 심각한 오류 발생:', error);
@@ -83,14 +156,47 @@ class GlobalWebSocketService {
     return this.initialize();
   }
 
+  // 연결을 완전히 종료합니다. 다음 initialize 호출 시 새로 초기화됩니다.
+  public shutdown(): void {
+    this.cleanup();
+    this.isInitialized = false;
+    this.userInfo = null;
+    outboundQueue.clear();
+    trackingSessionManager.stop();
+    this.boardingDetector.reset();
+    this.boardingSource = null;
+    useBoardingStore.getState().reset();
+  }
+
+  // 연결되어 있지 않으면 대기 중인 재연결을 건너뛰고 바로 연결합니다.
+  // 로그인 전에 초기화에 실패했다면 지금 다시 초기화합니다.
   public async ensureConnection(): Promise<void> {
+    if (!this.isInitialized) {
+      await this.initialize();
+      return;
+    }
     if (!this.websocket?.isConnected() && !this.isConnecting) {
+      this.reconnectScheduler.reset();
       await this.connect();
     }
   }
 
-  public getConnectionStatus = (): boolean => {
-    return this.websocket?.isConnected() ?? false;
+  public getConnectionStatus = (): ConnectionStatus => {
+    let state: ConnectionState = 'disconnected';
+    if (this.websocket?.isConnected()) {
+      state = 'connected';
+    } else if (this.isConnecting) {
+      state = 'connecting';
+    } else if (this.reconnectScheduler.isScheduled()) {
+      state = this.hasNetwork ? 'reconnecting' : 'offline';
+    }
+
+    return {
+      state,
+      nextRetryAt: this.reconnectScheduler.getRetryAt(),
+      attempt: this.reconnectScheduler.getAttempt(),
+      quality: this.websocket?.getQuality() ?? { rttMs: null, lastMessageAt: null, level: 'unknown' },
+    };
   }
   
   public subscribe(listener: StatusChangeListener): () => void {
@@ -98,67 +204,152 @@ class GlobalWebSocketService {
     return () => this.statusListeners.delete(listener);
   }
 
+  /**
+   * 수신 메시지 타입별 핸들러를 등록합니다.
+   * @returns 등록 해제 함수
+   */
+  public onMessage<K extends InboundMessageType>(type: K, handler: InboundMessageHandler<K>): () => void {
+    return this.messageHandlers.on(type, handler);
+  }
+
+  // 앱을 보고 있을 때 알림을 띄울 화면 토스트 연결
   public setToastCallback(callback: ToastCallback) {
-    this.toastCallback = callback;
+    notificationService.setToastHandler(callback);
   }
 
   private onWebSocketOpen = () => {
     this.isConnecting = false;
-    this.reconnectAttempts = 0;
-    this.notifyStatusChange(true);
+    this.reconnectScheduler.reset();
+    this.notifyStatusChange();
     if (this.userInfo) {
       this.websocket?.subscribeToOrganization(this.userInfo.organizationId);
     }
     this.startLocationTracking(); 
     this.syncFullBusList();
+    this.flushOutboundQueue();
   };
   
-  private onWebSocketMessage = (data: any) => {
-    if (typeof data === 'object' && data !== null) {
-      if (data.type === 'busUpdate' && data.data) {
-        const busData: BusPosition = data.data;
-        if (Math.abs(busData.latitude) < 1 && Math.abs(busData.longitude) < 1) {
-            return;
-        }
-        const currentPositions = useBusStore.getState().busPositions;
-        const index = currentPositions.findIndex(p => p.busNumber === busData.busNumber);
-        let newPositions = [...currentPositions];
-        if (index > -1) {
-          newPositions[index] = busData;
-        } else {
-          newPositions.push(busData);
-        }
-        useBusStore.getState().setBusPositions(newPositions.filter(p => p.operate));
+  private onWebSocketMessage = (message: InboundMessage) => {
+    this.messageHandlers.dispatch(message);
+  };
+
+  // --- 수신 메시지 타입별 핸들러 ---
+
+  private handleBusUpdate = (message: BusUpdateMessage) => {
+    const busData: BusPosition = message.data;
+    if (Math.abs(busData.latitude) < 1 && Math.abs(busData.longitude) < 1) {
         return;
+    }
+    const currentPositions = useBusStore.getState().busPositions;
+    const index = currentPositions.findIndex(p => p.busNumber === busData.busNumber);
+    let newPositions = [...currentPositions];
+    if (index > -1) {
+      // 실시간 보고에 없는 노선 이름은 이전 값을 유지
+      newPositions[index] = { ...currentPositions[index], ...busData };
+    } else {
+      newPositions.push(busData);
+    }
+    useBusStore.getState().setBusPositions(newPositions.filter(p => p.operate));
+    if (busData.operate) {
+      this.boardingDetector.addBusPoint(busData.busNumber, {
+        latitude: busData.latitude,
+        longitude: busData.longitude,
+        timestamp: Date.now(),
+      });
+    }
+  };
+
+  // 서버 감지 결과는 기기 추정보다 우선합니다.
+  private handleBoardingUpdate = (message: BoardingUpdateMessage) => {
+    const { isBoarded, boardedBusNumber } = useBoardingStore.getState();
+    if (message.status === 'boarded' && message.data?.busNumber) {
+      const busNumber = message.data.busNumber;
+      this.markConfirmedBoarding('server');
+      if (isBoarded && boardedBusNumber === busNumber) {
+        console.log(`🚌 [GlobalWS] 서버가 ${busNumber} 버스 탑승을 확인했습니다.`);
+        return;
+      }
+      if (isBoarded) {
+        console.warn(`🚌 [GlobalWS] 기기 추정(${boardedBusNumber})과 서버 감지(${busNumber})가 달라 서버 결과로 바꿉니다.`);
       }
-      if (data.type === 'boarding_update') {
-        if (data.status === 'boarded' && data.data?.busNumber) {
-          const busNumber = data.data.busNumber;
-          this.showToast(`${busNumber} 버스 탑승이 감지되었습니다!`, 'success');
-          useBoardingStore.getState().boardBus(busNumber);
-        } else if (data.status === 'alighted') {
-          this.showToast(`버스에서 하차했습니다.`, 'info');
-          useBoardingStore.getState().alightBus();
-        }
+      this.showToast(`${busNumber} 버스 탑승이 감지되었습니다!`, 'success');
+      useBoardingStore.getState().boardBus(busNumber, 'server');
+    } else if (message.status === 'alighted') {
+      this.markConfirmedBoarding('server');
+      if (!isBoarded) {
+        return;
       }
+      this.showToast(`버스에서 하차했습니다.`, 'info');
+      useBoardingStore.getState().alightBus('server');
+    }
+  };
+
+  // 사용자가 직접 탑승/하차를 입력했을 때 (manualBoardingService)
+  public markManualBoarding() {
+    this.markConfirmedBoarding('manual');
+  }
+
+  private markConfirmedBoarding(source: Exclude<BoardingSource, 'client'>) {
+    this.boardingSource = source;
+    this.lastConfirmedBoardingAt = Date.now();
+    this.boardingDetector.resetUserTrack();
+  }
+
+  /**
+   * 기기 추정 결과를 탑승 상태에 반영합니다.
+   * - 서버나 사용자가 최근에 탑승/하차를 정했으면 그 결과를 유지합니다.
+   * - 서버나 사용자가 정한 탑승은 소켓이 끊겨 있을 때만 기기 추정으로 하차 처리합니다.
+   */
+  private applyBoardingInference() {
+    if (Date.now() - this.lastConfirmedBoardingAt < CONFIRMED_BOARDING_GRACE_MS) {
+      return;
+    }
+    const { boardedBusNumber } = useBoardingStore.getState();
+    const inference = this.boardingDetector.evaluate(boardedBusNumber);
+    if (!inference) {
+      this.boardingTracker.applySuspicion(this.boardingDetector.getSuspicion(boardedBusNumber));
+      return;
+    }
+
+    console.log(`🧭 [GlobalWS] 기기 추정: ${inference.type} ${inference.busNumber} (신뢰도 ${inference.confidence.toFixed(2)})`);
+    if (inference.type === 'boarded') {
+      this.boardingSource = 'client';
+      this.showToast(`${inference.busNumber} 버스에 탑승한 것 같아요.`, 'info');
+      useBoardingStore.getState().boardBus(inference.busNumber, 'client', inference.confidence);
+    } else if (this.boardingSource === 'client' || !this.websocket?.isConnected()) {
+      this.boardingSource = 'client';
+      this.showToast(`${inference.busNumber} 버스에서 내린 것 같아요.`, 'info');
+      useBoardingStore.getState().alightBus('client', inference.confidence);
     } else {
-        console.warn("[GlobalWS] 예상치 못한 타입의 WebSocket 메시지 수신:", data);
+      // 서버가 정한 탑승은 서버의 하차 이벤트를 기다리는 동안 하차 확인 중으로 표시
+      this.boardingTracker.applySuspicion({ type: 'alighting', busNumber: inference.busNumber, confidence: inference.confidence });
+    }
+  }
+
+  private handleWelcome = (message: WelcomeMessage) => {
+    console.log(`🔵 [GlobalWS] 서버 프로토콜 버전 v${message.protocolVersion} (앱 v${PROTOCOL_VERSION})`);
+    if (!isProtocolCompatible(message)) {
+      this.showToast('앱을 최신 버전으로 업데이트해야 실시간 정보를 받을 수 있습니다.', 'warning', 'serviceAlerts');
     }
   };
 
-  private onWebSocketError = (error: any) => {
+  private handleServerError = (message: ErrorMessage) => {
+    console.warn('❌ [GlobalWS] 서버 오류 메시지:', message.code, message.message);
+  };
+
+  private onWebSocketError = (_error: any) => {
     this.isConnecting = false;
-    this.notifyStatusChange(false);
     this.scheduleReconnect();
+    this.notifyStatusChange();
   };
   
   private onWebSocketClose = (event: any) => {
     this.isConnecting = false;
-    this.notifyStatusChange(false);
     useBusStore.getState().clearBusPositions();
     if (event.code !== 1000) {
         this.scheduleReconnect();
     }
+    this.notifyStatusChange();
   };
   
   private syncFullBusList = async () => {
@@ -172,6 +363,7 @@ class GlobalWebSocketService {
           latitude: bus.latitude,
           longitude: bus.longitude,
           operate: bus.operate,
+          routeName: bus.routeName,
       })));
     } catch (error) {
       console.error('❌ [GlobalWS] 전체 버스 목록 동기화 실패:', error);
@@ -191,29 +383,91 @@ class GlobalWebSocketService {
   private connect = async (): Promise<void> => {
     if (this.websocket?.isConnected() || this.isConnecting || !this.userInfo || !this.websocket) return;
     this.isConnecting = true;
-    this.websocket.connect('/ws/passenger');
+    this.notifyStatusChange();
+    const token = await authSession.getAccessToken();
+    this.websocket.connect('/ws/passenger', token);
+  };
+
+  // 토큰이 재발급되면 새 토큰으로 다시 연결
+  private handleTokenRefreshed = () => {
+    if (!this.isInitialized || !this.websocket) return;
+    console.log('🔐 [GlobalWS] 토큰 재발급으로 WebSocket을 다시 연결합니다.');
+    this.reconnectScheduler.reset();
+    this.websocket.disconnect();
+    this.isConnecting = false;
+    this.notifyStatusChange();
+    this.connect();
   };
 
   private scheduleReconnect = () => {
-    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
-    if (this.reconnectAttempts >= this.MAX_RECONNECT_ATTEMPTS) return;
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-    this.reconnectTimer = setTimeout(() => {
-      this.reconnectAttempts++;
-      this.connect();
-    }, delay);
+    if (!this.isInitialized || !this.websocket) return;
+    this.reconnectScheduler.schedule();
+  };
+
+  // 기기의 네트워크 연결 변화 (인터넷 연결 여부를 알 수 없으면(null) 연결된 것으로 봄)
+  private handleNetworkChange = (networkState: NetInfoState) => {
+    const hasNetwork =
+      networkState.isConnected !== false && networkState.isInternetReachable !== false;
+    if (hasNetwork === this.hasNetwork) return;
+    this.hasNetwork = hasNetwork;
+    this.notifyStatusChange();
+    if (hasNetwork) {
+      this.handleNetworkRegained();
+    }
+  };
+
+  // 네트워크가 돌아오면 백오프를 초기화하고 바로 재연결
+  private handleNetworkRegained = () => {
+    if (!this.isInitialized || this.websocket?.isConnected() || this.isConnecting) return;
+    console.log('🔁 [GlobalWS] 네트워크가 복구되어 바로 재연결합니다.');
+    this.reconnectScheduler.retryNow();
   };
   
   /**
-   * *** 중요: 시간 기반으로 위치를 주기적으로 가져오도록 로직 전면 수정 ***
+   * 추적 세션이 진행 중이면 위치를 받아 전송합니다. (주기는 locationSamplingPolicy 참고)
+   * 앱이 백그라운드에 있어도 계속 받을 수 있도록 '항상 허용' 권한을 요청합니다.
    */
   private startLocationTracking = async () => {
-    if (this.locationUpdateInterval) {
+    if (this.locationWatcher.isRunning() || this.isStartingLocationTracking) {
       console.log('📍 [GlobalWS] 위치 추적이 이미 실행 중입니다.');
       return;
     }
-    console.log('📍 [GlobalWS] 시간 기반 위치 추적을 시작합니다.');
+    this.isStartingLocationTracking = true;
+    try {
+      await trackingSessionManager.ready();
+      if (!this.userInfo || !trackingSessionManager.isActive()) {
+        console.log('📍 [GlobalWS] 진행 중인 추적 세션이 없어 위치 추적을 시작하지 않습니다.');
+        return;
+      }
+      if (!(await this.requestLocationPermissions())) {
+        return;
+      }
+      // 권한 요청 사이에 세션이 종료되었을 수 있음
+      if (!trackingSessionManager.isActive() || this.locationWatcher.isRunning()) {
+        return;
+      }
+      console.log('📍 [GlobalWS] 위치 추적을 시작합니다.');
+      this.locationWatcher.start();
+      this.boardingTracker.start();
+    } finally {
+      this.isStartingLocationTracking = false;
+    }
+  };
 
+  private stopLocationTracking = () => {
+    if (this.locationWatcher.isRunning()) {
+      console.log('📍 [GlobalWS] 위치 추적을 중지합니다.');
+      this.locationWatcher.stop();
+      this.boardingTracker.stop();
+    }
+  };
+
+  /**
+   * 위치 권한을 확인하고 없으면 요청합니다.
+   * '앱 사용 중' 권한만 있어도 추적은 시작하지만, 백그라운드 권한이 없으면 안내합니다.
+   * @returns 위치 추적을 시작할 수 있으면 true
+   */
+  private requestLocationPermissions = async (): Promise<boolean> => {
     const locationPermission = Platform.OS === 'ios' 
         ? PERMISSIONS.IOS.LOCATION_WHEN_IN_USE 
         : PERMISSIONS.ANDROID.ACCESS_FINE_LOCATION;
@@ -226,47 +480,93 @@ class GlobalWebSocketService {
     if (status !== RESULTS.GRANTED) {
       this.showToast('위치 권한이 거부되어 위치 추적을 시작할 수 없습니다.', 'error');
       console.error('❌ [GlobalWS] 위치 권한이 최종적으로 거부되었습니다.');
-      return;
+      return false;
     }
 
-    // 10초마다 위치를 가져와서 전송
-    this.locationUpdateInterval = setInterval(() => {
-      Geolocation.getCurrentPosition(
-        this.handleLocationUpdate, // 성공 시 전송
-        (error: GeolocationError) => {
-          console.error(`❌ [GlobalWS] getCurrentPosition 오류 (코드 ${error.code}): ${error.message}`);
-        },
-        { enableHighAccuracy: true, timeout: 5000, maximumAge: 1000 }
-      );
-    }, this.LOCATION_UPDATE_INTERVAL_MS);
+    // 백그라운드 권한은 '앱 사용 중' 권한을 받은 뒤에만 요청할 수 있음
+    // (Android 10 미만은 ACCESS_FINE_LOCATION에 포함)
+    const needsBackgroundPermission = Platform.OS === 'ios' || Number(Platform.Version) >= 29;
+    let backgroundStatus: PermissionStatus = RESULTS.GRANTED;
+    if (needsBackgroundPermission) {
+      const backgroundPermission = Platform.OS === 'ios'
+        ? PERMISSIONS.IOS.LOCATION_ALWAYS
+        : PERMISSIONS.ANDROID.ACCESS_BACKGROUND_LOCATION;
+      backgroundStatus = await check(backgroundPermission);
+      if (backgroundStatus !== RESULTS.GRANTED && backgroundStatus !== RESULTS.BLOCKED) {
+        backgroundStatus = await request(backgroundPermission);
+      }
+    }
+
+    const hasBackgroundPermission = backgroundStatus === RESULTS.GRANTED;
+    Geolocation.setRNConfiguration({
+      skipPermissionRequests: true,
+      authorizationLevel: hasBackgroundPermission ? 'always' : 'whenInUse',
+      enableBackgroundLocationUpdates: hasBackgroundPermission,
+      locationProvider: 'auto',
+    });
+
+    if (!hasBackgroundPermission) {
+      this.showToast("위치 권한을 '항상 허용'으로 바꾸면 앱을 닫아도 자동 탑승이 감지됩니다.", 'warning');
+      console.warn('⚠️ [GlobalWS] 백그라운드 위치 권한이 없어 앱 사용 중에만 위치를 추적합니다.');
+    }
+    return true;
   };
-  
+
   // handleLocationUpdate는 이제 Throttling 없이 단순 전송만 담당
   private handleLocationUpdate = (position: GeolocationResponse) => {
-    if (!this.websocket?.isConnected() || !this.userInfo) {
+    if (!this.userInfo) {
+      return;
+    }
+    // 백그라운드에서는 만료 타이머가 늦게 실행될 수 있으므로 보내기 전에 다시 확인
+    if (!trackingSessionManager.isActive()) {
+      this.stopLocationTracking();
       return;
     }
     
     console.log(`✅ [GlobalWS] 새 위치 수신: (Lat: ${position.coords.latitude}, Lng: ${position.coords.longitude})`);
 
-    try {
-      const { latitude, longitude } = position.coords;
-      this.websocket.sendLocationUpdate({
-        userId: this.userInfo.userId,
-        organizationId: this.userInfo.organizationId,
-        latitude,
-        longitude,
-        timestamp: Date.now(),
-      });
-      console.log('🚀 [GlobalWS] 위치 정보 전송 성공!');
-    } catch (error) {
-      console.error('❌ [GlobalWS] 위치 정보 전송 중 예외 발생:', error);
+    const { latitude, longitude } = position.coords;
+    this.boardingDetector.addUserPoint({ latitude, longitude, timestamp: position.timestamp });
+    this.boardingTracker.handlePosition({ latitude, longitude, timestamp: position.timestamp });
+    this.applyBoardingInference();
+    tripRecorder.addPathPoint({ latitude, longitude, timestamp: position.timestamp });
+
+    this.sendOrQueue(createLocationMessage({
+      userId: this.userInfo.userId,
+      organizationId: this.userInfo.organizationId,
+      latitude,
+      longitude,
+      timestamp: Date.now(),
+    }));
+  };
+
+  /**
+   * 연결되어 있고 밀린 메시지가 없으면 바로 보내고, 아니면 큐에 보관합니다.
+   * (보관된 메시지보다 먼저 보내지 않도록 순서를 유지)
+   */
+  private sendOrQueue = (message: QueueableMessage) => {
+    if (this.websocket?.isConnected() && outboundQueue.size() === 0 && this.websocket.send(message)) {
+      console.log(`🚀 [GlobalWS] ${message.type} 메시지 전송 성공!`);
+      return;
     }
+    outboundQueue.enqueue(message);
+    this.flushOutboundQueue();
+  };
+
+  private flushOutboundQueue = () => {
+    const websocket = this.websocket;
+    if (!websocket?.isConnected()) return;
+    outboundQueue.flush(message => websocket.isConnected() && websocket.send(message));
   };
 
   private handleAppStateChange = (nextAppState: AppStateStatus) => {
     if (nextAppState === 'active') {
-      this.ensureConnection();
+      // 포그라운드로 돌아오면 대기 중인 재연결을 건너뛰고 바로 연결
+      if (this.isInitialized) {
+        this.ensureConnection();
+        // 앱을 다시 열면 추적 세션을 2시간 연장
+        trackingSessionManager.startOrExtend();
+      }
       this.syncFullBusList();
       this.startPeriodicBusSync();
     } else {
@@ -274,29 +574,30 @@ class GlobalWebSocketService {
     }
   };
 
-  private notifyStatusChange(isConnected: boolean) {
-    this.statusListeners.forEach(listener => listener(isConnected));
+  private notifyStatusChange() {
+    const status = this.getConnectionStatus();
+    this.statusListeners.forEach(listener => listener(status));
   }
   
-  private showToast: ToastCallback = (message, type = 'info') => {
-    this.toastCallback?.(message, type);
-  }
+  // 앱을 보고 있으면 토스트로, 백그라운드면 시스템 알림으로 띄움 (notificationService)
+  public showToast = (
+    message: string,
+    type: Parameters<ToastCallback>[1] = 'info',
+    channelId: NotificationChannelId = 'boarding',
+  ) => {
+    notificationService.notify({ channelId, body: message, level: type });
+  };
 
   // --- 수정: cleanup 로직 변경 ---
   private cleanup = () => {
-    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
-    this.reconnectTimer = null;
+    this.reconnectScheduler.cancel();
 
-    // watchId 대신 interval을 clear합니다.
-    if (this.locationUpdateInterval) {
-      clearInterval(this.locationUpdateInterval);
-      this.locationUpdateInterval = null;
-    }
+    this.stopLocationTracking();
 
     this.websocket?.disconnect();
     this.websocket = null;
     this.isConnecting = false;
-    this.notifyStatusChange(false);
+    this.notifyStatusChange();
     this.stopPeriodicBusSync();
   };
 }
@@ -0,0 +1,121 @@
+// src/services/locationSamplingPolicy.tsx
+
+/**
+ * 상황에 따라 위치를 얼마나 자주, 얼마나 정확하게 받을지 정하는 정책.
+ * 정류장 근처에서 버스가 다가올 때는 자주, 가만히 있거나 노선에서 멀 때는 드물게 받고,
+ * 이미 탑승한 뒤에는 낮은 정확도로 받아 배터리 소모를 줄입니다.
+ */
+
+// 샘플링 모드 (우선순위 순)
+// - boarded: 버스에 탑승 중
+// - approaching: 정류장 근처에 있고 운행 중인 버스가 다가오는 중
+// - nearStation: 정류장 근처
+// - farFromRoute: 가장 가까운 정류장도 멀리 있음
+// - stationary: 움직이지 않음
+// - moving: 그 외 이동 중
+export type SamplingMode =
+  | 'boarded'
+  | 'approaching'
+  | 'nearStation'
+  | 'farFromRoute'
+  | 'stationary'
+  | 'moving';
+
+export interface SamplingProfile {
+  mode: SamplingMode;
+  // 위치 갱신 주기 (ms, Android watchPosition interval)
+  intervalMs: number;
+  // 이 거리(m) 이상 움직였을 때만 위치 갱신
+  distanceFilterM: number;
+  enableHighAccuracy: boolean;
+}
+
+export interface SamplingContext {
+  isBoarded: boolean;
+  batterySaver: boolean;
+  // 가장 가까운 정류장까지 거리 (m), 정류장 정보가 없으면 null
+  nearestStationM: number | null;
+  // 가장 가까운 운행 중 버스까지 거리 (m), 없으면 null
+  nearestBusM: number | null;
+  // 이동 속도 (m/s), 알 수 없으면 null
+  speedMps: number | null;
+}
+
+// 정류장 근처로 보는 거리
+export const NEAR_STATION_RADIUS_M = 150;
+// 버스가 다가오는 것으로 보는 거리
+export const BUS_APPROACH_RADIUS_M = 500;
+// 노선에서 멀리 있는 것으로 보는 거리
+export const FAR_FROM_ROUTE_M = 1000;
+// 이 속도 미만이면 멈춰 있는 것으로 봄 (걷는 속도 약 1.2m/s)
+export const STATIONARY_SPEED_MPS = 0.5;
+
+const PROFILES: Record<SamplingMode, Omit<SamplingProfile, 'mode'>> = {
+  approaching: {intervalMs: 5000, distanceFilterM: 5, enableHighAccuracy: true},
+  nearStation: {
+    intervalMs: 10000,
+    distanceFilterM: 10,
+    enableHighAccuracy: true,
+  },
+  moving: {intervalMs: 15000, distanceFilterM: 20, enableHighAccuracy: true},
+  boarded: {intervalMs: 20000, distanceFilterM: 50, enableHighAccuracy: false},
+  stationary: {
+    intervalMs: 60000,
+    distanceFilterM: 30,
+    enableHighAccuracy: false,
+  },
+  farFromRoute: {
+    intervalMs: 60000,
+    distanceFilterM: 100,
+    enableHighAccuracy: false,
+  },
+};
+
+// 배터리 절약 모드에서 주기와 거리 필터에 곱하는 값
+const BATTERY_SAVER_FACTOR = 2;
+
+export const getSamplingMode = (context: SamplingContext): SamplingMode => {
+  if (context.isBoarded) {
+    return 'boarded';
+  }
+
+  const {nearestStationM, nearestBusM, speedMps} = context;
+  if (nearestStationM !== null && nearestStationM <= NEAR_STATION_RADIUS_M) {
+    return nearestBusM !== null && nearestBusM <= BUS_APPROACH_RADIUS_M
+      ? 'approaching'
+      : 'nearStation';
+  }
+  if (nearestStationM !== null && nearestStationM > FAR_FROM_ROUTE_M) {
+    return 'farFromRoute';
+  }
+  if (speedMps !== null && speedMps < STATIONARY_SPEED_MPS) {
+    return 'stationary';
+  }
+  return 'moving';
+};
+
+/**
+ * 현재 상황에 맞는 샘플링 설정을 반환합니다.
+ * 배터리 절약 모드에서는 주기와 거리 필터를 늘리고, 버스가 다가올 때만 높은 정확도를 사용합니다.
+ */
+export const getSamplingProfile = (
+  context: SamplingContext,
+): SamplingProfile => {
+  const mode = getSamplingMode(context);
+  const profile = PROFILES[mode];
+  if (!context.batterySaver) {
+    return {mode, ...profile};
+  }
+
+  return {
+    mode,
+    intervalMs: profile.intervalMs * BATTERY_SAVER_FACTOR,
+    distanceFilterM: profile.distanceFilterM * BATTERY_SAVER_FACTOR,
+    enableHighAccuracy: mode === 'approaching',
+  };
+};
+
+export const isSameProfile = (a: SamplingProfile, b: SamplingProfile) =>
+  a.intervalMs === b.intervalMs &&
+  a.distanceFilterM === b.distanceFilterM &&
+  a.enableHighAccuracy === b.enableHighAccuracy;
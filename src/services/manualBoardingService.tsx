@@ -0,0 +1,128 @@
+// src/services/manualBoardingService.tsx
+import {authService} from '../api/services/authService';
+import {busService, BusBoardingAction} from '../api/services/busService';
+import useBoardingStore, {
+  BoardingStatus,
+  isBoardedPhase,
+} from '../store/useBoardingStore';
+import GlobalWebSocketService from './globalWebSocketService';
+
+/**
+ * 사용자가 직접 입력하는 탑승/하차 처리.
+ * 자동 감지가 틀렸을 때 바로잡을 수 있도록 화면에 먼저 반영(낙관적 업데이트)하고
+ * 서버 요청이 실패하면 이전 상태로 되돌립니다.
+ */
+class ManualBoardingService {
+  private isSubmitting = false;
+
+  public isPending(): boolean {
+    return this.isSubmitting;
+  }
+
+  /**
+   * 버스 탑승을 기록합니다. 다른 버스에 탑승 중이면 그 버스에서 먼저 하차 처리합니다.
+   * @returns 서버 반영에 성공하면 true
+   */
+  public board(busNumber: string): Promise<boolean> {
+    const {boardedBusNumber} = useBoardingStore.getState();
+    const actions: Array<Pick<BusBoardingAction, 'busNumber' | 'action'>> = [];
+    if (boardedBusNumber && boardedBusNumber !== busNumber) {
+      actions.push({busNumber: boardedBusNumber, action: 'ALIGHT'});
+    }
+    actions.push({busNumber, action: 'BOARD'});
+
+    return this.submit(actions, () =>
+      useBoardingStore.getState().boardBus(busNumber, 'manual'),
+    );
+  }
+
+  /**
+   * 현재 탑승 중인 버스에서 하차를 기록합니다.
+   * @returns 서버 반영에 성공하면 true
+   */
+  public alight(): Promise<boolean> {
+    const {boardedBusNumber} = useBoardingStore.getState();
+    if (!boardedBusNumber) {
+      return Promise.resolve(true);
+    }
+
+    return this.submit([{busNumber: boardedBusNumber, action: 'ALIGHT'}], () =>
+      useBoardingStore.getState().alightBus('manual'),
+    );
+  }
+
+  private async submit(
+    actions: Array<Pick<BusBoardingAction, 'busNumber' | 'action'>>,
+    applyOptimistic: () => void,
+  ): Promise<boolean> {
+    if (this.isSubmitting) {
+      console.warn('🙋 [ManualBoarding] 이전 요청을 처리하는 중입니다.');
+      return false;
+    }
+
+    this.isSubmitting = true;
+    // 서버에 반영된 마지막 상태 (실패하면 이 상태로 되돌림)
+    const previousStatus = useBoardingStore.getState().status;
+    let confirmedBusNumber = useBoardingStore.getState().boardedBusNumber;
+    applyOptimistic();
+
+    try {
+      const userInfo = await authService.getUserInfo();
+      const organizationId = userInfo.organizationId;
+      if (!organizationId) {
+        throw new Error('조직 정보가 없는 사용자입니다.');
+      }
+      for (const {busNumber, action} of actions) {
+        const success = await busService.processBusBoarding({
+          busNumber,
+          action,
+          userId: userInfo.email,
+          organizationId,
+        });
+        if (!success) {
+          throw new Error(`${busNumber} ${action} 요청이 거부되었습니다.`);
+        }
+        confirmedBusNumber = action === 'BOARD' ? busNumber : null;
+      }
+
+      console.log(
+        '🙋 [ManualBoarding] 처리 완료:',
+        actions.map(({busNumber, action}) => `${action} ${busNumber}`),
+      );
+      GlobalWebSocketService.getInstance().markManualBoarding();
+      return true;
+    } catch (error) {
+      console.error(
+        '🙋 [ManualBoarding] 처리 실패, 이전 상태로 되돌립니다:',
+        error,
+      );
+      this.rollback(confirmedBusNumber, previousStatus);
+      return false;
+    } finally {
+      this.isSubmitting = false;
+    }
+  }
+
+  /**
+   * 아무 요청도 반영되지 않았으면 이전 상태를 그대로 되돌리고,
+   * 일부만 반영됐으면(이전 버스 하차 후 탑승 실패) 서버 상태에 맞춰 하차로 둡니다.
+   */
+  private rollback(
+    confirmedBusNumber: string | null,
+    previousStatus: BoardingStatus,
+  ): void {
+    const {restoreStatus, alightBus} = useBoardingStore.getState();
+    const previousBusNumber = isBoardedPhase(previousStatus.phase)
+      ? previousStatus.busNumber
+      : null;
+    if (confirmedBusNumber === previousBusNumber) {
+      restoreStatus(previousStatus);
+    } else {
+      alightBus('manual');
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const manualBoardingService = new ManualBoardingService();
+export default manualBoardingService;
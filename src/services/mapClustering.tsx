@@ -0,0 +1,164 @@
+// src/services/mapClustering.tsx
+import type {GeoPoint} from '../api/geo';
+
+/**
+ * 지도 마커를 화면 범위로 거르고(컬링) 줌에 맞게 묶는(클러스터링) 순수 함수 모음.
+ * 정류장이 수천 개인 기관에서도 지도에 올리는 마커 수를 화면 크기만큼으로 유지합니다.
+ */
+
+// 이 줌부터는 묶지 않고 정류장을 하나씩 표시
+export const CLUSTER_MAX_ZOOM = 16;
+// 한 클러스터가 차지하는 화면 칸 크기 (px)
+export const CLUSTER_CELL_PX = 64;
+// 화면 밖으로 이만큼(화면 크기 비율) 더 그려 두어 살짝 움직일 때 마커가 비지 않게 함
+export const VIEWPORT_PADDING_RATIO = 0.25;
+
+// 지도 타일 한 장의 크기 (줌 0에서 전 세계 너비)
+const TILE_SIZE_PX = 256;
+
+// 지도에 보이는 범위 (남서쪽 지점과 북동쪽까지의 차이, 네이버 지도 Region과 같은 형태)
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface MarkerCluster<T> extends GeoPoint {
+  // 하나짜리는 항목 id, 여럿이면 줌과 칸으로 만든 id
+  id: string;
+  items: T[];
+}
+
+export interface ClusterAccessors<T> {
+  getId: (item: T) => string;
+  // 좌표가 없으면 null (지도에 표시하지 않음)
+  getPoint: (item: T) => GeoPoint | null;
+}
+
+// 줌 레벨에서 화면 1px이 차지하는 경도
+export const getDegreesPerPixel = (zoom: number): number =>
+  360 / (TILE_SIZE_PX * 2 ** zoom);
+
+/**
+ * 카메라 중심과 줌, 화면 크기로 보이는 범위를 어림합니다.
+ * 지도가 아직 범위를 알려주지 않았을 때(첫 카메라 이벤트 전) 사용합니다.
+ */
+export const estimateRegion = (
+  center: GeoPoint,
+  zoom: number,
+  widthPx: number,
+  heightPx: number,
+): MapRegion => {
+  const degreesPerPixel = getDegreesPerPixel(zoom);
+  const longitudeDelta = widthPx * degreesPerPixel;
+  const latitudeDelta =
+    heightPx * degreesPerPixel * Math.cos((center.latitude * Math.PI) / 180);
+  return {
+    latitude: center.latitude - latitudeDelta / 2,
+    longitude: center.longitude - longitudeDelta / 2,
+    latitudeDelta,
+    longitudeDelta,
+  };
+};
+
+export const getPaddedBounds = (
+  region: MapRegion,
+  paddingRatio: number = VIEWPORT_PADDING_RATIO,
+): MapBounds => {
+  const latPadding = region.latitudeDelta * paddingRatio;
+  const lngPadding = region.longitudeDelta * paddingRatio;
+  return {
+    south: region.latitude - latPadding,
+    west: region.longitude - lngPadding,
+    north: region.latitude + region.latitudeDelta + latPadding,
+    east: region.longitude + region.longitudeDelta + lngPadding,
+  };
+};
+
+// 줌 레벨의 세계 지도(메르카토르)에서 좌표의 픽셀 위치
+const toWorldPixel = (
+  point: GeoPoint,
+  zoom: number,
+): {x: number; y: number} => {
+  const worldSize = TILE_SIZE_PX * 2 ** zoom;
+  const sinLatitude = Math.sin((point.latitude * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * worldSize,
+    y:
+      (0.5 - Math.log((1 + sinLatitude) / (1 - sinLatitude)) / (4 * Math.PI)) *
+      worldSize,
+  };
+};
+
+export const isInBounds = (point: GeoPoint, bounds: MapBounds): boolean =>
+  point.latitude >= bounds.south &&
+  point.latitude <= bounds.north &&
+  point.longitude >= bounds.west &&
+  point.longitude <= bounds.east;
+
+/**
+ * 범위 안의 항목을 화면 칸(CLUSTER_CELL_PX) 단위로 묶습니다.
+ * 칸은 세계 지도 픽셀 기준 격자라 지도를 옮겨도 같은 줌에서는 묶음이 바뀌지 않습니다.
+ * CLUSTER_MAX_ZOOM 이상이면 묶지 않고 범위 안의 항목만 하나씩 돌려줍니다.
+ */
+export const clusterPoints = <T,>(
+  items: T[],
+  {getId, getPoint}: ClusterAccessors<T>,
+  zoom: number,
+  bounds: MapBounds,
+): MarkerCluster<T>[] => {
+  const zoomLevel = Math.floor(zoom);
+  const shouldCluster = zoomLevel < CLUSTER_MAX_ZOOM;
+
+  const cells = new Map<string, {items: T[]; points: GeoPoint[]}>();
+  const singles: MarkerCluster<T>[] = [];
+
+  items.forEach(item => {
+    const point = getPoint(item);
+    if (!point || !isInBounds(point, bounds)) {
+      return;
+    }
+    if (!shouldCluster) {
+      singles.push({id: getId(item), ...point, items: [item]});
+      return;
+    }
+    const pixel = toWorldPixel(point, zoomLevel);
+    const key = `${Math.floor(pixel.x / CLUSTER_CELL_PX)}:${Math.floor(
+      pixel.y / CLUSTER_CELL_PX,
+    )}`;
+    const cell = cells.get(key) ?? {items: [], points: []};
+    cell.items.push(item);
+    cell.points.push(point);
+    cells.set(key, cell);
+  });
+
+  if (!shouldCluster) {
+    return singles;
+  }
+
+  return [...cells.entries()].map(([key, cell]) => {
+    if (cell.items.length === 1) {
+      return {id: getId(cell.items[0]), ...cell.points[0], items: cell.items};
+    }
+    const latitude =
+      cell.points.reduce((sum, point) => sum + point.latitude, 0) /
+      cell.points.length;
+    const longitude =
+      cell.points.reduce((sum, point) => sum + point.longitude, 0) /
+      cell.points.length;
+    return {
+      id: `cluster-${zoomLevel}-${key}`,
+      latitude,
+      longitude,
+      items: cell.items,
+    };
+  });
+};
@@ -0,0 +1,66 @@
+// src/services/notifeePresenter.tsx
+import notifee, {
+  AndroidImportance,
+  Notification,
+  TriggerType,
+} from '@notifee/react-native';
+import type {
+  AppNotification,
+  NotificationPresenter,
+} from './notificationService';
+import type {NotificationImportance} from './notificationChannels';
+
+const ANDROID_IMPORTANCE: Record<NotificationImportance, AndroidImportance> = {
+  high: AndroidImportance.HIGH,
+  default: AndroidImportance.DEFAULT,
+  low: AndroidImportance.LOW,
+};
+
+const toNotifeeNotification = (
+  notification: AppNotification,
+): Notification => ({
+  // 같은 id로 다시 띄우면 이전 시스템 알림을 대신함
+  id: notification.id,
+  title: notification.title,
+  body: notification.body,
+  android: {
+    channelId: notification.channelId,
+    // 알림을 누르면 앱을 엶
+    pressAction: {id: 'default'},
+  },
+});
+
+/**
+ * notifee로 시스템 알림을 띄우는 NotificationPresenter 구현.
+ * 앱 시작 시 notificationService.setPresenter로 연결합니다.
+ */
+const notifeePresenter: NotificationPresenter = {
+  // Android 알림 채널 생성 (iOS에서는 아무 일도 하지 않음)
+  createChannels: async channels => {
+    await notifee.createChannels(
+      channels.map(channel => ({
+        id: channel.id,
+        name: channel.name,
+        description: channel.description,
+        importance: ANDROID_IMPORTANCE[channel.importance],
+        // notifee는 0을 허용하지 않으므로 첫 대기 시간 0은 1ms로 바꿈
+        vibrationPattern: channel.vibrationPattern?.map(ms => Math.max(1, ms)),
+      })),
+    );
+  },
+
+  present: async notification => {
+    await notifee.displayNotification(toNotifeeNotification(notification));
+  },
+
+  schedule: async (notification, triggerAt) => {
+    await notifee.createTriggerNotification(
+      toNotifeeNotification(notification),
+      {type: TriggerType.TIMESTAMP, timestamp: triggerAt},
+    );
+  },
+
+  cancel: id => notifee.cancelNotification(id),
+};
+
+export default notifeePresenter;
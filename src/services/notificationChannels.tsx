@@ -0,0 +1,62 @@
+// src/services/notificationChannels.tsx
+
+/**
+ * 알림 채널 정의.
+ * 시스템 알림(Android 알림 채널)과 사용자 설정을 채널 단위로 나눕니다.
+ */
+
+// - boarding: 탑승/하차 감지, 하차 알림
+// - arrivals: 즐겨찾기 정류장 도착 알림
+// - events: 이벤트 미션
+// - serviceAlerts: 운행 공지, 앱 업데이트 등 서비스 안내
+export type NotificationChannelId =
+  | 'boarding'
+  | 'arrivals'
+  | 'events'
+  | 'serviceAlerts';
+
+// 시스템 알림 중요도 (high는 화면 상단에 바로 띄움)
+export type NotificationImportance = 'high' | 'default' | 'low';
+
+export interface NotificationChannel {
+  id: NotificationChannelId;
+  name: string;
+  description: string;
+  importance: NotificationImportance;
+  // 시스템 알림 진동 패턴 (ms), null이면 기본 진동
+  vibrationPattern: number[] | null;
+}
+
+export const NOTIFICATION_CHANNELS: Record<
+  NotificationChannelId,
+  NotificationChannel
+> = {
+  boarding: {
+    id: 'boarding',
+    name: '탑승 알림',
+    description: '버스 탑승/하차 감지와 내릴 정류장 알림',
+    importance: 'high',
+    vibrationPattern: [0, 500, 200, 500],
+  },
+  arrivals: {
+    id: 'arrivals',
+    name: '도착 알림',
+    description: '즐겨찾기 정류장에 버스가 곧 도착할 때 알림',
+    importance: 'high',
+    vibrationPattern: [0, 400, 200, 400],
+  },
+  events: {
+    id: 'events',
+    name: '이벤트',
+    description: '이벤트 미션 완료와 보상 안내',
+    importance: 'default',
+    vibrationPattern: null,
+  },
+  serviceAlerts: {
+    id: 'serviceAlerts',
+    name: '운행 공지',
+    description: '운행 중단, 노선 변경, 앱 업데이트 안내',
+    importance: 'default',
+    vibrationPattern: null,
+  },
+};
@@ -0,0 +1,304 @@
+// src/services/notificationService.tsx
+import {AppState, AppStateStatus} from 'react-native';
+import {
+  checkNotifications,
+  requestNotifications,
+  PermissionStatus,
+  RESULTS,
+} from 'react-native-permissions';
+import type {ToastType} from '../components/common/Toast';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationChannelId,
+} from './notificationChannels';
+
+export interface AppNotification {
+  id: string;
+  channelId: NotificationChannelId;
+  title: string;
+  body: string;
+  level: ToastType;
+  createdAt: number;
+}
+
+export interface NotificationRequest {
+  channelId: NotificationChannelId;
+  body: string;
+  // 없으면 채널 이름
+  title?: string;
+  level?: ToastType;
+  // 같은 id로 예약하면 이전 예약을 대신함 (취소할 때도 사용)
+  id?: string;
+  // 앱을 보고 있을 때 토스트로 띄울지 (화면에서 따로 안내하면 false)
+  showInApp?: boolean;
+}
+
+/**
+ * 시스템 알림을 실제로 띄우는 구현 (네이티브 알림 모듈을 감싸서 setPresenter로 연결)
+ */
+export interface NotificationPresenter {
+  createChannels: (channels: NotificationChannel[]) => Promise<void>;
+  present: (notification: AppNotification) => Promise<void>;
+  // 앱이 멈춰 있어도 정해진 시각에 띄움
+  schedule: (notification: AppNotification, triggerAt: number) => Promise<void>;
+  cancel: (id: string) => Promise<void>;
+}
+
+// 앱 상태와 권한처럼 플랫폼에 의존하는 부분 (테스트에서 바꿔 끼움)
+export interface NotificationPlatform {
+  getAppState: () => AppStateStatus;
+  onAppStateChange: (listener: (state: AppStateStatus) => void) => () => void;
+  checkPermission: () => Promise<PermissionStatus>;
+  requestPermission: () => Promise<PermissionStatus>;
+}
+
+type ToastHandler = (message: string, type: ToastType) => void;
+
+interface ScheduledNotification {
+  notification: AppNotification;
+  showInApp: boolean;
+  timer: NodeJS.Timeout | null;
+  // 시스템 알림 모듈에도 예약했는지
+  isPresenterScheduled: boolean;
+}
+
+// 앱을 다시 열었을 때 보여줄 놓친 알림 최대 보관 수
+const MAX_MISSED_NOTIFICATIONS = 20;
+
+/**
+ * 사용자 알림을 한 곳에서 보내는 클래스.
+ * 앱을 보고 있으면 토스트로, 백그라운드면 시스템 알림(NotificationPresenter)으로 띄웁니다.
+ * 시스템 알림 모듈이 없거나 권한이 없으면 모아 두었다가 앱을 다시 열 때 토스트로 보여줍니다.
+ */
+export class NotificationService {
+  private platform: NotificationPlatform;
+  private toastHandler: ToastHandler | null = null;
+  private presenter: NotificationPresenter | null = null;
+  // 마지막으로 확인한 알림 권한 (앱으로 돌아올 때마다 다시 확인)
+  private permission: PermissionStatus | null = null;
+  private missed: AppNotification[] = [];
+  private scheduled = new Map<string, ScheduledNotification>();
+  private sequence = 0;
+
+  constructor(platform: NotificationPlatform) {
+    this.platform = platform;
+    platform.onAppStateChange(state => {
+      if (state === 'active') {
+        this.permission = null;
+        this.flushMissed();
+      }
+    });
+  }
+
+  // 화면의 토스트 (ToastProvider가 마운트되면 연결)
+  public setToastHandler(handler: ToastHandler | null): void {
+    this.toastHandler = handler;
+    if (handler && this.isAppActive()) {
+      this.flushMissed();
+    }
+  }
+
+  public setPresenter(presenter: NotificationPresenter | null): void {
+    this.presenter = presenter;
+    presenter
+      ?.createChannels(Object.values(NOTIFICATION_CHANNELS))
+      .catch(error => {
+        console.warn('🔔 [Notification] 알림 채널 생성 실패:', error);
+      });
+  }
+
+  public async getPermission(): Promise<PermissionStatus> {
+    this.permission = await this.platform.checkPermission();
+    return this.permission;
+  }
+
+  // 알림 권한 요청 (이미 거부해 다시 물을 수 없으면 blocked)
+  public async requestPermission(): Promise<PermissionStatus> {
+    // 시스템 알림을 띄울 수 없으면 권한을 받아도 쓸 곳이 없으므로 묻지 않음
+    if (!this.presenter) {
+      return this.getPermission();
+    }
+    this.permission = await this.platform.requestPermission();
+    console.log('🔔 [Notification] 알림 권한:', this.permission);
+    return this.permission;
+  }
+
+  public notify(request: NotificationRequest): AppNotification {
+    const notification = this.createNotification(request);
+    this.deliver(notification, request.showInApp ?? true);
+    return notification;
+  }
+
+  /**
+   * 정해진 시각(ms)에 알림을 보냅니다. 이미 지난 시각이면 바로 보냅니다.
+   * 앱이 켜져 있는 동안은 타이머로, 시스템 알림 모듈이 있으면 모듈에도 함께 예약합니다.
+   */
+  public schedule(
+    request: NotificationRequest,
+    triggerAt: number,
+  ): AppNotification {
+    const notification = this.createNotification(request);
+    this.cancel(notification.id);
+
+    const entry: ScheduledNotification = {
+      notification,
+      showInApp: request.showInApp ?? true,
+      timer: setTimeout(
+        () => this.fireScheduled(notification.id),
+        Math.max(0, triggerAt - Date.now()),
+      ),
+      isPresenterScheduled: false,
+    };
+    this.scheduled.set(notification.id, entry);
+
+    this.canPresentSystem().then(canPresent => {
+      if (!canPresent || this.scheduled.get(notification.id) !== entry) {
+        return;
+      }
+      entry.isPresenterScheduled = true;
+      this.presenter?.schedule(notification, triggerAt).catch(error => {
+        entry.isPresenterScheduled = false;
+        console.warn('🔔 [Notification] 시스템 알림 예약 실패:', error);
+      });
+    });
+    return notification;
+  }
+
+  public cancel(id: string): void {
+    const entry = this.scheduled.get(id);
+    if (entry?.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.scheduled.delete(id);
+    this.missed = this.missed.filter(notification => notification.id !== id);
+    this.presenter?.cancel(id).catch(error => {
+      console.warn('🔔 [Notification] 알림 취소 실패:', error);
+    });
+  }
+
+  // 채널을 주면 그 채널의 예약/놓친 알림만 취소
+  public cancelAll(channelId?: NotificationChannelId): void {
+    const ids = new Set(
+      [
+        ...[...this.scheduled.values()].map(entry => entry.notification),
+        ...this.missed,
+      ]
+        .filter(
+          notification => !channelId || notification.channelId === channelId,
+        )
+        .map(notification => notification.id),
+    );
+    ids.forEach(id => this.cancel(id));
+  }
+
+  private isAppActive() {
+    return this.platform.getAppState() === 'active';
+  }
+
+  private createNotification(request: NotificationRequest): AppNotification {
+    const createdAt = Date.now();
+    this.sequence += 1;
+    return {
+      id: request.id ?? `${request.channelId}-${createdAt}-${this.sequence}`,
+      channelId: request.channelId,
+      title: request.title ?? NOTIFICATION_CHANNELS[request.channelId].name,
+      body: request.body,
+      level: request.level ?? 'info',
+      createdAt,
+    };
+  }
+
+  private deliver(notification: AppNotification, showInApp: boolean) {
+    if (this.isAppActive()) {
+      if (!showInApp) {
+        return;
+      }
+      if (this.toastHandler) {
+        this.toastHandler(notification.body, notification.level);
+      } else {
+        this.addMissed(notification);
+      }
+      return;
+    }
+    this.presentSystem(notification, showInApp);
+  }
+
+  private async presentSystem(
+    notification: AppNotification,
+    showInApp: boolean,
+  ) {
+    if (this.presenter && (await this.canPresentSystem())) {
+      try {
+        await this.presenter.present(notification);
+        return;
+      } catch (error) {
+        console.warn('🔔 [Notification] 시스템 알림 표시 실패:', error);
+      }
+    }
+    if (showInApp) {
+      this.addMissed(notification);
+    }
+  }
+
+  private fireScheduled(id: string) {
+    const entry = this.scheduled.get(id);
+    if (!entry) {
+      return;
+    }
+    this.scheduled.delete(id);
+    // 시스템 알림 모듈이 예약대로 띄우므로 앱이 백그라운드면 다시 보내지 않음
+    if (entry.isPresenterScheduled && !this.isAppActive()) {
+      return;
+    }
+    this.deliver(entry.notification, entry.showInApp);
+  }
+
+  private async canPresentSystem(): Promise<boolean> {
+    if (!this.presenter) {
+      return false;
+    }
+    try {
+      const permission = this.permission ?? (await this.getPermission());
+      return permission === RESULTS.GRANTED;
+    } catch (error) {
+      console.warn('🔔 [Notification] 알림 권한 확인 실패:', error);
+      return false;
+    }
+  }
+
+  private addMissed(notification: AppNotification) {
+    this.missed = [...this.missed, notification].slice(
+      -MAX_MISSED_NOTIFICATIONS,
+    );
+  }
+
+  // 놓친 알림은 가장 최근 것 하나를 토스트로 보여주고 나머지는 개수로 안내
+  private flushMissed() {
+    if (!this.toastHandler || this.missed.length === 0) {
+      return;
+    }
+    const latest = this.missed[this.missed.length - 1];
+    const others = this.missed.length - 1;
+    this.missed = [];
+    this.toastHandler(
+      others > 0 ? `${latest.body} (외 알림 ${others}개)` : latest.body,
+      latest.level,
+    );
+  }
+}
+
+const nativePlatform: NotificationPlatform = {
+  getAppState: () => AppState.currentState,
+  onAppStateChange: listener => {
+    const subscription = AppState.addEventListener('change', listener);
+    return () => subscription.remove();
+  },
+  checkPermission: async () => (await checkNotifications()).status,
+  requestPermission: async () =>
+    (await requestNotifications(['alert', 'sound', 'badge'])).status,
+};
+
+// 싱글톤 인스턴스 생성
+const notificationService = new NotificationService(nativePlatform);
+export default notificationService;
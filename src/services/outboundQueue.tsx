@@ -0,0 +1,158 @@
+// src/services/outboundQueue.tsx
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {QueueableMessage} from '../api/services/websocketProtocol';
+
+const STORAGE_KEY = 'ws-outbound-queue';
+// 보관할 최대 메시지 수 (10초 주기 위치 기준 약 80분), 넘치면 오래된 것부터 버림
+const MAX_QUEUE_SIZE = 500;
+// 한 번에 보내는 메시지 수
+const FLUSH_BATCH_SIZE = 20;
+// 배치 사이 대기 시간
+const FLUSH_BATCH_DELAY_MS = 200;
+// 이 시간 안에 같은 위치가 다시 들어오면 생략
+const DUPLICATE_LOCATION_WINDOW_MS = 30000;
+
+interface QueuedMessage {
+  key: string;
+  message: QueueableMessage;
+  enqueuedAt: number;
+}
+
+// 같은 메시지를 두 번 보관하지 않기 위한 키
+const getMessageKey = (message: QueueableMessage): string => {
+  switch (message.type) {
+    case 'location':
+      return `location:${message.data.userId}:${message.data.timestamp}`;
+  }
+};
+
+// 위치를 약 1m 단위로 비교
+const isSamePosition = (a: QueueableMessage, b: QueueableMessage) =>
+  a.type === 'location' &&
+  b.type === 'location' &&
+  a.data.latitude.toFixed(5) === b.data.latitude.toFixed(5) &&
+  a.data.longitude.toFixed(5) === b.data.longitude.toFixed(5) &&
+  Math.abs(a.data.timestamp - b.data.timestamp) < DUPLICATE_LOCATION_WINDOW_MS;
+
+/**
+ * 연결이 끊긴 동안 보내지 못한 메시지를 보관하는 큐.
+ * AsyncStorage에 저장되어 앱이 종료되어도 유지되며, 재연결 후 들어온 순서대로 나눠서 보냅니다.
+ */
+class OutboundQueue {
+  private items: QueuedMessage[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private isFlushing = false;
+
+  // 저장된 큐를 불러옵니다. 여러 번 호출해도 한 번만 읽습니다.
+  public load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = AsyncStorage.getItem(STORAGE_KEY)
+        .then(stored => {
+          if (stored) {
+            // 불러오기 전에 들어온 메시지는 뒤에 유지
+            this.items = [...JSON.parse(stored), ...this.items].slice(
+              -MAX_QUEUE_SIZE,
+            );
+            console.log(
+              `📦 [OutboundQueue] 보내지 못한 메시지 ${this.items.length}개를 불러왔습니다.`,
+            );
+          }
+        })
+        .catch(error => {
+          console.warn('📦 [OutboundQueue] 큐 불러오기 실패:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  public size(): number {
+    return this.items.length;
+  }
+
+  public enqueue(message: QueueableMessage): void {
+    const key = getMessageKey(message);
+    const last = this.items[this.items.length - 1];
+    if (
+      this.items.some(item => item.key === key) ||
+      (last && isSamePosition(last.message, message))
+    ) {
+      return;
+    }
+
+    this.items.push({key, message, enqueuedAt: Date.now()});
+    if (this.items.length > MAX_QUEUE_SIZE) {
+      this.items.splice(0, this.items.length - MAX_QUEUE_SIZE);
+    }
+    this.persist();
+  }
+
+  /**
+   * 보관된 메시지를 순서대로 보냅니다.
+   * 전송에 실패하면(연결 끊김) 멈추고 남은 메시지는 다음 재연결 때 보냅니다.
+   * @param send - 메시지 전송 함수, 전송에 성공하면 true
+   */
+  public async flush(
+    send: (message: QueueableMessage) => boolean,
+  ): Promise<void> {
+    await this.load();
+    if (this.isFlushing || this.items.length === 0) {
+      return;
+    }
+
+    this.isFlushing = true;
+    const total = this.items.length;
+    console.log(`📦 [OutboundQueue] 보관된 메시지 ${total}개 전송 시작`);
+
+    try {
+      while (this.items.length > 0) {
+        const batch = this.items.slice(0, FLUSH_BATCH_SIZE);
+        let sent = 0;
+        while (sent < batch.length && send(batch[sent].message)) {
+          sent++;
+        }
+        this.items.splice(0, sent);
+        this.persist();
+
+        if (sent < batch.length) {
+          console.warn(
+            `📦 [OutboundQueue] 전송 중 연결이 끊겨 ${this.items.length}개를 남겨둡니다.`,
+          );
+          return;
+        }
+        if (this.items.length > 0) {
+          await new Promise(resolve =>
+            setTimeout(resolve, FLUSH_BATCH_DELAY_MS),
+          );
+        }
+      }
+      console.log(`📦 [OutboundQueue] 보관된 메시지 ${total}개 전송 완료`);
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  // 로그아웃 시 다른 사용자의 위치가 전송되지 않도록 비웁니다.
+  public async clear(): Promise<void> {
+    // 불러오는 중인 큐가 비운 뒤에 되살아나지 않도록 기다림
+    await this.load();
+    this.items = [];
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.warn('📦 [OutboundQueue] 큐 삭제 실패:', error);
+    }
+  }
+
+  // 불러오기 전에 저장하면 보관된 큐를 덮어쓰므로 불러온 뒤에 저장
+  private persist(): void {
+    this.load()
+      .then(() => AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.items)))
+      .catch(error => {
+        console.warn('📦 [OutboundQueue] 큐 저장 실패:', error);
+      });
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const outboundQueue = new OutboundQueue();
+export default outboundQueue;
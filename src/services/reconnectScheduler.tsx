@@ -0,0 +1,103 @@
+// src/services/reconnectScheduler.tsx
+
+// 첫 재연결 대기 시간
+const BASE_DELAY_MS = 1000;
+// 재연결 대기 시간 상한
+const MAX_DELAY_MS = 30000;
+
+/**
+ * 지수 백오프 + 지터로 재연결 대기 시간을 계산합니다.
+ * 상한에 도달한 뒤에도 시도 횟수 제한 없이 계속 재시도하며,
+ * 여러 기기가 동시에 끊겼을 때 같은 시각에 몰리지 않도록 절반 구간에서 무작위로 고릅니다.
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  random: () => number = Math.random,
+): number => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(exponential / 2 + (random() * exponential) / 2);
+};
+
+/**
+ * 재연결 타이머를 관리하는 클래스.
+ * 예약된 재연결이 있으면 중복으로 예약하지 않고, 연결에 성공하면 시도 횟수를 초기화합니다.
+ */
+export class ReconnectScheduler {
+  private attempt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private retryAt: number | null = null;
+  private run: () => void;
+  private onChange: () => void;
+
+  /**
+   * @param run - 재연결 시도 함수
+   * @param onChange - 예약 상태가 바뀔 때 호출 (UI 상태 갱신용)
+   */
+  constructor(run: () => void, onChange: () => void) {
+    this.run = run;
+    this.onChange = onChange;
+  }
+
+  // 지금까지 실패한 재연결 시도 횟수
+  public getAttempt(): number {
+    return this.attempt;
+  }
+
+  // 다음 재연결 예정 시각 (ms), 예약된 재연결이 없으면 null
+  public getRetryAt(): number | null {
+    return this.retryAt;
+  }
+
+  public isScheduled(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * 다음 재연결을 예약합니다. 이미 예약되어 있으면 그대로 둡니다.
+   */
+  public schedule(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const delay = getBackoffDelay(this.attempt);
+    this.retryAt = Date.now() + delay;
+    console.log(
+      `🔁 [Reconnect] ${Math.ceil(delay / 1000)}초 후 재연결 (${
+        this.attempt + 1
+      }번째 시도)`,
+    );
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.retryAt = null;
+      this.attempt++;
+      this.run();
+    }, delay);
+    this.onChange();
+  }
+
+  /**
+   * 대기 중인 재연결을 취소하고 백오프를 초기화한 뒤 바로 재연결합니다.
+   * (네트워크 복구, 앱 포그라운드 전환 시)
+   */
+  public retryNow(): void {
+    this.cancel();
+    this.attempt = 0;
+    this.run();
+  }
+
+  // 연결 성공 시 시도 횟수 초기화
+  public reset(): void {
+    this.cancel();
+    this.attempt = 0;
+  }
+
+  public cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.retryAt = null;
+  }
+}
@@ -0,0 +1,58 @@
+// src/services/routeGeometry.tsx
+import {GeoPoint, fromCoordinates} from '../api/geo';
+import type {Route} from '../api/services/routeService';
+
+/**
+ * 노선을 지도에 그리기 위한 순수 함수 모음 (경로 좌표와 노선별 색상).
+ */
+
+// 노선 색상표 (내릴 정류장 강조색인 주황 계열은 피함)
+export const ROUTE_COLOR_PALETTE = [
+  '#3897F0',
+  '#18BE94',
+  '#8E6CEF',
+  '#F25656',
+  '#00A3BF',
+  '#D94C8A',
+  '#6B8E23',
+  '#5C6BC0',
+];
+
+const isPresent = (point: GeoPoint | null): point is GeoPoint => point !== null;
+
+/**
+ * 노선 경로 좌표
+ * 서버가 준 모양(shape)이 있으면 그대로 쓰고, 없으면 정류장을 순서대로 잇습니다.
+ * 좌표가 2개 미만이면 그릴 수 없으므로 빈 배열입니다.
+ */
+export const getRoutePath = (route: Route): GeoPoint[] => {
+  const shapePath = (route.shape?.coordinates ?? [])
+    .map(fromCoordinates)
+    .filter(isPresent);
+  if (shapePath.length >= 2) {
+    return shapePath;
+  }
+
+  const stationPath = [...route.stations]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map(station => station.location)
+    .filter(isPresent);
+  return stationPath.length >= 2 ? stationPath : [];
+};
+
+/**
+ * 노선 id → 색상
+ * 노선 이름순으로 색상표를 차례로 나눠 주므로 노선 목록이 같으면 어느 화면에서나 같은 색입니다.
+ */
+export const getRouteColors = (routes: Route[]): Record<string, string> =>
+  Object.fromEntries(
+    [...routes]
+      .sort(
+        (a, b) =>
+          a.routeName.localeCompare(b.routeName) || a.id.localeCompare(b.id),
+      )
+      .map((route, index) => [
+        route.id,
+        ROUTE_COLOR_PALETTE[index % ROUTE_COLOR_PALETTE.length],
+      ]),
+  );
@@ -0,0 +1,291 @@
+// src/services/routeSnapshotAggregator.tsx
+import {
+  busService,
+  BusRealTimeStatus,
+  BusStationDetail,
+} from '../api/services/busService';
+import {
+  routeService,
+  Route,
+  RouteSnapshotBus,
+} from '../api/services/routeService';
+import {stationService} from '../api/services/stationService';
+import {isApiError} from '../api/apiError';
+import {getApiBaseUrl} from '../config/environment';
+import {Eta, unknownEta} from '../api/eta';
+import type {GeoPoint} from '../api/geo';
+
+// 동시에 보내는 요청 수 제한 (버스 × 정류장 요청이 한꺼번에 몰리지 않도록)
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// 스냅샷 엔드포인트를 지원하지 않는 서버의 응답 상태 코드
+const SNAPSHOT_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+export interface StationWithBuses {
+  id: string;
+  name: string;
+  sequence: number;
+  location: GeoPoint | null;
+  buses: {
+    busNumber: string;
+    busRealNumber: string | null;
+    eta: Eta;
+    occupiedSeats: number;
+    totalSeats: number;
+  }[];
+}
+
+export interface EnhancedBusInfo extends BusRealTimeStatus {
+  nextStationName?: string | null;
+  nextStationEta?: Eta | null;
+}
+
+// 노선 화면에 필요한 전체 모델
+export interface RouteSnapshotModel {
+  route: Route;
+  stations: StationWithBuses[];
+  // 운행 중인 버스 (다음 정류장 정보 포함)
+  activeBuses: EnhancedBusInfo[];
+}
+
+type StationBusInfo = StationWithBuses['buses'][number];
+
+/**
+ * 작업을 최대 limit개씩 동시에 실행합니다. 결과 순서는 입력 순서와 같습니다.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({length: Math.min(limit, items.length)}, worker),
+  );
+  return results;
+};
+
+const isPresent = <T,>(value: T | null | undefined): value is T =>
+  value !== null && value !== undefined;
+
+/**
+ * 노선 화면(BusListPage)의 정류장별 버스 도착 정보를 한 번에 만드는 싱글톤 클래스.
+ * 서버의 노선 스냅샷 API를 우선 사용하고, 지원하지 않는 서버에서는
+ * 버스별 정류장 상세를 한 번씩만 조회해 모든 정류장이 공유하도록 합니다.
+ */
+class RouteSnapshotAggregator {
+  // 스냅샷 API를 지원하지 않는 것으로 확인된 서버 주소 (서버 프로필을 바꾸면 다시 확인)
+  private snapshotUnsupportedBaseUrls = new Set<string>();
+
+  public async build(
+    routeId: string,
+    routeName: string,
+  ): Promise<RouteSnapshotModel> {
+    const [{route, buses}, allStations] = await Promise.all([
+      this.fetchSnapshot(routeId, routeName),
+      stationService.getAllStations(),
+    ]);
+
+    const stoppedBuses = buses.filter(bus => !bus.operate);
+    if (stoppedBuses.length > 0) {
+      console.warn(
+        `⚠️ [RouteSnapshot] 운행 중지된 버스 ${stoppedBuses.length}대 제외:`,
+        stoppedBuses.map(bus => bus.busRealNumber || bus.busNumber),
+      );
+    }
+    const operatingBuses = buses.filter(bus => bus.operate);
+
+    const sortedStations = [...route.stations].sort(
+      (a, b) => a.sequence - b.sequence,
+    );
+
+    // 버스 × 정류장 조합별 도착 정보 (향하는 정류장의 시간이 없을 때만 별도 조회)
+    const pairs = operatingBuses.flatMap(bus =>
+      sortedStations.map(station => ({bus, station})),
+    );
+    const busInfos = await mapWithConcurrency(
+      pairs,
+      MAX_CONCURRENT_REQUESTS,
+      ({bus, station}) =>
+        this.resolveStationBusInfo(bus, station.stationId, station.stationName),
+    );
+
+    const stations: StationWithBuses[] = sortedStations.map(
+      (station, stationIndex) => ({
+        id: station.stationId,
+        name: station.stationName,
+        sequence: station.sequence,
+        // 정류장 목록의 좌표를 우선, 없으면 노선에 담긴 좌표
+        location:
+          allStations.find(s => s.id === station.stationId)?.location ??
+          station.location,
+        buses: operatingBuses
+          .map(
+            (_, busIndex) =>
+              busInfos[busIndex * sortedStations.length + stationIndex],
+          )
+          .filter(isPresent),
+      }),
+    );
+
+    console.log(
+      `🗺️ [RouteSnapshot] 노선 ${routeName}: 정류장 ${stations.length}개, 운행 버스 ${operatingBuses.length}대`,
+    );
+
+    return {
+      route,
+      stations,
+      activeBuses: operatingBuses.map(({stations: busStations, ...bus}) =>
+        this.withNextStation(bus, busStations),
+      ),
+    };
+  }
+
+  /**
+   * 스냅샷 API로 노선과 버스별 정류장 상세를 가져옵니다.
+   * 지원하지 않는 서버로 확인되면 그 서버에서는 이후 바로 대체 경로를 사용합니다.
+   */
+  private async fetchSnapshot(
+    routeId: string,
+    routeName: string,
+  ): Promise<{route: Route; buses: RouteSnapshotBus[]}> {
+    const baseUrl = getApiBaseUrl();
+    if (!this.snapshotUnsupportedBaseUrls.has(baseUrl)) {
+      try {
+        return await routeService.getRouteSnapshot(routeId);
+      } catch (error) {
+        if (
+          isApiError(error) &&
+          error.status !== null &&
+          SNAPSHOT_UNSUPPORTED_STATUSES.includes(error.status)
+        ) {
+          console.log(
+            '🗺️ [RouteSnapshot] 스냅샷 API 미지원 서버 - 개별 조회로 전환',
+          );
+          this.snapshotUnsupportedBaseUrls.add(baseUrl);
+        } else {
+          console.warn(
+            '🗺️ [RouteSnapshot] 스냅샷 조회 실패, 개별 조회:',
+            error,
+          );
+        }
+      }
+    }
+
+    return this.fetchSnapshotFallback(routeId, routeName);
+  }
+
+  private async fetchSnapshotFallback(
+    routeId: string,
+    routeName: string,
+  ): Promise<{route: Route; buses: RouteSnapshotBus[]}> {
+    const [route, allBuses] = await Promise.all([
+      routeService.getRouteById(routeId),
+      busService.getOperatingBuses(),
+    ]);
+    const routeBuses = allBuses.filter(bus => bus.routeName === routeName);
+
+    // 버스별 정류장 상세는 한 번만 조회해 모든 정류장에서 공유
+    const buses = await mapWithConcurrency(
+      routeBuses,
+      MAX_CONCURRENT_REQUESTS,
+      async bus => {
+        try {
+          const stations = await busService.getBusStationsDetail(bus.busNumber);
+          return {...bus, stations};
+        } catch (error) {
+          console.error(
+            `🗺️ [RouteSnapshot] 버스 ${bus.busNumber} 정류장 상세 조회 실패:`,
+            error,
+          );
+          return {...bus, stations: []};
+        }
+      },
+    );
+
+    return {route, buses};
+  }
+
+  /**
+   * 버스 한 대의 특정 정류장 도착 정보를 구합니다.
+   * 이미 지나간 정류장이거나 도착 시간을 알 수 없으면 null을 반환합니다.
+   * 도착 시간 예측 API는 버스가 향하는 정류장에만 호출해 버스당 한 번으로 제한합니다.
+   */
+  private async resolveStationBusInfo(
+    bus: RouteSnapshotBus,
+    stationId: string,
+    stationName: string,
+  ): Promise<StationBusInfo | null> {
+    const target =
+      bus.stations.find(s => s.id === stationId) ??
+      bus.stations.find(s => s.name === stationName);
+    if (!target || target.isPassed) {
+      return null;
+    }
+
+    let eta = target.eta;
+    if (eta.isUnknown && target.isCurrentStation) {
+      try {
+        const arrivalData = await stationService.getArrivalEstimate(
+          bus.busNumber,
+          stationId,
+        );
+        eta = arrivalData.eta;
+      } catch (error) {
+        console.error(
+          `카카오 API 호출 실패 for bus ${bus.busNumber} to station ${stationName}:`,
+          error,
+        );
+        eta = unknownEta('arrival-estimate');
+      }
+    }
+
+    // 다음에 향하는 정류장은 시간을 모르더라도 표시, 먼 정류장은 시간이 있을 때만 표시
+    if (!target.isCurrentStation && eta.isUnknown) {
+      return null;
+    }
+
+    return {
+      busNumber: bus.busNumber,
+      busRealNumber: bus.busRealNumber,
+      eta,
+      occupiedSeats: bus.occupiedSeats,
+      totalSeats: bus.totalSeats,
+    };
+  }
+
+  private withNextStation(
+    bus: BusRealTimeStatus,
+    busStations: BusStationDetail[],
+  ): EnhancedBusInfo {
+    const currentStationIndex = busStations.findIndex(
+      station => station.isCurrentStation,
+    );
+    const nextStation =
+      currentStationIndex >= 0 && currentStationIndex < busStations.length - 1
+        ? busStations[currentStationIndex + 1]
+        : null;
+
+    return {
+      ...bus,
+      nextStationName: nextStation?.name || null,
+      nextStationEta:
+        nextStation && !nextStation.eta.isUnknown ? nextStation.eta : null,
+      // 현재 위치는 다음에 향하고 있는 정류장으로 표시
+      currentStationName: busStations[currentStationIndex]?.name || '이동 중',
+    };
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const routeSnapshotAggregator = new RouteSnapshotAggregator();
+export default routeSnapshotAggregator;
@@ -0,0 +1,162 @@
+// src/services/serviceAlertFilters.tsx
+import type {
+  ServiceAlert,
+  ServiceAlertSeverity,
+  ServiceAlertType,
+} from '../api/services/serviceAlertService';
+import type {ToastType} from '../components/common/Toast';
+
+/**
+ * 운행 공지를 화면별로 골라내는 순수 함수 모음.
+ * 홈 배너, 노선 목록 배지, 정류장 상세 안내가 같은 기준을 쓰도록 여기에 모읍니다.
+ */
+
+export const SERVICE_ALERT_TYPE_LABELS: Record<ServiceAlertType, string> = {
+  DETOUR: '우회 운행',
+  CANCELLATION: '운행 취소',
+  DELAY: '지연',
+  NOTICE: '안내',
+};
+
+const SEVERITY_ORDER: Record<ServiceAlertSeverity, number> = {
+  CRITICAL: 2,
+  WARNING: 1,
+  INFO: 0,
+};
+
+// 공지 심각도에 맞는 토스트/알림 레벨
+export const SEVERITY_LEVELS: Record<ServiceAlertSeverity, ToastType> = {
+  CRITICAL: 'error',
+  WARNING: 'warning',
+  INFO: 'info',
+};
+
+// 시작 시각이 지났고 종료 시각 전인지 (시각을 읽을 수 없으면 진행 중으로 봄)
+export const isAlertActive = (alert: ServiceAlert, now: number): boolean => {
+  const startsAt = Date.parse(alert.startsAt);
+  const endsAt = alert.endsAt ? Date.parse(alert.endsAt) : NaN;
+  if (!Number.isNaN(startsAt) && startsAt > now) {
+    return false;
+  }
+  return Number.isNaN(endsAt) || endsAt > now;
+};
+
+// 아직 시작 전인 공지의 시작까지 남은 시간(ms), 이미 시작했거나 시각을 읽을 수 없으면 null
+export const getTimeUntilStart = (
+  alert: ServiceAlert,
+  now: number,
+): number | null => {
+  const startsAt = Date.parse(alert.startsAt);
+  return !Number.isNaN(startsAt) && startsAt > now ? startsAt - now : null;
+};
+
+// 심각한 공지 먼저, 같으면 최근에 갱신된 공지 먼저
+export const sortAlerts = (alerts: ServiceAlert[]): ServiceAlert[] =>
+  [...alerts].sort(
+    (a, b) =>
+      SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity] ||
+      Date.parse(b.updatedAt) - Date.parse(a.updatedAt),
+  );
+
+export const getHighestSeverity = (
+  alerts: ServiceAlert[],
+): ServiceAlertSeverity | null =>
+  alerts.reduce<ServiceAlertSeverity | null>(
+    (highest, alert) =>
+      highest === null ||
+      SEVERITY_ORDER[alert.severity] > SEVERITY_ORDER[highest]
+        ? alert.severity
+        : highest,
+    null,
+  );
+
+// 정류장을 지나는 노선 id 목록
+export const getRouteIdsForStation = (
+  routeStationIds: Record<string, string[]>,
+  stationId: string,
+): string[] =>
+  Object.keys(routeStationIds).filter(routeId =>
+    routeStationIds[routeId].includes(stationId),
+  );
+
+/**
+ * 노선에 걸린 공지
+ * 노선/버스 공지는 routeId로, 정류장 공지는 노선이 그 정류장을 지나는지로 판단합니다.
+ * 조직 전체 공지는 홈 배너에서만 보여줍니다.
+ */
+export const getRouteAlerts = (
+  alerts: ServiceAlert[],
+  routeId: string,
+  stationIds: string[],
+  now: number,
+): ServiceAlert[] =>
+  sortAlerts(
+    alerts.filter(
+      alert =>
+        isAlertActive(alert, now) &&
+        (alert.routeId === routeId ||
+          (alert.scope === 'STATION' &&
+            alert.stationId !== null &&
+            stationIds.includes(alert.stationId))),
+    ),
+  );
+
+/**
+ * 정류장에 걸린 공지
+ * 정류장 공지와 함께, 정류장을 지나는 노선의 공지와 정류장에 오는 버스의 공지를 포함합니다.
+ */
+export const getStationAlerts = (
+  alerts: ServiceAlert[],
+  stationId: string,
+  context: {routeIds: string[]; busNumbers: string[]},
+  now: number,
+): ServiceAlert[] =>
+  sortAlerts(
+    alerts.filter(alert => {
+      if (!isAlertActive(alert, now)) {
+        return false;
+      }
+      switch (alert.scope) {
+        case 'STATION':
+          return alert.stationId === stationId;
+        case 'ROUTE':
+          return (
+            alert.routeId !== null && context.routeIds.includes(alert.routeId)
+          );
+        case 'BUS':
+          return (
+            (alert.busNumber !== null &&
+              context.busNumbers.includes(alert.busNumber)) ||
+            (alert.routeId !== null && context.routeIds.includes(alert.routeId))
+          );
+        default:
+          return false;
+      }
+    }),
+  );
+
+/**
+ * 홈 배너에 띄울 공지
+ * 조직 전체 공지와, 범위와 관계없이 운행 취소·긴급 공지를 보여줍니다. (닫은 공지 제외)
+ */
+export const getBannerAlerts = (
+  alerts: ServiceAlert[],
+  dismissedIds: string[],
+  now: number,
+): ServiceAlert[] =>
+  sortAlerts(
+    alerts.filter(
+      alert =>
+        isAlertActive(alert, now) &&
+        !dismissedIds.includes(alert.id) &&
+        (alert.scope === 'ORGANIZATION' ||
+          alert.type === 'CANCELLATION' ||
+          alert.severity === 'CRITICAL'),
+    ),
+  );
+
+// 예: "[운행 취소] 3번 노선 · 17:30 운행 취소"
+export const formatAlertHeadline = (alert: ServiceAlert): string =>
+  `[${SERVICE_ALERT_TYPE_LABELS[alert.type]}] ${
+    alert.scopeName ? `${alert.scopeName} · ` : ''
+  }${alert.title}`;
@@ -0,0 +1,161 @@
+// src/services/serviceAlertManager.tsx
+import {
+  ServiceAlert,
+  serviceAlertService,
+} from '../api/services/serviceAlertService';
+import {routeService} from '../api/services/routeService';
+import type {ServiceAlertMessage} from '../api/services/websocketProtocol';
+import useServiceAlertStore from '../store/useServiceAlertStore';
+import GlobalWebSocketService from './globalWebSocketService';
+import notificationService from './notificationService';
+import {
+  SEVERITY_LEVELS,
+  formatAlertHeadline,
+  getTimeUntilStart,
+  isAlertActive,
+} from './serviceAlertFilters';
+
+// setTimeout이 다룰 수 있는 최대 대기 시간 (약 24일), 더 먼 공지는 이만큼 기다린 뒤 다시 예약
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * 운행 공지 싱글톤 클래스.
+ * 처음과 WebSocket 재연결 때 REST로 전체 목록을 받아오고,
+ * 그 사이의 등록/해제는 serviceAlert 메시지로 반영합니다.
+ * 새로 올라온 운행 취소와 주의 이상 공지는 serviceAlerts 채널로 알립니다.
+ * 미리 올라온 공지(시작 시각이 나중)는 시작 시각에 알립니다.
+ */
+class ServiceAlertManager {
+  // 이미 보았거나 알린 공지 id (같은 공지를 다시 알리지 않음)
+  private knownIds = new Set<string>();
+  private hasLoaded = false;
+  // 시작 시각을 기다리는 공지 id → 타이머
+  private pendingTimers = new Map<string, NodeJS.Timeout>();
+  private refreshPromise: Promise<void> | null = null;
+
+  constructor() {
+    const webSocket = GlobalWebSocketService.getInstance();
+    webSocket.onMessage('serviceAlert', this.handleMessage);
+    // 연결이 끊긴 동안 놓친 공지를 다시 받아옴
+    webSocket.onMessage('welcome', () => {
+      this.refresh();
+    });
+  }
+
+  /**
+   * 진행 중인 공지와 노선별 정류장 목록을 다시 불러옵니다.
+   * 동시에 여러 번 호출되면 진행 중인 요청 하나를 함께 기다립니다.
+   */
+  public refresh(): Promise<void> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.load().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async load() {
+    try {
+      const [alerts, routes] = await Promise.all([
+        serviceAlertService.getActiveAlerts(),
+        routeService.getAllRoutes(),
+      ]);
+      const store = useServiceAlertStore.getState();
+      store.setRouteStationIds(
+        Object.fromEntries(
+          routes.map(route => [
+            route.id,
+            route.stations.map(station => station.stationId),
+          ]),
+        ),
+      );
+      store.setAlerts(alerts);
+      // 목록에서 사라진(연결이 끊긴 동안 해제된) 공지는 기다리지 않음
+      this.pendingTimers.forEach((_, alertId) => {
+        if (!alerts.some(alert => alert.id === alertId)) {
+          this.cancelPending(alertId);
+        }
+      });
+
+      // 첫 조회에서 이미 진행 중인 공지는 배너로만 보여주고 알림은 보내지 않음
+      const now = Date.now();
+      alerts.forEach(alert =>
+        this.hasLoaded || getTimeUntilStart(alert, now) !== null
+          ? this.notifyIfNew(alert)
+          : this.knownIds.add(alert.id),
+      );
+      this.hasLoaded = true;
+      console.log(`📢 [ServiceAlert] 진행 중인 운행 공지 ${alerts.length}건`);
+    } catch (error) {
+      console.warn('📢 [ServiceAlert] 운행 공지 조회 실패:', error);
+    }
+  }
+
+  private handleMessage = (message: ServiceAlertMessage) => {
+    const store = useServiceAlertStore.getState();
+    if (message.action === 'upsert' && message.data) {
+      console.log('📢 [ServiceAlert] 운행 공지 수신:', message.data.title);
+      store.upsertAlert(message.data);
+      this.notifyIfNew(message.data);
+    } else if (message.action === 'resolve' && message.alertId) {
+      console.log('📢 [ServiceAlert] 운행 공지 해제:', message.alertId);
+      store.removeAlert(message.alertId);
+      this.knownIds.delete(message.alertId);
+      this.cancelPending(message.alertId);
+    }
+  };
+
+  private notifyIfNew(alert: ServiceAlert) {
+    if (this.knownIds.has(alert.id)) {
+      return;
+    }
+    // 시작 전인 공지는 본 것으로 두지 않고 시작 시각에 다시 확인
+    const untilStart = getTimeUntilStart(alert, Date.now());
+    if (untilStart !== null) {
+      this.schedulePending(alert.id, untilStart);
+      return;
+    }
+    this.cancelPending(alert.id);
+    this.knownIds.add(alert.id);
+
+    const isUrgent = alert.type === 'CANCELLATION' || alert.severity !== 'INFO';
+    if (!isUrgent || !isAlertActive(alert, Date.now())) {
+      return;
+    }
+    notificationService.notify({
+      channelId: 'serviceAlerts',
+      id: `service-alert-${alert.id}`,
+      title: formatAlertHeadline(alert),
+      body: alert.message,
+      level: SEVERITY_LEVELS[alert.severity],
+    });
+  }
+
+  // 시작 시각이 되면 그때의 공지(수정되었을 수 있음)로 다시 알림 여부를 정함
+  private schedulePending(alertId: string, delayMs: number) {
+    this.cancelPending(alertId);
+    const timer = setTimeout(() => {
+      this.pendingTimers.delete(alertId);
+      const alert = useServiceAlertStore
+        .getState()
+        .alerts.find(item => item.id === alertId);
+      if (alert) {
+        this.notifyIfNew(alert);
+      }
+    }, Math.min(delayMs, MAX_TIMER_DELAY_MS));
+    this.pendingTimers.set(alertId, timer);
+  }
+
+  private cancelPending(alertId: string) {
+    const timer = this.pendingTimers.get(alertId);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingTimers.delete(alertId);
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const serviceAlertManager = new ServiceAlertManager();
+export default serviceAlertManager;
@@ -0,0 +1,176 @@
+// src/services/trackingSessionManager.tsx
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import useTrackingSessionStore, {
+  TrackingSessionStatus,
+} from '../store/useTrackingSessionStore';
+
+// 위치 추적 세션 최대 길이 (2시간)
+export const TRACKING_SESSION_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// 이전 버전에서 HomePage가 직접 쓰던 키 (세션 스토어로 옮기면서 정리)
+const LEGACY_KEYS = [
+  'location_tracking_active',
+  'location_tracking_start_time',
+];
+
+type SessionChangeListener = (isActive: boolean) => void;
+
+/**
+ * 위치 추적 세션의 시작, 연장, 만료, 종료를 관리하는 싱글톤 클래스.
+ * 상태는 useTrackingSessionStore에 저장되어 앱을 다시 실행해도 유지됩니다.
+ *
+ * 백그라운드에서는 JS 타이머가 멈출 수 있으므로 만료 타이머에만 의존하지 않고,
+ * 위치를 보내기 전(isActive)과 앱 상태가 바뀔 때마다 만료 여부를 다시 확인합니다.
+ */
+class TrackingSessionManager {
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private listeners: Set<SessionChangeListener> = new Set();
+  private readyPromise: Promise<void> | null = null;
+
+  /**
+   * 저장된 세션을 불러올 때까지 기다립니다.
+   * 앱이 꺼져 있는 동안 만료된 세션은 expired로 바꿉니다.
+   */
+  public ready(): Promise<void> {
+    if (!this.readyPromise) {
+      this.readyPromise = new Promise<void>(resolve => {
+        if (useTrackingSessionStore.persist.hasHydrated()) {
+          resolve();
+          return;
+        }
+        const unsubscribe = useTrackingSessionStore.persist.onFinishHydration(
+          () => {
+            unsubscribe();
+            resolve();
+          },
+        );
+      }).then(() => {
+        AsyncStorage.multiRemove(LEGACY_KEYS).catch(() => {});
+        if (this.isActive()) {
+          this.scheduleExpiry();
+        }
+      });
+    }
+    return this.readyPromise;
+  }
+
+  /**
+   * 세션이 진행 중인지 확인합니다. 만료 시각이 지났으면 이 자리에서 만료 처리합니다.
+   */
+  public isActive(): boolean {
+    const {status, expiresAt} = useTrackingSessionStore.getState();
+    if (status !== 'active') {
+      return false;
+    }
+    if (expiresAt === null || Date.now() >= expiresAt) {
+      this.expire();
+      return false;
+    }
+    return true;
+  }
+
+  public getStatus(): TrackingSessionStatus {
+    this.isActive();
+    return useTrackingSessionStore.getState().status;
+  }
+
+  // 남은 시간 (ms), 진행 중이 아니면 0
+  public getRemainingMs(): number {
+    if (!this.isActive()) {
+      return 0;
+    }
+    const {expiresAt} = useTrackingSessionStore.getState();
+    return Math.max(0, (expiresAt ?? 0) - Date.now());
+  }
+
+  /**
+   * 새 세션을 시작합니다. 진행 중인 세션이 있으면 처음부터 다시 시작합니다.
+   */
+  public async start(): Promise<void> {
+    await this.ready();
+    const now = Date.now();
+    useTrackingSessionStore.getState().setSession({
+      status: 'active',
+      startedAt: now,
+      expiresAt: now + TRACKING_SESSION_DURATION_MS,
+    });
+    this.scheduleExpiry();
+    this.notify(true);
+  }
+
+  /**
+   * 진행 중인 세션의 만료 시각을 지금부터 2시간 뒤로 늦춥니다. (남은 시간이 2시간을 넘지 않음)
+   * 진행 중인 세션이 없으면 새로 시작합니다. 앱을 열 때마다 호출됩니다.
+   */
+  public async startOrExtend(): Promise<void> {
+    await this.ready();
+    if (!this.isActive()) {
+      await this.start();
+      return;
+    }
+    useTrackingSessionStore.getState().setSession({
+      status: 'active',
+      expiresAt: Date.now() + TRACKING_SESSION_DURATION_MS,
+    });
+    this.scheduleExpiry();
+  }
+
+  // 사용자가 세션을 종료합니다.
+  public async stop(): Promise<void> {
+    await this.ready();
+    const wasActive = useTrackingSessionStore.getState().status === 'active';
+    this.clearExpiryTimer();
+    useTrackingSessionStore.getState().setSession({
+      status: 'stopped',
+      expiresAt: null,
+    });
+    if (wasActive) {
+      this.notify(false);
+    }
+  }
+
+  /**
+   * 세션 시작/종료를 구독합니다.
+   * @returns 구독 해제 함수
+   */
+  public subscribe(listener: SessionChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private expire(): void {
+    this.clearExpiryTimer();
+    console.log(
+      '📍 [TrackingSession] 2시간이 지나 위치 추적 세션이 만료되었습니다.',
+    );
+    useTrackingSessionStore.getState().setSession({status: 'expired'});
+    this.notify(false);
+  }
+
+  private scheduleExpiry(): void {
+    this.clearExpiryTimer();
+    const {expiresAt} = useTrackingSessionStore.getState();
+    if (expiresAt === null) {
+      return;
+    }
+    this.expiryTimer = setTimeout(
+      () => this.isActive(),
+      Math.max(0, expiresAt - Date.now()),
+    );
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private notify(isActive: boolean): void {
+    this.listeners.forEach(listener => listener(isActive));
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const trackingSessionManager = new TrackingSessionManager();
+export default trackingSessionManager;
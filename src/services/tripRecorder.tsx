@@ -0,0 +1,228 @@
+// src/services/tripRecorder.tsx
+import {getDistanceMeters} from '../api/geo';
+import {isApiError} from '../api/apiError';
+import {busService} from '../api/services/busService';
+import {stationService} from '../api/services/stationService';
+import {
+  tripService,
+  TripPathPoint,
+  TripStation,
+} from '../api/services/tripService';
+import useBoardingStore from '../store/useBoardingStore';
+import useSettingsStore from '../store/useSettingsStore';
+import useTripHistoryStore from '../store/useTripHistoryStore';
+
+// 이보다 짧은 탑승은 잘못된 감지나 되돌린 입력으로 보고 저장하지 않음
+const MIN_TRIP_DURATION_MS = 60 * 1000;
+// 직전 지점과 이 거리 미만이면 경로에 추가하지 않음
+const MIN_PATH_POINT_DISTANCE_M = 15;
+// 하차 지점에서 이 거리 안의 정류장을 하차 정류장으로 봄
+const STATION_MATCH_RADIUS_M = 300;
+// 백업 엔드포인트를 지원하지 않는 서버의 응답 상태 코드
+const SYNC_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+/**
+ * 탑승 상태 변화를 따라 버스 이용 기록(탑승 ~ 하차)을 남기는 싱글톤 클래스.
+ * 기록은 useTripHistoryStore에 저장되고, 설정에서 켜면 서버에도 백업합니다.
+ */
+class TripRecorder {
+  private syncUnsupported = false;
+  private isSyncing = false;
+
+  constructor() {
+    useBoardingStore.subscribe((state, prevState) => {
+      if (state.boardedBusNumber !== prevState.boardedBusNumber) {
+        this.handleBoardingChange(
+          prevState.boardedBusNumber,
+          state.boardedBusNumber,
+        );
+      }
+    });
+    useSettingsStore.subscribe((state, prevState) => {
+      if (state.tripSyncEnabled && !prevState.tripSyncEnabled) {
+        this.syncPendingTrips();
+      }
+    });
+  }
+
+  /**
+   * 탑승 중이면 위치를 이동 경로에 추가합니다.
+   */
+  public addPathPoint(point: TripPathPoint): void {
+    const {activeTrip, appendPathPoint} = useTripHistoryStore.getState();
+    if (!activeTrip) {
+      return;
+    }
+
+    const last = activeTrip.path[activeTrip.path.length - 1];
+    if (
+      last &&
+      getDistanceMeters(
+        last.latitude,
+        last.longitude,
+        point.latitude,
+        point.longitude,
+      ) < MIN_PATH_POINT_DISTANCE_M
+    ) {
+      return;
+    }
+    appendPathPoint(point);
+  }
+
+  /**
+   * 아직 백업하지 않은 기록을 서버에 올립니다. (설정에서 백업을 켠 경우)
+   */
+  public async syncPendingTrips(): Promise<void> {
+    if (
+      !useSettingsStore.getState().tripSyncEnabled ||
+      this.syncUnsupported ||
+      this.isSyncing
+    ) {
+      return;
+    }
+
+    const pending = useTripHistoryStore
+      .getState()
+      .trips.filter(trip => trip.syncedAt === null);
+    if (pending.length === 0) {
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      await tripService.uploadTrips(pending);
+      useTripHistoryStore.getState().markSynced(
+        pending.map(trip => trip.id),
+        Date.now(),
+      );
+      console.log(`🧾 [TripRecorder] 이동 기록 ${pending.length}개 백업 완료`);
+    } catch (error) {
+      if (
+        isApiError(error) &&
+        error.status !== null &&
+        SYNC_UNSUPPORTED_STATUSES.includes(error.status)
+      ) {
+        console.log(
+          '🧾 [TripRecorder] 서버가 이동 기록 백업을 지원하지 않습니다.',
+        );
+        this.syncUnsupported = true;
+        return;
+      }
+      console.warn('🧾 [TripRecorder] 이동 기록 백업 실패:', error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private handleBoardingChange(
+    prevBusNumber: string | null,
+    busNumber: string | null,
+  ) {
+    const {activeTrip} = useTripHistoryStore.getState();
+    if (prevBusNumber) {
+      this.finishTrip(Date.now());
+    } else if (activeTrip) {
+      // 앱이 종료되어 끝내지 못한 기록은 마지막 위치 시각에 하차한 것으로 저장
+      const lastPoint = activeTrip.path[activeTrip.path.length - 1];
+      this.finishTrip(lastPoint?.timestamp ?? activeTrip.boardedAt);
+    }
+    if (busNumber) {
+      this.startTrip(busNumber);
+    }
+  }
+
+  private startTrip(busNumber: string) {
+    const boardedAt = Date.now();
+    const tripId = `${busNumber}-${boardedAt}`;
+    useTripHistoryStore.getState().startTrip({
+      id: tripId,
+      busNumber,
+      busRealNumber: null,
+      routeName: null,
+      boardedAt,
+      alightedAt: null,
+      boardingStation: null,
+      alightingStation: null,
+      path: [],
+      syncedAt: null,
+    });
+
+    // 노선과 탑승 정류장은 버스 정보에서 채움 (실패해도 기록은 유지)
+    busService
+      .getBusByNumber(busNumber)
+      .then(bus => {
+        if (useTripHistoryStore.getState().activeTrip?.id !== tripId) {
+          return;
+        }
+        useTripHistoryStore.getState().updateActiveTrip({
+          busRealNumber: bus.busRealNumber,
+          routeName: bus.routeName,
+          boardingStation: bus.currentStationName
+            ? {id: null, name: bus.currentStationName}
+            : null,
+        });
+      })
+      .catch(error => {
+        console.warn(
+          '🧾 [TripRecorder] 탑승 버스 정보를 불러오지 못했습니다:',
+          error,
+        );
+      });
+  }
+
+  private async finishTrip(alightedAt: number) {
+    const {activeTrip, finishTrip} = useTripHistoryStore.getState();
+    if (!activeTrip) {
+      return;
+    }
+
+    if (alightedAt - activeTrip.boardedAt < MIN_TRIP_DURATION_MS) {
+      finishTrip({}, true);
+      return;
+    }
+
+    const lastPoint = activeTrip.path[activeTrip.path.length - 1];
+    // 정류장 조회를 기다리는 동안 새 탑승이 시작될 수 있으므로 먼저 기록을 끝냄
+    const trip = finishTrip({alightedAt});
+    if (trip && lastPoint) {
+      const alightingStation = await this.findNearestStation(lastPoint);
+      if (alightingStation) {
+        useTripHistoryStore.getState().updateTrip(trip.id, {alightingStation});
+      }
+    }
+    this.syncPendingTrips();
+  }
+
+  private async findNearestStation(
+    point: TripPathPoint,
+  ): Promise<TripStation | null> {
+    try {
+      const stations = await stationService.getAllStations();
+      let nearest: TripStation | null = null;
+      let nearestDistance = STATION_MATCH_RADIUS_M;
+      stations.forEach(station => {
+        if (!station.location) {
+          return;
+        }
+        const distance = getDistanceMeters(
+          point.latitude,
+          point.longitude,
+          station.location.latitude,
+          station.location.longitude,
+        );
+        if (distance <= nearestDistance) {
+          nearest = {id: station.id, name: station.name};
+          nearestDistance = distance;
+        }
+      });
+      return nearest;
+    } catch (error) {
+      console.warn('🧾 [TripRecorder] 하차 정류장을 찾지 못했습니다:', error);
+      return null;
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성
+const tripRecorder = new TripRecorder();
+export default tripRecorder;
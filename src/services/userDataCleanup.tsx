@@ -0,0 +1,29 @@
+// src/services/userDataCleanup.tsx
+import authSession from '../api/authSession';
+import useArrivalAlertStore from '../store/useArrivalAlertStore';
+import useEntityStore from '../store/useEntityStore';
+import useSelectedStationStore from '../store/useSelectedStationStore';
+import useSettingsStore from '../store/useSettingsStore';
+import useTripHistoryStore from '../store/useTripHistoryStore';
+
+/**
+ * 기기에 남은 이전 사용자의 데이터를 지웁니다.
+ * 지우지 않으면 다음에 로그인한 계정(기관)이 이동 기록, 도착 알림 규칙,
+ * 이전 기관의 정류장/노선/버스를 물려받고,
+ * 백업이 켜져 있으면 tripRecorder가 새 계정으로 업로드합니다.
+ */
+export const clearUserData = (): void => {
+  useTripHistoryStore.getState().clearTrips();
+  useSettingsStore.getState().setTripSyncEnabled(false);
+  useArrivalAlertStore.getState().reset();
+  useEntityStore.getState().reset();
+  useSelectedStationStore.getState().resetSelectedStation();
+  console.log('🧹 [UserDataCleanup] 이전 사용자 데이터 삭제');
+};
+
+/**
+ * 로그아웃, 회원탈퇴, 세션 만료(authSession.signOut)마다 사용자 데이터를 지우도록 등록합니다.
+ * @returns 등록 해제 함수
+ */
+export const registerUserDataCleanup = (): (() => void) =>
+  authSession.onSignedOut(clearUserData);
@@ -0,0 +1,126 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// 하루 중 시간대 (0시부터의 분, 0~1440)
+// endMinute가 startMinute보다 작으면 자정을 넘기는 시간대 (예: 23:00 ~ 07:00)
+export interface TimeWindow {
+  startMinute: number;
+  endMinute: number;
+}
+
+/**
+ * 즐겨찾기 정류장의 도착 알림 규칙
+ * 예: "평일 08:00~09:00에 정문 정류장에 아무 버스나 5분 안으로 오면 알림"
+ */
+export interface ArrivalAlertRule {
+  id: string;
+  stationId: string;
+  stationName: string;
+  // 정류장 좌표 (실시간 버스 위치로 판단할 때 사용, 모르면 null)
+  latitude: number | null;
+  longitude: number | null;
+  // 특정 버스만 알릴 때의 버스 번호, null이면 모든 버스
+  busNumber: string | null;
+  busRealNumber: string | null;
+  // 도착 몇 분 전에 알릴지
+  minutesBefore: number;
+  // 알림을 받을 요일 (0: 일요일 ~ 6: 토요일)
+  days: number[];
+  window: TimeWindow;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type ArrivalAlertRuleInput = Omit<ArrivalAlertRule, 'id' | 'createdAt'>;
+
+// 방해 금지 시간 (이 시간에는 규칙이 맞아도 알리지 않음)
+export interface QuietHours {
+  enabled: boolean;
+  window: TimeWindow;
+}
+
+interface ArrivalAlertState {
+  rules: ArrivalAlertRule[];
+  quietHours: QuietHours;
+  addRule: (rule: ArrivalAlertRuleInput) => ArrivalAlertRule;
+  updateRule: (ruleId: string, changes: Partial<ArrivalAlertRuleInput>) => void;
+  removeRule: (ruleId: string) => void;
+  // 즐겨찾기에서 빠진 정류장의 규칙 정리
+  keepStations: (stationIds: string[]) => void;
+  setQuietHours: (changes: Partial<QuietHours>) => void;
+  // 로그아웃 시 규칙과 방해 금지 시간 초기화
+  reset: () => void;
+}
+
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  window: {startMinute: 23 * 60, endMinute: 7 * 60},
+};
+
+/**
+ * 즐겨찾기 정류장 도착 알림 규칙을 관리하는 Zustand 스토어
+ * 규칙 평가와 알림은 arrivalAlertService가 맡습니다.
+ */
+const useArrivalAlertStore = create<ArrivalAlertState>()(
+  persist(
+    (set, get) => ({
+      rules: [],
+      quietHours: DEFAULT_QUIET_HOURS,
+
+      addRule: input => {
+        const createdAt = Date.now();
+        const rule: ArrivalAlertRule = {
+          ...input,
+          id: `${input.stationId}-${createdAt}`,
+          createdAt,
+        };
+        console.log(`🔔 [ArrivalAlert] ${rule.stationName} 알림 규칙 추가`);
+        set({rules: [...get().rules, rule]});
+        return rule;
+      },
+
+      updateRule: (ruleId, changes) => {
+        set({
+          rules: get().rules.map(rule =>
+            rule.id === ruleId ? {...rule, ...changes} : rule,
+          ),
+        });
+      },
+
+      removeRule: ruleId => {
+        set({rules: get().rules.filter(rule => rule.id !== ruleId)});
+      },
+
+      keepStations: stationIds => {
+        const {rules} = get();
+        const kept = rules.filter(rule => stationIds.includes(rule.stationId));
+        if (kept.length !== rules.length) {
+          console.log(
+            `🔔 [ArrivalAlert] 즐겨찾기에서 빠진 정류장 알림 ${
+              rules.length - kept.length
+            }개 삭제`,
+          );
+          set({rules: kept});
+        }
+      },
+
+      setQuietHours: changes => {
+        console.log('🔕 [ArrivalAlert] 방해 금지 시간 변경:', changes);
+        set({quietHours: {...get().quietHours, ...changes}});
+      },
+
+      reset: () => set({rules: [], quietHours: DEFAULT_QUIET_HOURS}),
+    }),
+    {
+      name: 'arrival-alert-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        rules: state.rules,
+        quietHours: state.quietHours,
+      }),
+    },
+  ),
+);
+
+export default useArrivalAlertStore;
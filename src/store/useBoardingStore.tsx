@@ -1,30 +1,229 @@
-import { create } from 'zustand';
+import {create} from 'zustand';
+import type {Eta} from '../api/eta';
+
+// 탑승 단계
+// - idle: 정류장이나 버스와 관계없는 상태
+// - approachingStop: 정류장에 다가가는 중
+// - waiting: 정류장에서 버스를 기다리는 중
+// - boardingSuspected: 버스와 함께 움직이기 시작해 탑승을 확인하는 중
+// - boarded: 탑승 중
+// - alightingSuspected: 탑승한 버스와 멀어지기 시작해 하차를 확인하는 중
+// - alighted: 방금 하차함
+export type BoardingPhase =
+  | 'idle'
+  | 'approachingStop'
+  | 'waiting'
+  | 'boardingSuspected'
+  | 'boarded'
+  | 'alightingSuspected'
+  | 'alighted';
+
+// 상태를 정한 쪽 (서버 감지, 기기 추정, 사용자 직접 입력)
+export type BoardingSource = 'server' | 'client' | 'manual';
+
+// 기다리는 정류장에 가장 먼저 도착할 버스
+export interface ExpectedBus {
+  busNumber: string;
+  busRealNumber: string | null;
+  eta: Eta;
+}
+
+export interface BoardingStatus {
+  phase: BoardingPhase;
+  // 탑승 확인 중/탑승/하차 확인 중/하차한 버스
+  busNumber: string | null;
+  // 다가가거나 기다리는 정류장
+  stationId: string | null;
+  stationName: string | null;
+  // 기다리는 중일 때 가장 먼저 도착할 버스
+  expectedBus: ExpectedBus | null;
+  // 이 단계에 들어온 시각 (ms)
+  enteredAt: number;
+  // 마지막으로 갱신한 시각 (ms)
+  updatedAt: number;
+  // 0~1
+  confidence: number;
+  source: BoardingSource | null;
+}
+
+export type BoardingStatusChanges = Partial<
+  Pick<
+    BoardingStatus,
+    | 'busNumber'
+    | 'stationId'
+    | 'stationName'
+    | 'expectedBus'
+    | 'confidence'
+    | 'source'
+  >
+>;
+
+// 단계별로 옮겨갈 수 있는 다음 단계 (같은 단계로의 전이는 정보 갱신으로 항상 허용)
+const ALLOWED_TRANSITIONS: Record<BoardingPhase, BoardingPhase[]> = {
+  idle: ['approachingStop', 'waiting', 'boardingSuspected', 'boarded'],
+  approachingStop: ['idle', 'waiting', 'boardingSuspected', 'boarded'],
+  waiting: ['idle', 'approachingStop', 'boardingSuspected', 'boarded'],
+  boardingSuspected: ['idle', 'approachingStop', 'waiting', 'boarded'],
+  boarded: ['alightingSuspected', 'alighted'],
+  alightingSuspected: ['boarded', 'alighted'],
+  alighted: [
+    'idle',
+    'approachingStop',
+    'waiting',
+    'boardingSuspected',
+    'boarded',
+  ],
+};
+
+// 화면에 표시할 단계 이름
+export const BOARDING_PHASE_LABELS: Record<BoardingPhase, string> = {
+  idle: '대기',
+  approachingStop: '정류장으로 이동 중',
+  waiting: '버스 기다리는 중',
+  boardingSuspected: '탑승 확인 중',
+  boarded: '탑승중',
+  alightingSuspected: '하차 확인 중',
+  alighted: '하차 완료',
+};
+
+export const canTransition = (from: BoardingPhase, to: BoardingPhase) =>
+  from === to || ALLOWED_TRANSITIONS[from].includes(to);
+
+// 버스에 타고 있는 것으로 보는 단계 (하차 확인 중에도 하차가 확정되기 전까지는 탑승 중)
+export const isBoardedPhase = (phase: BoardingPhase) =>
+  phase === 'boarded' || phase === 'alightingSuspected';
+
+// 해당 버스에 대한 탑승 단계 (탑승 확인 중, 탑승중, 하차 확인 중), 관계없으면 null
+export const getBusBoardingPhase = (
+  status: BoardingStatus,
+  busNumber: string,
+): BoardingPhase | null =>
+  status.busNumber === busNumber &&
+  (status.phase === 'boardingSuspected' || isBoardedPhase(status.phase))
+    ? status.phase
+    : null;
+
+const createIdleStatus = (now: number = Date.now()): BoardingStatus => ({
+  phase: 'idle',
+  busNumber: null,
+  stationId: null,
+  stationName: null,
+  expectedBus: null,
+  enteredAt: now,
+  updatedAt: now,
+  confidence: 1,
+  source: null,
+});
 
 interface BoardingState {
-  // 내가 현재 탑승한 버스의 번호. 안 탔으면 null
+  status: BoardingStatus;
+  // 내가 현재 탑승한 버스의 번호. 안 탔으면 null (status에서 계산)
   boardedBusNumber: string | null;
-  // 탑승 여부를 쉽게 확인하기 위한 boolean 값
+  // 탑승 여부를 쉽게 확인하기 위한 boolean 값 (status에서 계산)
   isBoarded: boolean;
+  /**
+   * 다음 단계로 옮깁니다. 허용되지 않는 전이는 기록만 남기고 무시합니다.
+   * 버스/정류장 정보는 다음 단계에 맞게 넘긴 값으로 바뀌고, 넘기지 않으면 이어받습니다.
+   * @returns 전이했으면 true
+   */
+  transition: (
+    phase: BoardingPhase,
+    changes?: BoardingStatusChanges,
+  ) => boolean;
   // 특정 버스에 탑승했음을 상태에 기록하는 액션
-  boardBus: (busNumber: string) => void;
+  boardBus: (
+    busNumber: string,
+    source?: BoardingSource,
+    confidence?: number,
+  ) => boolean;
   // 버스에서 하차했음을 상태에 기록하는 액션
-  alightBus: () => void;
+  alightBus: (source?: BoardingSource, confidence?: number) => boolean;
+  // 검증 없이 이전 상태로 되돌림 (직접 입력 실패 시 롤백)
+  restoreStatus: (status: BoardingStatus) => void;
+  reset: () => void;
 }
 
+const deriveBoarding = (status: BoardingStatus) => {
+  const isBoarded = isBoardedPhase(status.phase);
+  return {
+    status,
+    isBoarded,
+    boardedBusNumber: isBoarded ? status.busNumber : null,
+  };
+};
+
 /**
  * 사용자의 버스 탑승 상태를 관리하는 Zustand 스토어
+ * 정류장 접근 ~ 하차까지의 단계를 상태 기계로 관리하며,
+ * 기존 화면과의 호환을 위해 isBoarded / boardedBusNumber도 함께 제공합니다.
  */
-const useBoardingStore = create<BoardingState>((set) => ({
-  boardedBusNumber: null,
-  isBoarded: false,
-  boardBus: (busNumber) => {
-    console.log(`🚌 [BoardingState] ${busNumber} 버스에 탑승합니다.`);
-    set({ boardedBusNumber: busNumber, isBoarded: true });
+const useBoardingStore = create<BoardingState>((set, get) => ({
+  ...deriveBoarding(createIdleStatus()),
+
+  transition: (phase, changes = {}) => {
+    const current = get().status;
+    if (!canTransition(current.phase, phase)) {
+      console.warn(
+        `🚫 [BoardingState] 허용되지 않는 전이: ${current.phase} → ${phase}`,
+      );
+      return false;
+    }
+
+    const now = Date.now();
+    const isSamePhase = current.phase === phase;
+    const keepsBus =
+      phase === 'boardingSuspected' ||
+      isBoardedPhase(phase) ||
+      phase === 'alighted';
+    const keepsStation = phase === 'approachingStop' || phase === 'waiting';
+    const next: BoardingStatus = {
+      phase,
+      busNumber: keepsBus ? current.busNumber : null,
+      stationId: keepsStation ? current.stationId : null,
+      stationName: keepsStation ? current.stationName : null,
+      expectedBus: phase === 'waiting' ? current.expectedBus : null,
+      confidence: current.confidence,
+      source: current.source,
+      ...changes,
+      enteredAt: current.enteredAt,
+      updatedAt: now,
+    };
+    // 같은 단계라도 버스나 정류장이 바뀌면 새 단계로 봄
+    const isNewStage =
+      !isSamePhase ||
+      next.busNumber !== current.busNumber ||
+      next.stationId !== current.stationId;
+
+    if (isNewStage) {
+      next.enteredAt = now;
+      console.log(
+        `🚌 [BoardingState] ${current.phase} → ${phase}`,
+        [
+          next.busNumber && `버스 ${next.busNumber}`,
+          next.stationName && `정류장 ${next.stationName}`,
+          next.source && `출처 ${next.source}`,
+          `신뢰도 ${next.confidence.toFixed(2)}`,
+        ]
+          .filter(Boolean)
+          .join(', '),
+      );
+    }
+    set(deriveBoarding(next));
+    return true;
   },
-  alightBus: () => {
-    console.log(`🚶 [BoardingState] 버스에서 하차합니다.`);
-    set({ boardedBusNumber: null, isBoarded: false });
+
+  boardBus: (busNumber, source = 'server', confidence = 1) =>
+    get().transition('boarded', {busNumber, source, confidence}),
+
+  alightBus: (source = 'server', confidence = 1) =>
+    get().transition('alighted', {source, confidence}),
+
+  restoreStatus: status => {
+    console.log(`↩️ [BoardingState] ${status.phase} 상태로 되돌립니다.`);
+    set(deriveBoarding({...status, updatedAt: Date.now()}));
   },
+
+  reset: () => set(deriveBoarding(createIdleStatus())),
 }));
 
-export default useBoardingStore;
\ No newline at end of file
+export default useBoardingStore;
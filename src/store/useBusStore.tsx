@@ -9,6 +9,8 @@ export interface BusPosition {
   latitude: number;
   longitude: number;
   operate: boolean;
+  // 운행 노선 이름 (전체 목록 동기화로만 알 수 있어 실시간 보고에는 없음)
+  routeName?: string | null;
 }
 
 // 스토어 상태 및 액션 타입 정의
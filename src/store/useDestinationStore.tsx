@@ -0,0 +1,62 @@
+import {create} from 'zustand';
+
+// 하차 알림 단계 (정류장이 가까워질수록 강하게 알림)
+// - twoStopsBefore: 두 정류장 전
+// - oneStopBefore: 다음 정류장이 목적지
+// - arrived: 목적지 도착
+export type DestinationAlertLevel =
+  | 'twoStopsBefore'
+  | 'oneStopBefore'
+  | 'arrived';
+
+export interface Destination {
+  // 목적지를 정한 탑승 버스
+  busNumber: string;
+  stationId: string;
+  stationName: string;
+  // 노선상 순서 (BusStationDetail.sequence)
+  sequence: number;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface DestinationState {
+  destination: Destination | null;
+  // 목적지까지 남은 정류장 수 (모르면 null)
+  remainingStops: number | null;
+  // 마지막으로 알린 단계 (같은 단계를 두 번 알리지 않음)
+  lastAlertLevel: DestinationAlertLevel | null;
+  setDestination: (destination: Destination) => void;
+  setProgress: (
+    remainingStops: number | null,
+    lastAlertLevel: DestinationAlertLevel | null,
+  ) => void;
+  clearDestination: () => void;
+}
+
+/**
+ * 하차 알림 목적지를 관리하는 Zustand 스토어
+ * 탑승 중에만 의미가 있으므로 저장하지 않고, 하차하면 destinationAlertService가 비웁니다.
+ */
+const useDestinationStore = create<DestinationState>(set => ({
+  destination: null,
+  remainingStops: null,
+  lastAlertLevel: null,
+
+  setDestination: destination => {
+    console.log(
+      `🔔 [DestinationState] ${destination.busNumber} 버스 목적지: ${destination.stationName}`,
+    );
+    set({destination, remainingStops: null, lastAlertLevel: null});
+  },
+
+  setProgress: (remainingStops, lastAlertLevel) =>
+    set({remainingStops, lastAlertLevel}),
+
+  clearDestination: () => {
+    console.log('🔔 [DestinationState] 목적지 해제');
+    set({destination: null, remainingStops: null, lastAlertLevel: null});
+  },
+}));
+
+export default useDestinationStore;
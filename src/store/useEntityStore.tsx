@@ -0,0 +1,157 @@
+// src/store/useEntityStore.tsx
+import {create} from 'zustand';
+import type {Station} from '../api/services/stationService';
+import type {Route} from '../api/services/routeService';
+import type {BusRealTimeStatus} from '../api/services/busService';
+
+/**
+ * 서버에서 받은 정류장/노선/버스를 id로 한 곳에 모아 두는 정규화 스토어.
+ * 서비스가 응답을 받을 때마다 채우고 화면은 아래 selector로 읽으므로,
+ * 한 화면에서 받은 정류장을 다른 화면도 다시 요청하지 않고 같은 객체로 씁니다.
+ * (버스의 실시간 위치는 WebSocket으로 자주 바뀌므로 useBusStore에서 따로 관리)
+ */
+
+type EntityMap<T> = Record<string, T>;
+
+interface EntityState {
+  stations: EntityMap<Station>;
+  routes: EntityMap<Route>;
+  // 버스 번호 → 버스
+  buses: EntityMap<BusRealTimeStatus>;
+
+  // 받은 항목만 반영 (일부만 담긴 응답도 기존 정보를 지우지 않음)
+  upsertStations: (stations: Station[]) => void;
+  upsertRoutes: (routes: Route[]) => void;
+  upsertBuses: (buses: BusRealTimeStatus[]) => void;
+  // 전체 목록으로 교체 (서버에서 사라진 항목 정리)
+  replaceStations: (stations: Station[]) => void;
+  replaceRoutes: (routes: Route[]) => void;
+  replaceBuses: (buses: BusRealTimeStatus[]) => void;
+  removeStation: (stationId: string) => void;
+  removeRoute: (routeId: string) => void;
+  reset: () => void;
+}
+
+/**
+ * 정류장 정보 합치기
+ * 노선이나 버스 경로에 담긴 정류장은 좌표나 기관 id가 빠져 있을 수 있어 기존 값을 유지합니다.
+ * 바뀐 것이 없으면 기존 객체를 그대로 돌려주어 화면이 다시 그려지지 않게 합니다.
+ */
+export const mergeStation = (
+  existing: Station | undefined,
+  incoming: Station,
+): Station => {
+  const merged: Station = {
+    id: incoming.id,
+    name: incoming.name,
+    location: incoming.location ?? existing?.location ?? null,
+    organizationId: incoming.organizationId ?? existing?.organizationId,
+  };
+  if (
+    existing &&
+    existing.name === merged.name &&
+    existing.organizationId === merged.organizationId &&
+    existing.location?.latitude === merged.location?.latitude &&
+    existing.location?.longitude === merged.location?.longitude
+  ) {
+    return existing;
+  }
+  return merged;
+};
+
+// 바뀐 정류장이 없으면 기존 맵을 그대로 돌려줌 (캐시된 목록을 다시 받아도 화면이 그대로)
+const mergeStations = (
+  current: EntityMap<Station>,
+  stations: Station[],
+  replace = false,
+): EntityMap<Station> => {
+  const next: EntityMap<Station> = replace ? {} : {...current};
+  let changed = false;
+  stations.forEach(station => {
+    const merged = mergeStation(current[station.id], station);
+    changed ||= merged !== current[station.id];
+    next[station.id] = merged;
+  });
+  if (replace) {
+    changed ||= Object.keys(current).length !== Object.keys(next).length;
+  }
+  return changed ? next : current;
+};
+
+const toMap = <T,>(items: T[], getId: (item: T) => string): EntityMap<T> =>
+  Object.fromEntries(items.map(item => [getId(item), item]));
+
+const withoutKey = <T,>(map: EntityMap<T>, key: string): EntityMap<T> => {
+  const next = {...map};
+  delete next[key];
+  return next;
+};
+
+const useEntityStore = create<EntityState>(set => ({
+  stations: {},
+  routes: {},
+  buses: {},
+
+  upsertStations: stations =>
+    set(state => ({stations: mergeStations(state.stations, stations)})),
+
+  upsertRoutes: routes =>
+    set(state => ({
+      routes: {...state.routes, ...toMap(routes, route => route.id)},
+    })),
+
+  upsertBuses: buses =>
+    set(state => ({
+      buses: {...state.buses, ...toMap(buses, bus => bus.busNumber)},
+    })),
+
+  replaceStations: stations =>
+    set(state => ({stations: mergeStations(state.stations, stations, true)})),
+
+  replaceRoutes: routes => set({routes: toMap(routes, route => route.id)}),
+
+  replaceBuses: buses => set({buses: toMap(buses, bus => bus.busNumber)}),
+
+  removeStation: stationId =>
+    set(state => ({stations: withoutKey(state.stations, stationId)})),
+
+  removeRoute: routeId =>
+    set(state => ({routes: withoutKey(state.routes, routeId)})),
+
+  reset: () => set({stations: {}, routes: {}, buses: {}}),
+}));
+
+// 같은 객체 맵에는 같은 배열을 돌려줌 (selector가 매번 새 배열을 만들면 화면이 계속 다시 그려짐)
+const memoizeValues = <T,>(getMap: (state: EntityState) => EntityMap<T>) => {
+  let lastMap: EntityMap<T> | null = null;
+  let lastValues: T[] = [];
+  return (state: EntityState): T[] => {
+    const map = getMap(state);
+    if (map !== lastMap) {
+      lastMap = map;
+      lastValues = Object.values(map);
+    }
+    return lastValues;
+  };
+};
+
+export const selectStationList = memoizeValues(state => state.stations);
+export const selectRouteList = memoizeValues(state => state.routes);
+export const selectBusList = memoizeValues(state => state.buses);
+
+export const selectStation =
+  (stationId: string | null | undefined) =>
+  (state: EntityState): Station | null =>
+    (stationId && state.stations[stationId]) || null;
+
+export const selectRoute =
+  (routeId: string | null | undefined) =>
+  (state: EntityState): Route | null =>
+    (routeId && state.routes[routeId]) || null;
+
+export const selectBus =
+  (busNumber: string | null | undefined) =>
+  (state: EntityState): BusRealTimeStatus | null =>
+    (busNumber && state.buses[busNumber]) || null;
+
+export default useEntityStore;
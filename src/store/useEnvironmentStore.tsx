@@ -0,0 +1,33 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {EnvironmentProfile} from '../config/environment';
+
+interface EnvironmentState {
+  // 현재 연결 대상 서버 프로필
+  profile: EnvironmentProfile;
+  setProfile: (profile: EnvironmentProfile) => void;
+}
+
+/**
+ * 서버 환경 프로필 선택을 관리하는 Zustand 스토어
+ * QA가 하나의 빌드로 여러 서버를 오갈 수 있도록 선택값을 저장합니다.
+ */
+const useEnvironmentStore = create<EnvironmentState>()(
+  persist(
+    set => ({
+      profile: 'dev',
+
+      setProfile: profile => {
+        console.log('🛠️ [EnvironmentState] 서버 프로필 변경:', profile);
+        set({profile});
+      },
+    }),
+    {
+      name: 'environment-profile-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useEnvironmentStore;
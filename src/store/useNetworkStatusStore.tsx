@@ -0,0 +1,33 @@
+import {create} from 'zustand';
+
+interface NetworkStatusState {
+  // 마지막 API 요청이 네트워크 오류로 실패했는지 여부
+  isOffline: boolean;
+  // 오프라인 상태에서 보여주고 있는 캐시 데이터의 저장 시각 (ms)
+  cachedDataTime: number | null;
+  setOnline: () => void;
+  setOffline: (cachedDataTime?: number | null) => void;
+}
+
+/**
+ * API 요청 결과로 판단한 네트워크 상태를 관리하는 Zustand 스토어
+ * 오프라인 배너 표시에 사용
+ */
+const useNetworkStatusStore = create<NetworkStatusState>(set => ({
+  isOffline: false,
+  cachedDataTime: null,
+
+  setOnline: () => set({isOffline: false, cachedDataTime: null}),
+
+  // 여러 캐시를 보여주는 경우 가장 오래된 시각을 기준으로 표시
+  setOffline: cachedDataTime =>
+    set(state => ({
+      isOffline: true,
+      cachedDataTime:
+        cachedDataTime == null
+          ? state.cachedDataTime
+          : Math.min(cachedDataTime, state.cachedDataTime ?? cachedDataTime),
+    })),
+}));
+
+export default useNetworkStatusStore;
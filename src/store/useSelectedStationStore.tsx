@@ -1,15 +1,9 @@
 import {create} from 'zustand';
 import {persist, createJSONStorage} from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Station {
-  id: string;
-  name: string;
-  location?: { 
-    x: number;
-    y: number;
-  };
-}
+import {toGeoPoint} from '../api/geo';
+import {Station, toStation} from '../api/services/stationService';
+import useEntityStore from './useEntityStore';
 
 interface SelectedStationState {
   selectedStation: Station | null;
@@ -22,8 +16,12 @@ const useSelectedStationStore = create<SelectedStationState>()(
     set => ({
       selectedStation: null,
 
+      // 다른 화면에서도 같은 정류장을 쓰도록 엔티티 스토어에도 반영
       setSelectedStation: station => {
-        set({selectedStation: station});
+        if (station) {
+          useEntityStore.getState().upsertStations([toStation(station)]);
+        }
+        set({selectedStation: station && toStation(station)});
       },
 
       resetSelectedStation: () => {
@@ -33,6 +31,21 @@ const useSelectedStationStore = create<SelectedStationState>()(
     {
       name: 'selected-station-storage',
       storage: createJSONStorage(() => AsyncStorage),
+      // 1: location을 {x(경도), y(위도)}에서 GeoPoint로 변경
+      version: 1,
+      migrate: persistedState => {
+        const state = persistedState as SelectedStationState;
+        if (!state?.selectedStation) {
+          return state;
+        }
+        return {
+          ...state,
+          selectedStation: {
+            ...state.selectedStation,
+            location: toGeoPoint(state.selectedStation.location),
+          },
+        };
+      },
     },
   ),
 );
@@ -0,0 +1,79 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {ServiceAlert} from '../api/services/serviceAlertService';
+
+interface ServiceAlertState {
+  alerts: ServiceAlert[];
+  // 노선별 경유 정류장 id (정류장 공지를 노선에, 노선 공지를 정류장에 연결할 때 사용)
+  routeStationIds: Record<string, string[]>;
+  // 홈 배너에서 닫은 공지 id (다시 보이지 않음)
+  dismissedIds: string[];
+  // 서버에서 받은 전체 목록으로 교체
+  setAlerts: (alerts: ServiceAlert[]) => void;
+  upsertAlert: (alert: ServiceAlert) => void;
+  removeAlert: (alertId: string) => void;
+  setRouteStationIds: (routeStationIds: Record<string, string[]>) => void;
+  dismissAlert: (alertId: string) => void;
+}
+
+/**
+ * 운행 공지(우회, 운행 취소, 지연)를 관리하는 Zustand 스토어
+ * 목록은 serviceAlertManager가 REST 조회와 WebSocket 푸시로 채웁니다.
+ * 닫은 공지 id만 기기에 저장합니다.
+ */
+const useServiceAlertStore = create<ServiceAlertState>()(
+  persist(
+    (set, get) => ({
+      alerts: [],
+      routeStationIds: {},
+      dismissedIds: [],
+
+      setAlerts: alerts => {
+        // 이미 끝난 공지의 닫음 기록은 정리
+        const alertIds = alerts.map(alert => alert.id);
+        set({
+          alerts,
+          dismissedIds: get().dismissedIds.filter(id => alertIds.includes(id)),
+        });
+      },
+
+      upsertAlert: alert => {
+        const {alerts} = get();
+        const exists = alerts.some(item => item.id === alert.id);
+        set({
+          alerts: exists
+            ? alerts.map(item => (item.id === alert.id ? alert : item))
+            : [...alerts, alert],
+        });
+      },
+
+      removeAlert: alertId => {
+        set({
+          alerts: get().alerts.filter(alert => alert.id !== alertId),
+          dismissedIds: get().dismissedIds.filter(id => id !== alertId),
+        });
+      },
+
+      setRouteStationIds: routeStationIds => {
+        set({routeStationIds});
+      },
+
+      dismissAlert: alertId => {
+        const {dismissedIds} = get();
+        if (!dismissedIds.includes(alertId)) {
+          set({dismissedIds: [...dismissedIds, alertId]});
+        }
+      },
+    }),
+    {
+      name: 'service-alert-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        dismissedIds: state.dismissedIds,
+      }),
+    },
+  ),
+);
+
+export default useServiceAlertStore;
@@ -0,0 +1,41 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+interface SettingsState {
+  // 배터리 절약 모드 (위치 확인 주기를 늘리고 정확도를 낮춤)
+  batterySaver: boolean;
+  setBatterySaver: (enabled: boolean) => void;
+  // 이동 기록을 서버에 백업할지
+  tripSyncEnabled: boolean;
+  setTripSyncEnabled: (enabled: boolean) => void;
+}
+
+/**
+ * 사용자 앱 설정을 관리하는 Zustand 스토어
+ */
+const useSettingsStore = create<SettingsState>()(
+  persist(
+    set => ({
+      batterySaver: false,
+
+      setBatterySaver: enabled => {
+        console.log('⚙️ [SettingsState] 배터리 절약 모드:', enabled);
+        set({batterySaver: enabled});
+      },
+
+      tripSyncEnabled: false,
+
+      setTripSyncEnabled: enabled => {
+        console.log('⚙️ [SettingsState] 이동 기록 백업:', enabled);
+        set({tripSyncEnabled: enabled});
+      },
+    }),
+    {
+      name: 'settings-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useSettingsStore;
@@ -1,20 +1,8 @@
 import { create } from 'zustand';
+import type { Station } from '../api/services/stationService';
 
-// 핵심 타입 정의
-export interface Station {
-  id: string;
-  name: string;
-  location?: {
-    x: number;
-    y: number;
-  };
-}
-
-// 스토어 상태 타입 정의 (필수 기능만)
+// 스토어 상태 타입 정의 (필수 기능만, 정류장 목록은 useEntityStore)
 interface StoreState {
-  stations: Station[];
-  setStations: (stations: Station[]) => void;
-  
   // 검색 관련
   searchQuery: string;
   setSearchQuery: (query: string) => void;
@@ -27,12 +15,10 @@ interface StoreState {
 // 스토어 생성
 const useStore = create<StoreState>((set) => ({
   // 초기 상태
-  stations: [],
   searchQuery: '',
   filteredStations: [],
 
   // 액션
-  setStations: (stations) => set({ stations }),
   setSearchQuery: (query) => set({ searchQuery: query }),
   setFilteredStations: (stations) => set({ filteredStations: stations }),
 }));
@@ -0,0 +1,53 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// 위치 추적 세션 상태
+// - idle: 아직 시작하지 않음
+// - active: 위치 공유 중
+// - expired: 2시간이 지나 자동 종료됨
+// - stopped: 사용자가 종료함 (로그아웃 포함)
+export type TrackingSessionStatus = 'idle' | 'active' | 'expired' | 'stopped';
+
+interface TrackingSessionState {
+  status: TrackingSessionStatus;
+  // 세션 시작 시각 (ms)
+  startedAt: number | null;
+  // 세션 만료 예정 시각 (ms)
+  expiresAt: number | null;
+  setSession: (session: {
+    status: TrackingSessionStatus;
+    startedAt?: number | null;
+    expiresAt?: number | null;
+  }) => void;
+}
+
+/**
+ * 위치 추적 세션 상태를 저장하는 Zustand 스토어
+ * 상태 변경은 trackingSessionManager를 통해서만 하고, 화면에서는 읽기만 합니다.
+ */
+const useTrackingSessionStore = create<TrackingSessionState>()(
+  persist(
+    set => ({
+      status: 'idle',
+      startedAt: null,
+      expiresAt: null,
+
+      setSession: session => {
+        console.log('📍 [TrackingSession] 상태 변경:', session.status);
+        set(session);
+      },
+    }),
+    {
+      name: 'tracking-session-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        status: state.status,
+        startedAt: state.startedAt,
+        expiresAt: state.expiresAt,
+      }),
+    },
+  ),
+);
+
+export default useTrackingSessionStore;
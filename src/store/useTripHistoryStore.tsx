@@ -0,0 +1,108 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {Trip, TripPathPoint} from '../api/services/tripService';
+
+// 보관하는 최대 이동 기록 수 (오래된 것부터 삭제)
+const MAX_TRIPS = 200;
+// 이동 기록 하나에 보관하는 최대 경로 지점 수
+const MAX_PATH_POINTS = 720;
+
+interface TripHistoryState {
+  // 끝난 이동 기록 (최신순)
+  trips: Trip[];
+  // 탑승 중인 이동 기록
+  activeTrip: Trip | null;
+  startTrip: (trip: Trip) => void;
+  updateActiveTrip: (changes: Partial<Trip>) => void;
+  appendPathPoint: (point: TripPathPoint) => void;
+  // 탑승 중인 기록을 끝내고 목록에 추가 (discard가 true면 버림)
+  finishTrip: (changes: Partial<Trip>, discard?: boolean) => Trip | null;
+  updateTrip: (tripId: string, changes: Partial<Trip>) => void;
+  markSynced: (tripIds: string[], syncedAt: number) => void;
+  clearTrips: () => void;
+}
+
+/**
+ * 버스 이용 기록을 관리하는 Zustand 스토어
+ * 기록은 tripRecorder가 탑승 상태 변화에 맞춰 만들고, 화면에서는 읽기만 합니다.
+ */
+const useTripHistoryStore = create<TripHistoryState>()(
+  persist(
+    (set, get) => ({
+      trips: [],
+      activeTrip: null,
+
+      startTrip: trip => {
+        console.log(`🧾 [TripHistory] ${trip.busNumber} 버스 이동 기록 시작`);
+        set({activeTrip: trip});
+      },
+
+      updateActiveTrip: changes => {
+        const {activeTrip} = get();
+        if (activeTrip) {
+          set({activeTrip: {...activeTrip, ...changes}});
+        }
+      },
+
+      appendPathPoint: point => {
+        const {activeTrip} = get();
+        if (activeTrip) {
+          set({
+            activeTrip: {
+              ...activeTrip,
+              path: [...activeTrip.path, point].slice(-MAX_PATH_POINTS),
+            },
+          });
+        }
+      },
+
+      finishTrip: (changes, discard = false) => {
+        const {activeTrip, trips} = get();
+        if (!activeTrip) {
+          return null;
+        }
+        if (discard) {
+          console.log(
+            `🧾 [TripHistory] ${activeTrip.busNumber} 이동 기록 취소`,
+          );
+          set({activeTrip: null});
+          return null;
+        }
+
+        const trip = {...activeTrip, ...changes};
+        console.log(`🧾 [TripHistory] ${trip.busNumber} 버스 이동 기록 저장`);
+        set({activeTrip: null, trips: [trip, ...trips].slice(0, MAX_TRIPS)});
+        return trip;
+      },
+
+      updateTrip: (tripId, changes) => {
+        set({
+          trips: get().trips.map(trip =>
+            trip.id === tripId ? {...trip, ...changes} : trip,
+          ),
+        });
+      },
+
+      markSynced: (tripIds, syncedAt) => {
+        set({
+          trips: get().trips.map(trip =>
+            tripIds.includes(trip.id) ? {...trip, syncedAt} : trip,
+          ),
+        });
+      },
+
+      clearTrips: () => set({trips: [], activeTrip: null}),
+    }),
+    {
+      name: 'trip-history-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        trips: state.trips,
+        activeTrip: state.activeTrip,
+      }),
+    },
+  ),
+);
+
+export default useTripHistoryStore;